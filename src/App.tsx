@@ -1,7 +1,5 @@
 import React, { useEffect } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { HelmetProvider } from 'react-helmet-async';
 
 // Store initialization
@@ -12,12 +10,45 @@ import { initializeTheme } from '@/stores/themeStore';
 import { AppLayout } from '@/components/layout/AppLayout';
 
 // Route components
-import { ProtectedRoute, PublicRoute, AdminRoute, VendorRoute, RestaurantRoute } from '@/components/common/ProtectedRoute';
+import { ProtectedRoute, PublicRoute, AdminRoute, VendorRoute, RestaurantRoute, PermissionRoute } from '@/components/common/ProtectedRoute';
+import PwaUpdatePrompt from '@/components/common/PwaUpdatePrompt';
 
 // Authentication pages
 import LoginPage from '@/pages/auth/LoginPage';
 import RegisterPage from '@/pages/auth/RegisterPage';
 import ForgotPasswordPage from '@/pages/auth/ForgotPasswordPage';
+import OfflinePage from '@/pages/public/OfflinePage';
+import NotificationsPage from '@/pages/common/NotificationsPage';
+import OrderInvoice from '@/pages/common/OrderInvoice';
+import AccountStatements from '@/pages/common/AccountStatements';
+import CreditAccounts from '@/pages/common/CreditAccounts';
+import Profile from '@/pages/common/Profile';
+
+// Vendor pages
+import OrderManagement from '@/pages/vendor/OrderManagement';
+import OrderDetail from '@/pages/vendor/OrderDetail';
+import ListingEditor from '@/pages/vendor/ListingEditor';
+import ListingManagement from '@/pages/vendor/ListingManagement';
+import Receivables from '@/pages/vendor/Receivables';
+import DeliverySlots from '@/pages/vendor/DeliverySlots';
+import DeliveryRoutes from '@/pages/vendor/DeliveryRoutes';
+
+// Restaurant pages
+import BrowseProducts from '@/pages/restaurant/BrowseProducts';
+import Cart from '@/pages/restaurant/Cart';
+import Checkout from '@/pages/restaurant/Checkout';
+import StandingOrders from '@/pages/restaurant/StandingOrders';
+import AddressBook from '@/pages/restaurant/AddressBook';
+import Branches from '@/pages/restaurant/Branches';
+import SpendDashboard from '@/pages/restaurant/SpendDashboard';
+import OrderTracking from '@/pages/restaurant/OrderTracking';
+import TeamManagement from '@/pages/restaurant/TeamManagement';
+import OrderApprovals from '@/pages/restaurant/OrderApprovals';
+import PaymentCallback from '@/pages/restaurant/PaymentCallback';
+import MockWallet from '@/pages/restaurant/MockWallet';
+
+import { useNotificationChannel } from '@/hooks/useNotifications';
+import { COMMON_ROUTES, FEATURES, PERMISSIONS, PUBLIC_ROUTES, RESTAURANT_ROUTES, VENDOR_ROUTES } from '@/constants';
 
 // Placeholder dashboard components (to be implemented later)
 const DashboardHome = () => (
@@ -101,23 +132,6 @@ const LandingPage = () => (
   </div>
 );
 
-// Create Query Client
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      staleTime: 5 * 60 * 1000, // 5 minutes
-      refetchOnWindowFocus: false,
-      retry: (failureCount, error: any) => {
-        // Don't retry on authentication errors
-        if (error?.status === 401 || error?.status === 403) {
-          return false;
-        }
-        return failureCount < 3;
-      },
-    },
-  },
-});
-
 const App: React.FC = () => {
   const { initialize } = useAuthStore();
 
@@ -127,84 +141,384 @@ const App: React.FC = () => {
     initializeTheme();
   }, [initialize]);
 
+  // Live notifications for the signed-in user
+  useNotificationChannel();
+
   return (
     <HelmetProvider>
-      <QueryClientProvider client={queryClient}>
-        <div className="min-h-screen bg-white">
-          <Routes>
-            {/* Public Routes */}
-            <Route 
-              path="/" 
-              element={
-                <PublicRoute>
-                  <LandingPage />
-                </PublicRoute>
-              } 
-            />
-            
-            {/* Authentication Routes */}
-            <Route 
-              path="/auth/login" 
-              element={
-                <PublicRoute>
-                  <LoginPage />
-                </PublicRoute>
-              } 
-            />
-            <Route 
-              path="/auth/register" 
-              element={
-                <PublicRoute>
-                  <RegisterPage />
-                </PublicRoute>
-              } 
-            />
-            <Route 
-              path="/auth/forgot-password" 
-              element={
-                <PublicRoute>
-                  <ForgotPasswordPage />
-                </PublicRoute>
-              } 
-            />
-
-            {/* Protected Routes */}
-            <Route 
-              path="/dashboard" 
-              element={
-                <ProtectedRoute>
+      <div className="min-h-screen bg-white">
+        <Routes>
+          {/* Public Routes */}
+          <Route 
+            path="/" 
+            element={
+              <PublicRoute>
+                <LandingPage />
+              </PublicRoute>
+            } 
+          />
+          
+          {/* Authentication Routes */}
+          <Route 
+            path="/auth/login" 
+            element={
+              <PublicRoute>
+                <LoginPage />
+              </PublicRoute>
+            } 
+          />
+          <Route 
+            path="/auth/register" 
+            element={
+              <PublicRoute>
+                <RegisterPage />
+              </PublicRoute>
+            } 
+          />
+          <Route 
+            path="/auth/forgot-password" 
+            element={
+              <PublicRoute>
+                <ForgotPasswordPage />
+              </PublicRoute>
+            } 
+          />
+
+          {/* Protected Routes */}
+          <Route 
+            path="/dashboard" 
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <DashboardHome />
+                </AppLayout>
+              </ProtectedRoute>
+            } 
+          />
+
+          {/* Role-based Protected Routes */}
+          <Route path="/admin/dashboard" element={<AdminDashboard />} />
+          <Route path="/vendor/dashboard" element={<VendorDashboard />} />
+          <Route path="/restaurant/dashboard" element={<RestaurantDashboard />} />
+
+          {/* Vendor Routes */}
+          <Route
+            path={VENDOR_ROUTES.ORDERS}
+            element={
+              <VendorRoute>
+                <AppLayout>
+                  <OrderManagement />
+                </AppLayout>
+              </VendorRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.ORDER_DETAIL(':orderId')}
+            element={
+              <VendorRoute>
+                <AppLayout>
+                  <OrderDetail />
+                </AppLayout>
+              </VendorRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.ORDER_INVOICE(':orderId')}
+            element={
+              <VendorRoute>
+                <AppLayout>
+                  <OrderInvoice />
+                </AppLayout>
+              </VendorRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.STATEMENTS}
+            element={
+              <PermissionRoute permissions={PERMISSIONS.VIEW_PAYMENTS}>
+                <AppLayout>
+                  <AccountStatements />
+                </AppLayout>
+              </PermissionRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.CREDIT}
+            element={
+              <PermissionRoute permissions={PERMISSIONS.VIEW_PAYMENTS}>
+                <AppLayout>
+                  <CreditAccounts />
+                </AppLayout>
+              </PermissionRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.RECEIVABLES}
+            element={
+              <VendorRoute>
+                <PermissionRoute permissions={PERMISSIONS.VIEW_PAYMENTS}>
+                  <AppLayout>
+                    <Receivables />
+                  </AppLayout>
+                </PermissionRoute>
+              </VendorRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.DELIVERY_SLOTS}
+            element={
+              <VendorRoute>
+                <PermissionRoute permissions={PERMISSIONS.MANAGE_DELIVERY_SLOTS}>
+                  <AppLayout>
+                    <DeliverySlots />
+                  </AppLayout>
+                </PermissionRoute>
+              </VendorRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.DELIVERY_ROUTES}
+            element={
+              <VendorRoute>
+                <PermissionRoute permissions={PERMISSIONS.UPDATE_ORDER_STATUS}>
                   <AppLayout>
-                    <DashboardHome />
+                    <DeliveryRoutes />
                   </AppLayout>
-                </ProtectedRoute>
-              } 
-            />
-
-            {/* Role-based Protected Routes */}
-            <Route path="/admin/dashboard" element={<AdminDashboard />} />
-            <Route path="/vendor/dashboard" element={<VendorDashboard />} />
-            <Route path="/restaurant/dashboard" element={<RestaurantDashboard />} />
-
-            {/* Fallback Routes */}
-            <Route path="/unauthorized" element={
-              <div className="flex items-center justify-center min-h-screen">
-                <div className="text-center">
-                  <h1 className="text-2xl font-bold text-tomato-red mb-4">Unauthorized</h1>
-                  <p className="text-text-muted">You don't have permission to access this resource.</p>
-                </div>
+                </PermissionRoute>
+              </VendorRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.LISTINGS}
+            element={
+              <VendorRoute>
+                <AppLayout>
+                  <ListingManagement />
+                </AppLayout>
+              </VendorRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.LISTINGS_CREATE}
+            element={
+              <VendorRoute>
+                <AppLayout>
+                  <ListingEditor />
+                </AppLayout>
+              </VendorRoute>
+            }
+          />
+          <Route
+            path={VENDOR_ROUTES.LISTINGS_EDIT(':listingId')}
+            element={
+              <VendorRoute>
+                <AppLayout>
+                  <ListingEditor />
+                </AppLayout>
+              </VendorRoute>
+            }
+          />
+
+          {/* Restaurant Routes */}
+          <Route
+            path={RESTAURANT_ROUTES.BROWSE}
+            element={
+              <RestaurantRoute>
+                <AppLayout>
+                  <BrowseProducts />
+                </AppLayout>
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.BROWSE_CATEGORY(':categoryId')}
+            element={
+              <RestaurantRoute>
+                <AppLayout>
+                  <BrowseProducts />
+                </AppLayout>
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.CART}
+            element={
+              <RestaurantRoute>
+                <AppLayout>
+                  <Cart />
+                </AppLayout>
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.CHECKOUT}
+            element={
+              <RestaurantRoute>
+                <AppLayout>
+                  <Checkout />
+                </AppLayout>
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.STANDING_ORDERS}
+            element={
+              <RestaurantRoute>
+                <AppLayout>
+                  <StandingOrders />
+                </AppLayout>
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.ADDRESSES}
+            element={
+              <RestaurantRoute>
+                <AppLayout>
+                  <AddressBook />
+                </AppLayout>
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.BRANCHES}
+            element={
+              <PermissionRoute permissions={PERMISSIONS.MANAGE_RESTAURANT}>
+                <AppLayout>
+                  <Branches />
+                </AppLayout>
+              </PermissionRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.SPEND_REPORT}
+            element={
+              <PermissionRoute permissions={PERMISSIONS.VIEW_ANALYTICS}>
+                <AppLayout>
+                  <SpendDashboard />
+                </AppLayout>
+              </PermissionRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.ORDER_TRACKING(':orderId')}
+            element={
+              <RestaurantRoute>
+                <AppLayout>
+                  <OrderTracking />
+                </AppLayout>
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.ORDER_INVOICE(':orderId')}
+            element={
+              <RestaurantRoute>
+                <AppLayout>
+                  <OrderInvoice />
+                </AppLayout>
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.STATEMENTS}
+            element={
+              <PermissionRoute permissions={PERMISSIONS.VIEW_PAYMENTS}>
+                <AppLayout>
+                  <AccountStatements />
+                </AppLayout>
+              </PermissionRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.CREDIT}
+            element={
+              <PermissionRoute permissions={PERMISSIONS.VIEW_PAYMENTS}>
+                <AppLayout>
+                  <CreditAccounts />
+                </AppLayout>
+              </PermissionRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.PAYMENT_CALLBACK}
+            element={
+              <RestaurantRoute>
+                <AppLayout>
+                  <PaymentCallback />
+                </AppLayout>
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.MOCK_WALLET}
+            element={
+              <RestaurantRoute>
+                <MockWallet />
+              </RestaurantRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.APPROVALS}
+            element={
+              <PermissionRoute permissions={PERMISSIONS.APPROVE_ORDERS}>
+                <AppLayout>
+                  <OrderApprovals />
+                </AppLayout>
+              </PermissionRoute>
+            }
+          />
+          <Route
+            path={RESTAURANT_ROUTES.TEAM}
+            element={
+              <PermissionRoute permissions={PERMISSIONS.MANAGE_TEAM}>
+                <AppLayout>
+                  <TeamManagement />
+                </AppLayout>
+              </PermissionRoute>
+            }
+          />
+
+          {/* Shared Routes */}
+          <Route
+            path={COMMON_ROUTES.NOTIFICATIONS}
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <NotificationsPage />
+                </AppLayout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path={COMMON_ROUTES.PROFILE}
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <Profile />
+                </AppLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          {/* Fallback Routes */}
+          <Route path={PUBLIC_ROUTES.OFFLINE} element={<OfflinePage />} />
+          <Route path="/unauthorized" element={
+            <div className="flex items-center justify-center min-h-screen">
+              <div className="text-center">
+                <h1 className="text-2xl font-bold text-tomato-red mb-4">Unauthorized</h1>
+                <p className="text-text-muted">You don't have permission to access this resource.</p>
               </div>
-            } />
-            
-            {/* Catch all - redirect to home */}
-            <Route path="*" element={<Navigate to="/" replace />} />
-          </Routes>
-        </div>
-        
-        {/* React Query Devtools (only in development) */}
-        {process.env.NODE_ENV === 'development' && (
-          <ReactQueryDevtools initialIsOpen={false} />
-        )}
-      </QueryClientProvider>
+            </div>
+          } />
+          
+          {/* Catch all - redirect to home */}
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+      </div>
+
+      {/* Service worker registration and update prompt */}
+      {FEATURES.pwa && <PwaUpdatePrompt />}
     </HelmetProvider>
   );
 };
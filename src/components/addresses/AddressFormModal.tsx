@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { Button, FormField, Modal } from '@/components/ui';
+import { AddressPicker } from '@/components/ui/AddressPicker';
+import {
+  useCreateSavedAddress,
+  useLocateAddress,
+  useUpdateSavedAddress,
+} from '@/hooks/useAddresses';
+import { Address, AddressDraft, Coordinates, SavedAddress } from '@/types';
+import { AddressFormatter, AddressValidationResult } from '@/utils';
+import { cn } from '@/utils/cn';
+import MapPinPicker from './MapPinPicker';
+
+interface AddressFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  savedAddress?: SavedAddress | null | undefined; // edit mode when set
+  initialAddress?: Address | undefined; // create mode prefill, e.g. the restaurant address
+  addresses: SavedAddress[]; // the rest of the book, to catch duplicates
+}
+
+const fieldClass =
+  'w-full px-4 py-3 border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+export const AddressFormModal: React.FC<AddressFormModalProps> = ({
+  isOpen,
+  onClose,
+  savedAddress,
+  initialAddress,
+  addresses,
+}) => {
+  const createMutation = useCreateSavedAddress();
+  const updateMutation = useUpdateSavedAddress();
+  const locateAddress = useLocateAddress();
+
+  const [label, setLabel] = useState('');
+  const [draft, setDraft] = useState<AddressDraft>({});
+  const [coordinates, setCoordinates] = useState<Coordinates | undefined>();
+  const [deliveryNotes, setDeliveryNotes] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+  const [errors, setErrors] = useState<AddressValidationResult['errors']>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const address = savedAddress?.address || initialAddress;
+    setLabel(savedAddress?.label || '');
+    setDraft(address ? { ...address } : {});
+    setCoordinates(address?.coordinates);
+    setDeliveryNotes(savedAddress?.deliveryNotes || '');
+    // The first address in the book becomes the default
+    setIsDefault(savedAddress ? savedAddress.isDefault : addresses.length === 0);
+    setErrors({});
+    setFormError(null);
+  }, [isOpen, savedAddress, initialAddress, addresses.length]);
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const validate = (): boolean => {
+    const validation = AddressFormatter.validateAddress(draft);
+    setErrors(validation.errors);
+    return validation.isValid;
+  };
+
+  const handleLocate = () => {
+    if (!validate()) return;
+    locateAddress.mutate(AddressFormatter.normalizeAddress(draft), {
+      onSuccess: located => {
+        if (located) setCoordinates(located);
+      },
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!label.trim()) {
+      setFormError('Give this address a label, e.g. "Gulshan branch"');
+      return;
+    }
+    if (!validate()) return;
+
+    const duplicate = addresses.find(
+      entry => entry.id !== savedAddress?.id && AddressFormatter.isSameAddress(draft, entry.address)
+    );
+    if (duplicate) {
+      setFormError(`Already in your address book as "${duplicate.label}"`);
+      return;
+    }
+
+    const data = {
+      label: label.trim(),
+      address: AddressFormatter.normalizeAddress({ ...draft, coordinates }),
+      ...(deliveryNotes.trim() && { deliveryNotes: deliveryNotes.trim() }),
+      isDefault,
+    };
+
+    if (savedAddress) {
+      updateMutation.mutate({ id: savedAddress.id, data }, { onSuccess: onClose });
+    } else {
+      createMutation.mutate(data, { onSuccess: onClose });
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={savedAddress ? 'Edit Address' : 'New Address'}
+      size="xl"
+    >
+      <div className="space-y-6">
+        <FormField label="Label" required>
+          <input
+            value={label}
+            onChange={e => {
+              setLabel(e.target.value);
+              setFormError(null);
+            }}
+            placeholder="e.g. Gulshan branch"
+            disabled={isPending}
+            className={fieldClass}
+          />
+        </FormField>
+
+        <AddressPicker
+          value={draft}
+          onChange={address => {
+            setDraft(address);
+            setErrors({});
+            setFormError(null);
+          }}
+          errors={errors}
+          disabled={isPending}
+        />
+
+        <FormField
+          label="Map Pin"
+          helperText="Drivers navigate to the pin, so place it on the delivery entrance"
+        >
+          <div className="space-y-2">
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<Search className="w-4 h-4" />}
+              onClick={handleLocate}
+              loading={locateAddress.isPending}
+              disabled={isPending}
+            >
+              Find on Map
+            </Button>
+            <MapPinPicker value={coordinates} onChange={setCoordinates} disabled={isPending} />
+          </div>
+        </FormField>
+
+        <FormField label="Delivery Notes (Optional)">
+          <textarea
+            value={deliveryNotes}
+            onChange={e => setDeliveryNotes(e.target.value)}
+            rows={2}
+            placeholder="e.g. Use the back gate, call the kitchen manager on arrival"
+            disabled={isPending}
+            className={cn(fieldClass, 'resize-none')}
+          />
+        </FormField>
+
+        <label
+          htmlFor="saved-address-default"
+          className="flex items-center gap-2 text-sm text-text-dark cursor-pointer"
+        >
+          <input
+            id="saved-address-default"
+            type="checkbox"
+            checked={isDefault}
+            onChange={e => setIsDefault(e.target.checked)}
+            disabled={isPending || !!savedAddress?.isDefault}
+            className="rounded border-gray-300 text-bottle-green focus:ring-bottle-green"
+          />
+          Use as the default delivery address
+        </label>
+
+        {formError && <p className="text-sm text-earthy-brown">{formError}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} loading={isPending}>
+            {savedAddress ? 'Save Changes' : 'Save Address'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default AddressFormModal;
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Crosshair, Minus, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { MAP_DEFAULT_CENTER, MAP_PIN_ZOOM, MAP_TILE_SIZE } from '@/constants';
+import { toast } from '@/stores/notificationStore';
+import { Coordinates } from '@/types';
+import { getVisibleTiles, projectCoordinates, unprojectPoint } from '@/utils';
+
+interface MapPinPickerProps {
+  value?: Coordinates | undefined;
+  onChange: (coordinates: Coordinates | undefined) => void;
+  disabled?: boolean;
+}
+
+// Drawing size; the SVG scales to its container
+const WIDTH = 600;
+const HEIGHT = 300;
+// From the whole city down to individual buildings
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 18;
+const NUDGE_PIXELS = 8; // how far an arrow key moves the pin at the current zoom
+
+const ARROW_OFFSETS: Record<string, [number, number]> = {
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+};
+
+/**
+ * Map for placing an address's delivery pin: click to drop it, arrow keys to
+ * nudge it. Uses the same raster tiles as the route map.
+ */
+export const MapPinPicker: React.FC<MapPinPickerProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const [zoom, setZoom] = useState(MAP_PIN_ZOOM);
+  const [center, setCenter] = useState<Coordinates>(value || MAP_DEFAULT_CENTER);
+  const [isLocating, setIsLocating] = useState(false);
+
+  // Follow pins placed from outside, e.g. by looking the address up
+  useEffect(() => {
+    if (value) setCenter(value);
+  }, [value]);
+
+  const centerPoint = projectCoordinates(center, zoom);
+  const originX = centerPoint.x - WIDTH / 2;
+  const originY = centerPoint.y - HEIGHT / 2;
+  const tiles = getVisibleTiles({ x: originX, y: originY }, WIDTH, HEIGHT, zoom);
+  const pin = value && projectCoordinates(value, zoom);
+
+  const placePin = (coordinates: Coordinates) => {
+    onChange(coordinates);
+    setCenter(coordinates);
+  };
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    placePin(
+      unprojectPoint(
+        {
+          x: originX + ((e.clientX - rect.left) * WIDTH) / rect.width,
+          y: originY + ((e.clientY - rect.top) * HEIGHT) / rect.height,
+        },
+        zoom
+      )
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      if (!value) placePin(center);
+      return;
+    }
+
+    const offset = ARROW_OFFSETS[e.key];
+    if (!offset) return;
+    e.preventDefault();
+    const from = projectCoordinates(value || center, zoom);
+    placePin(
+      unprojectPoint(
+        { x: from.x + offset[0] * NUDGE_PIXELS, y: from.y + offset[1] * NUDGE_PIXELS },
+        zoom
+      )
+    );
+  };
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location unavailable', 'Location is not supported by this browser');
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setIsLocating(false);
+        placePin({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+      },
+      () => {
+        setIsLocating(false);
+        toast.error('Location unavailable', 'Allow location access to use your position');
+      },
+      { timeout: 10000 }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto rounded-xl bg-gray-100 cursor-crosshair focus:outline-none focus:ring-2 focus:ring-bottle-green/40"
+          role="button"
+          tabIndex={disabled ? -1 : 0}
+          aria-label={
+            value
+              ? 'Delivery pin placed. Use the arrow keys to move it.'
+              : 'Click the map or press Enter to drop the delivery pin.'
+          }
+          onClick={handleClick}
+          onKeyDown={handleKeyDown}
+        >
+          {tiles.map(({ x, y, url }) => (
+            <image
+              key={`${x}:${y}`}
+              href={url}
+              x={x * MAP_TILE_SIZE - originX}
+              y={y * MAP_TILE_SIZE - originY}
+              width={MAP_TILE_SIZE}
+              height={MAP_TILE_SIZE}
+            />
+          ))}
+
+          {pin && (
+            <g transform={`translate(${pin.x - originX} ${pin.y - originY})`}>
+              <path
+                d="M0 0 L-9 -16 A11 11 0 1 1 9 -16 Z"
+                strokeWidth={2}
+                className="fill-tomato-red stroke-white"
+              />
+              <circle cy={-22} r={4} className="fill-white" />
+            </g>
+          )}
+        </svg>
+
+        <div className="absolute top-2 right-2 flex flex-col gap-1">
+          <button
+            type="button"
+            onClick={() => setZoom(current => Math.min(current + 1, MAX_ZOOM))}
+            disabled={zoom >= MAX_ZOOM}
+            className="p-1.5 rounded-lg bg-white shadow-sm text-text-dark hover:bg-gray-50 disabled:opacity-50"
+            aria-label="Zoom in"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setZoom(current => Math.max(current - 1, MIN_ZOOM))}
+            disabled={zoom <= MIN_ZOOM}
+            className="p-1.5 rounded-lg bg-white shadow-sm text-text-dark hover:bg-gray-50 disabled:opacity-50"
+            aria-label="Zoom out"
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="text-text-muted">
+          {value
+            ? `Pinned at ${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}`
+            : 'No pin yet. Click the map where deliveries should arrive.'}
+        </p>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            leftIcon={<Crosshair className="w-4 h-4" />}
+            onClick={handleUseMyLocation}
+            loading={isLocating}
+            disabled={disabled}
+          >
+            Use My Location
+          </Button>
+          {value && (
+            <Button
+              size="sm"
+              variant="ghost"
+              leftIcon={<X className="w-4 h-4" />}
+              onClick={() => onChange(undefined)}
+              disabled={disabled}
+            >
+              Remove Pin
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MapPinPicker;
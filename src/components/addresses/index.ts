@@ -0,0 +1,3 @@
+// Restaurant delivery address book components
+export { default as AddressFormModal } from './AddressFormModal';
+export { default as MapPinPicker } from './MapPinPicker';
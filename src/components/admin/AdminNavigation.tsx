@@ -15,15 +15,22 @@ import {
 } from 'lucide-react';
 import { cn } from '@/utils/cn';
 import { useAuthStore } from '@/stores/authStore';
+import { usePermissions } from '@/hooks/usePermission';
+import { Permission, PERMISSIONS } from '@/constants';
 
 interface AdminNavItemProps {
   to: string;
   icon: React.ComponentType<{ className?: string }>;
   label: string;
-  badge?: number;
+  badge?: number | undefined;
   isActive?: boolean;
 }
 
+interface AdminNavEntry extends Omit<AdminNavItemProps, 'isActive'> {
+  exact?: boolean;
+  permission?: Permission;
+}
+
 const AdminNavItem: React.FC<AdminNavItemProps> = ({ 
   to, 
   icon: Icon, 
@@ -64,6 +71,7 @@ const AdminNavItem: React.FC<AdminNavItemProps> = ({
 export const AdminNavigation: React.FC = () => {
   const location = useLocation();
   const { user } = useAuthStore();
+  const { can } = usePermissions();
 
   // Check if user has admin role
   if (!user || user.role !== 'admin') {
@@ -74,7 +82,7 @@ export const AdminNavigation: React.FC = () => {
     return location.pathname === path || location.pathname.startsWith(path + '/');
   };
 
-  const adminNavItems = [
+  const adminNavItems: AdminNavEntry[] = [
     {
       to: '/admin',
       icon: LayoutDashboard,
@@ -84,43 +92,51 @@ export const AdminNavigation: React.FC = () => {
     {
       to: '/admin/users',
       icon: Users,
-      label: 'User Management'
+      label: 'User Management',
+      permission: PERMISSIONS.VIEW_USERS
     },
     {
       to: '/admin/vendor-approvals',
       icon: UserCheck,
       label: 'Vendor Approvals',
-      badge: 5 // This would come from API data
+      badge: 5, // This would come from API data
+      permission: PERMISSIONS.APPROVE_VENDORS
     },
     {
       to: '/admin/products',
       icon: Package,
-      label: 'Products'
+      label: 'Products',
+      permission: PERMISSIONS.MANAGE_PRODUCTS
     },
     {
       to: '/admin/categories',
       icon: Tags,
-      label: 'Categories'
+      label: 'Categories',
+      permission: PERMISSIONS.MANAGE_CATEGORIES
     },
     {
       to: '/admin/orders',
       icon: ShoppingBag,
-      label: 'Orders'
+      label: 'Orders',
+      permission: PERMISSIONS.VIEW_ALL_ORDERS
     },
     {
       to: '/admin/vendors',
       icon: Store,
-      label: 'Vendors'
+      label: 'Vendors',
+      permission: PERMISSIONS.VIEW_USERS
     },
     {
       to: '/admin/analytics',
       icon: BarChart3,
-      label: 'Analytics'
+      label: 'Analytics',
+      permission: PERMISSIONS.VIEW_SYSTEM_ANALYTICS
     },
     {
       to: '/admin/reports',
       icon: FileText,
-      label: 'Reports'
+      label: 'Reports',
+      permission: PERMISSIONS.EXPORT_DATA
     },
     {
       to: '/admin/notifications',
@@ -130,7 +146,8 @@ export const AdminNavigation: React.FC = () => {
     {
       to: '/admin/settings',
       icon: Settings,
-      label: 'Settings'
+      label: 'Settings',
+      permission: PERMISSIONS.MANAGE_SETTINGS
     }
   ];
 
@@ -142,7 +159,7 @@ export const AdminNavigation: React.FC = () => {
         </h3>
       </div>
       
-      {adminNavItems.map((item) => (
+      {adminNavItems.filter(item => !item.permission || can(item.permission)).map((item) => (
         <AdminNavItem
           key={item.to}
           to={item.to}
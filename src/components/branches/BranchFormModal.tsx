@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Button, FormField, Modal } from '@/components/ui';
+import { AddressPicker } from '@/components/ui/AddressPicker';
+import { PhoneInput } from '@/components/ui/PhoneInput';
+import { useCreateBranch, useUpdateBranch } from '@/hooks/useBranches';
+import { AddressDraft, RestaurantBranch } from '@/types';
+import { AddressFormatter, AddressValidationResult, PhoneValidator } from '@/utils';
+
+interface BranchFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  branch?: RestaurantBranch | null | undefined; // edit mode when set
+  branches: RestaurantBranch[]; // the other branches, to catch duplicate names
+}
+
+const fieldClass =
+  'w-full px-4 py-3 border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+export const BranchFormModal: React.FC<BranchFormModalProps> = ({
+  isOpen,
+  onClose,
+  branch,
+  branches,
+}) => {
+  const createMutation = useCreateBranch();
+  const updateMutation = useUpdateBranch();
+
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [draft, setDraft] = useState<AddressDraft>({});
+  const [errors, setErrors] = useState<AddressValidationResult['errors']>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName(branch?.name || '');
+    setPhone(branch?.phone || '');
+    setDraft(branch ? { ...branch.address } : {});
+    setErrors({});
+    setFormError(null);
+  }, [isOpen, branch]);
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const getFormError = (): string | null => {
+    const trimmed = name.trim();
+    if (!trimmed) return 'Give the branch a name, e.g. "Banani"';
+    const duplicate = branches.find(
+      existing =>
+        existing.id !== branch?.id && existing.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) return `You already have a branch called "${duplicate.name}"`;
+    if (phone && !PhoneValidator.validate(phone).isValid) return 'Enter a valid phone number';
+    return null;
+  };
+
+  const handleSubmit = () => {
+    const error = getFormError();
+    setFormError(error);
+    const validation = AddressFormatter.validateAddress(draft);
+    setErrors(validation.errors);
+    if (error || !validation.isValid) return;
+
+    const data = {
+      name: name.trim(),
+      address: AddressFormatter.normalizeAddress(draft),
+      ...(phone && { phone }),
+    };
+
+    if (branch) {
+      updateMutation.mutate({ id: branch.id, data }, { onSuccess: onClose });
+    } else {
+      createMutation.mutate(data, { onSuccess: onClose });
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={branch ? `Edit ${branch.name}` : 'New Branch'}
+      size="lg"
+    >
+      <div className="space-y-6">
+        <FormField label="Branch Name" required>
+          <input
+            value={name}
+            onChange={e => {
+              setName(e.target.value);
+              setFormError(null);
+            }}
+            placeholder="e.g. Banani"
+            disabled={isPending}
+            className={fieldClass}
+          />
+        </FormField>
+
+        <FormField label="Phone (Optional)" helperText="Vendors call this number about deliveries">
+          <PhoneInput
+            value={phone}
+            onChange={value => {
+              setPhone(value);
+              setFormError(null);
+            }}
+            disabled={isPending}
+          />
+        </FormField>
+
+        <AddressPicker
+          value={draft}
+          onChange={address => {
+            setDraft(address);
+            setErrors({});
+          }}
+          errors={errors}
+          disabled={isPending}
+        />
+
+        {formError && <p className="text-sm text-earthy-brown">{formError}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} loading={isPending}>
+            {branch ? 'Save Changes' : 'Add Branch'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default BranchFormModal;
@@ -0,0 +1,2 @@
+// Restaurant branch components
+export { default as BranchFormModal } from './BranchFormModal';
@@ -0,0 +1,161 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { CartIssue, CartIssueType } from '@/hooks/useCartReconciliation';
+import { useCartStore } from '@/stores/cartStore';
+import { NumberFormatter } from '@/utils';
+import { cn } from '@/utils/cn';
+
+interface CartReconciliationPanelProps {
+  issues: CartIssue[];
+  isReconciling: boolean;
+  unverifiedCount?: number;
+  onRecheck: () => void;
+  className?: string;
+}
+
+const ISSUE_TITLES: Record<CartIssueType, string> = {
+  unavailable: 'Unavailable',
+  expired: 'Expired',
+  price_changed: 'Price changed',
+  insufficient_stock: 'Not enough stock',
+  below_minimum: 'Below minimum order',
+  above_maximum: 'Above maximum order',
+};
+
+export const CartReconciliationPanel: React.FC<CartReconciliationPanelProps> = ({
+  issues,
+  isReconciling,
+  unverifiedCount = 0,
+  onRecheck,
+  className,
+}) => {
+  const acceptCurrentPrice = useCartStore(state => state.acceptCurrentPrice);
+  const updateQuantity = useCartStore(state => state.updateQuantity);
+  const removeItem = useCartStore(state => state.removeItem);
+
+  const priceChanges = issues.filter(issue => issue.type === 'price_changed');
+
+  if (issues.length === 0) {
+    return (
+      <div
+        className={cn(
+          'flex items-center justify-between gap-3 p-4 rounded-2xl bg-mint-fresh/10 text-sm',
+          className
+        )}
+      >
+        <span className="flex items-center gap-2 text-bottle-green">
+          {isReconciling ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <CheckCircle2 className="w-4 h-4" />
+          )}
+          {isReconciling
+            ? 'Checking latest prices and stock...'
+            : unverifiedCount > 0
+              ? `Prices and stock confirmed, except ${unverifiedCount} item${unverifiedCount === 1 ? '' : 's'} we could not reach`
+              : 'Prices and stock are up to date'}
+        </span>
+        {!isReconciling && (
+          <Button size="sm" variant="ghost" onClick={onRecheck}>
+            Re-check
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <section
+      className={cn(
+        'p-4 rounded-2xl border border-earthy-yellow/40 bg-earthy-yellow/10',
+        className
+      )}
+      aria-live="polite"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="w-5 h-5 text-earthy-brown mt-0.5" />
+          <div>
+            <h2 className="font-semibold text-text-dark">
+              {issues.length} cart change{issues.length === 1 ? '' : 's'} need your review
+            </h2>
+            <p className="text-sm text-text-muted">
+              Vendors have updated these listings since you added them.
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {priceChanges.length > 1 && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => priceChanges.forEach(issue => acceptCurrentPrice(issue.item.id))}
+            >
+              Accept All Prices
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            leftIcon={<RefreshCw className={cn('w-3 h-3', isReconciling && 'animate-spin')} />}
+            onClick={onRecheck}
+            disabled={isReconciling}
+          >
+            Re-check
+          </Button>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {issues.map(issue => {
+          const { item } = issue;
+          const { unit } = item.listing.product;
+
+          return (
+            <li
+              key={`${item.id}-${issue.type}`}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-white rounded-xl"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-text-dark">
+                  {item.listing.product.name}
+                  <span className="ml-2 text-xs font-normal text-earthy-brown">
+                    {ISSUE_TITLES[issue.type]}
+                  </span>
+                </p>
+                <p className="text-sm text-text-muted">{issue.message}</p>
+              </div>
+
+              <div className="flex gap-2 flex-shrink-0">
+                {issue.type === 'price_changed' && (
+                  <Button size="sm" onClick={() => acceptCurrentPrice(item.id)}>
+                    Accept Price
+                  </Button>
+                )}
+                {issue.suggestedQuantity !== undefined && (
+                  <Button
+                    size="sm"
+                    onClick={() => updateQuantity(item.id, issue.suggestedQuantity as number)}
+                  >
+                    Change to {NumberFormatter.formatQuantity(issue.suggestedQuantity, unit)}
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-tomato-red hover:bg-tomato-red/5 hover:text-tomato-red"
+                  onClick={() => removeItem(item.id)}
+                >
+                  Remove
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default CartReconciliationPanel;
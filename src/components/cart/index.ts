@@ -0,0 +1,2 @@
+// Cart review components
+export { default as CartReconciliationPanel } from './CartReconciliationPanel';
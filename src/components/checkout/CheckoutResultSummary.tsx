@@ -0,0 +1,145 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, CheckCircle2, ChevronRight, CloudOff } from 'lucide-react';
+import { Button, Card } from '@/components/ui';
+import { VendorOrderResult } from '@/hooks/useOrders';
+import { RESTAURANT_ROUTES } from '@/constants';
+import { CurrencyFormatter } from '@/utils';
+
+interface CheckoutResultSummaryProps {
+  results: VendorOrderResult[];
+  vendorNames: Record<string, string>;
+  onRetry: () => void;
+}
+
+export const CheckoutResultSummary: React.FC<CheckoutResultSummaryProps> = ({
+  results,
+  vendorNames,
+  onRetry,
+}) => {
+  const placed = results.filter(
+    (result): result is Extract<VendorOrderResult, { status: 'placed' }> =>
+      result.status === 'placed'
+  );
+  const queued = results.filter(result => result.status === 'queued');
+  const failed = results.filter(
+    (result): result is Extract<VendorOrderResult, { status: 'failed' }> =>
+      result.status === 'failed'
+  );
+
+  const awaitingApproval = placed.filter(
+    ({ order }) => order.approval?.status === 'awaiting_approval'
+  );
+  const sentCount = placed.length + queued.length;
+  const title =
+    failed.length === 0
+      ? queued.length > 0
+        ? `${queued.length === 1 ? 'Order' : 'Orders'} saved offline`
+        : `${placed.length === 1 ? 'Order' : 'All orders'} placed`
+      : sentCount === 0
+        ? 'No orders were placed'
+        : `${sentCount} of ${results.length} orders placed`;
+
+  return (
+    <Card className="space-y-6">
+      <div className="flex items-start gap-4">
+        {failed.length > 0 ? (
+          <AlertCircle className="w-10 h-10 text-tomato-red flex-shrink-0" />
+        ) : queued.length > 0 ? (
+          <CloudOff className="w-10 h-10 text-earthy-brown flex-shrink-0" />
+        ) : (
+          <CheckCircle2 className="w-10 h-10 text-bottle-green flex-shrink-0" />
+        )}
+        <div>
+          <h2 className="text-2xl font-bold text-text-dark">{title}</h2>
+          <p className="text-text-muted">
+            {failed.length > 0
+              ? 'Items from vendors whose orders failed are still in your cart, so you can retry them.'
+              : queued.length > 0
+                ? 'You are offline. Orders are sent to vendors as soon as the connection is back.'
+                : 'Each vendor has received their order and will confirm it shortly.'}
+          </p>
+          {awaitingApproval.length > 0 && (
+            <p className="text-sm text-earthy-brown mt-1">
+              {awaitingApproval.length === 1
+                ? 'One order is'
+                : `${awaitingApproval.length} orders are`}{' '}
+              above your spend limit and will reach the vendor once the owner approves.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {placed.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-text-dark mb-2">Placed</h3>
+          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-2xl">
+            {placed.map(({ vendorId, order }) => (
+              <li key={vendorId}>
+                <Link
+                  to={RESTAURANT_ROUTES.ORDER_TRACKING(order.id)}
+                  className="flex items-center justify-between gap-4 p-4 hover:bg-gray-50 rounded-2xl"
+                >
+                  <div>
+                    <p className="font-medium text-text-dark">{vendorNames[vendorId]}</p>
+                    <p className="text-sm text-text-muted">
+                      Order #{order.orderNumber}
+                      {order.approval?.status === 'awaiting_approval' && (
+                        <span className="text-earthy-brown"> · Awaiting approval</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-bottle-green">
+                      {CurrencyFormatter.formatBDT(order.totalAmount)}
+                    </span>
+                    <ChevronRight className="w-4 h-4 text-text-muted" />
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {queued.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-earthy-brown mb-2">Waiting for connection</h3>
+          <ul className="divide-y divide-earthy-yellow/20 border border-earthy-yellow/40 bg-earthy-yellow/10 rounded-2xl">
+            {queued.map(({ vendorId }) => (
+              <li key={vendorId} className="flex items-center justify-between gap-4 p-4">
+                <p className="font-medium text-text-dark">{vendorNames[vendorId]}</p>
+                <CloudOff className="w-4 h-4 text-earthy-brown" />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {failed.length > 0 && (
+        <section>
+          <h3 className="text-sm font-semibold text-tomato-red mb-2">Failed</h3>
+          <ul className="divide-y divide-tomato-red/10 border border-tomato-red/20 bg-tomato-red/5 rounded-2xl">
+            {failed.map(({ vendorId, error }) => (
+              <li key={vendorId} className="p-4">
+                <p className="font-medium text-text-dark">{vendorNames[vendorId]}</p>
+                <p className="text-sm text-tomato-red">{error}</p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-end gap-3">
+        <Link to={RESTAURANT_ROUTES.ORDERS}>
+          <Button variant="outline" fullWidth>
+            View My Orders
+          </Button>
+        </Link>
+        {failed.length > 0 && <Button onClick={onRetry}>Review Failed Orders</Button>}
+      </div>
+    </Card>
+  );
+};
+
+export default CheckoutResultSummary;
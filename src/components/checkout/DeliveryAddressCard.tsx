@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MapPin } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle, FormField } from '@/components/ui';
+import { AddressPicker } from '@/components/ui/AddressPicker';
+import { RESTAURANT_ROUTES } from '@/constants';
+import { Address, AddressDraft, SavedAddress } from '@/types';
+import { AddressFormatter, AddressValidationResult } from '@/utils';
+
+// Where the checkout's orders go: an address book entry or a one-off address
+export interface DeliveryDestination {
+  address: Address;
+  savedAddress?: SavedAddress | undefined;
+}
+
+interface DeliveryAddressCardProps {
+  restaurantAddress?: Address | undefined; // the active branch's address, else the profile's
+  savedAddresses: SavedAddress[];
+  value: DeliveryDestination;
+  onChange: (destination: DeliveryDestination) => void;
+  disabled?: boolean;
+}
+
+const RESTAURANT_OPTION = 'restaurant';
+const ONE_OFF_OPTION = 'other';
+
+const selectClass =
+  'w-full px-4 py-3 border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20 disabled:opacity-50';
+
+/**
+ * Delivery address for every order in the checkout: an entry from the
+ * restaurant's address book, its profile address, or another address entered
+ * for this checkout.
+ */
+export const DeliveryAddressCard: React.FC<DeliveryAddressCardProps> = ({
+  restaurantAddress,
+  savedAddresses,
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const [draft, setDraft] = useState<AddressDraft | null>(null);
+  const [errors, setErrors] = useState<AddressValidationResult['errors']>({});
+
+  const isRestaurantAddress = !value.savedAddress && value.address === restaurantAddress;
+  const selectedOption =
+    value.savedAddress?.id || (isRestaurantAddress ? RESTAURANT_OPTION : ONE_OFF_OPTION);
+  // The profile address is only offered when the book does not already hold it
+  const offerRestaurantAddress =
+    !!restaurantAddress &&
+    !AddressFormatter.findMatchingAddress(
+      restaurantAddress,
+      savedAddresses.map(entry => entry.address)
+    );
+
+  const handleSelect = (option: string) => {
+    const savedAddress = savedAddresses.find(entry => entry.id === option);
+    if (savedAddress) {
+      onChange({ address: savedAddress.address, savedAddress });
+    } else if (option === RESTAURANT_OPTION && restaurantAddress) {
+      onChange({ address: restaurantAddress });
+    }
+  };
+
+  const startEditing = () => {
+    setDraft({ division: value.address.division, district: value.address.district });
+    setErrors({});
+  };
+
+  const handleUseDraft = () => {
+    if (!draft) return;
+
+    const validation = AddressFormatter.validateAddress(draft);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    // Re-entering a known address reuses it, map pin and delivery notes included
+    const savedAddress = savedAddresses.find(entry =>
+      AddressFormatter.isSameAddress(draft, entry.address)
+    );
+    if (savedAddress) {
+      onChange({ address: savedAddress.address, savedAddress });
+    } else {
+      onChange({
+        address:
+          (restaurantAddress && AddressFormatter.findMatchingAddress(draft, [restaurantAddress])) ||
+          AddressFormatter.normalizeAddress(draft),
+      });
+    }
+    setDraft(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <MapPin className="w-5 h-5 text-bottle-green" />
+            Delivery Address
+          </CardTitle>
+          <Link
+            to={RESTAURANT_ROUTES.ADDRESSES}
+            className="text-sm text-bottle-green hover:underline"
+          >
+            Manage addresses
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft ? (
+          <>
+            <AddressPicker
+              value={draft}
+              onChange={address => {
+                setDraft(address);
+                setErrors({});
+              }}
+              errors={errors}
+              disabled={disabled}
+            />
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)} disabled={disabled}>
+                Cancel
+              </Button>
+              <Button onClick={handleUseDraft} disabled={disabled}>
+                Deliver Here
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            {savedAddresses.length > 0 && (
+              <FormField label="Deliver To">
+                <select
+                  value={selectedOption}
+                  onChange={e => handleSelect(e.target.value)}
+                  disabled={disabled}
+                  className={selectClass}
+                >
+                  {savedAddresses.map(entry => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.label}
+                      {entry.isDefault ? ' (default)' : ''}
+                    </option>
+                  ))}
+                  {offerRestaurantAddress && (
+                    <option value={RESTAURANT_OPTION}>Restaurant address</option>
+                  )}
+                  {selectedOption === ONE_OFF_OPTION && (
+                    <option value={ONE_OFF_OPTION}>Another address</option>
+                  )}
+                </select>
+              </FormField>
+            )}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="text-sm space-y-1">
+                <p className="text-text-dark">{AddressFormatter.formatAddress(value.address)}</p>
+                {value.savedAddress?.deliveryNotes && (
+                  <p className="text-earthy-brown">{value.savedAddress.deliveryNotes}</p>
+                )}
+                {savedAddresses.length === 0 && (
+                  <p className="text-text-muted">
+                    {isRestaurantAddress
+                      ? 'Restaurant address'
+                      : 'Delivering to a different address'}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {savedAddresses.length === 0 && !isRestaurantAddress && restaurantAddress && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => onChange({ address: restaurantAddress })}
+                    disabled={disabled}
+                  >
+                    Use Restaurant Address
+                  </Button>
+                )}
+                <Button variant="outline" onClick={startEditing} disabled={disabled}>
+                  Deliver Elsewhere
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeliveryAddressCard;
@@ -0,0 +1,305 @@
+import React, { useEffect } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Clock, Loader2, Store } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, FormField } from '@/components/ui';
+import {
+  DELIVERY_TIME_SLOTS,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_TERMS_DAYS,
+  PAYMENT_TERMS_LABELS,
+} from '@/constants';
+import { useDeliveryAvailability } from '@/hooks/useDeliverySlots';
+import { useDeliveryEstimate, useOrderEligibility } from '@/hooks/useOrders';
+import { VendorCartGroup } from '@/stores/cartStore';
+import { CreateOrderRequest, CreditAccount, DeliveryDayAvailability, PaymentMethod } from '@/types';
+import {
+  CurrencyFormatter,
+  DateFormatter,
+  getAvailableCredit,
+  getCreditBlockReason,
+  getDeliverySlotLabel,
+  NumberFormatter,
+} from '@/utils';
+import { cn } from '@/utils/cn';
+
+export interface VendorCheckoutDetails {
+  deliveryDate: string;
+  deliveryTimeSlot: string;
+  deliverySlot: string; // vendor slot ID; empty for vendors without delivery slots
+  paymentMethod: PaymentMethod | '';
+  notes: string;
+}
+
+export interface VendorEligibilityState {
+  isChecking: boolean;
+  isEligible: boolean;
+}
+
+interface VendorOrderSectionProps {
+  group: VendorCartGroup;
+  details: VendorCheckoutDetails;
+  eligibilityRequest: CreateOrderRequest;
+  coordinates?: { latitude: number; longitude: number } | undefined;
+  minDeliveryDate: string;
+  creditAccount?: CreditAccount | undefined; // the restaurant's credit account with this vendor
+  onChange: (changes: Partial<VendorCheckoutDetails>) => void;
+  onEligibilityChange: (vendorId: string, state: VendorEligibilityState) => void;
+  disabled?: boolean;
+}
+
+interface TimeSlotOption {
+  slotId: string;
+  label: string;
+}
+
+// Vendors without delivery slots (or when availability fails to load) take any standard window
+const getTimeSlotOptions = (availability: DeliveryDayAvailability | undefined): TimeSlotOption[] =>
+  availability?.isScheduled
+    ? availability.slots
+        .filter(option => !option.isFull)
+        .map(option => ({ slotId: option.slot.id, label: getDeliverySlotLabel(option.slot) }))
+    : DELIVERY_TIME_SLOTS.map(label => ({ slotId: '', label }));
+
+const getTimeSlotBlockReason = (
+  availability: DeliveryDayAvailability | undefined,
+  options: TimeSlotOption[],
+  selected: string
+): string | null => {
+  if (availability?.blackout) {
+    return `No deliveries on this date${availability.blackout.reason ? ` (${availability.blackout.reason})` : ''}. Choose another date.`;
+  }
+  if (availability?.isScheduled && options.length === 0) {
+    return availability.slots.length === 0
+      ? 'This vendor does not deliver on this day. Choose another date.'
+      : 'Every delivery slot on this date is full. Choose another date.';
+  }
+  if (selected && !options.some(option => option.label === selected)) {
+    return 'Your time slot is no longer available. Choose another one.';
+  }
+  return null;
+};
+
+const fieldClass =
+  'w-full px-4 py-3 border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20 disabled:bg-gray-50';
+
+export const VendorOrderSection: React.FC<VendorOrderSectionProps> = ({
+  group,
+  details,
+  eligibilityRequest,
+  coordinates,
+  minDeliveryDate,
+  creditAccount,
+  onChange,
+  onEligibilityChange,
+  disabled = false,
+}) => {
+  const { vendor, items, subtotal } = group;
+  const vendorName = vendor.vendor?.businessName || vendor.name;
+
+  const eligibility = useOrderEligibility(eligibilityRequest);
+  const estimate = useDeliveryEstimate(vendor.id, coordinates);
+  const availability = useDeliveryAvailability(vendor.id, details.deliveryDate);
+
+  const isChecking = eligibility.isLoading || availability.isLoading;
+  // A failed eligibility call should not block checkout; the order API re-validates anyway
+  const isEligible = eligibility.data ? eligibility.data.isEligible : !isChecking;
+
+  // Credit is only offered by vendors that opened an account for this restaurant
+  const paymentMethods = (Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).filter(
+    method => method !== 'credit' || creditAccount
+  );
+  const creditUnavailableReason = creditAccount
+    ? getCreditBlockReason(creditAccount, subtotal)
+    : null;
+  const creditBlock = details.paymentMethod === 'credit' ? creditUnavailableReason : null;
+  const timeSlotOptions = getTimeSlotOptions(availability.data);
+  const timeSlotBlock = availability.isLoading
+    ? null
+    : getTimeSlotBlockReason(availability.data, timeSlotOptions, details.deliveryTimeSlot);
+  const canPlaceOrder = isEligible && !creditBlock && !timeSlotBlock;
+
+  useEffect(() => {
+    onEligibilityChange(vendor.id, { isChecking, isEligible: canPlaceOrder });
+  }, [vendor.id, isChecking, canPlaceOrder, onEligibilityChange]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <Store className="w-5 h-5 text-bottle-green" />
+            {vendorName}
+          </CardTitle>
+          <div className="flex items-center gap-2 text-sm">
+            {isChecking ? (
+              <span className="flex items-center gap-1 text-text-muted">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Checking availability...
+              </span>
+            ) : canPlaceOrder ? (
+              <span className="flex items-center gap-1 text-bottle-green">
+                <CheckCircle2 className="w-4 h-4" />
+                Ready to order
+              </span>
+            ) : (
+              <span className="flex items-center gap-1 text-tomato-red">
+                <AlertCircle className="w-4 h-4" />
+                Needs attention
+              </span>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {/* Eligibility feedback */}
+        {eligibility.data && eligibility.data.errors.length > 0 && (
+          <ul className="p-4 bg-tomato-red/10 rounded-xl space-y-1 text-sm text-tomato-red">
+            {eligibility.data.errors.map(message => (
+              <li key={message} className="flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {message}
+              </li>
+            ))}
+          </ul>
+        )}
+        {timeSlotBlock && (
+          <p className="p-4 bg-tomato-red/10 rounded-xl flex items-start gap-2 text-sm text-tomato-red">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {timeSlotBlock}
+          </p>
+        )}
+        {creditBlock && (
+          <p className="p-4 bg-tomato-red/10 rounded-xl flex items-start gap-2 text-sm text-tomato-red">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {creditBlock}
+          </p>
+        )}
+        {eligibility.data && eligibility.data.warnings.length > 0 && (
+          <ul className="p-4 bg-earthy-yellow/20 rounded-xl space-y-1 text-sm text-earthy-brown">
+            {eligibility.data.warnings.map(message => (
+              <li key={message} className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Items */}
+        <ul className="divide-y divide-gray-100">
+          {items.map(item => (
+            <li key={item.id} className="py-3 flex items-start justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-text-dark">{item.listing.product.name}</p>
+                <p className="text-text-muted">
+                  {NumberFormatter.formatQuantity(item.quantity, item.listing.product.unit)} ×{' '}
+                  {CurrencyFormatter.formatBDT(item.unitPrice)}
+                </p>
+              </div>
+              <p className="font-medium text-text-dark">
+                {CurrencyFormatter.formatBDT(item.totalPrice)}
+              </p>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex items-center justify-between pt-2 border-t border-gray-100">
+          <span className="text-text-muted">Subtotal</span>
+          <span className="font-semibold text-bottle-green">
+            {CurrencyFormatter.formatBDT(subtotal)}
+          </span>
+        </div>
+
+        {estimate.data && (
+          <p className="flex items-center gap-2 text-sm text-text-muted">
+            <Clock className="w-4 h-4" />
+            Typical delivery from this vendor takes about {estimate.data.estimatedMinutes} minutes
+            (earliest {DateFormatter.formatDateTime(estimate.data.estimatedDeliveryTime)})
+          </p>
+        )}
+
+        {/* Delivery & payment */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField label="Delivery Date" required>
+            <input
+              type="date"
+              min={minDeliveryDate}
+              value={details.deliveryDate}
+              onChange={e =>
+                onChange({ deliveryDate: e.target.value, deliveryTimeSlot: '', deliverySlot: '' })
+              }
+              disabled={disabled}
+              className={fieldClass}
+            />
+          </FormField>
+
+          <FormField label="Time Slot" required>
+            <select
+              value={details.deliveryTimeSlot}
+              onChange={e =>
+                onChange({
+                  deliveryTimeSlot: e.target.value,
+                  deliverySlot:
+                    timeSlotOptions.find(option => option.label === e.target.value)?.slotId ?? '',
+                })
+              }
+              disabled={disabled || availability.isLoading}
+              className={fieldClass}
+            >
+              <option value="">
+                {availability.isLoading ? 'Checking slots...' : 'Select a slot'}
+              </option>
+              {timeSlotOptions.map(option => (
+                <option key={option.label} value={option.label}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </FormField>
+
+          <FormField label="Payment Method" required>
+            <select
+              value={details.paymentMethod}
+              onChange={e => onChange({ paymentMethod: e.target.value as PaymentMethod | '' })}
+              disabled={disabled}
+              className={fieldClass}
+            >
+              <option value="">Select payment</option>
+              {paymentMethods.map(method => (
+                <option
+                  key={method}
+                  value={method}
+                  disabled={method === 'credit' && !!creditUnavailableReason}
+                >
+                  {PAYMENT_METHOD_LABELS[method]}
+                </option>
+              ))}
+            </select>
+          </FormField>
+        </div>
+
+        {creditAccount && (
+          <p className="text-sm text-text-muted">
+            {creditUnavailableReason ??
+              `${CurrencyFormatter.formatBDT(getAvailableCredit(creditAccount))} credit available on ${
+                PAYMENT_TERMS_LABELS[creditAccount.paymentTerms]
+              } terms: pay within ${PAYMENT_TERMS_DAYS[creditAccount.paymentTerms]} days of delivery.`}
+          </p>
+        )}
+
+        <FormField label={`Notes for ${vendorName} (Optional)`}>
+          <textarea
+            value={details.notes}
+            onChange={e => onChange({ notes: e.target.value })}
+            disabled={disabled}
+            rows={2}
+            placeholder="Delivery instructions, preferred packaging..."
+            className={cn(fieldClass, 'resize-none')}
+          />
+        </FormField>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VendorOrderSection;
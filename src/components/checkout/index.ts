@@ -0,0 +1,8 @@
+// Multi-vendor checkout components
+export {
+  default as VendorOrderSection,
+  type VendorCheckoutDetails,
+  type VendorEligibilityState,
+} from './VendorOrderSection';
+export { default as CheckoutResultSummary } from './CheckoutResultSummary';
+export { default as DeliveryAddressCard, type DeliveryDestination } from './DeliveryAddressCard';
\ No newline at end of file
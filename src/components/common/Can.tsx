@@ -0,0 +1,26 @@
+import React, { ReactNode } from 'react';
+import { Permission } from '@/constants';
+import { PermissionMatch, usePermission } from '@/hooks/usePermission';
+
+interface CanProps {
+  permission: Permission | Permission[];
+  match?: PermissionMatch;
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Renders its children only when the signed-in user has the permission.
+ * Pass `fallback` to show something else instead, such as a disabled button.
+ */
+export const Can: React.FC<CanProps> = ({
+  permission,
+  match = 'all',
+  fallback = null,
+  children,
+}) => {
+  const allowed = usePermission(permission, match);
+  return allowed ? children : fallback;
+};
+
+export default Can;
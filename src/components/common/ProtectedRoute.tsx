@@ -3,12 +3,16 @@ import { Navigate, useLocation } from 'react-router-dom';
 import { Shield, AlertTriangle, Loader2 } from 'lucide-react';
 
 import { useAuthStore } from '@/stores/authStore';
+import { PermissionMatch } from '@/hooks/usePermission';
 import { UserRole } from '@/types';
-import { USER_ROLES } from '@/constants';
+import { Permission, PUBLIC_ROUTES, USER_ROLES } from '@/constants';
+import { PermissionManager } from '@/utils/auth';
 
 interface ProtectedRouteProps {
   children: ReactNode;
   requiredRole?: UserRole | UserRole[];
+  requiredPermissions?: Permission | Permission[];
+  permissionMatch?: PermissionMatch;
   requireAuth?: boolean;
   fallbackPath?: string;
   className?: string;
@@ -17,6 +21,8 @@ interface ProtectedRouteProps {
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
   requiredRole,
+  requiredPermissions,
+  permissionMatch = 'all',
   requireAuth = true,
   fallbackPath = '/auth/login',
   className = '',
@@ -43,6 +49,17 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     );
   }
 
+  // Signing in needs the network, so offline visitors get the offline page instead
+  if (requireAuth && !isAuthenticated && !navigator.onLine) {
+    return (
+      <Navigate 
+        to={PUBLIC_ROUTES.OFFLINE} 
+        state={{ from: location.pathname }}
+        replace 
+      />
+    );
+  }
+
   // Redirect to login if authentication is required and user is not authenticated
   if (requireAuth && !isAuthenticated) {
     return (
@@ -114,6 +131,44 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     }
   }
 
+  // Check permission-based access, for pages only some users of a role may open
+  if (requiredPermissions && user) {
+    const permissions = Array.isArray(requiredPermissions) ? requiredPermissions : [requiredPermissions];
+    const hasRequiredPermissions = permissionMatch === 'all'
+      ? PermissionManager.hasAllPermissions(user, permissions)
+      : PermissionManager.hasAnyPermission(user, permissions);
+
+    if (!hasRequiredPermissions) {
+      return (
+        <div className={`min-h-screen flex items-center justify-center bg-gradient-to-br from-earthy-beige via-white to-mint-fresh/10 px-6 ${className}`}>
+          <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-lg p-8 border border-white/50 text-center max-w-md mx-auto">
+            <div className="w-16 h-16 bg-tomato-red/10 rounded-2xl flex items-center justify-center mx-auto mb-6">
+              <Shield className="w-8 h-8 text-tomato-red" />
+            </div>
+            
+            <h1 className="text-2xl font-medium text-text-dark mb-4">
+              Access Restricted
+            </h1>
+            
+            <p className="text-text-muted">
+              Your account ({getRoleDisplayName(user.role)}) does not have access to this page.
+              Ask your account owner or an administrator if you need it.
+            </p>
+
+            <div className="mt-8">
+              <button
+                onClick={() => window.history.back()}
+                className="w-full bg-gradient-secondary text-white px-8 py-3 rounded-2xl font-medium hover:shadow-lg transition-all duration-300"
+              >
+                Go Back
+              </button>
+            </div>
+          </div>
+        </div>
+      );
+    }
+  }
+
   // Render children if all checks pass
   return <div className={className}>{children}</div>;
 };
@@ -186,6 +241,27 @@ export const RestaurantRoute: React.FC<{ children: ReactNode; className?: string
   </ProtectedRoute>
 );
 
+// Route guard for pages that need specific permissions rather than a whole role
+export const PermissionRoute: React.FC<{ 
+  children: ReactNode; 
+  permissions: Permission | Permission[];
+  match?: PermissionMatch;
+  className?: string;
+}> = ({ 
+  children, 
+  permissions,
+  match = 'all',
+  className = '' 
+}) => (
+  <ProtectedRoute 
+    requiredPermissions={permissions} 
+    permissionMatch={match}
+    className={className}
+  >
+    {children}
+  </ProtectedRoute>
+);
+
 // Public route that redirects authenticated users to their dashboard
 export const PublicRoute: React.FC<{ children: ReactNode; className?: string }> = ({ 
   children, 
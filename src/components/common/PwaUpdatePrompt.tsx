@@ -0,0 +1,83 @@
+import React, { useEffect, useRef } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { Button } from '@/components/ui';
+import { toast } from '@/stores/notificationStore';
+import { ErrorHandler } from '@/utils';
+
+// Installed apps can stay open for days, so look for a new release every hour
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker and asks before switching to a new version,
+ * so nobody loses a half-filled form to an automatic reload.
+ */
+export const PwaUpdatePrompt: React.FC = () => {
+  const updateTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW({
+    onRegisteredSW: (_swUrl, registration) => {
+      if (!registration) return;
+      if (updateTimer.current) clearInterval(updateTimer.current);
+      updateTimer.current = setInterval(() => {
+        if (navigator.onLine) registration.update();
+      }, UPDATE_CHECK_INTERVAL);
+    },
+    onRegisterError: error => ErrorHandler.logError(error, 'service worker registration'),
+  });
+
+  useEffect(
+    () => () => {
+      if (updateTimer.current) clearInterval(updateTimer.current);
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast.success('Ready to work offline', 'Aaroth Fresh now opens even without a connection');
+    setOfflineReady(false);
+  }, [offlineReady, setOfflineReady]);
+
+  if (!needRefresh) return null;
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-20 lg:bottom-6 left-4 right-4 sm:left-auto sm:w-96 z-50 bg-white rounded-2xl shadow-2xl border border-gray-100 p-4"
+    >
+      <div className="flex items-start gap-3">
+        <div className="w-10 h-10 bg-mint-fresh/20 rounded-xl flex items-center justify-center flex-shrink-0">
+          <RefreshCw className="w-5 h-5 text-bottle-green" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-text-dark">A new version is available</p>
+          <p className="text-sm text-text-muted">
+            Reload to get the latest features. Changes waiting to sync are kept.
+          </p>
+          <div className="flex gap-2 mt-3">
+            <Button size="sm" onClick={() => updateServiceWorker(true)}>
+              Reload
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setNeedRefresh(false)}>
+              Later
+            </Button>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setNeedRefresh(false)}
+          className="p-1 rounded-lg text-text-muted hover:bg-gray-100"
+          aria-label="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PwaUpdatePrompt;
@@ -2,4 +2,5 @@
 // Components will be added here as they are developed
 // export * from './LoadingSpinner';
 // export * from './ErrorBoundary';
-// export * from './ProtectedRoute';
\ No newline at end of file
+// export * from './ProtectedRoute';
+export * from './Can';
\ No newline at end of file
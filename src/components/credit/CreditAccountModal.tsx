@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button, FormField, Modal } from '@/components/ui';
+import { CREDIT_ACCOUNT_STATUS_LABELS, PAYMENT_TERMS_LABELS } from '@/constants';
+import {
+  useCreditAccounts,
+  useCreditCandidateOrders,
+  useGrantCredit,
+  useUpdateCreditAccount,
+} from '@/hooks/useCredit';
+import { CreditAccount, CreditAccountStatus, PaymentTerms } from '@/types';
+import { CurrencyFormatter, getInvoiceParty, groupOrdersByCounterparty } from '@/utils';
+
+interface CreditAccountModalProps {
+  isOpen: boolean;
+  account: CreditAccount | null; // null to grant credit to a new restaurant
+  onClose: () => void;
+}
+
+const fieldClass =
+  'w-full px-4 py-3 border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+/**
+ * Vendor form to grant a restaurant credit, or change the limit, payment
+ * terms or status of an existing account.
+ */
+export const CreditAccountModal: React.FC<CreditAccountModalProps> = ({
+  isOpen,
+  account,
+  onClose,
+}) => {
+  const grantMutation = useGrantCredit();
+  const updateMutation = useUpdateCreditAccount();
+  const isPending = grantMutation.isPending || updateMutation.isPending;
+
+  // Credit can be offered to any restaurant already delivered to without an account
+  const { data: deliveredOrders } = useCreditCandidateOrders(isOpen && !account);
+  const { data: accounts = [] } = useCreditAccounts();
+  const restaurants = useMemo(
+    () =>
+      groupOrdersByCounterparty(deliveredOrders ?? [], 'restaurant').filter(
+        group => !accounts.some(existing => existing.restaurant.id === group.id)
+      ),
+    [deliveredOrders, accounts]
+  );
+
+  const [restaurantId, setRestaurantId] = useState('');
+  const [creditLimit, setCreditLimit] = useState('');
+  const [paymentTerms, setPaymentTerms] = useState<PaymentTerms>('net_7');
+  const [status, setStatus] = useState<CreditAccountStatus>('active');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRestaurantId(account?.restaurant.id ?? '');
+    setCreditLimit(account ? String(account.creditLimit) : '');
+    setPaymentTerms(account?.paymentTerms ?? 'net_7');
+    setStatus(account?.status ?? 'active');
+  }, [isOpen, account]);
+
+  const limit = Number(creditLimit);
+  const getError = (): string | null => {
+    if (!account && !restaurantId) return 'Choose a restaurant';
+    if (creditLimit === '' || !Number.isFinite(limit) || limit <= 0) {
+      return 'Enter a credit limit above zero';
+    }
+    return null;
+  };
+  const error = getError();
+
+  const handleSave = () => {
+    if (error) return;
+    if (account) {
+      updateMutation.mutate(
+        { id: account.id, data: { creditLimit: limit, paymentTerms, status } },
+        { onSuccess: onClose }
+      );
+    } else {
+      grantMutation.mutate(
+        { restaurantId, creditLimit: limit, paymentTerms },
+        { onSuccess: onClose }
+      );
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={
+        account ? `Credit for ${getInvoiceParty(account.restaurant).businessName}` : 'Grant Credit'
+      }
+    >
+      <div className="space-y-4">
+        {!account && (
+          <FormField
+            label="Restaurant"
+            required
+            helperText="Restaurants you have delivered to that do not have credit yet"
+          >
+            <select
+              value={restaurantId}
+              onChange={e => setRestaurantId(e.target.value)}
+              disabled={isPending}
+              className={fieldClass}
+            >
+              <option value="">Select a restaurant</option>
+              {restaurants.map(restaurant => (
+                <option key={restaurant.id} value={restaurant.id}>
+                  {restaurant.name}
+                </option>
+              ))}
+            </select>
+          </FormField>
+        )}
+
+        <FormField
+          label="Credit Limit (৳)"
+          required
+          helperText={
+            account
+              ? `${CurrencyFormatter.formatBDT(account.outstandingBalance)} is currently owed`
+              : 'Most the restaurant can owe you at any time'
+          }
+        >
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={creditLimit}
+            onChange={e => setCreditLimit(e.target.value)}
+            disabled={isPending}
+            className={fieldClass}
+          />
+        </FormField>
+
+        <FormField label="Payment Terms" helperText="Days after delivery that each order is due">
+          <select
+            value={paymentTerms}
+            onChange={e => setPaymentTerms(e.target.value as PaymentTerms)}
+            disabled={isPending}
+            className={fieldClass}
+          >
+            {(Object.keys(PAYMENT_TERMS_LABELS) as PaymentTerms[]).map(terms => (
+              <option key={terms} value={terms}>
+                {PAYMENT_TERMS_LABELS[terms]}
+              </option>
+            ))}
+          </select>
+        </FormField>
+
+        {account && (
+          <FormField label="Status" helperText="Suspended accounts cannot place new credit orders">
+            <select
+              value={status}
+              onChange={e => setStatus(e.target.value as CreditAccountStatus)}
+              disabled={isPending}
+              className={fieldClass}
+            >
+              {(Object.keys(CREDIT_ACCOUNT_STATUS_LABELS) as CreditAccountStatus[]).map(value => (
+                <option key={value} value={value}>
+                  {CREDIT_ACCOUNT_STATUS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </FormField>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isPending} disabled={!!error}>
+            {account ? 'Save Changes' : 'Grant Credit'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CreditAccountModal;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { CreditInvoice } from '@/types';
+import {
+  CreditInvoiceState,
+  CurrencyFormatter,
+  DateFormatter,
+  getCreditInvoiceState,
+  getDaysUntilDue,
+} from '@/utils';
+import { cn } from '@/utils/cn';
+
+interface CreditInvoicesTableProps {
+  invoices: CreditInvoice[];
+  getOrderLink: (orderId: string) => string;
+}
+
+const stateVariants: Record<CreditInvoiceState, string> = {
+  overdue: 'bg-tomato-red/20 text-tomato-red',
+  due_soon: 'bg-earthy-yellow/20 text-earthy-brown',
+  open: 'bg-gray-100 text-gray-600',
+};
+
+const describeDueDate = (invoice: CreditInvoice): string => {
+  const days = getDaysUntilDue(invoice);
+  if (days < 0) return `${-days} ${days === -1 ? 'day' : 'days'} overdue`;
+  if (days === 0) return 'Due today';
+  return `Due in ${days} ${days === 1 ? 'day' : 'days'}`;
+};
+
+/**
+ * Unpaid credit orders with their due dates, shown to both the vendor and
+ * the restaurant.
+ */
+export const CreditInvoicesTable: React.FC<CreditInvoicesTableProps> = ({
+  invoices,
+  getOrderLink,
+}) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200 text-left text-text-muted">
+          <th className="py-2 font-medium">Order</th>
+          <th className="py-2 font-medium hidden sm:table-cell">Issued</th>
+          <th className="py-2 font-medium">Due</th>
+          <th className="py-2 font-medium text-right hidden sm:table-cell">Amount</th>
+          <th className="py-2 font-medium text-right">Balance</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {invoices.map(invoice => (
+          <tr key={invoice.orderId}>
+            <td className="py-2">
+              <Link
+                to={getOrderLink(invoice.orderId)}
+                className="font-medium text-bottle-green hover:underline"
+              >
+                #{invoice.orderNumber}
+              </Link>
+            </td>
+            <td className="py-2 hidden sm:table-cell">
+              {DateFormatter.formatDate(invoice.issuedAt)}
+            </td>
+            <td className="py-2">
+              <span className="block">{DateFormatter.formatDate(invoice.dueDate)}</span>
+              <span
+                className={cn(
+                  'inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium',
+                  stateVariants[getCreditInvoiceState(invoice)]
+                )}
+              >
+                {describeDueDate(invoice)}
+              </span>
+            </td>
+            <td className="py-2 text-right hidden sm:table-cell">
+              {CurrencyFormatter.formatBDT(invoice.amount)}
+            </td>
+            <td className="py-2 text-right font-medium">
+              {CurrencyFormatter.formatBDT(invoice.balance)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default CreditInvoicesTable;
@@ -0,0 +1,3 @@
+// Credit accounts and pay-later terms
+export { default as CreditAccountModal } from './CreditAccountModal';
+export { default as CreditInvoicesTable } from './CreditInvoicesTable';
@@ -0,0 +1,148 @@
+import React from 'react';
+import { EXTERNAL_SERVICES, MAP_MAX_ZOOM, MAP_TILE_SIZE } from '@/constants';
+import { Coordinates } from '@/types';
+import { getVisibleTiles, projectCoordinates } from '@/utils';
+
+export interface RouteMapPoint {
+  id: string;
+  label: string; // marker text, e.g. the stop number
+  name: string;
+  coordinates: Coordinates;
+}
+
+interface RouteMapProps {
+  start?: Coordinates | undefined;
+  points: RouteMapPoint[]; // in driving order
+}
+
+// Drawing size; the SVG scales to its container
+const WIDTH = 800;
+const HEIGHT = 450;
+const PADDING = 40;
+
+// Closest zoom that still fits every point inside the padded frame
+const fitZoom = (coordinates: Coordinates[]): number => {
+  for (let zoom = MAP_MAX_ZOOM; zoom > 0; zoom -= 1) {
+    const projected = coordinates.map(point => projectCoordinates(point, zoom));
+    const xs = projected.map(point => point.x);
+    const ys = projected.map(point => point.y);
+    if (
+      Math.max(...xs) - Math.min(...xs) <= WIDTH - 2 * PADDING &&
+      Math.max(...ys) - Math.min(...ys) <= HEIGHT - 2 * PADDING
+    ) {
+      return zoom;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Route drawn over raster map tiles from the configured tile server. Plain
+ * SVG with no map SDK, so tiles cached by the service worker keep it working
+ * offline.
+ */
+export const RouteMap: React.FC<RouteMapProps> = ({ start, points }) => {
+  const all = [...(start ? [start] : []), ...points.map(point => point.coordinates)];
+  if (all.length === 0) return null;
+
+  const zoom = fitZoom(all);
+  const projected = all.map(point => projectCoordinates(point, zoom));
+  const xs = projected.map(point => point.x);
+  const ys = projected.map(point => point.y);
+  const originX = (Math.min(...xs) + Math.max(...xs)) / 2 - WIDTH / 2;
+  const originY = (Math.min(...ys) + Math.max(...ys)) / 2 - HEIGHT / 2;
+  const toView = (coordinates: Coordinates) => {
+    const { x, y } = projectCoordinates(coordinates, zoom);
+    return { x: x - originX, y: y - originY };
+  };
+
+  const tiles = getVisibleTiles({ x: originX, y: originY }, WIDTH, HEIGHT, zoom);
+
+  const path = all.map(toView);
+  const startPoint = start ? toView(start) : null;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto rounded-xl bg-gray-100"
+      role="img"
+      aria-label={`Route map with ${points.length} stops`}
+    >
+      {tiles.map(({ x, y, url }) => (
+        <image
+          key={`${x}:${y}`}
+          href={url}
+          x={x * MAP_TILE_SIZE - originX}
+          y={y * MAP_TILE_SIZE - originY}
+          width={MAP_TILE_SIZE}
+          height={MAP_TILE_SIZE}
+        />
+      ))}
+
+      <polyline
+        points={path.map(({ x, y }) => `${x},${y}`).join(' ')}
+        fill="none"
+        className="stroke-bottle-green"
+        strokeWidth={4}
+        strokeLinejoin="round"
+        strokeOpacity={0.8}
+      />
+
+      {startPoint && (
+        <g>
+          <title>Start</title>
+          <rect
+            x={startPoint.x - 10}
+            y={startPoint.y - 10}
+            width={20}
+            height={20}
+            rx={4}
+            className="fill-text-dark"
+          />
+          <text
+            x={startPoint.x}
+            y={startPoint.y + 4}
+            textAnchor="middle"
+            fontSize={11}
+            fontWeight={700}
+            className="fill-white"
+          >
+            S
+          </text>
+        </g>
+      )}
+
+      {points.map(point => {
+        const { x, y } = toView(point.coordinates);
+        return (
+          <g key={point.id}>
+            <title>{point.name}</title>
+            <circle
+              cx={x}
+              cy={y}
+              r={12}
+              strokeWidth={2}
+              className="fill-bottle-green stroke-white"
+            />
+            <text
+              x={x}
+              y={y + 4}
+              textAnchor="middle"
+              fontSize={11}
+              fontWeight={700}
+              className="fill-white"
+            >
+              {point.label}
+            </text>
+          </g>
+        );
+      })}
+
+      <text x={WIDTH - 6} y={HEIGHT - 6} textAnchor="end" fontSize={10} className="fill-text-dark">
+        {EXTERNAL_SERVICES.maps.tileAttribution}
+      </text>
+    </svg>
+  );
+};
+
+export default RouteMap;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { RouteStop } from '@/types';
+import { AddressFormatter, CurrencyFormatter, DateFormatter } from '@/utils';
+import { cn } from '@/utils/cn';
+
+interface RunSheetProps {
+  vendorName: string;
+  date: string;
+  stops: RouteStop[]; // in driving order
+  distanceKm?: number | undefined;
+  minutes?: number | undefined;
+  className?: string;
+}
+
+// Cash the driver collects at a stop: unpaid cash-on-delivery orders
+const getCashToCollect = (stop: RouteStop): number =>
+  stop.orders
+    .filter(order => order.paymentMethod === 'cash_on_delivery' && order.paymentStatus !== 'paid')
+    .reduce((total, order) => total + order.totalAmount, 0);
+
+/**
+ * Printable sheet for the driver: stops in order with contacts, orders, cash
+ * to collect and space for the receiver's signature.
+ */
+export const RunSheet: React.FC<RunSheetProps> = ({
+  vendorName,
+  date,
+  stops,
+  distanceKm,
+  minutes,
+  className,
+}) => {
+  const totalCash = stops.reduce((total, stop) => total + getCashToCollect(stop), 0);
+
+  return (
+    <article
+      className={cn(
+        'bg-white rounded-3xl border border-gray-100 p-6 sm:p-10 space-y-6 text-text-dark',
+        'print:rounded-none print:border-0 print:p-0',
+        className
+      )}
+    >
+      <header className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Delivery Run Sheet</h2>
+          <p className="text-text-muted">
+            {vendorName} · {DateFormatter.formatDate(date)}
+          </p>
+        </div>
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+          <dt className="text-text-muted">Stops</dt>
+          <dd className="text-right">{stops.length}</dd>
+          {distanceKm !== undefined && (
+            <>
+              <dt className="text-text-muted">Distance</dt>
+              <dd className="text-right">~{distanceKm.toFixed(1)} km</dd>
+            </>
+          )}
+          {minutes !== undefined && (
+            <>
+              <dt className="text-text-muted">Est. time</dt>
+              <dd className="text-right">
+                {Math.floor(minutes / 60) > 0 && `${Math.floor(minutes / 60)}h `}
+                {minutes % 60}m
+              </dd>
+            </>
+          )}
+          <dt className="text-text-muted">Cash to collect</dt>
+          <dd className="text-right font-semibold">{CurrencyFormatter.formatBDT(totalCash)}</dd>
+        </dl>
+      </header>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-text-muted">
+            <th className="py-2 pr-2 font-medium w-8">#</th>
+            <th className="py-2 pr-2 font-medium">Restaurant</th>
+            <th className="py-2 pr-2 font-medium">Orders</th>
+            <th className="py-2 pr-2 font-medium text-right">Collect</th>
+            <th className="py-2 font-medium w-32">Signature</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {stops.map((stop, index) => {
+            const cash = getCashToCollect(stop);
+            return (
+              <tr key={stop.id} className="align-top break-inside-avoid">
+                <td className="py-3 pr-2 font-semibold">{index + 1}</td>
+                <td className="py-3 pr-2">
+                  <p className="font-medium">{stop.restaurantName}</p>
+                  <p className="text-text-muted">{AddressFormatter.formatAddress(stop.address)}</p>
+                  {stop.phone && <p className="text-text-muted">{stop.phone}</p>}
+                  {stop.deliveryNotes && <p className="italic">{stop.deliveryNotes}</p>}
+                  {!stop.coordinates && <p className="text-earthy-brown">Not located on the map</p>}
+                </td>
+                <td className="py-3 pr-2">
+                  {stop.orders.map(order => (
+                    <p key={order.id}>
+                      #{order.orderNumber}
+                      {order.deliveryTimeSlot && (
+                        <span className="text-text-muted"> · {order.deliveryTimeSlot}</span>
+                      )}
+                      <span className="text-text-muted">
+                        {' '}
+                        · {order.items.length} {order.items.length === 1 ? 'item' : 'items'}
+                      </span>
+                    </p>
+                  ))}
+                </td>
+                <td className="py-3 pr-2 text-right">
+                  {cash > 0 ? CurrencyFormatter.formatBDT(cash) : 'Paid'}
+                </td>
+                <td className="py-3">
+                  <div className="h-8 border-b border-gray-300">
+                    <span className="sr-only">Receiver&apos;s signature</span>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </article>
+  );
+};
+
+export default RunSheet;
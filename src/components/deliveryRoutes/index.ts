@@ -0,0 +1,3 @@
+// Vendor delivery route planning
+export { default as RouteMap } from './RouteMap';
+export { default as RunSheet } from './RunSheet';
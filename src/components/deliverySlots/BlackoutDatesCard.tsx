@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { CalendarOff, Trash2 } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle, FormField } from '@/components/ui';
+import { useAddBlackoutDate, useRemoveBlackoutDate } from '@/hooks/useDeliverySlots';
+import { DeliveryBlackoutDate } from '@/types';
+import { DateFormatter } from '@/utils';
+
+interface BlackoutDatesCardProps {
+  blackoutDates: DeliveryBlackoutDate[];
+}
+
+const fieldClass =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+/**
+ * Dates the vendor does not deliver. Past dates are hidden; restaurants cannot
+ * pick a blackout date at checkout.
+ */
+export const BlackoutDatesCard: React.FC<BlackoutDatesCardProps> = ({ blackoutDates }) => {
+  const addMutation = useAddBlackoutDate();
+  const removeMutation = useRemoveBlackoutDate();
+  const [date, setDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  const today = DateFormatter.toDateInputValue(new Date());
+  const upcoming = blackoutDates.filter(blackout => blackout.date >= today);
+  const isDuplicate = blackoutDates.some(blackout => blackout.date === date);
+
+  const handleAdd = () => {
+    if (!date || isDuplicate) return;
+
+    addMutation.mutate(
+      { date, ...(reason.trim() && { reason: reason.trim() }) },
+      {
+        onSuccess: () => {
+          setDate('');
+          setReason('');
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <CalendarOff className="w-5 h-5 text-bottle-green" />
+          Blackout Dates
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-[auto_1fr_auto] gap-3 items-end">
+          <FormField label="Date">
+            <input
+              type="date"
+              min={today}
+              value={date}
+              onChange={e => setDate(e.target.value)}
+              className={fieldClass}
+            />
+          </FormField>
+          <FormField label="Reason (Optional)">
+            <input
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="e.g. Eid holiday"
+              className={fieldClass}
+            />
+          </FormField>
+          <Button
+            onClick={handleAdd}
+            disabled={!date || isDuplicate || addMutation.isPending}
+            loading={addMutation.isPending}
+          >
+            Add
+          </Button>
+        </div>
+        {isDuplicate && <p className="text-sm text-earthy-brown">That date is already blocked.</p>}
+
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-text-muted">No upcoming blackout dates.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {upcoming.map(blackout => (
+              <li key={blackout.id} className="py-2 flex items-center justify-between gap-3">
+                <div className="text-sm">
+                  <p className="font-medium text-text-dark">
+                    {DateFormatter.formatDate(blackout.date)}
+                  </p>
+                  {blackout.reason && <p className="text-text-muted">{blackout.reason}</p>}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeMutation.mutate(blackout.id)}
+                  disabled={removeMutation.isPending}
+                  className="p-1 text-text-muted hover:text-tomato-red disabled:opacity-50"
+                  aria-label={`Remove blackout on ${DateFormatter.formatDate(blackout.date)}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BlackoutDatesCard;
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarDays, CalendarOff } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  EmptyState,
+  FormField,
+  LoadingSpinner,
+} from '@/components/ui';
+import { OrderStatusBadge } from '@/components/orders';
+import { useDeliveryDayOrders, useReassignDeliverySlot } from '@/hooks/useDeliverySlots';
+import { DELIVERY_SLOT_NEARLY_FULL, VENDOR_ROUTES, WEEKDAY_LABELS } from '@/constants';
+import { DeliverySchedule, DeliverySlot, DeliverySlotUsage, Order } from '@/types';
+import {
+  DateFormatter,
+  getBlackoutDate,
+  getDeliverySlotLabel,
+  getDeliverySlotUsage,
+  getDeliveryWeekday,
+  getOrderWeightKg,
+  getSlotsForDate,
+  isOrderInSlot,
+  NumberFormatter,
+} from '@/utils';
+import { cn } from '@/utils/cn';
+
+interface DeliveryDayPlannerProps {
+  schedule: DeliverySchedule;
+}
+
+const fieldClass =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+const describeCapacity = (slot: DeliverySlot, usage: DeliverySlotUsage): string => {
+  const parts = [
+    slot.maxOrders
+      ? `${usage.orderCount} / ${slot.maxOrders} orders`
+      : `${usage.orderCount} ${usage.orderCount === 1 ? 'order' : 'orders'}`,
+  ];
+  if (slot.maxWeightKg) {
+    parts.push(`${NumberFormatter.formatQuantity(usage.weightKg, 'kg')} / ${slot.maxWeightKg} kg`);
+  }
+  return parts.join(' · ');
+};
+
+const fillClass = (fill: number): string => {
+  if (fill >= 1) return 'bg-tomato-red';
+  if (fill >= DELIVERY_SLOT_NEARLY_FULL) return 'bg-earthy-yellow';
+  return 'bg-bottle-green';
+};
+
+/**
+ * One delivery day: how full each slot is, with its orders. Orders can be
+ * moved to another slot that day, even a full one, since the vendor decides.
+ */
+export const DeliveryDayPlanner: React.FC<DeliveryDayPlannerProps> = ({ schedule }) => {
+  const [date, setDate] = useState(() => DateFormatter.toDateInputValue(new Date()));
+  const { data: orders = [], isLoading } = useDeliveryDayOrders(date);
+  const reassignMutation = useReassignDeliverySlot();
+
+  const slots = getSlotsForDate(schedule, date);
+  const blackout = getBlackoutDate(schedule, date);
+  const activeOrders = orders.filter(order => order.status !== 'cancelled');
+  const unassigned = activeOrders.filter(order => !slots.some(slot => isOrderInSlot(order, slot)));
+
+  const moveOrder = (order: Order, slotId: string) =>
+    reassignMutation.mutate({ id: order.id, data: { deliverySlot: slotId, deliveryDate: date } });
+
+  const renderOrders = (slotOrders: Order[], currentSlot?: DeliverySlot) => (
+    <ul className="divide-y divide-gray-100">
+      {slotOrders.map(order => (
+        <li
+          key={order.id}
+          className="py-2 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm"
+        >
+          <div className="min-w-0">
+            <Link
+              to={VENDOR_ROUTES.ORDER_DETAIL(order.id)}
+              className="font-medium text-bottle-green hover:underline"
+            >
+              #{order.orderNumber}
+            </Link>{' '}
+            <span className="text-text-dark">
+              {order.restaurant.restaurant?.restaurantName || order.restaurant.name}
+            </span>
+            <span className="block text-text-muted">
+              {NumberFormatter.formatQuantity(getOrderWeightKg(order), 'kg')}
+              {!currentSlot && order.deliveryTimeSlot && <> · requested {order.deliveryTimeSlot}</>}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <OrderStatusBadge status={order.status} />
+            <select
+              value=""
+              onChange={e => moveOrder(order, e.target.value)}
+              disabled={reassignMutation.isPending || order.status === 'delivered'}
+              aria-label={`Move order ${order.orderNumber} to another slot`}
+              className="px-2 py-1 border border-gray-200 rounded-lg text-sm bg-white"
+            >
+              <option value="">Move to...</option>
+              {slots
+                .filter(slot => slot.id !== currentSlot?.id)
+                .map(slot => (
+                  <option key={slot.id} value={slot.id}>
+                    {getDeliverySlotLabel(slot)}
+                    {getDeliverySlotUsage(slot, orders).isFull ? ' (full)' : ''}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <CalendarDays className="w-5 h-5 text-bottle-green" />
+            Day Planner
+          </CardTitle>
+          <FormField label={WEEKDAY_LABELS[getDeliveryWeekday(date)]} className="sm:w-48">
+            <input
+              type="date"
+              value={date}
+              onChange={e => e.target.value && setDate(e.target.value)}
+              className={fieldClass}
+            />
+          </FormField>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {blackout && (
+          <p className="p-4 bg-earthy-yellow/20 rounded-xl flex items-start gap-2 text-sm text-earthy-brown">
+            <CalendarOff className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            No deliveries on this date{blackout.reason && `: ${blackout.reason}`}.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : slots.length === 0 && unassigned.length === 0 ? (
+          <EmptyState
+            size="sm"
+            title={blackout ? 'Nothing booked' : 'No slots on this day'}
+            description={
+              blackout
+                ? 'Restaurants cannot book deliveries on a blackout date.'
+                : 'Add delivery slots for this weekday to take orders on it.'
+            }
+          />
+        ) : (
+          <>
+            {slots.map(slot => {
+              const usage = getDeliverySlotUsage(slot, orders);
+              const slotOrders = activeOrders.filter(order => isOrderInSlot(order, slot));
+              return (
+                <div key={slot.id} className="p-4 border border-gray-100 rounded-xl space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="font-semibold text-text-dark">{getDeliverySlotLabel(slot)}</p>
+                    <p
+                      className={cn(
+                        'text-sm',
+                        usage.isFull ? 'text-tomato-red font-medium' : 'text-text-muted'
+                      )}
+                    >
+                      {describeCapacity(slot, usage)}
+                      {usage.isFull && ' · Full'}
+                    </p>
+                  </div>
+                  {usage.fill !== null && (
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className={cn('h-full rounded-full', fillClass(usage.fill))}
+                        style={{ width: `${Math.min(usage.fill, 1) * 100}%` }}
+                      />
+                    </div>
+                  )}
+                  {slotOrders.length > 0 ? (
+                    renderOrders(slotOrders, slot)
+                  ) : (
+                    <p className="text-sm text-text-muted">No orders booked yet.</p>
+                  )}
+                </div>
+              );
+            })}
+
+            {unassigned.length > 0 && (
+              <div className="p-4 border border-earthy-yellow/40 rounded-xl space-y-3">
+                <div>
+                  <p className="font-semibold text-text-dark">Not in a slot</p>
+                  <p className="text-sm text-text-muted">
+                    Booked for a time window you no longer offer on this day. Move them into a slot.
+                  </p>
+                </div>
+                {renderOrders(unassigned)}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeliveryDayPlanner;
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { Button, FormField, Modal } from '@/components/ui';
+import { WEEKDAY_LABELS, WEEKDAY_ORDER } from '@/constants';
+import { useCreateDeliverySlot, useUpdateDeliverySlot } from '@/hooks/useDeliverySlots';
+import { DeliverySlot, SaveDeliverySlotRequest, Weekday } from '@/types';
+import { getDeliverySlotError } from '@/utils';
+
+interface DeliverySlotFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  slot?: DeliverySlot | null | undefined; // edit mode when set
+  weekday?: Weekday | undefined; // preselected day in create mode
+  slots: DeliverySlot[]; // existing slots, to catch overlaps
+}
+
+const fieldClass =
+  'w-full px-4 py-3 border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+const toLimit = (value: string): number | undefined => (value ? Number(value) : undefined);
+
+export const DeliverySlotFormModal: React.FC<DeliverySlotFormModalProps> = ({
+  isOpen,
+  onClose,
+  slot,
+  weekday,
+  slots,
+}) => {
+  const createMutation = useCreateDeliverySlot();
+  const updateMutation = useUpdateDeliverySlot();
+
+  const [day, setDay] = useState<Weekday>(6);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [maxOrders, setMaxOrders] = useState('');
+  const [maxWeightKg, setMaxWeightKg] = useState('');
+  const [isActive, setIsActive] = useState(true);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setDay(slot?.weekday ?? weekday ?? 6);
+    setStartTime(slot?.startTime || '');
+    setEndTime(slot?.endTime || '');
+    setMaxOrders(slot?.maxOrders ? String(slot.maxOrders) : '');
+    setMaxWeightKg(slot?.maxWeightKg ? String(slot.maxWeightKg) : '');
+    setIsActive(slot?.isActive ?? true);
+  }, [isOpen, slot, weekday]);
+
+  const orderLimit = toLimit(maxOrders);
+  const weightLimit = toLimit(maxWeightKg);
+  const data: SaveDeliverySlotRequest = {
+    weekday: day,
+    startTime,
+    endTime,
+    isActive,
+    ...(orderLimit !== undefined && { maxOrders: orderLimit }),
+    ...(weightLimit !== undefined && { maxWeightKg: weightLimit }),
+  };
+  const validationError = getDeliverySlotError(data, slots, slot?.id);
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const handleSubmit = () => {
+    if (validationError) return;
+
+    const handlers = { onSuccess: onClose };
+    if (slot) {
+      updateMutation.mutate({ id: slot.id, data }, handlers);
+    } else {
+      createMutation.mutate(data, handlers);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={slot ? 'Edit Delivery Slot' : 'New Delivery Slot'}
+      size="md"
+    >
+      <div className="space-y-6">
+        <FormField label="Day" required>
+          <select
+            value={day}
+            onChange={e => setDay(Number(e.target.value) as Weekday)}
+            className={fieldClass}
+          >
+            {WEEKDAY_ORDER.map(option => (
+              <option key={option} value={option}>
+                {WEEKDAY_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </FormField>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField label="Starts At" required>
+            <input
+              type="time"
+              value={startTime}
+              onChange={e => setStartTime(e.target.value)}
+              className={fieldClass}
+            />
+          </FormField>
+          <FormField label="Ends At" required>
+            <input
+              type="time"
+              value={endTime}
+              onChange={e => setEndTime(e.target.value)}
+              className={fieldClass}
+            />
+          </FormField>
+
+          <FormField label="Max Orders" helperText="Leave empty for no limit">
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={maxOrders}
+              onChange={e => setMaxOrders(e.target.value)}
+              className={fieldClass}
+            />
+          </FormField>
+          <FormField label="Max Weight (kg)" helperText="Leave empty for no limit">
+            <input
+              type="number"
+              min={1}
+              step="any"
+              value={maxWeightKg}
+              onChange={e => setMaxWeightKg(e.target.value)}
+              className={fieldClass}
+            />
+          </FormField>
+        </div>
+
+        <label
+          htmlFor="delivery-slot-active"
+          className="flex items-center gap-2 text-sm text-text-dark"
+        >
+          <input
+            id="delivery-slot-active"
+            type="checkbox"
+            checked={isActive}
+            onChange={e => setIsActive(e.target.checked)}
+            className="rounded border-gray-300 text-bottle-green focus:ring-bottle-green"
+          />
+          Offer this slot at checkout
+        </label>
+
+        {validationError && <p className="text-sm text-earthy-brown">{validationError}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!!validationError || isPending}
+            loading={isPending}
+          >
+            {slot ? 'Save Changes' : 'Add Slot'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default DeliverySlotFormModal;
@@ -0,0 +1,4 @@
+// Vendor delivery slots and capacity planning
+export { default as BlackoutDatesCard } from './BlackoutDatesCard';
+export { default as DeliveryDayPlanner } from './DeliveryDayPlanner';
+export { default as DeliverySlotFormModal } from './DeliverySlotFormModal';
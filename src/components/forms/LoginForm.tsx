@@ -51,7 +51,7 @@ export const LoginForm: React.FC<LoginFormProps> = ({
     mutationFn: AuthService.login,
     onSuccess: (response) => {
       // Store auth data
-      loginStore(response.user, response.token);
+      loginStore(response.user, response.token, response.refreshToken);
       
       // Show success notification
       addNotification({
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Eye, EyeOff, UserPlus, Loader2 } from 'lucide-react';
 import { useMutation } from '@tanstack/react-query';
@@ -15,8 +15,27 @@ import { AuthService } from '@/services/auth.service';
 import { useAuthStore } from '@/stores/authStore';
 import { useNotificationStore } from '@/stores/notificationStore';
 import { PhoneInput } from '@/components/ui/PhoneInput';
+import { AddressPicker } from '@/components/ui/AddressPicker';
 import { ApiError } from '@/types';
 import { USER_ROLES } from '@/constants';
+import { AddressField, AddressFormatter } from '@/utils';
+
+const ADDRESS_FIELDS: AddressField[] = [
+  'division',
+  'district',
+  'upazila',
+  'area',
+  'street',
+  'postalCode',
+];
+
+const addressFieldClass =
+  'w-full px-6 py-4 rounded-2xl transition-all duration-300 min-h-[44px] focus:outline-none bg-earthy-beige/30 border-0 focus:bg-white focus:shadow-lg focus:shadow-glow-green placeholder:text-text-muted/60 text-text-dark';
+
+// Field messages for the address picker from the nested form errors
+const getAddressErrors = (
+  error?: Partial<Record<AddressField, { message?: string | undefined }>>
+) => Object.fromEntries(ADDRESS_FIELDS.map(field => [field, error?.[field]?.message]));
 
 interface RegisterFormProps {
   onSuccess?: () => void;
@@ -37,6 +56,7 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
 
   const {
     register,
+    control,
     handleSubmit,
     setValue,
     watch,
@@ -65,7 +85,7 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
     mutationFn: AuthService.register,
     onSuccess: (response) => {
       // Store auth data
-      loginStore(response.user, response.token);
+      loginStore(response.user, response.token, response.refreshToken);
       
       // Show success notification
       addNotification({
@@ -118,7 +138,7 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
     if (showVendorFields && data.businessName && data.businessType && data.businessAddress) {
       requestData.businessName = data.businessName;
       requestData.businessType = data.businessType;
-      requestData.businessAddress = data.businessAddress;
+      requestData.businessAddress = AddressFormatter.normalizeAddress(data.businessAddress);
       if (data.businessLicense) {
         requestData.businessLicense = data.businessLicense;
       }
@@ -128,7 +148,7 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
     if (showRestaurantFields && data.restaurantName && data.restaurantType && data.restaurantAddress) {
       requestData.restaurantName = data.restaurantName;
       requestData.restaurantType = data.restaurantType;
-      requestData.restaurantAddress = data.restaurantAddress;
+      requestData.restaurantAddress = AddressFormatter.normalizeAddress(data.restaurantAddress);
       if (data.cuisineType && data.cuisineType.length > 0) {
         requestData.cuisineType = data.cuisineType;
       }
@@ -353,64 +373,19 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
                 <label className="block text-sm font-medium text-text-dark/80 mb-3 tracking-wide">
                   Business Address <span className="text-tomato-red">*</span>
                 </label>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <input
-                    {...register('businessAddress.street')}
-                    type="text"
-                    placeholder="Street address"
-                    disabled={registerMutation.isPending}
-                    className={`
-                      w-full px-6 py-4 rounded-2xl transition-all duration-300 min-h-[44px] focus:outline-none
-                      ${errors.businessAddress?.street ? 
-                        'border-2 border-tomato-red/30 bg-tomato-red/5 focus:border-tomato-red/50 focus:ring-2 focus:ring-tomato-red/10' : 
-                        'bg-earthy-beige/30 border-0 focus:bg-white focus:shadow-lg focus:shadow-glow-green'
-                      }
-                      placeholder:text-text-muted/60 text-text-dark
-                    `}
-                  />
-                  <input
-                    {...register('businessAddress.area')}
-                    type="text"
-                    placeholder="Area/Neighborhood"
-                    disabled={registerMutation.isPending}
-                    className={`
-                      w-full px-6 py-4 rounded-2xl transition-all duration-300 min-h-[44px] focus:outline-none
-                      ${errors.businessAddress?.area ? 
-                        'border-2 border-tomato-red/30 bg-tomato-red/5 focus:border-tomato-red/50 focus:ring-2 focus:ring-tomato-red/10' : 
-                        'bg-earthy-beige/30 border-0 focus:bg-white focus:shadow-lg focus:shadow-glow-green'
-                      }
-                      placeholder:text-text-muted/60 text-text-dark
-                    `}
-                  />
-                  <input
-                    {...register('businessAddress.city')}
-                    type="text"
-                    placeholder="City"
-                    disabled={registerMutation.isPending}
-                    className={`
-                      w-full px-6 py-4 rounded-2xl transition-all duration-300 min-h-[44px] focus:outline-none
-                      ${errors.businessAddress?.city ? 
-                        'border-2 border-tomato-red/30 bg-tomato-red/5 focus:border-tomato-red/50 focus:ring-2 focus:ring-tomato-red/10' : 
-                        'bg-earthy-beige/30 border-0 focus:bg-white focus:shadow-lg focus:shadow-glow-green'
-                      }
-                      placeholder:text-text-muted/60 text-text-dark
-                    `}
-                  />
-                  <input
-                    {...register('businessAddress.postalCode')}
-                    type="text"
-                    placeholder="Postal code"
-                    disabled={registerMutation.isPending}
-                    className={`
-                      w-full px-6 py-4 rounded-2xl transition-all duration-300 min-h-[44px] focus:outline-none
-                      ${errors.businessAddress?.postalCode ? 
-                        'border-2 border-tomato-red/30 bg-tomato-red/5 focus:border-tomato-red/50 focus:ring-2 focus:ring-tomato-red/10' : 
-                        'bg-earthy-beige/30 border-0 focus:bg-white focus:shadow-lg focus:shadow-glow-green'
-                      }
-                      placeholder:text-text-muted/60 text-text-dark
-                    `}
-                  />
-                </div>
+                <Controller
+                  control={control}
+                  name="businessAddress"
+                  render={({ field }) => (
+                    <AddressPicker
+                      value={field.value}
+                      onChange={field.onChange}
+                      errors={getAddressErrors(errors.businessAddress)}
+                      disabled={registerMutation.isPending}
+                      fieldClassName={addressFieldClass}
+                    />
+                  )}
+                />
               </div>
 
               {/* Business License (Optional) */}
@@ -519,64 +494,19 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
                 <label className="block text-sm font-medium text-text-dark/80 mb-3 tracking-wide">
                   Restaurant Address <span className="text-tomato-red">*</span>
                 </label>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <input
-                    {...register('restaurantAddress.street')}
-                    type="text"
-                    placeholder="Street address"
-                    disabled={registerMutation.isPending}
-                    className={`
-                      w-full px-6 py-4 rounded-2xl transition-all duration-300 min-h-[44px] focus:outline-none
-                      ${errors.restaurantAddress?.street ? 
-                        'border-2 border-tomato-red/30 bg-tomato-red/5 focus:border-tomato-red/50 focus:ring-2 focus:ring-tomato-red/10' : 
-                        'bg-earthy-beige/30 border-0 focus:bg-white focus:shadow-lg focus:shadow-glow-green'
-                      }
-                      placeholder:text-text-muted/60 text-text-dark
-                    `}
-                  />
-                  <input
-                    {...register('restaurantAddress.area')}
-                    type="text"
-                    placeholder="Area/Neighborhood"
-                    disabled={registerMutation.isPending}
-                    className={`
-                      w-full px-6 py-4 rounded-2xl transition-all duration-300 min-h-[44px] focus:outline-none
-                      ${errors.restaurantAddress?.area ? 
-                        'border-2 border-tomato-red/30 bg-tomato-red/5 focus:border-tomato-red/50 focus:ring-2 focus:ring-tomato-red/10' : 
-                        'bg-earthy-beige/30 border-0 focus:bg-white focus:shadow-lg focus:shadow-glow-green'
-                      }
-                      placeholder:text-text-muted/60 text-text-dark
-                    `}
-                  />
-                  <input
-                    {...register('restaurantAddress.city')}
-                    type="text"
-                    placeholder="City"
-                    disabled={registerMutation.isPending}
-                    className={`
-                      w-full px-6 py-4 rounded-2xl transition-all duration-300 min-h-[44px] focus:outline-none
-                      ${errors.restaurantAddress?.city ? 
-                        'border-2 border-tomato-red/30 bg-tomato-red/5 focus:border-tomato-red/50 focus:ring-2 focus:ring-tomato-red/10' : 
-                        'bg-earthy-beige/30 border-0 focus:bg-white focus:shadow-lg focus:shadow-glow-green'
-                      }
-                      placeholder:text-text-muted/60 text-text-dark
-                    `}
-                  />
-                  <input
-                    {...register('restaurantAddress.postalCode')}
-                    type="text"
-                    placeholder="Postal code"
-                    disabled={registerMutation.isPending}
-                    className={`
-                      w-full px-6 py-4 rounded-2xl transition-all duration-300 min-h-[44px] focus:outline-none
-                      ${errors.restaurantAddress?.postalCode ? 
-                        'border-2 border-tomato-red/30 bg-tomato-red/5 focus:border-tomato-red/50 focus:ring-2 focus:ring-tomato-red/10' : 
-                        'bg-earthy-beige/30 border-0 focus:bg-white focus:shadow-lg focus:shadow-glow-green'
-                      }
-                      placeholder:text-text-muted/60 text-text-dark
-                    `}
-                  />
-                </div>
+                <Controller
+                  control={control}
+                  name="restaurantAddress"
+                  render={({ field }) => (
+                    <AddressPicker
+                      value={field.value}
+                      onChange={field.onChange}
+                      errors={getAddressErrors(errors.restaurantAddress)}
+                      disabled={registerMutation.isPending}
+                      fieldClassName={addressFieldClass}
+                    />
+                  )}
+                />
               </div>
             </div>
           )}
@@ -0,0 +1,162 @@
+import React from 'react';
+import { ORDER_STATUS_LABELS, PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from '@/constants';
+import { Invoice, InvoiceParty } from '@/types';
+import { AddressFormatter, CurrencyFormatter, DateFormatter } from '@/utils';
+import { cn } from '@/utils/cn';
+
+export const InvoicePartyBlock: React.FC<{ label: string; party: InvoiceParty }> = ({
+  label,
+  party,
+}) => (
+  <div className="text-sm">
+    <p className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-1">{label}</p>
+    <p className="font-semibold text-text-dark">{party.businessName}</p>
+    {party.contactName !== party.businessName && (
+      <p className="text-text-dark">{party.contactName}</p>
+    )}
+    <p className="text-text-muted">{party.phone}</p>
+    {party.address && (
+      <p className="text-text-muted">{AddressFormatter.formatAddress(party.address)}</p>
+    )}
+    {party.businessLicense && (
+      <p className="text-text-muted">Trade licence: {party.businessLicense}</p>
+    )}
+  </div>
+);
+
+interface InvoiceDocumentProps {
+  invoice: Invoice;
+  className?: string;
+}
+
+/**
+ * Printable invoice for one order. Styled for both the screen and paper; the
+ * page wrapping it decides what else is hidden when printing.
+ */
+export const InvoiceDocument: React.FC<InvoiceDocumentProps> = ({ invoice, className }) => (
+  <article
+    className={cn(
+      'bg-white rounded-3xl border border-gray-100 p-6 sm:p-10 space-y-8 text-text-dark',
+      'print:rounded-none print:border-0 print:p-0',
+      className
+    )}
+  >
+    <header className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Invoice</h2>
+        <p className="text-text-muted">{invoice.invoiceNumber}</p>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        <dt className="text-text-muted">Order</dt>
+        <dd className="text-right">#{invoice.orderNumber}</dd>
+        <dt className="text-text-muted">Issued</dt>
+        <dd className="text-right">{DateFormatter.formatDate(invoice.issuedAt)}</dd>
+        {invoice.deliveryDate && (
+          <>
+            <dt className="text-text-muted">Delivery</dt>
+            <dd className="text-right">
+              {DateFormatter.formatDate(invoice.deliveryDate)}
+              {invoice.deliveryTimeSlot && <> · {invoice.deliveryTimeSlot}</>}
+            </dd>
+          </>
+        )}
+        {invoice.dueDate && (
+          <>
+            <dt className="text-text-muted">Payment due</dt>
+            <dd className="text-right">{DateFormatter.formatDate(invoice.dueDate)}</dd>
+          </>
+        )}
+        <dt className="text-text-muted">Status</dt>
+        <dd className="text-right">{ORDER_STATUS_LABELS[invoice.status]}</dd>
+      </dl>
+    </header>
+
+    <section className="grid grid-cols-1 sm:grid-cols-3 gap-6 print:grid-cols-3">
+      <InvoicePartyBlock label="From" party={invoice.seller} />
+      <InvoicePartyBlock label="Bill to" party={invoice.buyer} />
+      <div className="text-sm">
+        <p className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-1">
+          Deliver to
+        </p>
+        <p className="text-text-dark">{AddressFormatter.formatAddress(invoice.deliveryAddress)}</p>
+      </div>
+    </section>
+
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200 text-left text-text-muted">
+          <th className="py-2 font-medium">Item</th>
+          <th className="py-2 font-medium text-right">Quantity</th>
+          <th className="py-2 font-medium text-right">Unit price</th>
+          <th className="py-2 font-medium text-right">Amount</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {invoice.lines.map(line => (
+          <tr key={line.id} className="break-inside-avoid">
+            <td className="py-2">
+              {line.description}
+              {line.notes && <span className="block text-xs text-text-muted">{line.notes}</span>}
+            </td>
+            <td className="py-2 text-right">
+              {line.quantity} {line.unit}
+            </td>
+            <td className="py-2 text-right">{CurrencyFormatter.formatBDT(line.unitPrice)}</td>
+            <td className="py-2 text-right">{CurrencyFormatter.formatBDT(line.total)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <dl className="ml-auto w-full sm:w-72 space-y-2 text-sm break-inside-avoid">
+      <div className="flex justify-between">
+        <dt className="text-text-muted">Subtotal</dt>
+        <dd>{CurrencyFormatter.formatBDT(invoice.subtotal)}</dd>
+      </div>
+      {!!invoice.deliveryFee && (
+        <div className="flex justify-between">
+          <dt className="text-text-muted">Delivery fee</dt>
+          <dd>{CurrencyFormatter.formatBDT(invoice.deliveryFee)}</dd>
+        </div>
+      )}
+      {!!invoice.taxAmount && (
+        <div className="flex justify-between">
+          <dt className="text-text-muted">Tax</dt>
+          <dd>{CurrencyFormatter.formatBDT(invoice.taxAmount)}</dd>
+        </div>
+      )}
+      {!!invoice.discountAmount && (
+        <div className="flex justify-between">
+          <dt className="text-text-muted">Discount</dt>
+          <dd>-{CurrencyFormatter.formatBDT(invoice.discountAmount)}</dd>
+        </div>
+      )}
+      <div className="flex justify-between pt-2 border-t border-gray-200 text-base font-semibold">
+        <dt>Total</dt>
+        <dd>{CurrencyFormatter.formatBDT(invoice.total)}</dd>
+      </div>
+    </dl>
+
+    <footer className="grid grid-cols-1 sm:grid-cols-2 gap-6 text-sm break-inside-avoid">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-1">
+          Payment
+        </p>
+        <p>
+          {invoice.paymentMethod ? PAYMENT_METHOD_LABELS[invoice.paymentMethod] : 'Not specified'} ·{' '}
+          {PAYMENT_STATUS_LABELS[invoice.paymentStatus]}
+        </p>
+      </div>
+      {invoice.notes && (
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-text-muted mb-1">
+            Notes
+          </p>
+          <p>{invoice.notes}</p>
+        </div>
+      )}
+    </footer>
+  </article>
+);
+
+export default InvoiceDocument;
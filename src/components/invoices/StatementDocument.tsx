@@ -0,0 +1,92 @@
+import React from 'react';
+import { ORDER_STATUS_LABELS, PAYMENT_STATUS_LABELS } from '@/constants';
+import { AccountStatement } from '@/types';
+import { CurrencyFormatter, DateFormatter, formatStatementMonth } from '@/utils';
+import { cn } from '@/utils/cn';
+import { InvoicePartyBlock } from './InvoiceDocument';
+
+interface StatementDocumentProps {
+  statement: AccountStatement;
+  className?: string;
+}
+
+/**
+ * Printable monthly statement of every order between one restaurant and one
+ * vendor, with a running balance of what is still owed.
+ */
+export const StatementDocument: React.FC<StatementDocumentProps> = ({ statement, className }) => (
+  <article
+    className={cn(
+      'bg-white rounded-3xl border border-gray-100 p-6 sm:p-10 space-y-8 text-text-dark',
+      'print:rounded-none print:border-0 print:p-0',
+      className
+    )}
+  >
+    <header className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight">Account Statement</h2>
+        <p className="text-text-muted">{formatStatementMonth(statement.month)}</p>
+      </div>
+      <p className="text-sm text-text-muted">
+        {DateFormatter.formatDate(statement.periodStart)} –{' '}
+        {DateFormatter.formatDate(statement.periodEnd)}
+      </p>
+    </header>
+
+    <section className="grid grid-cols-1 sm:grid-cols-2 gap-6 print:grid-cols-2">
+      <InvoicePartyBlock label="Vendor" party={statement.seller} />
+      <InvoicePartyBlock label="Restaurant" party={statement.buyer} />
+    </section>
+
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200 text-left text-text-muted">
+          <th className="py-2 font-medium">Date</th>
+          <th className="py-2 font-medium">Order</th>
+          <th className="py-2 font-medium hidden sm:table-cell print:table-cell">Status</th>
+          <th className="py-2 font-medium hidden sm:table-cell print:table-cell">Payment</th>
+          <th className="py-2 font-medium text-right">Amount</th>
+          <th className="py-2 font-medium text-right">Paid</th>
+          <th className="py-2 font-medium text-right">Balance</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {statement.entries.map(entry => (
+          <tr
+            key={entry.orderId}
+            className={cn('break-inside-avoid', entry.status === 'cancelled' && 'text-text-muted')}
+          >
+            <td className="py-2">{new Date(entry.date).toLocaleDateString('en-BD')}</td>
+            <td className="py-2">#{entry.orderNumber}</td>
+            <td className="py-2 hidden sm:table-cell print:table-cell">
+              {ORDER_STATUS_LABELS[entry.status]}
+            </td>
+            <td className="py-2 hidden sm:table-cell print:table-cell">
+              {PAYMENT_STATUS_LABELS[entry.paymentStatus]}
+            </td>
+            <td className="py-2 text-right">{CurrencyFormatter.formatBDT(entry.amount)}</td>
+            <td className="py-2 text-right">{CurrencyFormatter.formatBDT(entry.paid)}</td>
+            <td className="py-2 text-right">{CurrencyFormatter.formatBDT(entry.balance)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <dl className="ml-auto w-full sm:w-72 space-y-2 text-sm break-inside-avoid">
+      <div className="flex justify-between">
+        <dt className="text-text-muted">Total ordered</dt>
+        <dd>{CurrencyFormatter.formatBDT(statement.totalOrdered)}</dd>
+      </div>
+      <div className="flex justify-between">
+        <dt className="text-text-muted">Paid</dt>
+        <dd>{CurrencyFormatter.formatBDT(statement.totalPaid)}</dd>
+      </div>
+      <div className="flex justify-between pt-2 border-t border-gray-200 text-base font-semibold">
+        <dt>Outstanding</dt>
+        <dd>{CurrencyFormatter.formatBDT(statement.totalOutstanding)}</dd>
+      </div>
+    </dl>
+  </article>
+);
+
+export default StatementDocument;
@@ -0,0 +1,3 @@
+// Printable invoices and account statements
+export { default as InvoiceDocument, InvoicePartyBlock } from './InvoiceDocument';
+export { default as StatementDocument } from './StatementDocument';
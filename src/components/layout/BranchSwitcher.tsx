@@ -0,0 +1,35 @@
+import React from 'react';
+import { Store } from 'lucide-react';
+import { useActiveBranch, useBranches, useSwitchBranch } from '@/hooks/useBranches';
+
+/**
+ * Header select for the branch being ordered for; hidden for single-branch
+ * restaurants.
+ */
+export const BranchSwitcher: React.FC = () => {
+  const { data: branches = [] } = useBranches();
+  const activeBranch = useActiveBranch();
+  const switchBranch = useSwitchBranch();
+
+  if (branches.length < 2) return null;
+
+  return (
+    <div className="relative hidden sm:flex items-center">
+      <Store className="absolute left-3 w-4 h-4 text-bottle-green pointer-events-none" />
+      <select
+        value={activeBranch?.id}
+        onChange={e => switchBranch(e.target.value)}
+        className="pl-9 pr-8 py-2 rounded-xl bg-earthy-beige/30 border-0 text-sm font-medium text-text-dark focus:outline-none focus:ring-2 focus:ring-bottle-green/40"
+        aria-label="Ordering for branch"
+      >
+        {branches.map(branch => (
+          <option key={branch.id} value={branch.id}>
+            {branch.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default BranchSwitcher;
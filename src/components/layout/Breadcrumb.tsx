@@ -36,9 +36,8 @@ const routeLabels: Record<string, string> = {
   // Vendor routes
   '/vendor': 'Vendor',
   '/vendor/dashboard': 'Vendor Dashboard',
-  '/vendor/products': 'My Products',
-  '/vendor/products/new': 'Add Product',
-  '/vendor/products/edit': 'Edit Product',
+  '/vendor/listings': 'My Listings',
+  '/vendor/listings/create': 'New Listing',
   '/vendor/orders': 'Orders',
   '/vendor/orders/details': 'Order Details',
   '/vendor/inventory': 'Inventory',
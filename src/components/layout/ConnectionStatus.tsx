@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CloudOff, RefreshCw, UploadCloud } from 'lucide-react';
+import { useOfflineStore } from '@/stores/offlineStore';
+import { cn } from '@/utils/cn';
+import OutboxPanel from './OutboxPanel';
+
+/**
+ * Header pill showing the connection state and the offline outbox. Hidden
+ * while online with nothing queued; clicking it opens the outbox panel.
+ */
+export const ConnectionStatus: React.FC = () => {
+  const isOnline = useOfflineStore(state => state.isOnline);
+  const isSyncing = useOfflineStore(state => state.isSyncing);
+  const entries = useOfflineStore(state => state.entries);
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+
+  const conflictCount = entries.filter(entry => entry.status === 'conflict').length;
+  const pendingCount = entries.length - conflictCount;
+
+  if (isOnline && entries.length === 0 && !isPanelOpen) return null;
+
+  let icon = <UploadCloud className="w-4 h-4" />;
+  let label = `${pendingCount} queued`;
+  let tone = 'bg-earthy-yellow/20 text-earthy-brown';
+
+  if (!isOnline) {
+    icon = <CloudOff className="w-4 h-4" />;
+    label = pendingCount > 0 ? `Offline · ${pendingCount} queued` : 'Offline';
+    tone = 'bg-gray-100 text-text-muted';
+  } else if (isSyncing) {
+    icon = <RefreshCw className="w-4 h-4 animate-spin" />;
+    label = 'Syncing…';
+    tone = 'bg-mint-fresh/20 text-bottle-green';
+  } else if (conflictCount > 0) {
+    icon = <AlertTriangle className="w-4 h-4" />;
+    label = `${conflictCount} need${conflictCount === 1 ? 's' : ''} attention`;
+    tone = 'bg-tomato-red/10 text-tomato-red';
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsPanelOpen(true)}
+        className={cn(
+          'flex items-center gap-2 px-3 py-2 rounded-full text-xs font-medium transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-bottle-green/40',
+          tone
+        )}
+        aria-live="polite"
+        aria-label={`${label}. Show offline changes`}
+      >
+        {icon}
+        <span className="hidden sm:inline">{label}</span>
+      </button>
+      <OutboxPanel isOpen={isPanelOpen} onClose={() => setIsPanelOpen(false)} />
+    </>
+  );
+};
+
+export default ConnectionStatus;
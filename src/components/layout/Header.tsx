@@ -15,10 +15,14 @@ import {
 } from 'lucide-react';
 
 import { useAuthStore } from '@/stores/authStore';
-import { useNotificationStore } from '@/stores/notificationStore';
 import { useThemeStore } from '@/stores/themeStore';
-import { USER_ROLES } from '@/constants';
+import { COMMON_ROUTES, FEATURES, USER_ROLES } from '@/constants';
+import { useMarkNotificationRead, useNotifications, useUnreadNotificationCount } from '@/hooks/useNotifications';
+import { AppNotification } from '@/types';
+import { DateFormatter, getNotificationLink } from '@/utils';
 import { useTouchRipple, triggerHapticFeedback, isTouchDevice } from '@/hooks/useTouchInteractions';
+import ConnectionStatus from './ConnectionStatus';
+import BranchSwitcher from './BranchSwitcher';
 
 interface HeaderProps {
   onMenuToggle: () => void;
@@ -33,15 +37,16 @@ export const Header: React.FC<HeaderProps> = ({
 }) => {
   const navigate = useNavigate();
   const { user, logout } = useAuthStore();
-  const { notifications, removeNotification } = useNotificationStore();
+  const { data: latestNotifications } = useNotifications({ limit: 5 });
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  const markNotificationRead = useMarkNotificationRead();
   const { theme, toggleTheme } = useThemeStore();
   
   // Touch interaction hooks
   const { addRipple, rippleElements } = useTouchRipple();
   
-  // Calculate unread count (all visible notifications are considered unread)
-  const unreadCount = notifications.filter(n => n.isVisible).length;
-  
+  const notifications = latestNotifications?.data || [];
+
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -73,9 +78,16 @@ export const Header: React.FC<HeaderProps> = ({
     }
   };
 
-  const handleNotificationClick = (notificationId: string) => {
-    removeNotification(notificationId);
+  const handleNotificationClick = (notification: AppNotification) => {
+    if (!notification.isRead) {
+      markNotificationRead.mutate(notification.id);
+    }
     setIsNotificationsOpen(false);
+
+    const link = user ? getNotificationLink(notification, user.role) : null;
+    if (link) {
+      navigate(link);
+    }
   };
 
   const handleSearch = (e: React.FormEvent) => {
@@ -181,6 +193,13 @@ export const Header: React.FC<HeaderProps> = ({
 
         {/* Right section - Actions */}
         <div className="flex items-center gap-2">
+          {/* Branch being ordered for */}
+          {(user?.role === USER_ROLES.RESTAURANT_OWNER ||
+            user?.role === USER_ROLES.RESTAURANT_MANAGER) && <BranchSwitcher />}
+
+          {/* Connection and offline outbox */}
+          {FEATURES.offlineMode && <ConnectionStatus />}
+
           {/* Theme toggle */}
           <button
             onClick={(e) => {
@@ -233,24 +252,17 @@ export const Header: React.FC<HeaderProps> = ({
                   )}
                 </div>
                 
-                <div className="max-h-80 overflow-y-auto">
+                <div className="max-h-64 overflow-y-auto">
                   {notifications.length > 0 ? (
-                    notifications.slice(0, 5).map((notification) => (
+                    notifications.map((notification) => (
                       <button
                         key={notification.id}
-                        onClick={() => handleNotificationClick(notification.id)}
-                        className="w-full text-left p-4 hover:bg-gray-50 transition-colors duration-200 border-b border-gray-50 last:border-b-0 bg-bottle-green/5 border-l-4 border-l-bottle-green"
+                        onClick={() => handleNotificationClick(notification)}
+                        className={`w-full text-left p-4 hover:bg-gray-50 transition-colors duration-200 border-b border-gray-50 last:border-b-0 ${
+                          notification.isRead ? '' : 'bg-bottle-green/5 border-l-4 border-l-bottle-green'
+                        }`}
                       >
                         <div className="flex items-start gap-3">
-                          <div className={`
-                            w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0
-                            ${notification.type === 'success' ? 'bg-mint-fresh/20 text-bottle-green' : ''}
-                            ${notification.type === 'error' ? 'bg-tomato-red/10 text-tomato-red' : ''}
-                            ${notification.type === 'warning' ? 'bg-earthy-yellow/20 text-earthy-brown' : ''}
-                            ${notification.type === 'info' ? 'bg-blue-100 text-blue-600' : ''}
-                          `}>
-                            {notification.type === 'success' ? '✓' : notification.type === 'error' ? '✕' : '!'}
-                          </div>
                           <div className="flex-1 min-w-0">
                             <h4 className="font-medium text-text-dark text-sm mb-1">
                               {notification.title}
@@ -259,7 +271,7 @@ export const Header: React.FC<HeaderProps> = ({
                               {notification.message}
                             </p>
                             <p className="text-text-muted text-xs mt-1">
-                              {new Date(notification.createdAt).toLocaleTimeString()}
+                              {DateFormatter.formatRelativeTime(notification.createdAt)}
                             </p>
                           </div>
                         </div>
@@ -273,19 +285,17 @@ export const Header: React.FC<HeaderProps> = ({
                   )}
                 </div>
 
-                {notifications.length > 5 && (
-                  <div className="p-4 border-t border-gray-100">
-                    <button
-                      onClick={() => {
-                        navigate('/notifications');
-                        setIsNotificationsOpen(false);
-                      }}
-                      className="w-full text-center text-bottle-green hover:text-bottle-green/80 font-medium text-sm transition-colors duration-200"
-                    >
-                      View all notifications
-                    </button>
-                  </div>
-                )}
+                <div className="p-4 border-t border-gray-100">
+                  <button
+                    onClick={() => {
+                      navigate(COMMON_ROUTES.NOTIFICATIONS);
+                      setIsNotificationsOpen(false);
+                    }}
+                    className="w-full text-center text-bottle-green hover:text-bottle-green/80 font-medium text-sm transition-colors duration-200"
+                  >
+                    View all notifications
+                  </button>
+                </div>
               </div>
             )}
           </div>
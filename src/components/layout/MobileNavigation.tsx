@@ -15,7 +15,8 @@ import {
 } from 'lucide-react';
 
 import { useAuthStore } from '@/stores/authStore';
-import { USER_ROLES } from '@/constants';
+import { Permission, PERMISSIONS, USER_ROLES } from '@/constants';
+import { usePermissions } from '@/hooks/usePermission';
 import { useTouchRipple, triggerHapticFeedback, isTouchDevice } from '@/hooks/useTouchInteractions';
 
 interface MobileNavItem {
@@ -25,11 +26,13 @@ interface MobileNavItem {
   path: string;
   badge?: string | number;
   roles?: string[];
+  permission?: Permission;
 }
 
 export const MobileNavigation: React.FC = () => {
   const location = useLocation();
   const { user } = useAuthStore();
+  const { can } = usePermissions();
   
   // Touch interaction hooks
   const { addRipple, rippleElements } = useTouchRipple();
@@ -51,6 +54,7 @@ export const MobileNavigation: React.FC = () => {
       icon: Users,
       path: '/admin/users',
       roles: [USER_ROLES.ADMIN],
+      permission: PERMISSIONS.VIEW_USERS,
     },
     {
       id: 'admin-analytics',
@@ -58,6 +62,7 @@ export const MobileNavigation: React.FC = () => {
       icon: BarChart3,
       path: '/admin/analytics',
       roles: [USER_ROLES.ADMIN],
+      permission: PERMISSIONS.VIEW_SYSTEM_ANALYTICS,
     },
 
     // Vendor-specific items
@@ -65,8 +70,9 @@ export const MobileNavigation: React.FC = () => {
       id: 'vendor-products',
       label: 'Products',
       icon: Package,
-      path: '/vendor/products',
+      path: '/vendor/listings',
       roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.MANAGE_LISTINGS,
     },
     {
       id: 'vendor-orders',
@@ -75,6 +81,7 @@ export const MobileNavigation: React.FC = () => {
       path: '/vendor/orders',
       roles: [USER_ROLES.VENDOR],
       badge: '3',
+      permission: PERMISSIONS.UPDATE_ORDER_STATUS,
     },
     {
       id: 'vendor-inventory',
@@ -82,6 +89,7 @@ export const MobileNavigation: React.FC = () => {
       icon: Store,
       path: '/vendor/inventory',
       roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.EDIT_LISTINGS,
     },
     {
       id: 'vendor-analytics',
@@ -89,6 +97,7 @@ export const MobileNavigation: React.FC = () => {
       icon: TrendingUp,
       path: '/vendor/analytics',
       roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.VIEW_ANALYTICS,
     },
 
     // Restaurant-specific items
@@ -96,8 +105,9 @@ export const MobileNavigation: React.FC = () => {
       id: 'restaurant-marketplace',
       label: 'Shop',
       icon: ShoppingCart,
-      path: '/restaurant/marketplace',
+      path: '/restaurant/browse',
       roles: [USER_ROLES.RESTAURANT_OWNER, USER_ROLES.RESTAURANT_MANAGER],
+      permission: PERMISSIONS.CREATE_ORDERS,
     },
     {
       id: 'restaurant-orders',
@@ -113,6 +123,7 @@ export const MobileNavigation: React.FC = () => {
       icon: Truck,
       path: '/restaurant/suppliers',
       roles: [USER_ROLES.RESTAURANT_OWNER, USER_ROLES.RESTAURANT_MANAGER],
+      permission: PERMISSIONS.MANAGE_RESTAURANT,
     },
 
     // Common settings item (always last)
@@ -129,6 +140,9 @@ export const MobileNavigation: React.FC = () => {
     if (!user) return [];
     
     const filteredItems = allMobileNavItems.filter(item => {
+      // Hide items the role is allowed to see but the user lacks permission for
+      if (item.permission && !can(item.permission)) return false;
+      
       // If no roles specified, show to all users
       if (!item.roles || item.roles.length === 0) return true;
       
@@ -153,7 +167,7 @@ export const MobileNavigation: React.FC = () => {
     if (settings) result.push(settings);
 
     return result.slice(0, 5); // Ensure max 5 items
-  }, [user]);
+  }, [user, can]);
 
   const isActiveItem = (path: string) => {
     return location.pathname === path || location.pathname.startsWith(path + '/');
@@ -0,0 +1,117 @@
+import React from 'react';
+import { AlertTriangle, Clock, RefreshCw, Trash2 } from 'lucide-react';
+import { Button, EmptyState, Modal } from '@/components/ui';
+import { useOfflineStore } from '@/stores/offlineStore';
+import { OutboxEntry } from '@/types';
+import { DateFormatter } from '@/utils';
+
+interface OutboxPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Orders create new records, so "apply anyway" only makes sense for edits
+const canForce = (entry: OutboxEntry) => entry.action.type !== 'createOrder';
+
+export const OutboxPanel: React.FC<OutboxPanelProps> = ({ isOpen, onClose }) => {
+  const entries = useOfflineStore(state => state.entries);
+  const isOnline = useOfflineStore(state => state.isOnline);
+  const isSyncing = useOfflineStore(state => state.isSyncing);
+  const { syncOutbox, retryEntry, discardEntry } = useOfflineStore.getState();
+
+  const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Offline changes" size="lg">
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-sm text-text-muted">
+            {isOnline
+              ? 'Queued changes are sent in the order they were made.'
+              : 'You are offline. Changes are kept on this device until the connection is back.'}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            leftIcon={<RefreshCw className="w-4 h-4" />}
+            onClick={() => syncOutbox()}
+            loading={isSyncing}
+            disabled={!isOnline || pendingCount === 0}
+          >
+            Send now
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <EmptyState
+            icon={<Clock className="w-12 h-12" />}
+            title="Nothing queued"
+            description="Changes made while offline will appear here until they are sent."
+          />
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-2xl">
+            {entries.map(entry => (
+              <li key={entry.id} className="p-4 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-text-dark">{entry.label}</p>
+                    <p className="text-xs text-text-muted">
+                      Queued {DateFormatter.formatRelativeTime(entry.createdAt)}
+                      {entry.attempts > 0 &&
+                        ` · ${entry.attempts} attempt${entry.attempts === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+                  {entry.status === 'conflict' ? (
+                    <span className="flex items-center gap-1 text-xs font-medium text-tomato-red">
+                      <AlertTriangle className="w-4 h-4" />
+                      Needs attention
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-xs font-medium text-earthy-brown">
+                      <Clock className="w-4 h-4" />
+                      Waiting
+                    </span>
+                  )}
+                </div>
+
+                {entry.error && <p className="text-sm text-tomato-red">{entry.error}</p>}
+
+                {entry.status === 'conflict' && (
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<Trash2 className="w-4 h-4" />}
+                      onClick={() => discardEntry(entry.id)}
+                    >
+                      Discard
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => retryEntry(entry.id)}
+                      disabled={!isOnline || isSyncing}
+                    >
+                      Retry
+                    </Button>
+                    {canForce(entry) && (
+                      <Button
+                        size="sm"
+                        onClick={() => retryEntry(entry.id, true)}
+                        disabled={!isOnline || isSyncing}
+                      >
+                        Apply anyway
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default OutboxPanel;
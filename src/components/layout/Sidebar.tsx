@@ -22,11 +22,19 @@ import {
   Phone,
   Mail,
   ChevronRight,
-  Leaf
+  Leaf,
+  Repeat,
+  UserCog,
+  ClipboardCheck,
+  Wallet,
+  CalendarClock,
+  Route,
+  MapPin
 } from 'lucide-react';
 
 import { useAuthStore } from '@/stores/authStore';
-import { USER_ROLES } from '@/constants';
+import { Permission, PERMISSIONS, USER_ROLES } from '@/constants';
+import { usePermissions } from '@/hooks/usePermission';
 import { useSwipeGesture, useTouchRipple, triggerHapticFeedback, isTouchDevice } from '@/hooks/useTouchInteractions';
 
 interface SidebarProps {
@@ -45,6 +53,7 @@ interface NavigationItem {
   badge?: string | number;
   children?: NavigationItem[];
   roles?: string[];
+  permission?: Permission;
   description?: string;
 }
 
@@ -57,6 +66,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
 }) => {
   const location = useLocation();
   const { user } = useAuthStore();
+  const { can } = usePermissions();
   
   // Touch interaction hooks
   const { addRipple, rippleElements } = useTouchRipple();
@@ -98,6 +108,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       icon: Users,
       path: '/admin/users',
       roles: [USER_ROLES.ADMIN],
+      permission: PERMISSIONS.VIEW_USERS,
       description: 'Manage vendors and restaurants',
     },
     {
@@ -106,6 +117,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       icon: BarChart3,
       path: '/admin/analytics',
       roles: [USER_ROLES.ADMIN],
+      permission: PERMISSIONS.VIEW_SYSTEM_ANALYTICS,
       description: 'Platform insights and reports',
     },
     {
@@ -114,6 +126,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       icon: Tag,
       path: '/admin/categories',
       roles: [USER_ROLES.ADMIN],
+      permission: PERMISSIONS.MANAGE_CATEGORIES,
       description: 'Product category management',
     },
 
@@ -122,8 +135,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
       id: 'vendor-products',
       label: 'My Products',
       icon: Package,
-      path: '/vendor/products',
+      path: '/vendor/listings',
       roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.MANAGE_LISTINGS,
       description: 'Manage your product listings',
     },
     {
@@ -133,14 +147,34 @@ export const Sidebar: React.FC<SidebarProps> = ({
       path: '/vendor/orders',
       roles: [USER_ROLES.VENDOR],
       badge: '3',
+      permission: PERMISSIONS.UPDATE_ORDER_STATUS,
       description: 'View and manage incoming orders',
     },
+    {
+      id: 'vendor-delivery-slots',
+      label: 'Delivery Slots',
+      icon: CalendarClock,
+      path: '/vendor/delivery-slots',
+      roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.MANAGE_DELIVERY_SLOTS,
+      description: 'Delivery windows, capacity and blackout dates',
+    },
+    {
+      id: 'vendor-delivery-routes',
+      label: 'Delivery Routes',
+      icon: Route,
+      path: '/vendor/delivery-routes',
+      roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.UPDATE_ORDER_STATUS,
+      description: 'Daily stops, route order and run sheets',
+    },
     {
       id: 'vendor-inventory',
       label: 'Inventory',
       icon: Store,
       path: '/vendor/inventory',
       roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.EDIT_LISTINGS,
       description: 'Track stock levels and availability',
     },
     {
@@ -149,16 +183,45 @@ export const Sidebar: React.FC<SidebarProps> = ({
       icon: TrendingUp,
       path: '/vendor/analytics',
       roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.VIEW_ANALYTICS,
       description: 'Sales performance and trends',
     },
+    {
+      id: 'vendor-statements',
+      label: 'Statements',
+      icon: FileText,
+      path: '/vendor/statements',
+      roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.VIEW_PAYMENTS,
+      description: 'Monthly statements per restaurant',
+    },
+    {
+      id: 'vendor-receivables',
+      label: 'Receivables',
+      icon: Wallet,
+      path: '/vendor/receivables',
+      roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.VIEW_PAYMENTS,
+      description: 'Payments owed, collected and paid out',
+    },
+    {
+      id: 'vendor-credit',
+      label: 'Credit Accounts',
+      icon: CreditCard,
+      path: '/vendor/credit',
+      roles: [USER_ROLES.VENDOR],
+      permission: PERMISSIONS.VIEW_PAYMENTS,
+      description: 'Credit limits and payment terms for restaurants',
+    },
 
     // Restaurant-specific items
     {
       id: 'restaurant-marketplace',
       label: 'Marketplace',
       icon: ShoppingCart,
-      path: '/restaurant/marketplace',
+      path: '/restaurant/browse',
       roles: [USER_ROLES.RESTAURANT_OWNER, USER_ROLES.RESTAURANT_MANAGER],
+      permission: PERMISSIONS.CREATE_ORDERS,
       description: 'Browse and order products',
     },
     {
@@ -170,12 +233,40 @@ export const Sidebar: React.FC<SidebarProps> = ({
       badge: '2',
       description: 'Track your order history',
     },
+    {
+      id: 'restaurant-standing-orders',
+      label: 'Standing Orders',
+      icon: Repeat,
+      path: '/restaurant/standing-orders',
+      roles: [USER_ROLES.RESTAURANT_OWNER, USER_ROLES.RESTAURANT_MANAGER],
+      permission: PERMISSIONS.MANAGE_STANDING_ORDERS,
+      description: 'Recurring weekly deliveries',
+    },
+    {
+      id: 'restaurant-addresses',
+      label: 'Addresses',
+      icon: MapPin,
+      path: '/restaurant/addresses',
+      roles: [USER_ROLES.RESTAURANT_OWNER, USER_ROLES.RESTAURANT_MANAGER],
+      permission: PERMISSIONS.CREATE_ORDERS,
+      description: 'Saved delivery addresses and driver notes',
+    },
+    {
+      id: 'restaurant-approvals',
+      label: 'Approvals',
+      icon: ClipboardCheck,
+      path: '/restaurant/approvals',
+      roles: [USER_ROLES.RESTAURANT_OWNER],
+      permission: PERMISSIONS.APPROVE_ORDERS,
+      description: 'Review orders above manager spend limits',
+    },
     {
       id: 'restaurant-suppliers',
       label: 'Suppliers',
       icon: Truck,
       path: '/restaurant/suppliers',
       roles: [USER_ROLES.RESTAURANT_OWNER, USER_ROLES.RESTAURANT_MANAGER],
+      permission: PERMISSIONS.MANAGE_RESTAURANT,
       description: 'Manage supplier relationships',
     },
     {
@@ -184,8 +275,54 @@ export const Sidebar: React.FC<SidebarProps> = ({
       icon: FileText,
       path: '/restaurant/menu',
       roles: [USER_ROLES.RESTAURANT_OWNER, USER_ROLES.RESTAURANT_MANAGER],
+      permission: PERMISSIONS.MANAGE_RESTAURANT,
       description: 'Plan meals based on available ingredients',
     },
+    {
+      id: 'restaurant-branches',
+      label: 'Branches',
+      icon: Store,
+      path: '/restaurant/branches',
+      roles: [USER_ROLES.RESTAURANT_OWNER],
+      permission: PERMISSIONS.MANAGE_RESTAURANT,
+      description: 'Locations ordering under your account',
+    },
+    {
+      id: 'restaurant-team',
+      label: 'Team',
+      icon: UserCog,
+      path: '/restaurant/settings/team',
+      roles: [USER_ROLES.RESTAURANT_OWNER],
+      permission: PERMISSIONS.MANAGE_TEAM,
+      description: 'Managers and their ordering limits',
+    },
+    {
+      id: 'restaurant-statements',
+      label: 'Statements',
+      icon: FileText,
+      path: '/restaurant/statements',
+      roles: [USER_ROLES.RESTAURANT_OWNER],
+      permission: PERMISSIONS.VIEW_PAYMENTS,
+      description: 'Monthly statements per vendor',
+    },
+    {
+      id: 'restaurant-spend',
+      label: 'Spend Report',
+      icon: BarChart3,
+      path: '/restaurant/reports',
+      roles: [USER_ROLES.RESTAURANT_OWNER],
+      permission: PERMISSIONS.VIEW_ANALYTICS,
+      description: 'Spend compared across branches',
+    },
+    {
+      id: 'restaurant-credit',
+      label: 'Credit Accounts',
+      icon: CreditCard,
+      path: '/restaurant/credit',
+      roles: [USER_ROLES.RESTAURANT_OWNER],
+      permission: PERMISSIONS.VIEW_PAYMENTS,
+      description: 'Pay-later balances and due dates',
+    },
 
     // Common business items
     {
@@ -194,6 +331,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       icon: CreditCard,
       path: '/payments',
       roles: [USER_ROLES.VENDOR, USER_ROLES.RESTAURANT_OWNER, USER_ROLES.RESTAURANT_MANAGER],
+      permission: PERMISSIONS.VIEW_PAYMENTS,
       description: 'Payment history and methods',
     },
     {
@@ -241,13 +379,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
     if (!user) return [];
     
     return allNavigationItems.filter(item => {
+      // Hide items the role is allowed to see but the user lacks permission for
+      if (item.permission && !can(item.permission)) return false;
+      
       // If no roles specified, show to all users
       if (!item.roles || item.roles.length === 0) return true;
       
       // Check if user's role is in the allowed roles
       return item.roles.includes(user.role);
     });
-  }, [user]);
+  }, [user, can]);
 
   const isActiveItem = (path: string) => {
     return location.pathname === path || location.pathname.startsWith(path + '/');
@@ -7,6 +7,9 @@ export { default as Sidebar } from './Sidebar';
 export { default as MobileNavigation } from './MobileNavigation';
 export { default as Breadcrumb, useBreadcrumb } from './Breadcrumb';
 export { default as AuthLayout } from './AuthLayout';
+export { default as ConnectionStatus } from './ConnectionStatus';
+export { default as OutboxPanel } from './OutboxPanel';
+export { default as BranchSwitcher } from './BranchSwitcher';
 
 // Layout utility functions
 export const getLayoutBreakpoints = () => ({
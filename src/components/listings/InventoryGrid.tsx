@@ -0,0 +1,357 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Clock, Pencil } from 'lucide-react';
+import { VENDOR_ROUTES } from '@/constants';
+import { Listing } from '@/types';
+import { CurrencyFormatter, DateFormatter, getInventoryAlerts, InventoryAlert } from '@/utils';
+import { toast } from '@/stores/notificationStore';
+import { cn } from '@/utils/cn';
+
+interface InventoryGridProps {
+  listings: Listing[];
+  onPriceChange: (listing: Listing, price: number) => void;
+  onQuantityChange: (listing: Listing, quantity: number) => void;
+  onAvailabilityChange: (listing: Listing, isAvailable: boolean) => void;
+}
+
+// Navigable columns, in visual order
+const COLUMNS = ['price', 'availableQuantity', 'isAvailable'] as const;
+type Column = (typeof COLUMNS)[number];
+type NumericColumn = Exclude<Column, 'isAvailable'>;
+
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+interface EditingCell extends CellPosition {
+  value: string;
+}
+
+const ALERT_BADGES: Record<InventoryAlert, { label: string; className: string }> = {
+  low_stock: { label: 'Low stock', className: 'bg-amber-100 text-amber-800' },
+  expiring: { label: 'Expiring soon', className: 'bg-orange-100 text-orange-800' },
+  expired: { label: 'Expired', className: 'bg-tomato-red/10 text-tomato-red' },
+};
+
+const validateCellValue = (column: NumericColumn, value: number) => {
+  if (!Number.isFinite(value)) return 'Enter a number';
+  if (column === 'price' && value <= 0) return 'Price must be greater than 0';
+  if (column === 'availableQuantity' && value < 0) return 'Quantity cannot be negative';
+  return null;
+};
+
+/**
+ * Spreadsheet-style stock editor. Arrow keys move between the price, stock and
+ * availability cells; Enter or typing a number starts editing, Enter/Tab save
+ * and move on, Escape discards the edit.
+ */
+export const InventoryGrid: React.FC<InventoryGridProps> = ({
+  listings,
+  onPriceChange,
+  onQuantityChange,
+  onAvailabilityChange,
+}) => {
+  const [activeCell, setActiveCell] = useState<CellPosition>({ row: 0, col: 0 });
+  const [editing, setEditingState] = useState<EditingCell | null>(null);
+  // Mirrors `editing` so the blur that follows Enter/Tab cannot save twice
+  const editingRef = useRef<EditingCell | null>(null);
+  const editorRef = useRef<HTMLInputElement>(null);
+  const cellRefs = useRef(new Map<string, HTMLTableCellElement>());
+  // Only move DOM focus after keyboard or click interaction, never on first render
+  const shouldFocusRef = useRef(false);
+
+  const lastRow = listings.length - 1;
+  const activeRow = Math.min(activeCell.row, Math.max(lastRow, 0));
+
+  const setEditing = (next: EditingCell | null) => {
+    editingRef.current = next;
+    setEditingState(next);
+  };
+
+  useEffect(() => {
+    if (!shouldFocusRef.current || editing) return;
+    cellRefs.current.get(`${activeRow}:${activeCell.col}`)?.focus();
+  }, [activeRow, activeCell.col, editing]);
+
+  const isEditorOpen = !!editing;
+  useEffect(() => {
+    if (isEditorOpen) editorRef.current?.focus();
+  }, [isEditorOpen]);
+
+  const moveTo = (row: number, col: number) => {
+    shouldFocusRef.current = true;
+    setActiveCell({
+      row: Math.min(Math.max(row, 0), Math.max(lastRow, 0)),
+      col: Math.min(Math.max(col, 0), COLUMNS.length - 1),
+    });
+  };
+
+  const startEditing = (row: number, col: number, initialValue?: string) => {
+    const listing = listings[row];
+    const column = COLUMNS[col];
+    if (!listing || !column || column === 'isAvailable') return;
+
+    setEditing({ row, col, value: initialValue ?? String(listing[column]) });
+  };
+
+  const commitEdit = () => {
+    const edit = editingRef.current;
+    if (!edit) return;
+    setEditing(null);
+
+    const listing = listings[edit.row];
+    const column = COLUMNS[edit.col];
+    if (!listing || !column || column === 'isAvailable') return;
+
+    const value = Number(edit.value);
+    if (edit.value.trim() === '' || value === listing[column]) return;
+
+    const error = validateCellValue(column, value);
+    if (error) {
+      toast.warning('Change not saved', `${listing.product.name}: ${error}`);
+      return;
+    }
+
+    if (column === 'price') {
+      onPriceChange(listing, value);
+    } else {
+      onQuantityChange(listing, value);
+    }
+  };
+
+  const handleCellKeyDown = (event: React.KeyboardEvent, row: number, col: number) => {
+    const listing = listings[row];
+    const column = COLUMNS[col];
+    if (!listing || !column) return;
+
+    switch (event.key) {
+      case 'ArrowUp':
+        moveTo(row - 1, col);
+        break;
+      case 'ArrowDown':
+        moveTo(row + 1, col);
+        break;
+      case 'ArrowLeft':
+        moveTo(row, col - 1);
+        break;
+      case 'ArrowRight':
+        moveTo(row, col + 1);
+        break;
+      case 'Home':
+        moveTo(event.ctrlKey ? 0 : row, 0);
+        break;
+      case 'End':
+        moveTo(event.ctrlKey ? lastRow : row, COLUMNS.length - 1);
+        break;
+      case 'Enter':
+      case 'F2':
+      case ' ':
+        if (column === 'isAvailable') {
+          onAvailabilityChange(listing, !listing.isAvailable);
+        } else if (event.key !== ' ') {
+          startEditing(row, col);
+        }
+        break;
+      default:
+        // Typing a number replaces the cell value, as in a spreadsheet
+        if (column !== 'isAvailable' && /^[\d.]$/.test(event.key) && !event.ctrlKey) {
+          startEditing(row, col, event.key);
+          break;
+        }
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const handleEditorKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep arrow keys and typing inside the editor instead of moving between cells
+    event.stopPropagation();
+    if (!editing) return;
+    const { row, col } = editing;
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      setEditing(null);
+      moveTo(row, col);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      commitEdit();
+      moveTo(event.shiftKey ? row - 1 : row + 1, col);
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      commitEdit();
+      moveTo(row, event.shiftKey ? col - 1 : col + 1);
+    }
+  };
+
+  const cellProps = (row: number, col: number) => ({
+    ref: (element: HTMLTableCellElement | null) => {
+      const key = `${row}:${col}`;
+      if (element) cellRefs.current.set(key, element);
+      else cellRefs.current.delete(key);
+    },
+    role: 'gridcell',
+    tabIndex: row === activeRow && col === activeCell.col ? 0 : -1,
+    onFocus: () => setActiveCell({ row, col }),
+    onKeyDown: (event: React.KeyboardEvent) => handleCellKeyDown(event, row, col),
+    className:
+      'px-4 py-3 outline-none focus:ring-2 focus:ring-inset focus:ring-bottle-green/40 cursor-cell',
+  });
+
+  const renderNumericCell = (listing: Listing, row: number, column: NumericColumn) => {
+    const col = COLUMNS.indexOf(column);
+    const isEditingCell = editing?.row === row && editing.col === col;
+    const { unit } = listing.product;
+
+    return (
+      <td {...cellProps(row, col)} onDoubleClick={() => startEditing(row, col)}>
+        {isEditingCell ? (
+          <input
+            type="number"
+            min={0}
+            step={column === 'price' ? '0.01' : 'any'}
+            value={editing.value}
+            onChange={e => setEditing({ ...editing, value: e.target.value })}
+            onKeyDown={handleEditorKeyDown}
+            onBlur={commitEdit}
+            ref={editorRef}
+            className="w-28 px-2 py-1 border border-bottle-green rounded-lg text-right focus:outline-none"
+          />
+        ) : (
+          <span className="block text-right tabular-nums">
+            {column === 'price'
+              ? CurrencyFormatter.formatPerUnit(listing.price, unit)
+              : `${listing.availableQuantity} ${unit}`}
+          </span>
+        )}
+      </td>
+    );
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="overflow-x-auto bg-white rounded-2xl border border-gray-100">
+      <table role="grid" aria-label="Inventory" className="w-full text-sm">
+        <thead className="bg-gray-50 text-left text-text-muted">
+          <tr>
+            <th scope="col" className="px-4 py-3 font-medium">
+              Product
+            </th>
+            <th scope="col" className="px-4 py-3 font-medium text-right">
+              Price
+            </th>
+            <th scope="col" className="px-4 py-3 font-medium text-right">
+              Stock
+            </th>
+            <th scope="col" className="px-4 py-3 font-medium">
+              Available
+            </th>
+            <th scope="col" className="px-4 py-3 font-medium">
+              Expiry
+            </th>
+            <th scope="col" className="px-4 py-3">
+              <span className="sr-only">Actions</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {listings.map((listing, row) => {
+            const alerts = getInventoryAlerts(listing, now);
+            const availabilityCol = COLUMNS.indexOf('isAvailable');
+
+            return (
+              <tr
+                key={listing.id}
+                className={cn(
+                  alerts.includes('expired') && 'bg-tomato-red/5',
+                  !alerts.includes('expired') && alerts.length > 0 && 'bg-amber-50/60',
+                  !listing.isAvailable && 'text-text-muted'
+                )}
+              >
+                <th scope="row" className="px-4 py-3 text-left font-normal">
+                  <div className="flex items-center gap-3">
+                    {listing.images[0] ? (
+                      <img
+                        src={listing.images[0]}
+                        alt=""
+                        className="w-10 h-10 rounded-lg object-cover flex-shrink-0"
+                      />
+                    ) : (
+                      <div className="w-10 h-10 rounded-lg bg-gray-100 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-text-dark truncate">{listing.product.name}</p>
+                      {alerts.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {alerts.map(alert => (
+                            <span
+                              key={alert}
+                              className={cn(
+                                'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+                                ALERT_BADGES[alert].className
+                              )}
+                            >
+                              {alert === 'low_stock' ? (
+                                <AlertTriangle className="w-3 h-3" />
+                              ) : (
+                                <Clock className="w-3 h-3" />
+                              )}
+                              {ALERT_BADGES[alert].label}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </th>
+
+                {renderNumericCell(listing, row, 'price')}
+                {renderNumericCell(listing, row, 'availableQuantity')}
+
+                <td
+                  {...cellProps(row, availabilityCol)}
+                  onClick={() => onAvailabilityChange(listing, !listing.isAvailable)}
+                >
+                  <span
+                    role="switch"
+                    aria-checked={listing.isAvailable}
+                    aria-label={`${listing.product.name} available to order`}
+                    className={cn(
+                      'relative inline-flex w-10 h-6 rounded-full transition-colors duration-200',
+                      listing.isAvailable ? 'bg-bottle-green' : 'bg-gray-300'
+                    )}
+                  >
+                    <span
+                      className={cn(
+                        'absolute top-1 left-1 w-4 h-4 rounded-full bg-white transition-transform duration-200',
+                        listing.isAvailable && 'translate-x-4'
+                      )}
+                    />
+                  </span>
+                </td>
+
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {listing.expiryDate ? DateFormatter.formatDate(listing.expiryDate) : '—'}
+                </td>
+
+                <td className="px-4 py-3 text-right">
+                  <Link
+                    to={VENDOR_ROUTES.LISTINGS_EDIT(listing.id)}
+                    className="inline-flex p-2 rounded-lg text-text-muted hover:text-bottle-green hover:bg-gray-100"
+                    aria-label={`Edit ${listing.product.name}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Link>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default InventoryGrid;
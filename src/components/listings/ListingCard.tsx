@@ -0,0 +1,119 @@
+import React from 'react';
+import { Award, Leaf, Package, ShoppingCart, Store } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { useCartStore } from '@/stores/cartStore';
+import { toast } from '@/stores/notificationStore';
+import { Listing } from '@/types';
+import { CurrencyFormatter, NumberFormatter } from '@/utils';
+import { cn } from '@/utils/cn';
+
+interface ListingCardProps {
+  listing: Listing;
+  className?: string;
+}
+
+export const ListingCard: React.FC<ListingCardProps> = ({ listing, className }) => {
+  const addItem = useCartStore(state => state.addItem);
+  const cartItem = useCartStore(state => state.items.find(item => item.listing.id === listing.id));
+
+  const { product } = listing;
+  const image = listing.images[0] || product.images[0];
+  const vendorName = listing.vendor.vendor?.businessName || listing.vendor.name;
+  const minQuantity = listing.minOrderQuantity || 1;
+  const inStock = listing.isAvailable && listing.availableQuantity > 0;
+
+  const handleAddToCart = () => {
+    addItem(listing, minQuantity);
+    toast.success('Added to cart', `${product.name} from ${vendorName}`);
+  };
+
+  return (
+    <div
+      className={cn(
+        'flex flex-col bg-white rounded-3xl border border-gray-100 shadow-sm overflow-hidden hover:shadow-lg transition-shadow duration-300',
+        className
+      )}
+    >
+      <div className="relative aspect-[4/3] bg-earthy-beige/30">
+        {image ? (
+          <img
+            src={image}
+            alt={product.name}
+            loading="lazy"
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <Package className="w-10 h-10 text-text-muted" />
+          </div>
+        )}
+
+        <div className="absolute top-3 left-3 flex flex-wrap gap-2">
+          {listing.qualityGrade && (
+            <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-white/90 text-xs font-medium text-earthy-brown">
+              <Award className="w-3 h-3" />
+              Grade {listing.qualityGrade}
+            </span>
+          )}
+          {listing.organicCertified && (
+            <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-mint-fresh/90 text-xs font-medium text-bottle-green">
+              <Leaf className="w-3 h-3" />
+              Organic
+            </span>
+          )}
+        </div>
+
+        {!inStock && (
+          <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
+            <span className="px-3 py-1 rounded-full bg-tomato-red text-white text-sm font-medium">
+              Out of stock
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 flex flex-col p-4 gap-3">
+        <div>
+          <h3 className="font-semibold text-text-dark truncate">{product.name}</h3>
+          <p className="flex items-center gap-1 text-sm text-text-muted truncate">
+            <Store className="w-3 h-3 flex-shrink-0" />
+            {vendorName}
+          </p>
+        </div>
+
+        <div className="flex items-end justify-between gap-2">
+          <p className="text-lg font-bold text-bottle-green">
+            {CurrencyFormatter.formatBDT(listing.price)}
+            <span className="text-sm font-normal text-text-muted"> / {product.unit}</span>
+          </p>
+          <p className="text-xs text-text-muted text-right">
+            {NumberFormatter.formatQuantity(listing.availableQuantity, product.unit)} left
+          </p>
+        </div>
+
+        {minQuantity > 1 && (
+          <p className="text-xs text-text-muted">
+            Min. order {NumberFormatter.formatQuantity(minQuantity, product.unit)}
+          </p>
+        )}
+
+        <div className="mt-auto">
+          <Button
+            size="sm"
+            fullWidth
+            variant={cartItem ? 'secondary' : 'primary'}
+            leftIcon={<ShoppingCart className="w-4 h-4" />}
+            onClick={handleAddToCart}
+            disabled={!inStock}
+          >
+            {cartItem
+              ? `In cart (${NumberFormatter.formatQuantity(cartItem.quantity, product.unit)})`
+              : 'Add to Cart'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ListingCard;
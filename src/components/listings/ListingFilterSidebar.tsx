@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { Crosshair, RotateCcw } from 'lucide-react';
+import { Button, FormField } from '@/components/ui';
+import { LISTING_RADIUS_OPTIONS, QUALITY_GRADE_LABELS } from '@/constants';
+import { useActiveBranch } from '@/hooks/useBranches';
+import { ListingFilterChanges } from '@/hooks/useListingFilters';
+import { useAuthStore } from '@/stores/authStore';
+import { toast } from '@/stores/notificationStore';
+import { ListingFilters, ProductCategory } from '@/types';
+import { cn } from '@/utils/cn';
+
+interface ListingFilterSidebarProps {
+  filters: ListingFilters;
+  categories: ProductCategory[];
+  onChange: (changes: ListingFilterChanges) => void;
+  onReset: () => void;
+  activeFilterCount: number;
+  className?: string;
+}
+
+type Coordinates = { latitude: number; longitude: number };
+
+// Prefer the restaurant's saved delivery location, falling back to the browser position
+const resolveCoordinates = (saved?: Coordinates): Promise<Coordinates> => {
+  if (saved) return Promise.resolve(saved);
+
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Location is not supported by this browser'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        }),
+      () => reject(new Error('Allow location access to filter by distance')),
+      { timeout: 10000 }
+    );
+  });
+};
+
+const optionClass = (active: boolean) =>
+  cn(
+    'w-full px-3 py-2 rounded-xl text-sm text-left transition-colors duration-200',
+    active ? 'bg-bottle-green/10 text-bottle-green font-medium' : 'text-text-dark hover:bg-gray-50'
+  );
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+const FilterSection: React.FC<{ title: string; children: React.ReactNode }> = ({
+  title,
+  children,
+}) => (
+  <section className="py-4 border-b border-gray-100 last:border-b-0">
+    <h3 className="text-sm font-semibold text-text-dark mb-3">{title}</h3>
+    {children}
+  </section>
+);
+
+export const ListingFilterSidebar: React.FC<ListingFilterSidebarProps> = ({
+  filters,
+  categories,
+  onChange,
+  onReset,
+  activeFilterCount,
+  className,
+}) => {
+  const activeBranch = useActiveBranch();
+  const profileCoordinates = useAuthStore(
+    state => state.user?.restaurant?.restaurantAddress.coordinates
+  );
+  const savedCoordinates = activeBranch?.address.coordinates || profileCoordinates;
+  const [minPrice, setMinPrice] = useState(filters.minPrice?.toString() ?? '');
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice?.toString() ?? '');
+  const [isLocating, setIsLocating] = useState(false);
+
+  // Keep the price inputs in step with the URL (back/forward navigation, reset)
+  useEffect(() => {
+    setMinPrice(filters.minPrice?.toString() ?? '');
+    setMaxPrice(filters.maxPrice?.toString() ?? '');
+  }, [filters.minPrice, filters.maxPrice]);
+
+  const applyPriceRange = () => {
+    const min = minPrice === '' ? undefined : Math.max(0, Number(minPrice));
+    const max = maxPrice === '' ? undefined : Math.max(0, Number(maxPrice));
+
+    if (min !== undefined && max !== undefined && min > max) {
+      toast.warning('Invalid price range', 'Minimum price must not exceed maximum price');
+      return;
+    }
+    onChange({ minPrice: min, maxPrice: max });
+  };
+
+  const handleRadiusChange = async (value: string) => {
+    if (!value) {
+      onChange({
+        location: undefined,
+        ...(filters.sortBy === 'distance' && { sortBy: undefined, sortOrder: undefined }),
+      });
+      return;
+    }
+
+    const radius = Number(value);
+    if (filters.location) {
+      onChange({ location: { ...filters.location, radius } });
+      return;
+    }
+
+    setIsLocating(true);
+    try {
+      const coordinates = await resolveCoordinates(savedCoordinates);
+      onChange({ location: { ...coordinates, radius } });
+    } catch (error) {
+      toast.error('Location unavailable', (error as Error).message);
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <aside className={cn('bg-white rounded-3xl border border-gray-100 p-4', className)}>
+      <div className="flex items-center justify-between pb-2">
+        <h2 className="font-semibold text-text-dark">
+          Filters
+          {activeFilterCount > 0 && (
+            <span className="ml-2 px-2 py-0.5 rounded-full bg-bottle-green text-white text-xs">
+              {activeFilterCount}
+            </span>
+          )}
+        </h2>
+        {activeFilterCount > 0 && (
+          <Button
+            size="sm"
+            variant="ghost"
+            leftIcon={<RotateCcw className="w-3 h-3" />}
+            onClick={onReset}
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <FilterSection title="Category">
+        <ul className="space-y-1 max-h-64 overflow-y-auto">
+          <li>
+            <button
+              type="button"
+              className={optionClass(!filters.category)}
+              onClick={() => onChange({ category: undefined })}
+            >
+              All categories
+            </button>
+          </li>
+          {categories
+            .filter(category => category.isActive)
+            .map(category => (
+              <li key={category.id}>
+                <button
+                  type="button"
+                  className={optionClass(filters.category === category.id)}
+                  onClick={() => onChange({ category: category.id })}
+                >
+                  {category.name}
+                </button>
+              </li>
+            ))}
+        </ul>
+      </FilterSection>
+
+      <FilterSection title="Price (৳ per unit)">
+        <form
+          className="space-y-2"
+          onSubmit={e => {
+            e.preventDefault();
+            applyPriceRange();
+          }}
+        >
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              inputMode="decimal"
+              value={minPrice}
+              onChange={e => setMinPrice(e.target.value)}
+              placeholder="Min"
+              aria-label="Minimum price"
+              className={inputClass}
+            />
+            <span className="text-text-muted">–</span>
+            <input
+              type="number"
+              min={0}
+              inputMode="decimal"
+              value={maxPrice}
+              onChange={e => setMaxPrice(e.target.value)}
+              placeholder="Max"
+              aria-label="Maximum price"
+              className={inputClass}
+            />
+          </div>
+          <Button type="submit" size="sm" variant="outline" fullWidth>
+            Apply
+          </Button>
+        </form>
+      </FilterSection>
+
+      <FilterSection title="Quality Grade">
+        <ul className="space-y-1">
+          <li>
+            <button
+              type="button"
+              className={optionClass(!filters.qualityGrade)}
+              onClick={() => onChange({ qualityGrade: undefined })}
+            >
+              Any grade
+            </button>
+          </li>
+          {(Object.keys(QUALITY_GRADE_LABELS) as (keyof typeof QUALITY_GRADE_LABELS)[]).map(
+            grade => (
+              <li key={grade}>
+                <button
+                  type="button"
+                  className={optionClass(filters.qualityGrade === grade)}
+                  onClick={() => onChange({ qualityGrade: grade })}
+                >
+                  {QUALITY_GRADE_LABELS[grade]}
+                </button>
+              </li>
+            )
+          )}
+        </ul>
+      </FilterSection>
+
+      <FilterSection title="Availability">
+        <div className="space-y-3">
+          <label className="flex items-center gap-3 text-sm text-text-dark cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters.available === true}
+              onChange={e => onChange({ available: e.target.checked || undefined })}
+              className="w-4 h-4 rounded accent-bottle-green"
+            />
+            In stock only
+          </label>
+          <label className="flex items-center gap-3 text-sm text-text-dark cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters.organicCertified === true}
+              onChange={e => onChange({ organicCertified: e.target.checked || undefined })}
+              className="w-4 h-4 rounded accent-bottle-green"
+            />
+            Organic certified only
+          </label>
+        </div>
+      </FilterSection>
+
+      <FilterSection title="Distance">
+        <FormField
+          helperText={
+            savedCoordinates
+              ? 'Measured from your restaurant address'
+              : 'Measured from your current location'
+          }
+        >
+          <div className="flex items-center gap-2">
+            <Crosshair
+              className={cn('w-4 h-4 text-text-muted flex-shrink-0', isLocating && 'animate-pulse')}
+            />
+            <select
+              value={filters.location?.radius ?? ''}
+              onChange={e => handleRadiusChange(e.target.value)}
+              disabled={isLocating}
+              aria-label="Delivery radius"
+              className={inputClass}
+            >
+              <option value="">Any distance</option>
+              {LISTING_RADIUS_OPTIONS.map(radius => (
+                <option key={radius} value={radius}>
+                  Within {radius} km
+                </option>
+              ))}
+            </select>
+          </div>
+        </FormField>
+      </FilterSection>
+    </aside>
+  );
+};
+
+export default ListingFilterSidebar;
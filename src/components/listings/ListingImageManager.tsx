@@ -0,0 +1,210 @@
+import React, { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, Star, Upload, X } from 'lucide-react';
+import { UPLOAD_CONFIG } from '@/constants';
+import { useUploadListingImages } from '@/hooks/useListings';
+import { toast } from '@/stores/notificationStore';
+import { formatBytes } from '@/utils';
+import { cn } from '@/utils/cn';
+
+interface ListingImageManagerProps {
+  images: string[];
+  onChange: (images: string[]) => void;
+  maxImages?: number;
+  error?: string | undefined;
+}
+
+/**
+ * Uploads listing photos as soon as they are picked and lets the vendor
+ * reorder them by dragging or with the arrow buttons. The first image is the
+ * one restaurants see in the catalogue.
+ */
+export const ListingImageManager: React.FC<ListingImageManagerProps> = ({
+  images,
+  onChange,
+  maxImages = 8,
+  error,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+
+  const [pendingCount, setPendingCount] = useState(0);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const uploadMutation = useUploadListingImages();
+
+  const remaining = maxImages - images.length - pendingCount;
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+
+    const files = Array.from(fileList).filter(file => {
+      if (!UPLOAD_CONFIG.allowedFileTypes.includes(file.type)) {
+        toast.error('Unsupported file', `${file.name} must be a JPG, PNG or WEBP image`);
+        return false;
+      }
+      if (file.size > UPLOAD_CONFIG.maxFileSize) {
+        toast.error(
+          'File too large',
+          `${file.name} is over ${formatBytes(UPLOAD_CONFIG.maxFileSize, 0)}`
+        );
+        return false;
+      }
+      return true;
+    });
+
+    if (files.length > remaining) {
+      toast.warning('Too many photos', `You can add ${Math.max(remaining, 0)} more`);
+    }
+    const accepted = files.slice(0, Math.max(remaining, 0));
+    if (accepted.length === 0) return;
+
+    setPendingCount(count => count + accepted.length);
+    uploadMutation.mutate(accepted, {
+      // Read the latest list so photos reordered or removed during the upload are kept
+      onSuccess: urls => onChange([...imagesRef.current, ...urls]),
+      onSettled: () => setPendingCount(count => count - accepted.length),
+    });
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (to < 0 || to >= images.length || from === to) return;
+    const next = [...images];
+    const [moved] = next.splice(from, 1);
+    if (moved === undefined) return;
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={e => {
+          e.preventDefault();
+          if (draggedIndex === null) setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setIsDragOver(false);
+          if (draggedIndex === null) handleFiles(e.dataTransfer.files);
+        }}
+        disabled={remaining <= 0}
+        className={cn(
+          'w-full border-2 border-dashed rounded-2xl p-6 text-center transition-colors duration-200',
+          isDragOver
+            ? 'border-bottle-green bg-bottle-green/5'
+            : 'border-gray-200 hover:border-gray-300',
+          error && 'border-tomato-red/50',
+          remaining <= 0 && 'opacity-50 cursor-not-allowed'
+        )}
+      >
+        <Upload className="w-6 h-6 mx-auto mb-2 text-text-muted" />
+        <p className="font-medium text-text-dark">Click to add photos or drag them here</p>
+        <p className="text-sm text-text-muted">
+          JPG, PNG or WEBP up to {formatBytes(UPLOAD_CONFIG.maxFileSize, 0)} ({images.length}/
+          {maxImages})
+        </p>
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={UPLOAD_CONFIG.allowedFileTypes.join(',')}
+        className="hidden"
+        onChange={e => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+
+      {error && <p className="text-sm text-tomato-red/80">{error}</p>}
+
+      {(images.length > 0 || pendingCount > 0) && (
+        <ul className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {images.map((url, index) => (
+            <li
+              key={url}
+              draggable
+              onDragStart={() => setDraggedIndex(index)}
+              onDragOver={e => e.preventDefault()}
+              onDrop={e => {
+                e.preventDefault();
+                if (draggedIndex !== null) moveImage(draggedIndex, index);
+                setDraggedIndex(null);
+              }}
+              onDragEnd={() => setDraggedIndex(null)}
+              className={cn(
+                'relative group aspect-square rounded-xl overflow-hidden bg-gray-100 cursor-move',
+                draggedIndex === index && 'opacity-40'
+              )}
+            >
+              <img
+                src={url}
+                alt={`Uploaded produce ${index + 1}`}
+                className="w-full h-full object-cover"
+              />
+              {index === 0 && (
+                <span className="absolute top-2 left-2 px-2 py-1 rounded-full bg-bottle-green text-white text-xs font-medium">
+                  Cover
+                </span>
+              )}
+              <div className="absolute inset-x-0 bottom-0 flex justify-between p-1 bg-black/40 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveImage(index, index - 1)}
+                    disabled={index === 0}
+                    className="p-1 text-white rounded hover:bg-white/20 disabled:opacity-40"
+                    aria-label={`Move photo ${index + 1} earlier`}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveImage(index, index + 1)}
+                    disabled={index === images.length - 1}
+                    className="p-1 text-white rounded hover:bg-white/20 disabled:opacity-40"
+                    aria-label={`Move photo ${index + 1} later`}
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, 0)}
+                      className="p-1 text-white rounded hover:bg-white/20"
+                      aria-label={`Use photo ${index + 1} as cover`}
+                    >
+                      <Star className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onChange(images.filter((_, i) => i !== index))}
+                  className="p-1 text-white rounded hover:bg-tomato-red"
+                  aria-label={`Remove photo ${index + 1}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+          {Array.from({ length: pendingCount }, (_, index) => (
+            <li
+              key={`pending-${index}`}
+              className="aspect-square rounded-xl bg-gray-100 flex items-center justify-center"
+            >
+              <Loader2 className="w-6 h-6 text-text-muted animate-spin" />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ListingImageManager;
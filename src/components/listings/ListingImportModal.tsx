@@ -0,0 +1,403 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Button, Modal } from '@/components/ui';
+import {
+  planListingImport,
+  useAllMyListings,
+  useDownloadListingTemplate,
+  useImportListings,
+} from '@/hooks/useListingImport';
+import { useProducts } from '@/hooks/useListings';
+import {
+  LISTING_IMPORT_FILE_TYPES,
+  LISTING_IMPORT_MAX_ROWS,
+  LISTING_SPREADSHEET_COLUMNS,
+} from '@/constants';
+import { toast } from '@/stores/notificationStore';
+import {
+  ListingColumnMapping,
+  ListingImportResult,
+  ListingImportRow,
+  SpreadsheetData,
+} from '@/types';
+import { guessListingColumnMapping, readSpreadsheetFile } from '@/utils';
+import { cn } from '@/utils/cn';
+
+interface ListingImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'review' | 'done';
+
+const ACTION_BADGES: Record<ListingImportRow['action'], { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-mint-fresh/30 text-bottle-green' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+  invalid: { label: 'Error', className: 'bg-tomato-red/10 text-tomato-red' },
+};
+
+// A listing can be matched by its ID (from an export) or by product name
+const getMappingError = (mapping: ListingColumnMapping) => {
+  if (mapping.product === undefined && mapping.id === undefined) {
+    return 'Choose the column that holds the product name or the listing ID';
+  }
+  const missing = LISTING_SPREADSHEET_COLUMNS.filter(
+    ({ field, required }) => required && field !== 'product' && mapping[field] === undefined
+  );
+  return missing.length > 0
+    ? `Choose a column for ${missing.map(column => column.label).join(', ')}`
+    : null;
+};
+
+/**
+ * Bulk listing import: pick a CSV or Excel file, map its columns, review a dry
+ * run of every row, then save the valid rows. Rows carrying a listing ID from
+ * an export update that listing; all other rows create new listings.
+ */
+export const ListingImportModal: React.FC<ListingImportModalProps> = ({ isOpen, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ListingColumnMapping>({});
+  const [isReading, setIsReading] = useState(false);
+  const [results, setResults] = useState<ListingImportResult[]>([]);
+
+  const isReviewing = step === 'review';
+  const { data: products = [], isLoading: isProductsLoading } = useProducts();
+  const { data: existingListings, isFetching: isListingsLoading } = useAllMyListings(
+    isOpen && isReviewing
+  );
+  const importMutation = useImportListings();
+  const templateMutation = useDownloadListingTemplate();
+
+  const plan = useMemo(
+    () =>
+      sheet && isReviewing && existingListings
+        ? planListingImport(sheet, mapping, products, existingListings)
+        : [],
+    [sheet, isReviewing, mapping, products, existingListings]
+  );
+  const validRows = plan.filter(row => row.action !== 'invalid');
+  const invalidCount = plan.length - validRows.length;
+  const mappingError = getMappingError(mapping);
+
+  const handleClose = () => {
+    if (importMutation.isPending) return;
+    setStep('upload');
+    setSheet(null);
+    setMapping({});
+    setResults([]);
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheetFile(file);
+      if (data.rows.length === 0) {
+        toast.error('Nothing to import', `${file.name} has no rows below the header`);
+      } else if (data.rows.length > LISTING_IMPORT_MAX_ROWS) {
+        toast.error(
+          'File too large',
+          `Import up to ${LISTING_IMPORT_MAX_ROWS} rows at a time (this file has ${data.rows.length})`
+        );
+      } else {
+        setSheet(data);
+        setMapping(guessListingColumnMapping(data.headers));
+        setStep('mapping');
+      }
+    } catch (error: any) {
+      toast.error('Could not read file', error?.message || 'Use a CSV or Excel file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = () => {
+    importMutation.mutate(validRows, {
+      onSuccess: importResults => {
+        setResults(importResults);
+        setStep('done');
+      },
+    });
+  };
+
+  const failedResults = results.filter(result => result.status === 'failed');
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import Listings"
+      size="xl"
+      className="max-w-4xl"
+      closeOnBackdrop={false}
+    >
+      {step === 'upload' && (
+        <div className="space-y-6">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReading}
+            className="w-full border-2 border-dashed border-gray-200 hover:border-gray-300 rounded-2xl p-8 text-center transition-colors duration-200"
+          >
+            {isReading ? (
+              <Loader2 className="w-8 h-8 mx-auto mb-3 text-text-muted animate-spin" />
+            ) : (
+              <FileSpreadsheet className="w-8 h-8 mx-auto mb-3 text-text-muted" />
+            )}
+            <p className="font-medium text-text-dark">Choose a CSV or Excel file</p>
+            <p className="text-sm text-text-muted">
+              One listing per row, up to {LISTING_IMPORT_MAX_ROWS} rows. An export from this page
+              can be edited and imported again.
+            </p>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={LISTING_IMPORT_FILE_TYPES.join(',')}
+            className="hidden"
+            onChange={e => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <div className="flex flex-wrap items-center gap-3 text-sm text-text-muted">
+            Start from a blank template:
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<Download className="w-4 h-4" />}
+              onClick={() => templateMutation.mutate('csv')}
+            >
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<Download className="w-4 h-4" />}
+              onClick={() => templateMutation.mutate('xlsx')}
+            >
+              Excel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'mapping' && sheet && (
+        <div className="space-y-6">
+          <p className="text-sm text-text-muted">
+            Match the columns in{' '}
+            <span className="font-medium text-text-dark">{sheet.fileName}</span> (
+            {sheet.rows.length} rows) to listing fields. Fields left as &quot;Don&apos;t
+            import&quot; are skipped.
+          </p>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-xl">
+            {LISTING_SPREADSHEET_COLUMNS.map(({ field, label, required }) => {
+              const column = mapping[field];
+              const sample = column === undefined ? '' : sheet.rows[0]?.[column];
+
+              return (
+                <div key={field} className="grid grid-cols-3 items-center gap-3 px-4 py-3 text-sm">
+                  <label htmlFor={`import-column-${field}`} className="text-text-dark">
+                    {label}
+                    {required && <span className="text-tomato-red"> *</span>}
+                  </label>
+                  <select
+                    id={`import-column-${field}`}
+                    value={column ?? ''}
+                    onChange={e => {
+                      const { value } = e.target;
+                      setMapping(current => {
+                        const next = { ...current };
+                        if (value === '') delete next[field];
+                        else next[field] = Number(value);
+                        return next;
+                      });
+                    }}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg bg-white"
+                  >
+                    <option value="">Don&apos;t import</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-text-muted truncate" title={sample}>
+                    {sample || '—'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          {mappingError && <p className="text-sm text-earthy-brown">{mappingError}</p>}
+
+          <div className="flex justify-between gap-3">
+            <Button variant="outline" onClick={() => setStep('upload')}>
+              Choose Another File
+            </Button>
+            <Button onClick={() => setStep('review')} disabled={!!mappingError}>
+              Check Rows
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isReviewing && (
+        <div className="space-y-6">
+          {isListingsLoading || isProductsLoading || !existingListings ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-text-muted">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Checking rows against your listings and the product catalogue...
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                {(['create', 'update', 'invalid'] as const).map(action => (
+                  <div
+                    key={action}
+                    className={cn('rounded-xl p-3', ACTION_BADGES[action].className)}
+                  >
+                    <p className="text-2xl font-bold">
+                      {plan.filter(row => row.action === action).length}
+                    </p>
+                    <p className="text-sm">
+                      {action === 'create' && 'new listings'}
+                      {action === 'update' && 'updates'}
+                      {action === 'invalid' && 'rows with errors'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="max-h-96 overflow-y-auto border border-gray-100 rounded-xl">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-gray-50 text-left text-text-muted">
+                    <tr>
+                      <th scope="col" className="px-4 py-2 font-medium">
+                        Row
+                      </th>
+                      <th scope="col" className="px-4 py-2 font-medium">
+                        Product
+                      </th>
+                      <th scope="col" className="px-4 py-2 font-medium">
+                        Result
+                      </th>
+                      <th scope="col" className="px-4 py-2 font-medium">
+                        Notes
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {plan.map(row => (
+                      <tr key={row.rowNumber} className="align-top">
+                        <td className="px-4 py-2 text-text-muted">{row.rowNumber}</td>
+                        <td className="px-4 py-2 text-text-dark">{row.productName}</td>
+                        <td className="px-4 py-2">
+                          <span
+                            className={cn(
+                              'px-2 py-0.5 rounded-full text-xs font-medium',
+                              ACTION_BADGES[row.action].className
+                            )}
+                          >
+                            {ACTION_BADGES[row.action].label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2">
+                          <ul className="space-y-1">
+                            {row.errors.map(error => (
+                              <li key={error} className="text-tomato-red">
+                                {error}
+                              </li>
+                            ))}
+                            {row.warnings.map(warning => (
+                              <li key={warning} className="text-text-muted">
+                                {warning}
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {invalidCount > 0 && (
+                <p className="flex items-start gap-2 text-sm text-earthy-brown">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  {invalidCount} row{invalidCount === 1 ? '' : 's'} will be skipped. Fix them in the
+                  file and import it again, or continue with the valid rows.
+                </p>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-between gap-3">
+            <Button
+              variant="outline"
+              onClick={() => setStep('mapping')}
+              disabled={importMutation.isPending}
+            >
+              Back to Columns
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={validRows.length === 0 || importMutation.isPending}
+              loading={importMutation.isPending}
+            >
+              Import {validRows.length} Row{validRows.length === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && (
+        <div className="space-y-6">
+          <div className="flex items-center gap-3">
+            {failedResults.length > 0 ? (
+              <AlertCircle className="w-8 h-8 text-earthy-brown" />
+            ) : (
+              <CheckCircle2 className="w-8 h-8 text-bottle-green" />
+            )}
+            <div>
+              <p className="font-medium text-text-dark">
+                {results.filter(result => result.status === 'created').length} created,{' '}
+                {results.filter(result => result.status === 'updated').length} updated
+              </p>
+              {failedResults.length > 0 && (
+                <p className="text-sm text-text-muted">
+                  {failedResults.length} row{failedResults.length === 1 ? '' : 's'} could not be
+                  saved
+                </p>
+              )}
+            </div>
+          </div>
+
+          {failedResults.length > 0 && (
+            <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-xl text-sm">
+              {failedResults.map(result => (
+                <li key={result.rowNumber} className="px-4 py-2">
+                  <span className="text-text-muted">Row {result.rowNumber}</span>{' '}
+                  <span className="text-text-dark">{result.productName}</span>
+                  <p className="text-tomato-red">{result.error}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleClose}>Done</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ListingImportModal;
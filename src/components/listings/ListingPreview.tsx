@@ -0,0 +1,111 @@
+import React from 'react';
+import { Calendar, Package } from 'lucide-react';
+import { Listing, Product, User } from '@/types';
+import { DateFormatter, NumberFormatter } from '@/utils';
+import { ListingCard } from './ListingCard';
+
+// The parts of an in-progress listing the preview needs
+export type ListingPreviewValues = {
+  [K in
+    | 'price'
+    | 'availableQuantity'
+    | 'minOrderQuantity'
+    | 'maxOrderQuantity'
+    | 'description'
+    | 'images'
+    | 'harvestDate'
+    | 'expiryDate'
+    | 'qualityGrade'
+    | 'organicCertified']?: Listing[K] | undefined;
+};
+
+interface ListingPreviewProps {
+  values: ListingPreviewValues;
+  product: Product | undefined;
+  vendor: User | null;
+}
+
+const finiteOr = (value: number | undefined, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+/**
+ * Renders an unsaved listing the way restaurants see it in the catalogue.
+ * The card is inert so the add-to-cart button cannot be used from here.
+ */
+export const ListingPreview: React.FC<ListingPreviewProps> = ({ values, product, vendor }) => {
+  if (!product || !vendor) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 p-8 rounded-3xl border-2 border-dashed border-gray-200 text-center text-sm text-text-muted">
+        <Package className="w-8 h-8" />
+        Choose a product to see how restaurants will see this listing
+      </div>
+    );
+  }
+
+  const now = new Date().toISOString();
+  const listing: Listing = {
+    id: 'preview',
+    vendor,
+    product,
+    price: finiteOr(values.price, 0),
+    availableQuantity: finiteOr(values.availableQuantity, 0),
+    ...(values.minOrderQuantity && { minOrderQuantity: values.minOrderQuantity }),
+    ...(values.maxOrderQuantity && { maxOrderQuantity: values.maxOrderQuantity }),
+    isAvailable: true,
+    ...(values.description && { description: values.description }),
+    images: values.images || [],
+    ...(values.harvestDate && { harvestDate: values.harvestDate }),
+    ...(values.expiryDate && { expiryDate: values.expiryDate }),
+    ...(values.qualityGrade && { qualityGrade: values.qualityGrade }),
+    organicCertified: !!values.organicCertified,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const { unit } = product;
+
+  return (
+    <div className="space-y-4">
+      <div inert aria-hidden="true">
+        <ListingCard listing={listing} />
+      </div>
+
+      <dl className="space-y-2 text-sm p-4 bg-white rounded-2xl border border-gray-100">
+        {listing.harvestDate && (
+          <div className="flex justify-between gap-3">
+            <dt className="flex items-center gap-1 text-text-muted">
+              <Calendar className="w-4 h-4" />
+              Harvested
+            </dt>
+            <dd className="text-text-dark">{DateFormatter.formatDate(listing.harvestDate)}</dd>
+          </div>
+        )}
+        {listing.expiryDate && (
+          <div className="flex justify-between gap-3">
+            <dt className="flex items-center gap-1 text-text-muted">
+              <Calendar className="w-4 h-4" />
+              Best before
+            </dt>
+            <dd className="text-text-dark">{DateFormatter.formatDate(listing.expiryDate)}</dd>
+          </div>
+        )}
+        <div className="flex justify-between gap-3">
+          <dt className="text-text-muted">Order size</dt>
+          <dd className="text-text-dark">
+            {listing.minOrderQuantity
+              ? `From ${NumberFormatter.formatQuantity(listing.minOrderQuantity, unit)}`
+              : 'Any quantity'}
+            {listing.maxOrderQuantity &&
+              ` up to ${NumberFormatter.formatQuantity(listing.maxOrderQuantity, unit)}`}
+          </dd>
+        </div>
+        {listing.description && (
+          <p className="pt-2 border-t border-gray-100 text-text-muted whitespace-pre-line">
+            {listing.description}
+          </p>
+        )}
+      </dl>
+    </div>
+  );
+};
+
+export default ListingPreview;
@@ -0,0 +1,7 @@
+// Listing catalogue components
+export { default as InventoryGrid } from './InventoryGrid';
+export { default as ListingCard } from './ListingCard';
+export { default as ListingFilterSidebar } from './ListingFilterSidebar';
+export { default as ListingImageManager } from './ListingImageManager';
+export { default as ListingImportModal } from './ListingImportModal';
+export { default as ListingPreview, type ListingPreviewValues } from './ListingPreview';
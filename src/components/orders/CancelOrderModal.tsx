@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button, FormField, Modal } from '@/components/ui';
+import { VENDOR_CANCEL_REASONS } from '@/constants';
+import { useCancelOrder } from '@/hooks/useOrders';
+import { Order } from '@/types';
+import { cn } from '@/utils/cn';
+
+interface CancelOrderModalProps {
+  order: Order | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onCancelled?: (order: Order) => void;
+  reasons?: readonly string[];
+}
+
+const OTHER_REASON = 'Other';
+
+export const CancelOrderModal: React.FC<CancelOrderModalProps> = ({
+  order,
+  isOpen,
+  onClose,
+  onCancelled,
+  reasons = VENDOR_CANCEL_REASONS,
+}) => {
+  const [selectedReason, setSelectedReason] = useState('');
+  const [details, setDetails] = useState('');
+  const cancelOrderMutation = useCancelOrder();
+
+  useEffect(() => {
+    setSelectedReason('');
+    setDetails('');
+  }, [order?.id]);
+
+  if (!order) return null;
+
+  const reason =
+    selectedReason === OTHER_REASON
+      ? details.trim()
+      : [selectedReason, details.trim()].filter(Boolean).join(' - ');
+
+  const handleCancel = () => {
+    if (!reason) return;
+
+    cancelOrderMutation.mutate(
+      { id: order.id, reason },
+      {
+        onSuccess: cancelledOrder => {
+          onCancelled?.(cancelledOrder);
+          onClose();
+        },
+      }
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Cancel Order #${order.orderNumber}`} size="md">
+      <div className="space-y-6">
+        <div className="flex items-start gap-3 p-4 bg-tomato-red/10 rounded-xl">
+          <AlertTriangle className="w-5 h-5 text-tomato-red mt-0.5" />
+          <div>
+            <p className="font-medium text-tomato-red mb-1">Confirm Cancellation</p>
+            <p className="text-sm text-tomato-red/80">
+              The restaurant will be notified with the reason you provide. This cannot be undone.
+            </p>
+          </div>
+        </div>
+
+        <FormField label="Reason" required>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {[...reasons, OTHER_REASON].map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setSelectedReason(option)}
+                className={cn(
+                  'px-4 py-3 rounded-xl border text-sm text-left transition-colors duration-200 touch-target',
+                  selectedReason === option
+                    ? 'border-tomato-red bg-tomato-red/5 text-tomato-red'
+                    : 'border-gray-200 hover:bg-gray-50 text-text-dark'
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </FormField>
+
+        <FormField
+          label={selectedReason === OTHER_REASON ? 'Describe the reason' : 'Details (Optional)'}
+          required={selectedReason === OTHER_REASON}
+        >
+          <textarea
+            value={details}
+            onChange={e => setDetails(e.target.value)}
+            placeholder="Add more context for the restaurant..."
+            rows={3}
+            className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-bottle-green/20 resize-none"
+          />
+        </FormField>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose}>
+            Keep Order
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleCancel}
+            disabled={!reason || cancelOrderMutation.isPending}
+            loading={cancelOrderMutation.isPending}
+          >
+            Cancel Order
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CancelOrderModal;
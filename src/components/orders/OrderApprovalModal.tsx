@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Modal } from '@/components/ui';
+import { useApproveOrder } from '@/hooks/useOrders';
+import { Order } from '@/types';
+import { CurrencyFormatter, DateFormatter } from '@/utils';
+
+interface OrderApprovalModalProps {
+  order: Order | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onReject: (order: Order) => void;
+}
+
+/**
+ * Owner review of a manager's order. Quantities can be lowered or raised
+ * before approving; setting one to zero drops the line from the order.
+ */
+export const OrderApprovalModal: React.FC<OrderApprovalModalProps> = ({
+  order,
+  isOpen,
+  onClose,
+  onReject,
+}) => {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const approveOrderMutation = useApproveOrder();
+
+  useEffect(() => {
+    if (!order) return;
+    setQuantities(Object.fromEntries(order.items.map(item => [item.id, String(item.quantity)])));
+  }, [order]);
+
+  if (!order) return null;
+
+  const parsed = order.items.map(item => ({
+    item,
+    quantity: Number(quantities[item.id] ?? item.quantity),
+  }));
+  const isValid =
+    parsed.every(({ quantity }) => Number.isFinite(quantity) && quantity >= 0) &&
+    parsed.some(({ quantity }) => quantity > 0);
+  const changed = parsed.filter(({ item, quantity }) => quantity !== item.quantity);
+  const lineTotal = (unitPrice: number, quantity: number) =>
+    unitPrice * (Number.isFinite(quantity) ? quantity : 0);
+  const total = parsed.reduce(
+    (sum, { item, quantity }) => sum + lineTotal(item.unitPrice, quantity),
+    0
+  );
+
+  const handleApprove = () => {
+    if (!isValid) return;
+
+    approveOrderMutation.mutate(
+      {
+        id: order.id,
+        data:
+          changed.length > 0
+            ? { items: changed.map(({ item, quantity }) => ({ item: item.id, quantity })) }
+            : {},
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Review Order #${order.orderNumber}`} size="lg">
+      <div className="space-y-6">
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+          <div>
+            <dt className="text-text-muted">Requested by</dt>
+            <dd className="text-text-dark">
+              {order.approval?.requestedBy.name ?? order.restaurant.name}
+              {order.approval && (
+                <> · {DateFormatter.formatRelativeTime(order.approval.requestedAt)}</>
+              )}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-text-muted">Vendor</dt>
+            <dd className="text-text-dark">
+              {order.vendor.vendor?.businessName || order.vendor.name}
+            </dd>
+          </div>
+          {order.deliveryDate && (
+            <div>
+              <dt className="text-text-muted">Delivery</dt>
+              <dd className="text-text-dark">
+                {DateFormatter.formatDate(order.deliveryDate)}
+                {order.deliveryTimeSlot && <> · {order.deliveryTimeSlot}</>}
+              </dd>
+            </div>
+          )}
+          {order.approval && (
+            <div>
+              <dt className="text-text-muted">Spend limit</dt>
+              <dd className="text-text-dark">
+                {CurrencyFormatter.formatBDT(order.approval.spendLimit)} per order
+              </dd>
+            </div>
+          )}
+        </dl>
+
+        {order.notes && (
+          <p className="p-3 bg-gray-50 rounded-xl text-sm text-text-dark">{order.notes}</p>
+        )}
+
+        <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+          {parsed.map(({ item, quantity }) => (
+            <li key={item.id} className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+              <div>
+                <p className="text-text-dark">{item.listing.product.name}</p>
+                <p className="text-xs text-text-muted">
+                  {CurrencyFormatter.formatBDT(item.unitPrice)} / {item.listing.product.unit}
+                  {quantity !== item.quantity && (
+                    <>
+                      {' '}
+                      · requested {item.quantity} {item.listing.product.unit}
+                    </>
+                  )}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={quantities[item.id] ?? ''}
+                  onChange={e =>
+                    setQuantities(current => ({ ...current, [item.id]: e.target.value }))
+                  }
+                  aria-label={`${item.listing.product.name} quantity`}
+                  className="w-20 px-2 py-1 border border-gray-200 rounded-lg text-right"
+                />
+                <span className="w-10 text-text-muted">{item.listing.product.unit}</span>
+                <span className="w-24 text-right font-medium text-text-dark">
+                  {CurrencyFormatter.formatBDT(lineTotal(item.unitPrice, quantity))}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-text-muted">
+            {changed.length > 0
+              ? `Requested ${CurrencyFormatter.formatBDT(order.totalAmount)}`
+              : 'Items total'}
+          </span>
+          <span className="text-lg font-semibold text-bottle-green">
+            {CurrencyFormatter.formatBDT(total)}
+          </span>
+        </div>
+
+        {!isValid && (
+          <p className="text-sm text-earthy-brown">
+            Keep at least one item, or reject the order instead.
+          </p>
+        )}
+
+        <div className="flex flex-col-reverse sm:flex-row sm:justify-between gap-3">
+          <Button
+            variant="outline"
+            onClick={() => onReject(order)}
+            disabled={approveOrderMutation.isPending}
+            className="text-tomato-red"
+          >
+            Reject
+          </Button>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+            <Button
+              onClick={handleApprove}
+              disabled={!isValid || approveOrderMutation.isPending}
+              loading={approveOrderMutation.isPending}
+            >
+              {changed.length > 0 ? 'Approve with Changes' : 'Approve'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default OrderApprovalModal;
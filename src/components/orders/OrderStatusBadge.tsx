@@ -0,0 +1,68 @@
+import React from 'react';
+import {
+  ORDER_APPROVAL_STATUS_LABELS,
+  ORDER_STATUS_LABELS,
+  PAYMENT_STATUS_LABELS,
+} from '@/constants';
+import { OrderApprovalStatus, OrderStatus, PaymentStatus } from '@/types';
+import { cn } from '@/utils/cn';
+
+const statusVariants: Record<OrderStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  confirmed: 'bg-blue-100 text-blue-600',
+  prepared: 'bg-earthy-yellow/20 text-earthy-brown',
+  delivered: 'bg-mint-fresh/20 text-bottle-green',
+  cancelled: 'bg-tomato-red/20 text-tomato-red',
+};
+
+const paymentVariants: Record<PaymentStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  paid: 'bg-mint-fresh/20 text-bottle-green',
+  failed: 'bg-tomato-red/20 text-tomato-red',
+  refunded: 'bg-blue-100 text-blue-600',
+};
+
+const approvalVariants: Record<OrderApprovalStatus, string> = {
+  awaiting_approval: 'bg-earthy-yellow/20 text-earthy-brown',
+  approved: 'bg-mint-fresh/20 text-bottle-green',
+  rejected: 'bg-tomato-red/20 text-tomato-red',
+};
+
+export const OrderStatusBadge: React.FC<{ status: OrderStatus; className?: string }> = ({
+  status,
+  className,
+}) => (
+  <span
+    className={cn('px-2 py-1 rounded-full text-xs font-medium', statusVariants[status], className)}
+  >
+    {ORDER_STATUS_LABELS[status]}
+  </span>
+);
+
+export const PaymentStatusBadge: React.FC<{ status: PaymentStatus; className?: string }> = ({
+  status,
+  className,
+}) => (
+  <span
+    className={cn('px-2 py-1 rounded-full text-xs font-medium', paymentVariants[status], className)}
+  >
+    {PAYMENT_STATUS_LABELS[status]}
+  </span>
+);
+
+export const OrderApprovalBadge: React.FC<{
+  status: OrderApprovalStatus;
+  className?: string;
+}> = ({ status, className }) => (
+  <span
+    className={cn(
+      'px-2 py-1 rounded-full text-xs font-medium',
+      approvalVariants[status],
+      className
+    )}
+  >
+    {ORDER_APPROVAL_STATUS_LABELS[status]}
+  </span>
+);
+
+export default OrderStatusBadge;
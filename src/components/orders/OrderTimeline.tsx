@@ -0,0 +1,80 @@
+import React from 'react';
+import { CheckCircle, Circle, XCircle } from 'lucide-react';
+import { ORDER_STATUS_FLOW, ORDER_STATUS_LABELS } from '@/constants';
+import { OrderTracking } from '@/types';
+import { DateFormatter } from '@/utils';
+import { cn } from '@/utils/cn';
+
+interface OrderTimelineProps {
+  tracking: OrderTracking;
+  className?: string;
+}
+
+/**
+ * Vertical status timeline built from OrderTracking.timeline.
+ * Stages that have not happened yet are shown greyed out so the
+ * remaining fulfilment steps stay visible.
+ */
+export const OrderTimeline: React.FC<OrderTimelineProps> = ({ tracking, className }) => {
+  const isCancelled = tracking.status === 'cancelled';
+  const reachedStatuses = new Set(tracking.timeline.map(entry => entry.status));
+
+  const upcomingStatuses = isCancelled
+    ? []
+    : ORDER_STATUS_FLOW.filter(status => !reachedStatuses.has(status));
+
+  const entries = [...tracking.timeline].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  return (
+    <ol className={cn('relative space-y-6', className)}>
+      {entries.map((entry, index) => {
+        const isLast = index === entries.length - 1 && upcomingStatuses.length === 0;
+        const Icon = entry.status === 'cancelled' ? XCircle : CheckCircle;
+
+        return (
+          <li key={`${entry.status}-${entry.timestamp}`} className="relative flex gap-4">
+            {!isLast && (
+              <span className="absolute left-[11px] top-7 bottom-[-1.5rem] w-0.5 bg-bottle-green/20" />
+            )}
+            <Icon
+              className={cn(
+                'w-6 h-6 flex-shrink-0',
+                entry.status === 'cancelled' ? 'text-tomato-red' : 'text-bottle-green'
+              )}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="font-medium text-text-dark">{ORDER_STATUS_LABELS[entry.status]}</p>
+                <p className="text-xs text-text-muted">
+                  {DateFormatter.formatDateTime(entry.timestamp)}
+                </p>
+              </div>
+              {entry.updatedBy && (
+                <p className="text-xs text-text-muted">Updated by {entry.updatedBy}</p>
+              )}
+              {entry.notes && (
+                <p className="text-sm text-text-dark/80 mt-1 bg-earthy-beige/20 rounded-xl px-3 py-2">
+                  {entry.notes}
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+
+      {upcomingStatuses.map((status, index) => (
+        <li key={status} className="relative flex gap-4 opacity-50">
+          {index < upcomingStatuses.length - 1 && (
+            <span className="absolute left-[11px] top-7 bottom-[-1.5rem] w-0.5 bg-gray-200" />
+          )}
+          <Circle className="w-6 h-6 flex-shrink-0 text-gray-300" />
+          <p className="font-medium text-text-muted">{ORDER_STATUS_LABELS[status]}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Button, FormField, Modal } from '@/components/ui';
+import { ORDER_REJECT_REASONS } from '@/constants';
+import { useRejectOrder } from '@/hooks/useOrders';
+import { Order } from '@/types';
+import { cn } from '@/utils/cn';
+
+interface RejectOrderModalProps {
+  order: Order | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onRejected?: (order: Order) => void;
+}
+
+const OTHER_REASON = 'Other';
+
+export const RejectOrderModal: React.FC<RejectOrderModalProps> = ({
+  order,
+  isOpen,
+  onClose,
+  onRejected,
+}) => {
+  const [selectedReason, setSelectedReason] = useState('');
+  const [details, setDetails] = useState('');
+  const rejectOrderMutation = useRejectOrder();
+
+  useEffect(() => {
+    setSelectedReason('');
+    setDetails('');
+  }, [order?.id]);
+
+  if (!order) return null;
+
+  const reason =
+    selectedReason === OTHER_REASON
+      ? details.trim()
+      : [selectedReason, details.trim()].filter(Boolean).join(' - ');
+
+  const handleReject = () => {
+    if (!reason) return;
+
+    rejectOrderMutation.mutate(
+      { id: order.id, reason },
+      {
+        onSuccess: rejectedOrder => {
+          onRejected?.(rejectedOrder);
+          onClose();
+        },
+      }
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Reject Order #${order.orderNumber}`} size="md">
+      <div className="space-y-6">
+        <p className="text-sm text-text-muted">
+          The order will not be sent to the vendor.{' '}
+          {order.approval?.requestedBy.name ?? 'The manager'} will be notified with your reason.
+        </p>
+
+        <FormField label="Reason" required>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {[...ORDER_REJECT_REASONS, OTHER_REASON].map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setSelectedReason(option)}
+                className={cn(
+                  'px-4 py-3 rounded-xl border text-sm text-left transition-colors duration-200 touch-target',
+                  selectedReason === option
+                    ? 'border-tomato-red bg-tomato-red/5 text-tomato-red'
+                    : 'border-gray-200 hover:bg-gray-50 text-text-dark'
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </FormField>
+
+        <FormField
+          label={selectedReason === OTHER_REASON ? 'Describe the reason' : 'Details (Optional)'}
+          required={selectedReason === OTHER_REASON}
+        >
+          <textarea
+            value={details}
+            onChange={e => setDetails(e.target.value)}
+            placeholder="Tell the manager what to change..."
+            rows={3}
+            className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-bottle-green/20 resize-none"
+          />
+        </FormField>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose}>
+            Back
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleReject}
+            disabled={!reason || rejectOrderMutation.isPending}
+            loading={rejectOrderMutation.isPending}
+          >
+            Reject Order
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default RejectOrderModal;
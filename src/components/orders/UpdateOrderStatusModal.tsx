@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Button, FormField, Modal } from '@/components/ui';
+import { NEXT_ORDER_STATUS, ORDER_STATUS_ACTIONS } from '@/constants';
+import { useUpdateOrderStatus } from '@/hooks/useOrders';
+import { OfflineQueuedError, Order } from '@/types';
+import OrderStatusBadge from './OrderStatusBadge';
+
+interface UpdateOrderStatusModalProps {
+  order: Order | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onUpdated?: (order: Order) => void;
+}
+
+// Converts a datetime-local input value into an ISO timestamp for the API
+const toIsoString = (localValue: string): string => new Date(localValue).toISOString();
+
+export const UpdateOrderStatusModal: React.FC<UpdateOrderStatusModalProps> = ({
+  order,
+  isOpen,
+  onClose,
+  onUpdated,
+}) => {
+  const [notes, setNotes] = useState('');
+  const [estimatedDeliveryTime, setEstimatedDeliveryTime] = useState('');
+  const updateStatusMutation = useUpdateOrderStatus();
+
+  // Reset the form whenever a different order is opened
+  useEffect(() => {
+    setNotes('');
+    setEstimatedDeliveryTime('');
+  }, [order?.id]);
+
+  if (!order) return null;
+
+  const nextStatus = NEXT_ORDER_STATUS[order.status];
+  if (!nextStatus) return null;
+
+  // An ETA only makes sense while the order has not been delivered yet
+  const showEta = nextStatus !== 'delivered';
+
+  const handleSubmit = () => {
+    updateStatusMutation.mutate(
+      {
+        id: order.id,
+        expectedStatus: order.status,
+        data: {
+          status: nextStatus,
+          ...(notes.trim() && { notes: notes.trim() }),
+          ...(showEta &&
+            estimatedDeliveryTime && {
+              estimatedDeliveryTime: toIsoString(estimatedDeliveryTime),
+            }),
+        },
+      },
+      {
+        onSuccess: updatedOrder => {
+          onUpdated?.(updatedOrder);
+          onClose();
+        },
+        // Queued offline; the outbox sends it once the connection is back
+        onError: error => {
+          if (error instanceof OfflineQueuedError) onClose();
+        },
+      }
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Update Order #${order.orderNumber}`} size="md">
+      <div className="space-y-6">
+        <div className="flex items-center justify-center gap-3 p-4 bg-earthy-beige/20 rounded-xl">
+          <OrderStatusBadge status={order.status} />
+          <ArrowRight className="w-4 h-4 text-text-muted" />
+          <OrderStatusBadge status={nextStatus} />
+        </div>
+
+        {showEta && (
+          <FormField
+            label="Estimated Delivery Time"
+            helperText="Shared with the restaurant so they can plan their kitchen prep"
+          >
+            <input
+              type="datetime-local"
+              value={estimatedDeliveryTime}
+              onChange={e => setEstimatedDeliveryTime(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-bottle-green/20"
+            />
+          </FormField>
+        )}
+
+        <FormField label="Notes (Optional)">
+          <textarea
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="Add a note for the restaurant..."
+            rows={3}
+            className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-bottle-green/20 resize-none"
+          />
+        </FormField>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            loading={updateStatusMutation.isPending}
+            disabled={updateStatusMutation.isPending}
+          >
+            {ORDER_STATUS_ACTIONS[order.status]}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default UpdateOrderStatusModal;
@@ -0,0 +1,11 @@
+// Order display and workflow components
+export {
+  default as OrderStatusBadge,
+  OrderApprovalBadge,
+  PaymentStatusBadge,
+} from './OrderStatusBadge';
+export { default as OrderTimeline } from './OrderTimeline';
+export { default as UpdateOrderStatusModal } from './UpdateOrderStatusModal';
+export { default as CancelOrderModal } from './CancelOrderModal';
+export { default as OrderApprovalModal } from './OrderApprovalModal';
+export { default as RejectOrderModal } from './RejectOrderModal';
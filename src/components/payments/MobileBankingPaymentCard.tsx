@@ -0,0 +1,63 @@
+import React from 'react';
+import { AlertCircle, Smartphone } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { MOBILE_WALLET_LABELS } from '@/constants';
+import { useStartMobilePayment } from '@/hooks/usePayments';
+import { MobileWalletProvider, Order } from '@/types';
+import { CurrencyFormatter } from '@/utils';
+
+interface MobileBankingPaymentCardProps {
+  order: Order;
+}
+
+/**
+ * Pay an unpaid mobile banking order, or retry after a failed payment, by
+ * choosing a wallet. The browser leaves the app for the wallet's checkout.
+ */
+export const MobileBankingPaymentCard: React.FC<MobileBankingPaymentCardProps> = ({ order }) => {
+  const startPaymentMutation = useStartMobilePayment();
+  const pendingProvider = startPaymentMutation.isPending
+    ? startPaymentMutation.variables?.provider
+    : undefined;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <Smartphone className="w-5 h-5 text-bottle-green" />
+          Mobile Banking
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {order.paymentStatus === 'failed' ? (
+          <p className="flex items-start gap-2 text-sm text-tomato-red">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            Your last payment did not go through. Nothing was charged, so you can try again.
+          </p>
+        ) : (
+          <p className="text-sm text-text-muted">
+            Pay {CurrencyFormatter.formatBDT(order.totalAmount)} from your mobile wallet.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 gap-2">
+          {(Object.keys(MOBILE_WALLET_LABELS) as MobileWalletProvider[]).map(provider => (
+            <Button
+              key={provider}
+              variant="outline"
+              fullWidth
+              onClick={() => startPaymentMutation.mutate({ order, provider })}
+              loading={pendingProvider === provider}
+              disabled={startPaymentMutation.isPending}
+            >
+              {order.paymentStatus === 'failed' ? 'Retry with' : 'Pay with'}{' '}
+              {MOBILE_WALLET_LABELS[provider]}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MobileBankingPaymentCard;
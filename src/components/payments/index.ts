@@ -0,0 +1,2 @@
+// Mobile banking payments
+export { default as MobileBankingPaymentCard } from './MobileBankingPaymentCard';
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Modal } from '@/components/ui';
+import { useUpdateOccurrence } from '@/hooks/useStandingOrders';
+import { StandingOrderOccurrence } from '@/types';
+import { DateFormatter } from '@/utils';
+
+interface OccurrenceOverrideModalProps {
+  occurrence: StandingOrderOccurrence | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Change quantities for a single scheduled delivery without touching the
+ * template. Setting a quantity to zero leaves the item out for that day.
+ */
+export const OccurrenceOverrideModal: React.FC<OccurrenceOverrideModalProps> = ({
+  occurrence,
+  isOpen,
+  onClose,
+}) => {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const updateOccurrenceMutation = useUpdateOccurrence();
+
+  useEffect(() => {
+    if (!occurrence) return;
+
+    const current = Object.fromEntries(
+      occurrence.items.map(item => [item.listing.id, String(item.quantity)])
+    );
+    setQuantities(
+      Object.fromEntries(
+        occurrence.standingOrder.items.map(item => [
+          item.listing.id,
+          current[item.listing.id] ?? '0',
+        ])
+      )
+    );
+  }, [occurrence]);
+
+  if (!occurrence) return null;
+
+  const { standingOrder } = occurrence;
+  const parsed = standingOrder.items.map(item => ({
+    item,
+    quantity: Number(quantities[item.listing.id] ?? item.quantity),
+  }));
+  const isValid =
+    parsed.every(({ quantity }) => Number.isFinite(quantity) && quantity >= 0) &&
+    parsed.some(({ quantity }) => quantity > 0);
+
+  const handleSave = () => {
+    if (!isValid) return;
+
+    const quantityOverrides = Object.fromEntries(
+      parsed
+        .filter(({ item, quantity }) => quantity !== item.quantity)
+        .map(({ item, quantity }) => [item.listing.id, quantity])
+    );
+
+    updateOccurrenceMutation.mutate(
+      {
+        id: standingOrder.id,
+        date: occurrence.date,
+        data: { skipped: occurrence.skipped, quantityOverrides },
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Adjust ${DateFormatter.formatDate(occurrence.date)}`}
+      size="lg"
+    >
+      <div className="space-y-6">
+        <p className="text-sm text-text-muted">
+          Changes apply to this delivery of &quot;{standingOrder.name}&quot; only. Set an item to 0
+          to leave it out.
+        </p>
+
+        <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+          {parsed.map(({ item, quantity }) => (
+            <li
+              key={item.listing.id}
+              className="flex items-center justify-between gap-3 px-4 py-3 text-sm"
+            >
+              <div>
+                <p className="text-text-dark">{item.listing.product.name}</p>
+                {quantity !== item.quantity && (
+                  <p className="text-xs text-text-muted">
+                    Usually {item.quantity} {item.listing.product.unit}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={quantities[item.listing.id] ?? ''}
+                  onChange={e =>
+                    setQuantities(current => ({ ...current, [item.listing.id]: e.target.value }))
+                  }
+                  aria-label={`${item.listing.product.name} quantity`}
+                  className="w-20 px-2 py-1 border border-gray-200 rounded-lg text-right"
+                />
+                <span className="w-10 text-text-muted">{item.listing.product.unit}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {!isValid && (
+          <p className="text-sm text-earthy-brown">
+            Keep at least one item, or skip the delivery instead.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!isValid || updateOccurrenceMutation.isPending}
+            loading={updateOccurrenceMutation.isPending}
+          >
+            Save for This Day
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default OccurrenceOverrideModal;
@@ -0,0 +1,339 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button, FormField, Modal } from '@/components/ui';
+import {
+  DELIVERY_TIME_SLOTS,
+  PAYMENT_METHOD_LABELS,
+  WEEKDAY_LABELS,
+  WEEKDAY_ORDER,
+} from '@/constants';
+import { useSavedAddresses } from '@/hooks/useAddresses';
+import { useActiveBranch } from '@/hooks/useBranches';
+import { useCreateStandingOrder, useUpdateStandingOrder } from '@/hooks/useStandingOrders';
+import { useAuthStore } from '@/stores/authStore';
+import { PaymentMethod, StandingOrder, StandingOrderItem, User, Weekday } from '@/types';
+import { AddressFormatter, DateFormatter, getDefaultSavedAddress } from '@/utils';
+import { cn } from '@/utils/cn';
+
+// Items and vendor to start a new template from (e.g. a cart vendor group)
+export interface StandingOrderDraft {
+  vendor: User;
+  items: StandingOrderItem[];
+}
+
+interface StandingOrderFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  standingOrder?: StandingOrder | null | undefined; // edit mode when set
+  draft?: StandingOrderDraft | null | undefined; // create mode source
+  onSaved?: (standingOrder: StandingOrder) => void;
+}
+
+const fieldClass =
+  'w-full px-4 py-3 border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+export const StandingOrderFormModal: React.FC<StandingOrderFormModalProps> = ({
+  isOpen,
+  onClose,
+  standingOrder,
+  draft,
+  onSaved,
+}) => {
+  const activeBranch = useActiveBranch();
+  const profileAddress = useAuthStore(state => state.user?.restaurant?.restaurantAddress);
+  const restaurantAddress = activeBranch?.address || profileAddress;
+  const { data: savedAddresses = [] } = useSavedAddresses();
+  const createMutation = useCreateStandingOrder();
+  const updateMutation = useUpdateStandingOrder();
+
+  const source = standingOrder || draft;
+  const [name, setName] = useState('');
+  const [schedule, setSchedule] = useState<Weekday[]>([]);
+  const [deliveryTimeSlot, setDeliveryTimeSlot] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | ''>('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [savedAddressId, setSavedAddressId] = useState('');
+  const [items, setItems] = useState<StandingOrderItem[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName(standingOrder?.name || '');
+    setSchedule(standingOrder?.schedule || []);
+    setDeliveryTimeSlot(standingOrder?.deliveryTimeSlot || '');
+    setPaymentMethod(standingOrder?.paymentMethod || '');
+    setStartDate(
+      standingOrder
+        ? DateFormatter.toDateInputValue(standingOrder.startDate)
+        : DateFormatter.toDateInputValue(new Date())
+    );
+    setEndDate(standingOrder?.endDate ? DateFormatter.toDateInputValue(standingOrder.endDate) : '');
+    setNotes(standingOrder?.notes || '');
+    setItems(source?.items || []);
+  }, [isOpen, standingOrder, source?.items]);
+
+  // Templates saved before the address book keep matching their address
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const savedAddress = standingOrder
+      ? savedAddresses.find(entry => entry.id === standingOrder.savedAddress) ||
+        savedAddresses.find(entry =>
+          AddressFormatter.isSameAddress(entry.address, standingOrder.deliveryAddress)
+        )
+      : getDefaultSavedAddress(savedAddresses);
+    setSavedAddressId(savedAddress?.id || '');
+  }, [isOpen, standingOrder, savedAddresses]);
+
+  if (!source) return null;
+
+  const vendorName = source.vendor.vendor?.businessName || source.vendor.name;
+  const savedAddress = savedAddresses.find(entry => entry.id === savedAddressId);
+  // Without an address book entry, edits keep the template's own address
+  const deliveryAddress =
+    savedAddress?.address || standingOrder?.deliveryAddress || restaurantAddress;
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const toggleWeekday = (weekday: Weekday) =>
+    setSchedule(current =>
+      current.includes(weekday) ? current.filter(day => day !== weekday) : [...current, weekday]
+    );
+
+  const updateItemQuantity = (listingId: string, quantity: number) =>
+    setItems(current =>
+      current.map(item => (item.listing.id === listingId ? { ...item, quantity } : item))
+    );
+
+  const getValidationError = (): string | null => {
+    if (!name.trim()) return 'Give this standing order a name';
+    if (schedule.length === 0) return 'Choose at least one delivery day';
+    if (!deliveryTimeSlot) return 'Choose a delivery time slot';
+    if (items.length === 0 || items.some(item => !(item.quantity > 0))) {
+      return 'Every item needs a quantity above zero';
+    }
+    if (endDate && startDate && endDate < startDate) {
+      return 'End date must be on or after the start date';
+    }
+    if (!deliveryAddress) return 'Save a delivery address for your restaurant first';
+    return null;
+  };
+  const validationError = getValidationError();
+
+  const handleSubmit = () => {
+    if (validationError || !deliveryAddress) return;
+
+    // Existing standing orders stay with the branch they were set up for
+    const branch = standingOrder?.branch || activeBranch?.id;
+
+    const data = {
+      name: name.trim(),
+      items: items.map(item => ({
+        listing: item.listing.id,
+        quantity: item.quantity,
+        ...(item.notes && { notes: item.notes }),
+      })),
+      schedule: WEEKDAY_ORDER.filter(weekday => schedule.includes(weekday)),
+      deliveryTimeSlot,
+      deliveryAddress,
+      ...(branch && { branch }),
+      ...(savedAddress && { savedAddress: savedAddress.id }),
+      ...(savedAddress?.deliveryNotes && { deliveryNotes: savedAddress.deliveryNotes }),
+      ...(paymentMethod && { paymentMethod }),
+      ...(notes.trim() && { notes: notes.trim() }),
+      ...(startDate && { startDate }),
+      ...(endDate && { endDate }),
+    };
+    const handlers = {
+      onSuccess: (saved: StandingOrder) => {
+        onSaved?.(saved);
+        onClose();
+      },
+    };
+
+    if (standingOrder) {
+      updateMutation.mutate({ id: standingOrder.id, data }, handlers);
+    } else {
+      createMutation.mutate({ ...data, vendor: source.vendor.id }, handlers);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={standingOrder ? 'Edit Standing Order' : 'New Standing Order'}
+      size="xl"
+    >
+      <div className="space-y-6">
+        <p className="text-sm text-text-muted">
+          Recurring delivery from <span className="font-medium text-text-dark">{vendorName}</span>
+          {deliveryAddress && <> to {AddressFormatter.formatAddress(deliveryAddress)}</>}
+        </p>
+
+        {savedAddresses.length > 0 && (
+          <FormField label="Deliver To" helperText={savedAddress?.deliveryNotes}>
+            <select
+              value={savedAddressId}
+              onChange={e => setSavedAddressId(e.target.value)}
+              className={fieldClass}
+            >
+              {!savedAddress && <option value="">Current address</option>}
+              {savedAddresses.map(entry => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.label}
+                  {entry.isDefault ? ' (default)' : ''}
+                </option>
+              ))}
+            </select>
+          </FormField>
+        )}
+
+        <FormField label="Name" required>
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. Weekday vegetables"
+            className={fieldClass}
+          />
+        </FormField>
+
+        <FormField label="Delivery Days" required>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_ORDER.map(weekday => (
+              <button
+                key={weekday}
+                type="button"
+                onClick={() => toggleWeekday(weekday)}
+                aria-pressed={schedule.includes(weekday)}
+                className={cn(
+                  'px-3 py-2 rounded-xl border text-sm transition-colors duration-200 touch-target',
+                  schedule.includes(weekday)
+                    ? 'border-bottle-green bg-bottle-green/10 text-bottle-green'
+                    : 'border-gray-200 hover:bg-gray-50 text-text-dark'
+                )}
+              >
+                {WEEKDAY_LABELS[weekday].slice(0, 3)}
+              </button>
+            ))}
+          </div>
+        </FormField>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField label="Time Slot" required>
+            <select
+              value={deliveryTimeSlot}
+              onChange={e => setDeliveryTimeSlot(e.target.value)}
+              className={fieldClass}
+            >
+              <option value="">Select a slot</option>
+              {DELIVERY_TIME_SLOTS.map(slot => (
+                <option key={slot} value={slot}>
+                  {slot}
+                </option>
+              ))}
+            </select>
+          </FormField>
+
+          <FormField label="Payment Method">
+            <select
+              value={paymentMethod}
+              onChange={e => setPaymentMethod(e.target.value as PaymentMethod | '')}
+              className={fieldClass}
+            >
+              <option value="">Vendor default</option>
+              {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                <option key={method} value={method}>
+                  {PAYMENT_METHOD_LABELS[method]}
+                </option>
+              ))}
+            </select>
+          </FormField>
+
+          <FormField label="Starts On" required>
+            <input
+              type="date"
+              value={startDate}
+              onChange={e => setStartDate(e.target.value)}
+              className={fieldClass}
+            />
+          </FormField>
+
+          <FormField label="Ends On" helperText="Leave empty to repeat indefinitely">
+            <input
+              type="date"
+              min={startDate}
+              value={endDate}
+              onChange={e => setEndDate(e.target.value)}
+              className={fieldClass}
+            />
+          </FormField>
+        </div>
+
+        <FormField label="Items" required>
+          <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+            {items.map(item => (
+              <li
+                key={item.listing.id}
+                className="flex items-center justify-between gap-3 px-4 py-3 text-sm"
+              >
+                <span className="text-text-dark">{item.listing.product.name}</span>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={item.quantity}
+                    onChange={e => updateItemQuantity(item.listing.id, Number(e.target.value))}
+                    aria-label={`${item.listing.product.name} quantity`}
+                    className="w-20 px-2 py-1 border border-gray-200 rounded-lg text-right"
+                  />
+                  <span className="w-10 text-text-muted">{item.listing.product.unit}</span>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setItems(current =>
+                        current.filter(entry => entry.listing.id !== item.listing.id)
+                      )
+                    }
+                    className="p-1 text-text-muted hover:text-tomato-red"
+                    aria-label={`Remove ${item.listing.product.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </FormField>
+
+        <FormField label="Notes for the vendor (Optional)">
+          <textarea
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            rows={2}
+            className={cn(fieldClass, 'resize-none')}
+          />
+        </FormField>
+
+        {validationError && <p className="text-sm text-earthy-brown">{validationError}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!!validationError || isPending}
+            loading={isPending}
+          >
+            {standingOrder ? 'Save Changes' : 'Create Standing Order'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default StandingOrderFormModal;
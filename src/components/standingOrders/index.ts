@@ -0,0 +1,6 @@
+// Recurring standing order components
+export {
+  default as StandingOrderFormModal,
+  type StandingOrderDraft,
+} from './StandingOrderFormModal';
+export { default as OccurrenceOverrideModal } from './OccurrenceOverrideModal';
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Button, FormField, Modal } from '@/components/ui';
+import { PhoneInput } from '@/components/ui/PhoneInput';
+import { DEFAULT_MANAGER_SCOPE, TEAM_INVITE_OTP_RESEND_SECONDS } from '@/constants';
+import { useInviteManager, useSendManagerInviteOtp } from '@/hooks/useTeam';
+import { ManagerScope } from '@/types';
+import { PhoneValidator } from '@/utils';
+import ManagerScopeFields from './ManagerScopeFields';
+
+interface InviteManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type InviteStep = 'details' | 'verify';
+
+const fieldClass =
+  'w-full px-4 py-3 border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+/**
+ * Two-step invite: the owner enters the manager's details, a code is sent to
+ * the manager's phone, and the owner enters that code to prove the number is
+ * real and the manager agreed to join.
+ */
+export const InviteManagerModal: React.FC<InviteManagerModalProps> = ({ isOpen, onClose }) => {
+  const sendOtpMutation = useSendManagerInviteOtp();
+  const inviteMutation = useInviteManager();
+
+  const [step, setStep] = useState<InviteStep>('details');
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [otp, setOtp] = useState('');
+  const [scope, setScope] = useState<ManagerScope>(DEFAULT_MANAGER_SCOPE);
+  const [resendIn, setResendIn] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('details');
+    setName('');
+    setPhone('');
+    setOtp('');
+    setScope(DEFAULT_MANAGER_SCOPE);
+    setResendIn(0);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (resendIn <= 0) return undefined;
+    const timer = window.setTimeout(() => setResendIn(seconds => seconds - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [resendIn]);
+
+  const getDetailsError = (): string | null => {
+    if (!name.trim()) return "Enter the manager's name";
+    if (!PhoneValidator.validate(phone).isValid) return 'Enter a valid mobile number';
+    return null;
+  };
+  const detailsError = getDetailsError();
+  const isOtpValid = /^\d{4,8}$/.test(otp);
+
+  const sendCode = () => {
+    if (detailsError) return;
+    sendOtpMutation.mutate(phone, {
+      onSuccess: () => {
+        setStep('verify');
+        setResendIn(TEAM_INVITE_OTP_RESEND_SECONDS);
+      },
+    });
+  };
+
+  const handleInvite = () => {
+    if (!isOtpValid) return;
+    inviteMutation.mutate({ name: name.trim(), phone, otp, scope }, { onSuccess: onClose });
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Add a Manager" size="lg">
+      {step === 'details' ? (
+        <div className="space-y-6">
+          <FormField label="Name" required>
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g. Karim Hossain"
+              className={fieldClass}
+            />
+          </FormField>
+
+          <FormField
+            label="Mobile Number"
+            required
+            helperText="The manager signs in with this number"
+          >
+            <PhoneInput value={phone} onChange={value => setPhone(value)} />
+          </FormField>
+
+          <ManagerScopeFields scope={scope} onChange={setScope} />
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={sendCode}
+              loading={sendOtpMutation.isPending}
+              disabled={Boolean(detailsError) || sendOtpMutation.isPending}
+            >
+              Send Code
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex items-start gap-3 p-4 bg-mint-fresh/10 rounded-2xl">
+            <ShieldCheck className="w-5 h-5 text-bottle-green flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-text-dark">
+              We sent a code to <span className="font-medium">{phone}</span>. Ask {name.trim()} for
+              it to confirm they are joining your restaurant.
+            </p>
+          </div>
+
+          <FormField label="Verification Code" required>
+            <input
+              value={otp}
+              onChange={e => setOtp(e.target.value.replace(/\D/g, ''))}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={8}
+              placeholder="Enter code"
+              className={fieldClass}
+            />
+          </FormField>
+
+          <div className="flex flex-col-reverse sm:flex-row sm:items-center sm:justify-between gap-3 pt-4 border-t border-gray-100">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={sendCode}
+              disabled={resendIn > 0 || sendOtpMutation.isPending}
+            >
+              {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+            </Button>
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={() => setStep('details')}>
+                Back
+              </Button>
+              <Button
+                onClick={handleInvite}
+                loading={inviteMutation.isPending}
+                disabled={!isOtpValid || inviteMutation.isPending}
+              >
+                Add Manager
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default InviteManagerModal;
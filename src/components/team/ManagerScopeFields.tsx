@@ -0,0 +1,127 @@
+import React from 'react';
+import { FormField } from '@/components/ui';
+import { useBranches } from '@/hooks/useBranches';
+import { ManagerScope } from '@/types';
+
+interface ManagerScopeFieldsProps {
+  scope: ManagerScope;
+  onChange: (scope: ManagerScope) => void;
+  disabled?: boolean;
+}
+
+const fieldClass =
+  'w-full px-4 py-3 border border-gray-200 rounded-xl bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+/**
+ * Spend limit, permission toggles and branches for one manager, shared by the
+ * invite and edit forms.
+ */
+export const ManagerScopeFields: React.FC<ManagerScopeFieldsProps> = ({
+  scope,
+  onChange,
+  disabled = false,
+}) => {
+  const { data: branches = [] } = useBranches();
+
+  const toggleBranch = (branchId: string, checked: boolean) =>
+    onChange({
+      ...scope,
+      branchIds: checked
+        ? [...scope.branchIds, branchId]
+        : scope.branchIds.filter(id => id !== branchId),
+    });
+
+  const toggles: Array<{
+    key: 'canCancelOrders' | 'canManageStandingOrders';
+    label: string;
+    description: string;
+  }> = [
+    {
+      key: 'canCancelOrders',
+      label: 'Cancel orders',
+      description: 'Cancel orders before the vendor confirms them',
+    },
+    {
+      key: 'canManageStandingOrders',
+      label: 'Manage standing orders',
+      description: 'Create, pause and adjust recurring deliveries',
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        label="Order Spend Limit (৳)"
+        helperText="Orders above this total wait for your approval. Leave empty for no limit."
+      >
+        <input
+          type="number"
+          min={0}
+          step={100}
+          value={scope.spendLimit ?? ''}
+          onChange={e =>
+            onChange({
+              ...scope,
+              spendLimit: e.target.value === '' ? null : Math.max(Number(e.target.value), 0),
+            })
+          }
+          placeholder="No limit"
+          disabled={disabled}
+          className={fieldClass}
+        />
+      </FormField>
+
+      <div className="space-y-3">
+        {toggles.map(toggle => (
+          <label
+            key={toggle.key}
+            htmlFor={`scope-${toggle.key}`}
+            className="flex items-start gap-3 px-4 py-3 border border-gray-200 rounded-xl cursor-pointer"
+          >
+            <input
+              id={`scope-${toggle.key}`}
+              type="checkbox"
+              checked={scope[toggle.key]}
+              onChange={e => onChange({ ...scope, [toggle.key]: e.target.checked })}
+              disabled={disabled}
+              className="mt-1 rounded border-gray-300 text-bottle-green focus:ring-bottle-green"
+            />
+            <span>
+              <span className="block font-medium text-text-dark">{toggle.label}</span>
+              <span className="block text-sm text-text-muted">{toggle.description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {branches.length > 1 && (
+        <FormField
+          label="Branches"
+          helperText="Leave all unticked to let them order for every branch"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {branches.map(branch => (
+              <label
+                key={branch.id}
+                htmlFor={`scope-branch-${branch.id}`}
+                className="flex items-center gap-2 px-4 py-3 border border-gray-200 rounded-xl text-sm text-text-dark cursor-pointer"
+              >
+                <input
+                  id={`scope-branch-${branch.id}`}
+                  type="checkbox"
+                  checked={scope.branchIds.includes(branch.id)}
+                  onChange={e => toggleBranch(branch.id, e.target.checked)}
+                  disabled={disabled}
+                  className="rounded border-gray-300 text-bottle-green focus:ring-bottle-green"
+                />
+                {branch.name}
+              </label>
+            ))}
+          </div>
+        </FormField>
+      )}
+    </div>
+  );
+};
+
+export default ManagerScopeFields;
@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Modal } from '@/components/ui';
+import { DEFAULT_MANAGER_SCOPE } from '@/constants';
+import { useUpdateManagerScope } from '@/hooks/useTeam';
+import { ManagerScope, TeamMember } from '@/types';
+import ManagerScopeFields from './ManagerScopeFields';
+
+interface ManagerScopeModalProps {
+  member: TeamMember | null;
+  onClose: () => void;
+}
+
+export const ManagerScopeModal: React.FC<ManagerScopeModalProps> = ({ member, onClose }) => {
+  const updateScopeMutation = useUpdateManagerScope();
+  const [scope, setScope] = useState<ManagerScope>(DEFAULT_MANAGER_SCOPE);
+
+  useEffect(() => {
+    if (member) setScope(member.scope);
+  }, [member]);
+
+  const handleSave = () => {
+    if (!member) return;
+    updateScopeMutation.mutate({ id: member.id, data: scope }, { onSuccess: onClose });
+  };
+
+  return (
+    <Modal
+      isOpen={Boolean(member)}
+      onClose={onClose}
+      title={member ? `${member.name}'s Permissions` : 'Permissions'}
+      size="lg"
+    >
+      <div className="space-y-6">
+        <ManagerScopeFields
+          scope={scope}
+          onChange={setScope}
+          disabled={updateScopeMutation.isPending}
+        />
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-100">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={updateScopeMutation.isPending}>
+            Save Permissions
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default ManagerScopeModal;
@@ -0,0 +1,4 @@
+// Restaurant team components
+export { default as InviteManagerModal } from './InviteManagerModal';
+export { default as ManagerScopeFields } from './ManagerScopeFields';
+export { default as ManagerScopeModal } from './ManagerScopeModal';
@@ -0,0 +1,179 @@
+import React, { useId } from 'react';
+import { BANGLADESH_DIVISIONS } from '@/constants';
+import { AddressDraft } from '@/types';
+import {
+  AddressField,
+  AddressFormatter,
+  getAreaSuggestions,
+  getDistricts,
+  getUpazilas,
+} from '@/utils';
+import { cn } from '@/utils/cn';
+import { ErrorMessage } from './forms/FormField';
+
+export interface AddressPickerProps {
+  value?: AddressDraft | undefined;
+  onChange: (address: AddressDraft) => void;
+  errors?: Partial<Record<AddressField, string | undefined>>;
+  disabled?: boolean;
+  className?: string;
+  fieldClassName?: string; // replaces the default input styling
+}
+
+const defaultFieldClass =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-bottle-green/20 disabled:opacity-50';
+
+/**
+ * Bangladesh address entry: division, district and upazila/thana narrow each
+ * other down, with neighbourhood suggestions for the area where known.
+ */
+export const AddressPicker: React.FC<AddressPickerProps> = ({
+  value = {},
+  onChange,
+  errors = {},
+  disabled = false,
+  className,
+  fieldClassName = defaultFieldClass,
+}) => {
+  const id = useId();
+  // Older addresses only have a city; show the division and district it implies
+  const { division = '', district = '', upazila = '' } = AddressFormatter.normalizeAddress(value);
+  const areaSuggestions = getAreaSuggestions(district, upazila);
+
+  const update = (changes: AddressDraft) => {
+    const next = { ...value, division, district, upazila, ...changes };
+    onChange({ ...next, city: next.district || value.city || '' });
+  };
+
+  const fieldClass = (field: AddressField) =>
+    cn(fieldClassName, errors[field] && 'border-2 border-tomato-red/30 bg-tomato-red/5');
+
+  const renderLabel = (field: AddressField, label: string) => (
+    <label htmlFor={`${id}-${field}`} className="block text-sm font-medium text-text-dark/80 mb-1">
+      {label}
+    </label>
+  );
+
+  const renderError = (field: AddressField) => {
+    const error = errors[field];
+    return error ? <ErrorMessage error={error} /> : null;
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          {renderLabel('division', 'Division')}
+          <select
+            id={`${id}-division`}
+            value={division}
+            onChange={e => update({ division: e.target.value, district: '', upazila: '' })}
+            disabled={disabled}
+            className={fieldClass('division')}
+          >
+            <option value="">Select division</option>
+            {BANGLADESH_DIVISIONS.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          {renderError('division')}
+        </div>
+        <div>
+          {renderLabel('district', 'District')}
+          <select
+            id={`${id}-district`}
+            value={district}
+            onChange={e => update({ district: e.target.value, upazila: '' })}
+            disabled={disabled || !division}
+            className={fieldClass('district')}
+          >
+            <option value="">Select district</option>
+            {getDistricts(division).map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          {renderError('district')}
+        </div>
+        <div>
+          {renderLabel('upazila', 'Upazila / Thana')}
+          <select
+            id={`${id}-upazila`}
+            value={upazila}
+            onChange={e => update({ upazila: e.target.value })}
+            disabled={disabled || !district}
+            className={fieldClass('upazila')}
+          >
+            <option value="">Select upazila</option>
+            {getUpazilas(district).map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          {renderError('upazila')}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          {renderLabel('area', 'Area')}
+          <input
+            id={`${id}-area`}
+            type="text"
+            value={value.area || ''}
+            onChange={e => update({ area: e.target.value })}
+            placeholder="e.g. Gulshan 2"
+            list={areaSuggestions.length > 0 ? `${id}-areas` : undefined}
+            disabled={disabled}
+            className={fieldClass('area')}
+          />
+          {areaSuggestions.length > 0 && (
+            <datalist id={`${id}-areas`}>
+              {areaSuggestions.map(option => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </datalist>
+          )}
+          {renderError('area')}
+        </div>
+        <div>
+          {renderLabel('postalCode', 'Postal code')}
+          <input
+            id={`${id}-postalCode`}
+            type="text"
+            inputMode="numeric"
+            maxLength={4}
+            value={value.postalCode || ''}
+            onChange={e => update({ postalCode: e.target.value })}
+            placeholder="e.g. 1212"
+            disabled={disabled}
+            className={fieldClass('postalCode')}
+          />
+          {renderError('postalCode')}
+        </div>
+      </div>
+
+      <div>
+        {renderLabel('street', 'Street address')}
+        <input
+          id={`${id}-street`}
+          type="text"
+          value={value.street || ''}
+          onChange={e => update({ street: e.target.value })}
+          placeholder="House, road, block"
+          disabled={disabled}
+          className={fieldClass('street')}
+        />
+        {renderError('street')}
+      </div>
+    </div>
+  );
+};
+
+export default AddressPicker;
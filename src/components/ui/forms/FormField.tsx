@@ -3,8 +3,8 @@ import { cn } from '@/utils/cn';
 
 export interface FormFieldProps {
   label?: string;
-  error?: string;
-  helperText?: string;
+  error?: string | undefined;
+  helperText?: string | undefined;
   required?: boolean;
   children: React.ReactNode;
   className?: string;
@@ -1,5 +1,7 @@
 import { QueryClient } from '@tanstack/react-query';
 import { toast } from '@/stores/notificationStore';
+import { CACHE_CONFIG, FEATURES } from '@/constants';
+import { OfflineQueuedError } from '@/types';
 
 // Create a new QueryClient with optimized configuration
 export const queryClient = new QueryClient({
@@ -7,7 +9,9 @@ export const queryClient = new QueryClient({
     queries: {
       // Cache configuration
       staleTime: 5 * 60 * 1000, // 5 minutes - data is fresh for 5 minutes
-      gcTime: 10 * 60 * 1000, // 10 minutes - cache garbage collection time
+      gcTime: FEATURES.offlineMode
+        ? CACHE_CONFIG.persistMaxAge // kept as long as the persisted copy is valid
+        : 10 * 60 * 1000, // 10 minutes - cache garbage collection time
       
       // Retry configuration
       retry: (failureCount, error: any) => {
@@ -25,8 +29,8 @@ export const queryClient = new QueryClient({
       refetchOnReconnect: true,
       refetchOnMount: true,
       
-      // Network configuration
-      networkMode: 'online',
+      // Network configuration - offline mode serves cached data instead of pausing
+      networkMode: FEATURES.offlineMode ? 'offlineFirst' : 'online',
       
       // Error handling
       throwOnError: false,
@@ -37,10 +41,11 @@ export const queryClient = new QueryClient({
     mutations: {
       // Retry configuration for mutations
       retry: (failureCount, error: any) => {
-        // Don't retry client errors or network errors that are likely permanent
+        // Don't retry client errors, network errors that are likely permanent or queued requests
         if (
           error?.response?.status >= 400 && error?.response?.status < 500 ||
-          error?.code === 'NETWORK_ERROR'
+          error?.code === 'NETWORK_ERROR' ||
+          error instanceof OfflineQueuedError
         ) {
           return false;
         }
@@ -48,11 +53,16 @@ export const queryClient = new QueryClient({
       },
       retryDelay: 1000,
       
-      // Network configuration
-      networkMode: 'online',
+      // Network configuration - offline mode lets mutations run so they can queue themselves
+      networkMode: FEATURES.offlineMode ? 'always' : 'online',
       
       // Global error handling for mutations
       onError: (error: any) => {
+        if (error instanceof OfflineQueuedError) {
+          toast.info('Saved offline', error.message);
+          return;
+        }
+
         // Show error toast for failed mutations
         const errorMessage = error?.response?.data?.message || error?.message || 'An error occurred';
         toast.error('Operation Failed', errorMessage);
@@ -76,6 +86,7 @@ export const queryKeys = {
     detail: (id: string) => ['listings', 'detail', id] as const,
     featured: ['listings', 'featured'] as const,
     myListings: (filters?: any) => ['listings', 'my', filters] as const,
+    myListingsAll: ['listings', 'my-all'] as const,
     byCategory: (categoryId: string, filters?: any) => ['listings', 'category', categoryId, filters] as const,
     byVendor: (vendorId: string, filters?: any) => ['listings', 'vendor', vendorId, filters] as const,
     search: (query: string, filters?: any) => ['listings', 'search', query, filters] as const,
@@ -88,12 +99,73 @@ export const queryKeys = {
     list: (filters?: any) => ['orders', 'list', filters] as const,
     detail: (id: string) => ['orders', 'detail', id] as const,
     restaurant: (filters?: any) => ['orders', 'restaurant', filters] as const,
+    approvals: (filters?: any) => ['orders', 'approvals', filters] as const,
+    statement: (month: string) => ['orders', 'statement', month] as const,
     vendor: (filters?: any) => ['orders', 'vendor', filters] as const,
     byStatus: (status: string, filters?: any) => ['orders', 'status', status, filters] as const,
     recent: (limit?: number) => ['orders', 'recent', limit] as const,
     analytics: (dateRange?: any) => ['orders', 'analytics', dateRange] as const,
     tracking: (id: string) => ['orders', 'tracking', id] as const,
     summary: ['orders', 'summary'] as const,
+    eligibility: (data?: any) => ['orders', 'eligibility', data] as const,
+    deliveryEstimate: (vendorId: string, coordinates?: any) => ['orders', 'delivery-estimate', vendorId, coordinates] as const,
+  },
+
+  // Standing orders
+  standingOrders: {
+    all: ['standingOrders'] as const,
+    detail: (id: string) => ['standingOrders', 'detail', id] as const,
+  },
+
+  // Vendor delivery slots
+  deliverySlots: {
+    all: ['deliverySlots'] as const,
+    schedule: ['deliverySlots', 'schedule'] as const,
+    availability: (vendorId: string, date: string) => ['deliverySlots', 'availability', vendorId, date] as const,
+  },
+
+  // Restaurant branches and the owner's consolidated spend report
+  branches: {
+    all: ['branches'] as const,
+    list: ['branches', 'list'] as const,
+    spend: (filters?: any) => ['branches', 'spend', filters] as const,
+  },
+
+  // Restaurant delivery address book
+  addresses: {
+    all: ['addresses'] as const,
+    list: ['addresses', 'list'] as const,
+  },
+
+  // Geocoded delivery addresses
+  geocode: (address: string) => ['geocode', address] as const,
+
+  // Restaurant team
+  team: {
+    all: ['team'] as const,
+    members: ['team', 'members'] as const,
+  },
+
+  // Vendor receivables and payouts
+  receivables: {
+    all: ['receivables'] as const,
+    ledger: (filters?: any) => ['receivables', 'ledger', filters] as const,
+    outstandingCod: ['receivables', 'outstanding-cod'] as const,
+    payouts: (filters?: any) => ['receivables', 'payouts', filters] as const,
+  },
+
+  // Credit accounts
+  credit: {
+    all: ['credit'] as const,
+    accounts: ['credit', 'accounts'] as const,
+    candidates: ['credit', 'candidates'] as const,
+    invoices: (accountId: string) => ['credit', 'invoices', accountId] as const,
+  },
+
+  // Mobile banking payments
+  payments: {
+    all: ['payments'] as const,
+    verification: (callback?: any) => ['payments', 'verification', callback] as const,
   },
   
   // Products
@@ -109,6 +181,14 @@ export const queryKeys = {
     detail: (id: string) => ['categories', 'detail', id] as const,
   },
   
+  // Notifications
+  notifications: {
+    all: ['notifications'] as const,
+    list: (filters?: any) => ['notifications', 'list', filters] as const,
+    unreadCount: ['notifications', 'unread-count'] as const,
+    preferences: ['notifications', 'preferences'] as const,
+  },
+
   // Admin
   admin: {
     users: (filters?: any) => ['admin', 'users', filters] as const,
@@ -0,0 +1,22 @@
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import { PersistQueryClientOptions } from '@tanstack/react-query-persist-client';
+import { APP_CONFIG, CACHE_CONFIG } from '@/constants';
+import { idbStorage } from '@/utils';
+
+// The query cache is kept in IndexedDB so the last loaded data is available offline
+export const queryPersister = createAsyncStoragePersister({
+  storage: idbStorage,
+  key: 'aaroth-query-cache',
+  throttleTime: 1000,
+});
+
+export const queryPersistOptions: Omit<PersistQueryClientOptions, 'queryClient'> = {
+  persister: queryPersister,
+  maxAge: CACHE_CONFIG.persistMaxAge,
+  // A new release may change response shapes, so it starts with an empty cache
+  buster: APP_CONFIG.version,
+  dehydrateOptions: {
+    // Only settled data is worth restoring; the session itself lives in the auth store
+    shouldDehydrateQuery: query => query.state.status === 'success' && query.queryKey[0] !== 'auth',
+  },
+};
@@ -1,5 +1,7 @@
 // Application constants and configuration
 
+import { BANGLADESH_DIVISIONS } from './bangladeshLocations';
+
 // App metadata
 export const APP_CONFIG = {
   name: import.meta.env.VITE_APP_NAME || 'Aaroth Fresh',
@@ -13,6 +15,10 @@ export const API_CONFIG = {
   baseUrl: import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api/v1',
   timeout: 30000, // 30 seconds
   maxRetries: Number(import.meta.env.VITE_QUERY_RETRY_ATTEMPTS) || 3,
+  // Push channel for notifications; Server-Sent Events from the API are used when unset
+  notificationsSocketUrl: import.meta.env.VITE_NOTIFICATIONS_WS_URL || '',
+  // 'mock' runs mobile banking payments against an in-app wallet instead of the real gateway
+  paymentGateway: import.meta.env.VITE_PAYMENT_GATEWAY === 'mock' ? 'mock' : 'api',
 } as const;
 
 // Authentication configuration
@@ -28,6 +34,7 @@ export const CACHE_CONFIG = {
   staleTime: Number(import.meta.env.VITE_QUERY_STALE_TIME) || 300000, // 5 minutes
   gcTime: Number(import.meta.env.VITE_QUERY_GC_TIME) || 600000, // 10 minutes
   retryAttempts: Number(import.meta.env.VITE_QUERY_RETRY_ATTEMPTS) || 3,
+  persistMaxAge: 24 * 60 * 60 * 1000, // 24 hours - offline copy of the query cache
 } as const;
 
 // File upload configuration
@@ -74,6 +81,9 @@ export const EXTERNAL_SERVICES = {
   },
   maps: {
     googleMapsApiKey: import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '',
+    // XYZ raster tiles for the route map; point at a self-hosted tile server to work without internet
+    tileUrl: import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    tileAttribution: import.meta.env.VITE_MAP_TILE_ATTRIBUTION || '© OpenStreetMap contributors',
   },
   monitoring: {
     sentryDsn: import.meta.env.VITE_SENTRY_DSN || '',
@@ -130,16 +140,7 @@ export const BANGLADESH = {
   countryCode: '+88',
   currency: 'BDT',
   currencySymbol: '৳',
-  divisions: [
-    'Dhaka',
-    'Chittagong',
-    'Rajshahi',
-    'Khulna',
-    'Barisal',
-    'Sylhet',
-    'Rangpur',
-    'Mymensingh',
-  ],
+  divisions: BANGLADESH_DIVISIONS,
   mobileOperators: [
     'Grameenphone',
     'Robi',
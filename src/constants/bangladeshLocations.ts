@@ -0,0 +1,631 @@
+// Bangladesh administrative areas for address entry: division → district →
+// upazila. Metropolitan thanas are listed alongside the upazilas of the four
+// city corporation districts, as that is how delivery addresses are written.
+
+export const BANGLADESH_LOCATIONS: Record<string, Record<string, readonly string[]>> = {
+  Barishal: {
+    Barguna: ['Amtali', 'Bamna', 'Barguna Sadar', 'Betagi', 'Patharghata', 'Taltali'],
+    Barishal: [
+      'Agailjhara',
+      'Babuganj',
+      'Bakerganj',
+      'Banaripara',
+      'Barishal Sadar',
+      'Gournadi',
+      'Hizla',
+      'Mehendiganj',
+      'Muladi',
+      'Wazirpur',
+    ],
+    Bhola: [
+      'Bhola Sadar',
+      'Burhanuddin',
+      'Char Fasson',
+      'Daulatkhan',
+      'Lalmohan',
+      'Manpura',
+      'Tazumuddin',
+    ],
+    Jhalokati: ['Jhalokati Sadar', 'Kathalia', 'Nalchity', 'Rajapur'],
+    Patuakhali: [
+      'Bauphal',
+      'Dashmina',
+      'Dumki',
+      'Galachipa',
+      'Kalapara',
+      'Mirzaganj',
+      'Patuakhali Sadar',
+      'Rangabali',
+    ],
+    Pirojpur: [
+      'Bhandaria',
+      'Indurkani',
+      'Kawkhali',
+      'Mathbaria',
+      'Nazirpur',
+      'Nesarabad',
+      'Pirojpur Sadar',
+    ],
+  },
+  Chattogram: {
+    Bandarban: [
+      'Alikadam',
+      'Bandarban Sadar',
+      'Lama',
+      'Naikhongchhari',
+      'Rowangchhari',
+      'Ruma',
+      'Thanchi',
+    ],
+    Brahmanbaria: [
+      'Akhaura',
+      'Ashuganj',
+      'Bancharampur',
+      'Bijoynagar',
+      'Brahmanbaria Sadar',
+      'Kasba',
+      'Nabinagar',
+      'Nasirnagar',
+      'Sarail',
+    ],
+    Chandpur: [
+      'Chandpur Sadar',
+      'Faridganj',
+      'Haimchar',
+      'Hajiganj',
+      'Kachua',
+      'Matlab Dakshin',
+      'Matlab Uttar',
+      'Shahrasti',
+    ],
+    Chattogram: [
+      'Agrabad',
+      'Akbar Shah',
+      'Anwara',
+      'Bakalia',
+      'Banshkhali',
+      'Bayazid Bostami',
+      'Boalkhali',
+      'Chandanaish',
+      'Chandgaon',
+      'Chawkbazar',
+      'Double Mooring',
+      'Fatikchhari',
+      'Halishahar',
+      'Hathazari',
+      'Karnaphuli',
+      'Khulshi',
+      'Kotwali',
+      'Lohagara',
+      'Mirsharai',
+      'Pahartali',
+      'Panchlaish',
+      'Patenga',
+      'Patiya',
+      'Rangunia',
+      'Raozan',
+      'Sandwip',
+      'Satkania',
+      'Sitakunda',
+    ],
+    "Cox's Bazar": [
+      'Chakaria',
+      "Cox's Bazar Sadar",
+      'Eidgaon',
+      'Kutubdia',
+      'Maheshkhali',
+      'Pekua',
+      'Ramu',
+      'Teknaf',
+      'Ukhia',
+    ],
+    Cumilla: [
+      'Barura',
+      'Brahmanpara',
+      'Burichang',
+      'Chandina',
+      'Chauddagram',
+      'Cumilla Adarsha Sadar',
+      'Cumilla Sadar Dakshin',
+      'Daudkandi',
+      'Debidwar',
+      'Homna',
+      'Laksam',
+      'Lalmai',
+      'Meghna',
+      'Monohargonj',
+      'Muradnagar',
+      'Nangalkot',
+      'Titas',
+    ],
+    Feni: ['Chhagalnaiya', 'Daganbhuiyan', 'Feni Sadar', 'Fulgazi', 'Parshuram', 'Sonagazi'],
+    Khagrachhari: [
+      'Dighinala',
+      'Guimara',
+      'Khagrachhari Sadar',
+      'Lakshmichhari',
+      'Mahalchhari',
+      'Manikchhari',
+      'Matiranga',
+      'Panchhari',
+      'Ramgarh',
+    ],
+    Lakshmipur: ['Kamalnagar', 'Lakshmipur Sadar', 'Raipur', 'Ramganj', 'Ramgati'],
+    Noakhali: [
+      'Begumganj',
+      'Chatkhil',
+      'Companiganj',
+      'Hatiya',
+      'Kabirhat',
+      'Noakhali Sadar',
+      'Senbagh',
+      'Sonaimuri',
+      'Subarnachar',
+    ],
+    Rangamati: [
+      'Baghaichhari',
+      'Barkal',
+      'Belaichhari',
+      'Juraichhari',
+      'Kaptai',
+      'Kawkhali',
+      'Langadu',
+      'Naniarchar',
+      'Rajasthali',
+      'Rangamati Sadar',
+    ],
+  },
+  Dhaka: {
+    Dhaka: [
+      'Adabor',
+      'Badda',
+      'Banani',
+      'Bangshal',
+      'Bhashantek',
+      'Cantonment',
+      'Chawkbazar',
+      'Dakshinkhan',
+      'Darus Salam',
+      'Demra',
+      'Dhamrai',
+      'Dhanmondi',
+      'Dohar',
+      'Gendaria',
+      'Gulshan',
+      'Hatirjheel',
+      'Hazaribagh',
+      'Jatrabari',
+      'Kadamtali',
+      'Kafrul',
+      'Kalabagan',
+      'Kamrangirchar',
+      'Keraniganj',
+      'Khilgaon',
+      'Khilkhet',
+      'Kotwali',
+      'Lalbagh',
+      'Mirpur',
+      'Mohammadpur',
+      'Motijheel',
+      'Mugda',
+      'Nawabganj',
+      'New Market',
+      'Pallabi',
+      'Paltan',
+      'Ramna',
+      'Rampura',
+      'Rupnagar',
+      'Sabujbagh',
+      'Savar',
+      'Shah Ali',
+      'Shahbagh',
+      'Shahjahanpur',
+      'Sher-e-Bangla Nagar',
+      'Shyampur',
+      'Sutrapur',
+      'Tejgaon',
+      'Tejgaon Industrial Area',
+      'Turag',
+      'Uttara East',
+      'Uttara West',
+      'Uttarkhan',
+      'Vatara',
+      'Wari',
+    ],
+    Faridpur: [
+      'Alfadanga',
+      'Bhanga',
+      'Boalmari',
+      'Charbhadrasan',
+      'Faridpur Sadar',
+      'Madhukhali',
+      'Nagarkanda',
+      'Sadarpur',
+      'Saltha',
+    ],
+    Gazipur: ['Gazipur Sadar', 'Kaliakair', 'Kaliganj', 'Kapasia', 'Sreepur', 'Tongi'],
+    Gopalganj: ['Gopalganj Sadar', 'Kashiani', 'Kotalipara', 'Muksudpur', 'Tungipara'],
+    Kishoreganj: [
+      'Austagram',
+      'Bajitpur',
+      'Bhairab',
+      'Hossainpur',
+      'Itna',
+      'Karimganj',
+      'Katiadi',
+      'Kishoreganj Sadar',
+      'Kuliarchar',
+      'Mithamain',
+      'Nikli',
+      'Pakundia',
+      'Tarail',
+    ],
+    Madaripur: ['Dasar', 'Kalkini', 'Madaripur Sadar', 'Rajoir', 'Shibchar'],
+    Manikganj: [
+      'Daulatpur',
+      'Ghior',
+      'Harirampur',
+      'Manikganj Sadar',
+      'Saturia',
+      'Shivalaya',
+      'Singair',
+    ],
+    Munshiganj: [
+      'Gazaria',
+      'Lohajang',
+      'Munshiganj Sadar',
+      'Sirajdikhan',
+      'Sreenagar',
+      'Tongibari',
+    ],
+    Narayanganj: ['Araihazar', 'Bandar', 'Narayanganj Sadar', 'Rupganj', 'Sonargaon'],
+    Narsingdi: ['Belabo', 'Monohardi', 'Narsingdi Sadar', 'Palash', 'Raipura', 'Shibpur'],
+    Rajbari: ['Baliakandi', 'Goalanda', 'Kalukhali', 'Pangsha', 'Rajbari Sadar'],
+    Shariatpur: ['Bhedarganj', 'Damudya', 'Gosairhat', 'Naria', 'Shariatpur Sadar', 'Zajira'],
+    Tangail: [
+      'Basail',
+      'Bhuapur',
+      'Delduar',
+      'Dhanbari',
+      'Ghatail',
+      'Gopalpur',
+      'Kalihati',
+      'Madhupur',
+      'Mirzapur',
+      'Nagarpur',
+      'Sakhipur',
+      'Tangail Sadar',
+    ],
+  },
+  Khulna: {
+    Bagerhat: [
+      'Bagerhat Sadar',
+      'Chitalmari',
+      'Fakirhat',
+      'Kachua',
+      'Mollahat',
+      'Mongla',
+      'Morrelganj',
+      'Rampal',
+      'Sarankhola',
+    ],
+    Chuadanga: ['Alamdanga', 'Chuadanga Sadar', 'Damurhuda', 'Jibannagar'],
+    Jashore: [
+      'Abhaynagar',
+      'Bagherpara',
+      'Chaugachha',
+      'Jashore Sadar',
+      'Jhikargachha',
+      'Keshabpur',
+      'Manirampur',
+      'Sharsha',
+    ],
+    Jhenaidah: [
+      'Harinakunda',
+      'Jhenaidah Sadar',
+      'Kaliganj',
+      'Kotchandpur',
+      'Maheshpur',
+      'Shailkupa',
+    ],
+    Khulna: [
+      'Batiaghata',
+      'Dacope',
+      'Daulatpur',
+      'Dighalia',
+      'Dumuria',
+      'Khalishpur',
+      'Khan Jahan Ali',
+      'Khulna Sadar',
+      'Koyra',
+      'Paikgachha',
+      'Phultala',
+      'Rupsa',
+      'Sonadanga',
+      'Terokhada',
+    ],
+    Kushtia: ['Bheramara', 'Daulatpur', 'Khoksa', 'Kumarkhali', 'Kushtia Sadar', 'Mirpur'],
+    Magura: ['Magura Sadar', 'Mohammadpur', 'Shalikha', 'Sreepur'],
+    Meherpur: ['Gangni', 'Meherpur Sadar', 'Mujibnagar'],
+    Narail: ['Kalia', 'Lohagara', 'Narail Sadar'],
+    Satkhira: [
+      'Assasuni',
+      'Debhata',
+      'Kalaroa',
+      'Kaliganj',
+      'Satkhira Sadar',
+      'Shyamnagar',
+      'Tala',
+    ],
+  },
+  Mymensingh: {
+    Jamalpur: [
+      'Bakshiganj',
+      'Dewanganj',
+      'Islampur',
+      'Jamalpur Sadar',
+      'Madarganj',
+      'Melandaha',
+      'Sarishabari',
+    ],
+    Mymensingh: [
+      'Bhaluka',
+      'Dhobaura',
+      'Fulbaria',
+      'Gaffargaon',
+      'Gauripur',
+      'Haluaghat',
+      'Ishwarganj',
+      'Muktagachha',
+      'Mymensingh Sadar',
+      'Nandail',
+      'Phulpur',
+      'Tarakanda',
+      'Trishal',
+    ],
+    Netrokona: [
+      'Atpara',
+      'Barhatta',
+      'Durgapur',
+      'Kalmakanda',
+      'Kendua',
+      'Khaliajuri',
+      'Madan',
+      'Mohanganj',
+      'Netrokona Sadar',
+      'Purbadhala',
+    ],
+    Sherpur: ['Jhenaigati', 'Nakla', 'Nalitabari', 'Sherpur Sadar', 'Sreebardi'],
+  },
+  Rajshahi: {
+    Bogura: [
+      'Adamdighi',
+      'Bogura Sadar',
+      'Dhunat',
+      'Dhupchanchia',
+      'Gabtali',
+      'Kahaloo',
+      'Nandigram',
+      'Sariakandi',
+      'Shajahanpur',
+      'Sherpur',
+      'Shibganj',
+      'Sonatala',
+    ],
+    Chapainawabganj: ['Bholahat', 'Chapainawabganj Sadar', 'Gomastapur', 'Nachole', 'Shibganj'],
+    Joypurhat: ['Akkelpur', 'Joypurhat Sadar', 'Kalai', 'Khetlal', 'Panchbibi'],
+    Naogaon: [
+      'Atrai',
+      'Badalgachhi',
+      'Dhamoirhat',
+      'Manda',
+      'Mohadevpur',
+      'Naogaon Sadar',
+      'Niamatpur',
+      'Patnitala',
+      'Porsha',
+      'Raninagar',
+      'Sapahar',
+    ],
+    Natore: [
+      'Bagatipara',
+      'Baraigram',
+      'Gurudaspur',
+      'Lalpur',
+      'Naldanga',
+      'Natore Sadar',
+      'Singra',
+    ],
+    Pabna: [
+      'Atgharia',
+      'Bera',
+      'Bhangura',
+      'Chatmohar',
+      'Faridpur',
+      'Ishwardi',
+      'Pabna Sadar',
+      'Santhia',
+      'Sujanagar',
+    ],
+    Rajshahi: [
+      'Bagha',
+      'Bagmara',
+      'Boalia',
+      'Charghat',
+      'Durgapur',
+      'Godagari',
+      'Matihar',
+      'Mohanpur',
+      'Paba',
+      'Puthia',
+      'Rajpara',
+      'Shah Makhdum',
+      'Tanore',
+    ],
+    Sirajganj: [
+      'Belkuchi',
+      'Chauhali',
+      'Kamarkhanda',
+      'Kazipur',
+      'Raiganj',
+      'Shahjadpur',
+      'Sirajganj Sadar',
+      'Tarash',
+      'Ullahpara',
+    ],
+  },
+  Rangpur: {
+    Dinajpur: [
+      'Birampur',
+      'Birganj',
+      'Biral',
+      'Bochaganj',
+      'Chirirbandar',
+      'Dinajpur Sadar',
+      'Fulbari',
+      'Ghoraghat',
+      'Hakimpur',
+      'Kaharole',
+      'Khansama',
+      'Nawabganj',
+      'Parbatipur',
+    ],
+    Gaibandha: [
+      'Fulchhari',
+      'Gaibandha Sadar',
+      'Gobindaganj',
+      'Palashbari',
+      'Sadullapur',
+      'Saghata',
+      'Sundarganj',
+    ],
+    Kurigram: [
+      'Bhurungamari',
+      'Char Rajibpur',
+      'Chilmari',
+      'Kurigram Sadar',
+      'Nageshwari',
+      'Phulbari',
+      'Rajarhat',
+      'Raomari',
+      'Ulipur',
+    ],
+    Lalmonirhat: ['Aditmari', 'Hatibandha', 'Kaliganj', 'Lalmonirhat Sadar', 'Patgram'],
+    Nilphamari: ['Dimla', 'Domar', 'Jaldhaka', 'Kishoreganj', 'Nilphamari Sadar', 'Saidpur'],
+    Panchagarh: ['Atwari', 'Boda', 'Debiganj', 'Panchagarh Sadar', 'Tetulia'],
+    Rangpur: [
+      'Badarganj',
+      'Gangachara',
+      'Kaunia',
+      'Mithapukur',
+      'Pirgachha',
+      'Pirganj',
+      'Rangpur Sadar',
+      'Taraganj',
+    ],
+    Thakurgaon: ['Baliadangi', 'Haripur', 'Pirganj', 'Ranisankail', 'Thakurgaon Sadar'],
+  },
+  Sylhet: {
+    Habiganj: [
+      'Ajmiriganj',
+      'Bahubal',
+      'Baniachong',
+      'Chunarughat',
+      'Habiganj Sadar',
+      'Lakhai',
+      'Madhabpur',
+      'Nabiganj',
+      'Shayestaganj',
+    ],
+    Moulvibazar: [
+      'Barlekha',
+      'Juri',
+      'Kamalganj',
+      'Kulaura',
+      'Moulvibazar Sadar',
+      'Rajnagar',
+      'Sreemangal',
+    ],
+    Sunamganj: [
+      'Bishwambharpur',
+      'Chhatak',
+      'Derai',
+      'Dharampasha',
+      'Dowarabazar',
+      'Jagannathpur',
+      'Jamalganj',
+      'Madhyanagar',
+      'Shantiganj',
+      'Sullah',
+      'Sunamganj Sadar',
+      'Tahirpur',
+    ],
+    Sylhet: [
+      'Balaganj',
+      'Beanibazar',
+      'Bishwanath',
+      'Companiganj',
+      'Dakshin Surma',
+      'Fenchuganj',
+      'Golapganj',
+      'Gowainghat',
+      'Jaintiapur',
+      'Kanaighat',
+      'Osmani Nagar',
+      'Sylhet Sadar',
+      'Zakiganj',
+    ],
+  },
+};
+
+export const BANGLADESH_DIVISIONS = Object.keys(BANGLADESH_LOCATIONS);
+
+// Well-known neighbourhoods, keyed by `district/upazila`. Suggestions only:
+// any area name is accepted.
+export const BANGLADESH_AREAS: Record<string, readonly string[]> = {
+  'Dhaka/Badda': ['Aftabnagar', 'Merul Badda', 'Middle Badda', 'North Badda', 'Shahjadpur'],
+  'Dhaka/Banani': ['Banani', 'Banani DOHS', 'Kakoli', 'Mohakhali DOHS'],
+  'Dhaka/Dhanmondi': ['Dhanmondi', 'Jigatola', 'Rayer Bazar', 'Shankar', 'Science Lab'],
+  'Dhaka/Gulshan': ['Baridhara', 'Baridhara DOHS', 'Gulshan 1', 'Gulshan 2', 'Niketan'],
+  'Dhaka/Khilgaon': ['Goran', 'Khilgaon', 'Malibagh', 'Taltola'],
+  'Dhaka/Mirpur': ['Kazipara', 'Mirpur 1', 'Mirpur 2', 'Mirpur 10', 'Mirpur 11', 'Shewrapara'],
+  'Dhaka/Mohammadpur': [
+    'Asad Gate',
+    'Iqbal Road',
+    'Lalmatia',
+    'Mohammadia Housing',
+    'Tajmahal Road',
+  ],
+  'Dhaka/Motijheel': ['Arambagh', 'Dilkusha', 'Fakirapool', 'Motijheel C/A'],
+  'Dhaka/Pallabi': ['Mirpur 6', 'Mirpur 7', 'Mirpur 11.5', 'Mirpur 12', 'Mirpur DOHS'],
+  'Dhaka/Ramna': ['Eskaton', 'Kakrail', 'Moghbazar', 'Siddheswari'],
+  'Dhaka/Tejgaon': ['Farmgate', 'Kawran Bazar', 'Nakhalpara', 'Tejkunipara'],
+  'Dhaka/Uttara East': ['Sector 1', 'Sector 3', 'Sector 4', 'Sector 5', 'Sector 6', 'Sector 7'],
+  'Dhaka/Uttara West': [
+    'Sector 9',
+    'Sector 10',
+    'Sector 11',
+    'Sector 12',
+    'Sector 13',
+    'Sector 14',
+  ],
+  'Dhaka/Vatara': ['Bashundhara R/A', 'Jagannathpur', 'Nurerchala', 'Vatara'],
+  'Chattogram/Double Mooring': ['Agrabad C/A', 'Chowmuhani', 'Dewanhat'],
+  'Chattogram/Khulshi': ["Foy's Lake", 'Khulshi', 'Zakir Hossain Road'],
+  'Chattogram/Panchlaish': ['GEC Circle', 'Muradpur', 'Nasirabad', 'Panchlaish R/A'],
+  'Sylhet/Sylhet Sadar': ['Amberkhana', 'Shahjalal Upashahar', 'Zindabazar'],
+};
+
+// Older spellings still found in saved addresses, mapped to current names
+export const BANGLADESH_NAME_ALIASES: Record<string, string> = {
+  barisal: 'Barishal',
+  bogra: 'Bogura',
+  chittagong: 'Chattogram',
+  chapai: 'Chapainawabganj',
+  comilla: 'Cumilla',
+  jessore: 'Jashore',
+  "cox's bazaar": "Cox's Bazar",
+};
+
+// Postal codes are four digits
+export const BANGLADESH_POSTAL_CODE = /^\d{4}$/;
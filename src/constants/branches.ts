@@ -0,0 +1,10 @@
+// Restaurant branch and consolidated spend report constants
+
+// Spend report covers the last 30 days unless the owner picks another range
+export const SPEND_REPORT_DEFAULT_RANGE_DAYS = 30;
+
+// Orders fetched per request; a report loads every page across all branches
+export const SPEND_REPORT_ORDER_PAGE_SIZE = 200;
+
+// Orders placed before the restaurant was split into branches
+export const UNASSIGNED_BRANCH = { id: 'unassigned', name: 'No branch' } as const;
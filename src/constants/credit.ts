@@ -0,0 +1,25 @@
+// Credit account and payment terms constants
+import { CreditAccountStatus, PaymentTerms } from '@/types';
+
+export const PAYMENT_TERMS_LABELS: Record<PaymentTerms, string> = {
+  net_7: 'Net 7',
+  net_15: 'Net 15',
+  net_30: 'Net 30',
+} as const;
+
+export const PAYMENT_TERMS_DAYS: Record<PaymentTerms, number> = {
+  net_7: 7,
+  net_15: 15,
+  net_30: 30,
+} as const;
+
+export const CREDIT_ACCOUNT_STATUS_LABELS: Record<CreditAccountStatus, string> = {
+  active: 'Active',
+  suspended: 'Suspended',
+} as const;
+
+// Invoices due within this many days are flagged as due soon
+export const CREDIT_DUE_SOON_DAYS = 3;
+
+// Deliveries fetched per request when finding restaurants a vendor can offer credit to
+export const CREDIT_CANDIDATE_ORDER_PAGE_SIZE = 200;
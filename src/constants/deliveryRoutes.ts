@@ -0,0 +1,17 @@
+// Delivery route planning constants
+import { OrderStatus } from '@/types';
+
+// Orders that go out on a delivery run; pending ones are not accepted yet
+export const ROUTE_STOP_STATUSES: OrderStatus[] = ['confirmed', 'prepared'];
+
+// Rough city driving figures for the run's time estimate
+export const ROUTE_AVERAGE_SPEED_KMH = 18;
+export const ROUTE_STOP_MINUTES = 10;
+
+// Raster map tiles (XYZ scheme) and the closest zoom the route map uses
+export const MAP_TILE_SIZE = 256;
+export const MAP_MAX_ZOOM = 16;
+
+// Where the address pin map opens before anything is located (central Dhaka)
+export const MAP_DEFAULT_CENTER = { latitude: 23.8103, longitude: 90.4125 };
+export const MAP_PIN_ZOOM = 15;
@@ -0,0 +1,15 @@
+// Delivery slot capacity planning constants
+
+// Product units that count towards a slot's weight limit, as kilograms per unit
+export const WEIGHT_UNIT_TO_KG: Record<string, number> = {
+  kg: 1,
+  g: 0.001,
+  gram: 0.001,
+  ton: 1000,
+} as const;
+
+// Share of a slot's capacity from which the day view flags it as nearly full
+export const DELIVERY_SLOT_NEARLY_FULL = 0.8;
+
+// Orders fetched per request; the planner loads every page so slot counts are complete
+export const DELIVERY_DAY_ORDER_PAGE_SIZE = 200;
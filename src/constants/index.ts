@@ -1,4 +1,16 @@
 // App constants and configuration
 export * from './app';
 export * from './routes';
-export * from './roles';
\ No newline at end of file
+export * from './roles';
+export * from './orders';
+export * from './listings';
+export * from './notifications';
+export * from './team';
+export * from './invoices';
+export * from './receivables';
+export * from './credit';
+export * from './payments';
+export * from './deliverySlots';
+export * from './deliveryRoutes';
+export * from './bangladeshLocations';
+export * from './branches';
\ No newline at end of file
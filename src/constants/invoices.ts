@@ -0,0 +1,7 @@
+// Invoice and statement constants
+
+// Invoice numbers are derived from the order number, e.g. INV-ORD1234
+export const INVOICE_NUMBER_PREFIX = 'INV';
+
+// Orders fetched per request; a month's statement loads every page
+export const STATEMENT_ORDER_PAGE_SIZE = 200;
@@ -0,0 +1,63 @@
+// Listing catalogue constants
+
+import { ListingFilters, ListingSpreadsheetField } from '@/types';
+
+// Produce quality grades as shown to buyers
+export const QUALITY_GRADE_LABELS: Record<NonNullable<ListingFilters['qualityGrade']>, string> = {
+  A: 'Grade A - Premium',
+  B: 'Grade B - Standard',
+  C: 'Grade C - Economy',
+} as const;
+
+// Sort choices offered on the browse page
+export const LISTING_SORT_OPTIONS: {
+  label: string;
+  sortBy: NonNullable<ListingFilters['sortBy']>;
+  sortOrder: NonNullable<ListingFilters['sortOrder']>;
+  requiresLocation?: boolean;
+}[] = [
+  { label: 'Newest first', sortBy: 'created', sortOrder: 'desc' },
+  { label: 'Price: low to high', sortBy: 'price', sortOrder: 'asc' },
+  { label: 'Price: high to low', sortBy: 'price', sortOrder: 'desc' },
+  { label: 'Top rated vendors', sortBy: 'rating', sortOrder: 'desc' },
+  { label: 'Nearest first', sortBy: 'distance', sortOrder: 'asc', requiresLocation: true },
+];
+
+// Delivery radius choices for the location facet (in km)
+export const LISTING_RADIUS_OPTIONS = [5, 10, 25, 50] as const;
+
+// Page size for catalogue browsing
+export const BROWSE_PAGE_SIZE = 24;
+
+// Inventory grid highlighting
+export const LOW_STOCK_THRESHOLD = 10;
+export const EXPIRY_WARNING_DAYS = 3;
+
+// Page size for the vendor inventory grid
+export const INVENTORY_PAGE_SIZE = 50;
+
+// Listing import/export spreadsheet layout; exports use these headers so files round-trip
+export const LISTING_SPREADSHEET_COLUMNS: {
+  field: ListingSpreadsheetField;
+  label: string;
+  required?: boolean;
+}[] = [
+  { field: 'id', label: 'Listing ID' },
+  { field: 'product', label: 'Product', required: true },
+  { field: 'price', label: 'Price (BDT)', required: true },
+  { field: 'availableQuantity', label: 'Available Quantity', required: true },
+  { field: 'minOrderQuantity', label: 'Min Order Quantity' },
+  { field: 'maxOrderQuantity', label: 'Max Order Quantity' },
+  { field: 'description', label: 'Description' },
+  { field: 'images', label: 'Image URLs' },
+  { field: 'harvestDate', label: 'Harvest Date' },
+  { field: 'expiryDate', label: 'Expiry Date' },
+  { field: 'qualityGrade', label: 'Quality Grade' },
+  { field: 'organicCertified', label: 'Organic Certified' },
+];
+
+// Bulk import limits
+export const LISTING_IMPORT_MAX_ROWS = 500;
+export const LISTING_IMPORT_FILE_TYPES = ['.csv', '.xlsx', '.xls'];
+// Listings are matched against every page of the vendor's catalogue
+export const LISTING_IMPORT_PAGE_SIZE = 100;
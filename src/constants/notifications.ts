@@ -0,0 +1,45 @@
+// Notification inbox constants
+
+import { AppNotificationType, NotificationPreferences, UserRole } from '@/types';
+
+export const NOTIFICATION_TYPE_LABELS: Record<AppNotificationType, string> = {
+  new_order: 'New orders',
+  order_status: 'Order updates',
+  order_approval: 'Order approvals',
+  vendor_approval: 'Vendor approvals',
+  low_stock: 'Low stock',
+  listing_expiring: 'Expiring listings',
+} as const;
+
+export const NOTIFICATION_TYPE_DESCRIPTIONS: Record<AppNotificationType, string> = {
+  new_order: 'A restaurant placed an order with you',
+  order_status: 'An order was confirmed, prepared, delivered or cancelled',
+  order_approval: "A manager's order needs approval, or your order was approved or rejected",
+  vendor_approval: 'A vendor account was submitted, approved or rejected',
+  low_stock: 'A listing is running out of stock',
+  listing_expiring: 'A listing is close to its expiry date',
+} as const;
+
+// Notification types each role can receive, in the order shown on the preferences form
+export const NOTIFICATION_TYPES_BY_ROLE: Record<UserRole, AppNotificationType[]> = {
+  admin: ['vendor_approval'],
+  vendor: ['new_order', 'order_status', 'low_stock', 'listing_expiring', 'vendor_approval'],
+  restaurantOwner: ['order_approval', 'order_status'],
+  restaurantManager: ['order_status', 'order_approval'],
+} as const;
+
+// Used until the saved preferences have loaded
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  new_order: { enabled: true, toast: true },
+  order_status: { enabled: true, toast: true },
+  order_approval: { enabled: true, toast: true },
+  vendor_approval: { enabled: true, toast: true },
+  low_stock: { enabled: true, toast: false },
+  listing_expiring: { enabled: true, toast: false },
+};
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+// Push channel reconnect backoff
+export const NOTIFICATION_RECONNECT_BASE_DELAY = 1000; // 1 second
+export const NOTIFICATION_RECONNECT_MAX_DELAY = 60 * 1000; // 1 minute
@@ -0,0 +1,112 @@
+// Order lifecycle constants
+
+import { OrderApprovalStatus, OrderStatus, PaymentMethod, PaymentStatus, Weekday } from '@/types';
+
+// Fulfilment stages in the order they happen (cancelled sits outside the flow)
+export const ORDER_STATUS_FLOW: OrderStatus[] = ['pending', 'confirmed', 'prepared', 'delivered'];
+
+// Status a vendor moves an order to from its current stage
+export const NEXT_ORDER_STATUS: Partial<Record<OrderStatus, OrderStatus>> = {
+  pending: 'confirmed',
+  confirmed: 'prepared',
+  prepared: 'delivered',
+};
+
+// Statuses from which an order can still be cancelled
+export const CANCELLABLE_ORDER_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'prepared'];
+
+// Status display names
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  prepared: 'Prepared',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+} as const;
+
+// Label for the action that advances an order out of each status
+export const ORDER_STATUS_ACTIONS: Partial<Record<OrderStatus, string>> = {
+  pending: 'Confirm Order',
+  confirmed: 'Mark as Prepared',
+  prepared: 'Mark as Delivered',
+};
+
+// Approval decisions an owner can make from each approval status
+export const ORDER_APPROVAL_TRANSITIONS: Record<OrderApprovalStatus, OrderApprovalStatus[]> = {
+  awaiting_approval: ['approved', 'rejected'],
+  approved: [],
+  rejected: [],
+} as const;
+
+export const ORDER_APPROVAL_STATUS_LABELS: Record<OrderApprovalStatus, string> = {
+  awaiting_approval: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+} as const;
+
+export const ORDER_APPROVALS_PAGE_SIZE = 20;
+
+// Common reasons offered when an owner rejects a manager's order
+export const ORDER_REJECT_REASONS = [
+  'Over budget',
+  'Quantities too high',
+  'Not needed right now',
+  'Order from a different vendor',
+] as const;
+
+// Payment display names
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Payment Pending',
+  paid: 'Paid',
+  failed: 'Payment Failed',
+  refunded: 'Refunded',
+} as const;
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash_on_delivery: 'Cash on Delivery',
+  mobile_banking: 'Mobile Banking',
+  bank_transfer: 'Bank Transfer',
+  card: 'Card',
+  credit: 'Pay Later (Credit)',
+} as const;
+
+// Delivery windows a restaurant can request at checkout
+export const DELIVERY_TIME_SLOTS = [
+  '06:00 - 08:00',
+  '08:00 - 10:00',
+  '10:00 - 12:00',
+  '14:00 - 16:00',
+  '16:00 - 18:00',
+] as const;
+
+// Weekday names indexed like Date.getDay(); Bangladesh working week starts on Saturday
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  0: 'Sunday',
+  1: 'Monday',
+  2: 'Tuesday',
+  3: 'Wednesday',
+  4: 'Thursday',
+  5: 'Friday',
+  6: 'Saturday',
+} as const;
+
+export const WEEKDAY_ORDER: Weekday[] = [6, 0, 1, 2, 3, 4, 5];
+
+// How far ahead standing order deliveries are shown
+export const STANDING_ORDER_LOOKAHEAD_DAYS = 14;
+
+// How often order tracking is polled when live updates are unavailable
+export const ORDER_TRACKING_POLL_INTERVAL = 15 * 1000; // 15 seconds
+
+// Backoff between reconnects after a live tracking stream drops
+export const ORDER_TRACKING_RECONNECT_BASE_DELAY = 1000; // 1 second
+export const ORDER_TRACKING_RECONNECT_MAX_DELAY = 30 * 1000; // 30 seconds
+
+// Common reasons offered when a vendor cancels an order
+export const VENDOR_CANCEL_REASONS = [
+  'Out of stock',
+  'Quality not up to standard',
+  'Unable to deliver to this area',
+  'Unable to deliver on requested date',
+  'Requested by restaurant',
+] as const;
@@ -0,0 +1,18 @@
+// Mobile banking payment constants
+import { MobileWalletProvider, PaymentCallbackStatus } from '@/types';
+
+export const MOBILE_WALLET_LABELS: Record<MobileWalletProvider, string> = {
+  bkash: 'bKash',
+  nagad: 'Nagad',
+  rocket: 'Rocket',
+} as const;
+
+export const PAYMENT_CALLBACK_STATUSES: PaymentCallbackStatus[] = [
+  'success',
+  'pending',
+  'failure',
+  'cancel',
+];
+
+// Where the mock gateway keeps its sessions; they must survive the redirect to the mock wallet
+export const MOCK_PAYMENT_STORAGE_KEY = 'mock_payment_sessions';
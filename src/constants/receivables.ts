@@ -0,0 +1,31 @@
+// Receivables ledger and payout constants
+import { PaymentStatus, PayoutStatus, ReceivablesAgingBucket } from '@/types';
+
+// Ordered youngest to oldest; an age falls in the first bucket whose maxDays it does not exceed
+export const RECEIVABLES_AGING_BUCKETS: ReceivablesAgingBucket[] = [
+  { id: 'current', label: '0-7 days', maxDays: 7 },
+  { id: 'week', label: '8-14 days', maxDays: 14 },
+  { id: 'month', label: '15-30 days', maxDays: 30 },
+  { id: 'overdue', label: 'Over 30 days', maxDays: null },
+];
+
+// Money still to be collected from the restaurant
+export const RECEIVABLES_OUTSTANDING_PAYMENT_STATUSES: PaymentStatus[] = ['pending', 'failed'];
+
+// Ledger covers the last 90 days unless the vendor picks another range
+export const RECEIVABLES_DEFAULT_RANGE_DAYS = 90;
+
+// Delivered orders fetched per request; a ledger range and the COD aging load every page
+export const RECEIVABLES_ORDER_PAGE_SIZE = 200;
+
+export const PAYOUTS_PAGE_SIZE = 10;
+
+// Payouts fetched per request when building a reconciliation export
+export const PAYOUTS_EXPORT_PAGE_SIZE = 200;
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  scheduled: 'Scheduled',
+  processing: 'Processing',
+  paid: 'Paid',
+  failed: 'Failed',
+} as const;
@@ -23,7 +23,7 @@ export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
   admin: 'Full system access, manage users, products, and system settings',
   vendor: 'Create and manage product listings, process orders, view analytics',
   restaurantOwner: 'Browse products, place orders, manage restaurant profile',
-  restaurantManager: 'Same as restaurant owner with limited administrative rights',
+  restaurantManager: 'Place and track orders without access to account settings or payments',
 } as const;
 
 // Permission constants
@@ -58,6 +58,15 @@ export const PERMISSIONS = {
   UPDATE_ORDER_STATUS: 'update_order_status',
   CANCEL_ORDERS: 'cancel_orders',
   VIEW_ALL_ORDERS: 'view_all_orders',
+  MANAGE_STANDING_ORDERS: 'manage_standing_orders',
+  APPROVE_ORDERS: 'approve_orders',
+  MANAGE_DELIVERY_SLOTS: 'manage_delivery_slots',
+  
+  // Restaurant account management
+  MANAGE_RESTAURANT: 'manage_restaurant',
+  MANAGE_TEAM: 'manage_team',
+  VIEW_PAYMENTS: 'view_payments',
+  MANAGE_CREDIT: 'manage_credit',
   
   // Analytics and reporting
   VIEW_ANALYTICS: 'view_analytics',
@@ -73,8 +82,10 @@ export const PERMISSIONS = {
   MANAGE_SYSTEM_CONFIG: 'manage_system_config',
 } as const;
 
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
 // Role-based permissions mapping
-export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
   admin: [
     // User management
     PERMISSIONS.MANAGE_USERS,
@@ -121,9 +132,12 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     
     // Order management (vendor's orders only)
     PERMISSIONS.UPDATE_ORDER_STATUS,
+    PERMISSIONS.MANAGE_DELIVERY_SLOTS,
     
     // Analytics (vendor's data only)
     PERMISSIONS.VIEW_ANALYTICS,
+    PERMISSIONS.VIEW_PAYMENTS,
+    PERMISSIONS.MANAGE_CREDIT,
     
     // Profile
     PERMISSIONS.MANAGE_PROFILE,
@@ -134,6 +148,15 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     // Order management
     PERMISSIONS.CREATE_ORDERS,
     PERMISSIONS.CANCEL_ORDERS,
+    PERMISSIONS.MANAGE_STANDING_ORDERS,
+    PERMISSIONS.APPROVE_ORDERS,
+    
+    // Restaurant account (owner only)
+    PERMISSIONS.MANAGE_RESTAURANT,
+    PERMISSIONS.MANAGE_TEAM,
+    PERMISSIONS.VIEW_PAYMENTS,
+    PERMISSIONS.VIEW_ANALYTICS,
+    PERMISSIONS.EXPORT_DATA,
     
     // Profile
     PERMISSIONS.MANAGE_PROFILE,
@@ -141,9 +164,9 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
   ],
   
   restaurantManager: [
-    // Order management (same as owner)
+    // Day-to-day ordering; the owner's scope can add cancellations or remove standing orders
     PERMISSIONS.CREATE_ORDERS,
-    PERMISSIONS.CANCEL_ORDERS,
+    PERMISSIONS.MANAGE_STANDING_ORDERS,
     
     // Profile (limited)
     PERMISSIONS.MANAGE_PROFILE,
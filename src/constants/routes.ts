@@ -7,6 +7,7 @@ export const PUBLIC_ROUTES = {
   CONTACT: '/contact',
   PRIVACY: '/privacy',
   TERMS: '/terms',
+  OFFLINE: '/offline',
 } as const;
 
 // Authentication routes
@@ -39,6 +40,12 @@ export const VENDOR_ROUTES = {
   LISTINGS_EDIT: (id: string) => `/vendor/listings/${id}/edit`,
   ORDERS: '/vendor/orders',
   ORDER_DETAIL: (id: string) => `/vendor/orders/${id}`,
+  ORDER_INVOICE: (id: string) => `/vendor/orders/${id}/invoice`,
+  STATEMENTS: '/vendor/statements',
+  RECEIVABLES: '/vendor/receivables',
+  CREDIT: '/vendor/credit',
+  DELIVERY_SLOTS: '/vendor/delivery-slots',
+  DELIVERY_ROUTES: '/vendor/delivery-routes',
   ANALYTICS: '/vendor/analytics',
   PROFILE: '/vendor/profile',
   SETTINGS: '/vendor/settings',
@@ -56,8 +63,19 @@ export const RESTAURANT_ROUTES = {
   ORDERS: '/restaurant/orders',
   ORDER_DETAIL: (id: string) => `/restaurant/orders/${id}`,
   ORDER_TRACKING: (id: string) => `/restaurant/orders/${id}/tracking`,
+  ORDER_INVOICE: (id: string) => `/restaurant/orders/${id}/invoice`,
+  STATEMENTS: '/restaurant/statements',
+  CREDIT: '/restaurant/credit',
+  PAYMENT_CALLBACK: '/restaurant/payments/callback',
+  MOCK_WALLET: '/restaurant/payments/mock-wallet',
+  STANDING_ORDERS: '/restaurant/standing-orders',
+  ADDRESSES: '/restaurant/addresses',
+  BRANCHES: '/restaurant/branches',
+  SPEND_REPORT: '/restaurant/reports',
+  APPROVALS: '/restaurant/approvals',
   PROFILE: '/restaurant/profile',
   SETTINGS: '/restaurant/settings',
+  TEAM: '/restaurant/settings/team',
 } as const;
 
 // Common routes (accessible by multiple roles)
@@ -106,6 +124,11 @@ export const ROUTE_PERMISSIONS = {
   [VENDOR_ROUTES.LISTINGS_CREATE]: ['vendor'],
   [VENDOR_ROUTES.ORDERS]: ['vendor'],
   [VENDOR_ROUTES.ANALYTICS]: ['vendor'],
+  [VENDOR_ROUTES.STATEMENTS]: ['vendor'],
+  [VENDOR_ROUTES.RECEIVABLES]: ['vendor'],
+  [VENDOR_ROUTES.CREDIT]: ['vendor'],
+  [VENDOR_ROUTES.DELIVERY_SLOTS]: ['vendor'],
+  [VENDOR_ROUTES.DELIVERY_ROUTES]: ['vendor'],
 
   // Restaurant only routes
   [RESTAURANT_ROUTES.DASHBOARD]: ['restaurantOwner', 'restaurantManager'],
@@ -113,6 +136,16 @@ export const ROUTE_PERMISSIONS = {
   [RESTAURANT_ROUTES.CART]: ['restaurantOwner', 'restaurantManager'],
   [RESTAURANT_ROUTES.CHECKOUT]: ['restaurantOwner', 'restaurantManager'],
   [RESTAURANT_ROUTES.ORDERS]: ['restaurantOwner', 'restaurantManager'],
+  [RESTAURANT_ROUTES.STANDING_ORDERS]: ['restaurantOwner', 'restaurantManager'],
+  [RESTAURANT_ROUTES.ADDRESSES]: ['restaurantOwner', 'restaurantManager'],
+  [RESTAURANT_ROUTES.BRANCHES]: ['restaurantOwner'],
+  [RESTAURANT_ROUTES.SPEND_REPORT]: ['restaurantOwner'],
+  [RESTAURANT_ROUTES.APPROVALS]: ['restaurantOwner'],
+  [RESTAURANT_ROUTES.STATEMENTS]: ['restaurantOwner'],
+  [RESTAURANT_ROUTES.CREDIT]: ['restaurantOwner'],
+  [RESTAURANT_ROUTES.PAYMENT_CALLBACK]: ['restaurantOwner', 'restaurantManager'],
+  [RESTAURANT_ROUTES.MOCK_WALLET]: ['restaurantOwner', 'restaurantManager'],
+  [RESTAURANT_ROUTES.TEAM]: ['restaurantOwner'],
 
   // Common authenticated routes
   [COMMON_ROUTES.PROFILE]: ['admin', 'vendor', 'restaurantOwner', 'restaurantManager'],
@@ -142,6 +175,7 @@ export const NAVIGATION_ITEMS = {
     { label: 'Browse Products', path: RESTAURANT_ROUTES.BROWSE, icon: 'Search' },
     { label: 'Cart', path: RESTAURANT_ROUTES.CART, icon: 'ShoppingCart' },
     { label: 'My Orders', path: RESTAURANT_ROUTES.ORDERS, icon: 'Package' },
+    { label: 'Standing Orders', path: RESTAURANT_ROUTES.STANDING_ORDERS, icon: 'Repeat' },
     { label: 'Profile', path: RESTAURANT_ROUTES.PROFILE, icon: 'User' },
   ],
 } as const;
@@ -0,0 +1,14 @@
+// Restaurant team constants
+
+import { ManagerScope } from '@/types';
+
+// Starting permissions for a newly invited manager
+export const DEFAULT_MANAGER_SCOPE: ManagerScope = {
+  spendLimit: 10000, // ৳10,000 per order
+  canCancelOrders: false,
+  canManageStandingOrders: true,
+  branchIds: [],
+};
+
+// Wait before another invite code can be sent to the same phone
+export const TEAM_INVITE_OTP_RESEND_SECONDS = 60;
@@ -1,4 +1,19 @@
 // Custom React hooks
 // export * from './useAuth';
-// export * from './useListings';
-// export * from './useOrders';
\ No newline at end of file
+export * from './useCartReconciliation';
+export * from './useListings';
+export * from './useListingFilters';
+export * from './useOrders';
+export * from './useStandingOrders';
+export * from './useListingImport';
+export * from './useNotifications';
+export * from './usePermission';
+export * from './useTeam';
+export * from './useInvoices';
+export * from './useReceivables';
+export * from './useCredit';
+export * from './usePayments';
+export * from './useDeliverySlots';
+export * from './useDeliveryRoutes';
+export * from './useAddresses';
+export * from './useBranches';
\ No newline at end of file
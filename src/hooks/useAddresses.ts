@@ -0,0 +1,102 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AddressBookService } from '@/services/addressBook.service';
+import { AuthService } from '@/services/auth.service';
+import { GeocodingService } from '@/services/geocoding.service';
+import { queryKeys } from '@/config/queryClient';
+import { useAuthStore } from '@/stores/authStore';
+import { toast } from '@/stores/notificationStore';
+import { usePermission } from '@/hooks/usePermission';
+import { PERMISSIONS } from '@/constants';
+import { Address, SaveAddressRequest, SavedAddress } from '@/types';
+
+// Address Book Queries
+/**
+ * The restaurant's saved delivery addresses. Anyone who orders for the
+ * restaurant can pick from them; only the owner changes them.
+ */
+export const useSavedAddresses = () => {
+  const canOrder = usePermission(PERMISSIONS.CREATE_ORDERS);
+
+  return useQuery({
+    queryKey: queryKeys.addresses.list,
+    queryFn: () => AddressBookService.getAddresses(),
+    enabled: canOrder,
+    staleTime: 10 * 60 * 1000, // 10 minutes - the address book rarely changes
+  });
+};
+
+// Address Mutations
+export const useUpdateProfileAddress = () => {
+  const setUser = useAuthStore(state => state.setUser);
+
+  return useMutation({
+    mutationFn: (address: Address) => AuthService.updateAddress(address),
+    onSuccess: user => {
+      setUser(user);
+      toast.success('Address updated', 'New orders will use this address');
+    },
+  });
+};
+
+// Saving a default clears the flag on the others, so the whole list is refetched
+export const useCreateSavedAddress = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SaveAddressRequest) => AddressBookService.createAddress(data),
+    onSuccess: saved => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.addresses.all });
+      toast.success('Address saved', `${saved.label} added to your address book`);
+    },
+  });
+};
+
+export const useUpdateSavedAddress = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SaveAddressRequest }) =>
+      AddressBookService.updateAddress(id, data),
+    onSuccess: saved => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.addresses.all });
+      toast.success('Address updated', `${saved.label} has been changed`);
+    },
+  });
+};
+
+export const useSetDefaultAddress = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (saved: SavedAddress) => AddressBookService.setDefaultAddress(saved.id),
+    onSuccess: saved => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.addresses.all });
+      toast.success('Default address changed', `Checkout will start with ${saved.label}`);
+    },
+  });
+};
+
+export const useDeleteSavedAddress = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (saved: SavedAddress) => AddressBookService.deleteAddress(saved.id),
+    onSuccess: (_data, saved) => {
+      queryClient.setQueryData<SavedAddress[]>(queryKeys.addresses.list, addresses =>
+        addresses?.filter(existing => existing.id !== saved.id)
+      );
+      toast.success('Address removed', `${saved.label} is no longer in your address book`);
+    },
+  });
+};
+
+// Map pin starting point for an address typed into the address book
+export const useLocateAddress = () =>
+  useMutation({
+    mutationFn: (address: Address) => GeocodingService.geocode(address),
+    onSuccess: coordinates => {
+      if (!coordinates) {
+        toast.warning('Address not found on the map', 'Drop the pin on the map yourself');
+      }
+    },
+  });
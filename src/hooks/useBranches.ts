@@ -0,0 +1,119 @@
+import { useCallback, useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BranchesService } from '@/services/branches.service';
+import { OrdersService } from '@/services/orders.service';
+import { queryKeys } from '@/config/queryClient';
+import { useAuthStore } from '@/stores/authStore';
+import { useCartStore } from '@/stores/cartStore';
+import { toast } from '@/stores/notificationStore';
+import { usePermission } from '@/hooks/usePermission';
+import { PERMISSIONS, SPEND_REPORT_ORDER_PAGE_SIZE } from '@/constants';
+import { RestaurantBranch, SaveBranchRequest, SpendReportFilters } from '@/types';
+import { DateFormatter, fetchAllPages } from '@/utils';
+
+// Branch Queries
+/**
+ * Branches the user orders for: every branch for the owner, the assigned ones
+ * for a manager.
+ */
+export const useBranches = () => {
+  const canOrder = usePermission(PERMISSIONS.CREATE_ORDERS);
+
+  return useQuery({
+    queryKey: queryKeys.branches.list,
+    queryFn: () => BranchesService.getBranches(),
+    enabled: canOrder,
+    staleTime: 10 * 60 * 1000, // 10 minutes - branches are rarely added
+  });
+};
+
+/**
+ * Switches the branch sent with every request. Carts are kept per branch, and
+ * everything cached for the previous branch is dropped except the branch list.
+ */
+export const useSwitchBranch = () => {
+  const queryClient = useQueryClient();
+  const setActiveBranch = useAuthStore(state => state.setActiveBranch);
+  const switchCart = useCartStore(state => state.switchBranch);
+
+  return useCallback(
+    (branchId: string) => {
+      // Several components can fall back to the same branch at once
+      if (useAuthStore.getState().activeBranchId === branchId) return;
+
+      setActiveBranch(branchId);
+      switchCart(branchId);
+      queryClient.resetQueries({ predicate: query => query.queryKey[0] !== 'branches' });
+    },
+    [queryClient, setActiveBranch, switchCart]
+  );
+};
+
+/**
+ * The branch being ordered for; the first one until another is picked. The
+ * fallback is also made active so requests are sent for it, e.g. when the
+ * saved branch was removed.
+ */
+export const useActiveBranch = (): RestaurantBranch | undefined => {
+  const activeBranchId = useAuthStore(state => state.activeBranchId);
+  const { data: branches = [] } = useBranches();
+  const switchBranch = useSwitchBranch();
+
+  const activeBranch = branches.find(branch => branch.id === activeBranchId);
+  const fallbackBranch = activeBranch ? undefined : branches[0];
+
+  useEffect(() => {
+    if (fallbackBranch) switchBranch(fallbackBranch.id);
+  }, [fallbackBranch, switchBranch]);
+
+  return activeBranch || fallbackBranch;
+};
+
+/**
+ * Orders across every branch in the range, for the owner's consolidated
+ * spend report.
+ */
+export const useSpendReportOrders = (filters: SpendReportFilters) => {
+  const canViewAnalytics = usePermission(PERMISSIONS.VIEW_ANALYTICS);
+
+  return useQuery({
+    queryKey: queryKeys.branches.spend(filters),
+    queryFn: () =>
+      fetchAllPages(page =>
+        OrdersService.getRestaurantOrders({
+          ...DateFormatter.toTimestampRange(filters),
+          allBranches: true,
+          page,
+          limit: SPEND_REPORT_ORDER_PAGE_SIZE,
+        })
+      ),
+    enabled: canViewAnalytics && !!filters.dateFrom && !!filters.dateTo,
+    staleTime: 5 * 60 * 1000, // 5 minutes - orders keep coming in during the day
+  });
+};
+
+// Branch Mutations
+export const useCreateBranch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SaveBranchRequest) => BranchesService.createBranch(data),
+    onSuccess: branch => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.branches.all });
+      toast.success('Branch added', `${branch.name} can now place orders`);
+    },
+  });
+};
+
+export const useUpdateBranch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SaveBranchRequest }) =>
+      BranchesService.updateBranch(id, data),
+    onSuccess: branch => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.branches.all });
+      toast.success('Branch updated', `${branch.name} has been changed`);
+    },
+  });
+};
@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { ListingsService } from '@/services/listings.service';
+import { queryKeys } from '@/config/queryClient';
+import { CartItem, useCartStore } from '@/stores/cartStore';
+import { CurrencyFormatter, ErrorHandler, NumberFormatter } from '@/utils';
+
+export type CartIssueType =
+  | 'unavailable'
+  | 'expired'
+  | 'price_changed'
+  | 'insufficient_stock'
+  | 'below_minimum'
+  | 'above_maximum';
+
+export interface CartIssue {
+  type: CartIssueType;
+  item: CartItem;
+  message: string;
+  suggestedQuantity?: number; // quantity that resolves a quantity issue, when one exists
+}
+
+/**
+ * Compare a cart item against its (freshly synced) listing snapshot.
+ * Listings that are gone, unavailable or expired only report that issue,
+ * since price and quantity no longer matter.
+ */
+export const findCartItemIssues = (item: CartItem, isMissing: boolean = false): CartIssue[] => {
+  const { listing, quantity } = item;
+  const { unit } = listing.product;
+
+  if (isMissing || !listing.isAvailable || listing.availableQuantity <= 0) {
+    return [
+      {
+        type: 'unavailable',
+        item,
+        message: isMissing
+          ? 'This listing has been removed by the vendor'
+          : 'This listing is no longer available',
+      },
+    ];
+  }
+
+  if (listing.expiryDate && new Date(listing.expiryDate).getTime() < Date.now()) {
+    return [{ type: 'expired', item, message: 'This produce has passed its expiry date' }];
+  }
+
+  const issues: CartIssue[] = [];
+  const min = listing.minOrderQuantity;
+  const max = listing.maxOrderQuantity;
+
+  if (item.unitPrice !== listing.price) {
+    issues.push({
+      type: 'price_changed',
+      item,
+      message: `Price changed from ${CurrencyFormatter.formatBDT(item.unitPrice)} to ${CurrencyFormatter.formatBDT(listing.price)} per ${unit}`,
+    });
+  }
+
+  if (quantity > listing.availableQuantity) {
+    const canFulfil = !min || listing.availableQuantity >= min;
+    issues.push({
+      type: 'insufficient_stock',
+      item,
+      message: `Only ${NumberFormatter.formatQuantity(listing.availableQuantity, unit)} left in stock`,
+      ...(canFulfil && { suggestedQuantity: Math.min(listing.availableQuantity, max ?? Infinity) }),
+    });
+  } else if (max && quantity > max) {
+    issues.push({
+      type: 'above_maximum',
+      item,
+      message: `Vendor accepts at most ${NumberFormatter.formatQuantity(max, unit)} per order`,
+      suggestedQuantity: max,
+    });
+  }
+
+  if (min && quantity < min) {
+    issues.push({
+      type: 'below_minimum',
+      item,
+      message: `Vendor requires at least ${NumberFormatter.formatQuantity(min, unit)} per order`,
+      ...(min <= listing.availableQuantity && { suggestedQuantity: min }),
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Re-fetch every listing in the cart, refresh the persisted snapshots and
+ * report anything the restaurant needs to accept or fix before checkout.
+ */
+export const useCartReconciliation = () => {
+  const items = useCartStore(state => state.items);
+  const syncListing = useCartStore(state => state.syncListing);
+  const syncedAt = useRef<Record<string, number>>({});
+
+  const listingIdsKey = Array.from(new Set(items.map(item => item.listing.id)))
+    .sort()
+    .join(',');
+  const listingIds = useMemo(
+    () => (listingIdsKey ? listingIdsKey.split(',') : []),
+    [listingIdsKey]
+  );
+
+  const queries = useQueries({
+    queries: listingIds.map(id => ({
+      queryKey: queryKeys.listings.detail(id),
+      queryFn: () => ListingsService.getById(id),
+      staleTime: 0,
+      refetchOnMount: 'always' as const,
+    })),
+  });
+
+  // Push fresh listing data into the cart snapshots
+  useEffect(() => {
+    queries.forEach(query => {
+      if (!query.data || query.dataUpdatedAt <= (syncedAt.current[query.data.id] ?? 0)) return;
+      syncedAt.current[query.data.id] = query.dataUpdatedAt;
+      syncListing(query.data);
+    });
+  }, [queries, syncListing]);
+
+  // Removed listings come back as 404; anything else means the listing could not be checked
+  const missingListingIds = new Set(
+    listingIds.filter((_, index) => ErrorHandler.isNotFound(queries[index]?.error))
+  );
+
+  const issues = items.flatMap(item =>
+    findCartItemIssues(item, missingListingIds.has(item.listing.id))
+  );
+
+  return {
+    issues,
+    hasIssues: issues.length > 0,
+    isReconciling: queries.some(query => query.isFetching),
+    // Listings we could not verify (network/server errors other than "not found")
+    unverifiedCount: queries.filter(query => query.isError && !ErrorHandler.isNotFound(query.error))
+      .length,
+    recheck: () => queries.forEach(query => query.refetch()),
+  };
+};
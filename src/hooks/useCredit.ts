@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CreditService } from '@/services/credit.service';
+import { OrdersService } from '@/services/orders.service';
+import { queryKeys } from '@/config/queryClient';
+import { toast } from '@/stores/notificationStore';
+import { usePermission } from '@/hooks/usePermission';
+import { CREDIT_CANDIDATE_ORDER_PAGE_SIZE, PERMISSIONS } from '@/constants';
+import { CreditAccount, GrantCreditRequest, UpdateCreditAccountRequest } from '@/types';
+import { fetchAllPages } from '@/utils';
+
+// Credit Queries
+/**
+ * Credit accounts of the signed-in vendor or restaurant. Managers need them
+ * at checkout too, so ordering is enough to load them.
+ */
+export const useCreditAccounts = () => {
+  const canViewCredit = usePermission(
+    [PERMISSIONS.VIEW_PAYMENTS, PERMISSIONS.CREATE_ORDERS],
+    'any'
+  );
+
+  return useQuery({
+    queryKey: queryKeys.credit.accounts,
+    queryFn: () => CreditService.getAccounts(),
+    enabled: canViewCredit,
+    staleTime: 60 * 1000, // 1 minute - balances change as orders are placed and paid
+  });
+};
+
+/**
+ * Every order the vendor has delivered, for finding restaurants that can be
+ * offered credit. Only loaded while granting credit.
+ */
+export const useCreditCandidateOrders = (enabled: boolean) =>
+  useQuery({
+    queryKey: queryKeys.credit.candidates,
+    queryFn: () =>
+      fetchAllPages(page =>
+        OrdersService.getVendorOrders({
+          status: 'delivered',
+          page,
+          limit: CREDIT_CANDIDATE_ORDER_PAGE_SIZE,
+        })
+      ),
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes - new restaurants are only delivered to now and then
+  });
+
+export const useCreditInvoices = (accountId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.credit.invoices(accountId ?? ''),
+    queryFn: () => CreditService.getOpenInvoices(accountId as string),
+    enabled: !!accountId,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+// Credit Mutations
+export const useGrantCredit = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: GrantCreditRequest) => CreditService.grantCredit(data),
+    onSuccess: account => {
+      queryClient.setQueryData<CreditAccount[]>(queryKeys.credit.accounts, accounts => [
+        ...(accounts || []).filter(existing => existing.id !== account.id),
+        account,
+      ]);
+      toast.success(
+        'Credit granted',
+        `${account.restaurant.restaurant?.restaurantName || account.restaurant.name} can now order on credit`
+      );
+    },
+  });
+};
+
+export const useUpdateCreditAccount = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateCreditAccountRequest }) =>
+      CreditService.updateAccount(id, data),
+    onSuccess: account => {
+      queryClient.setQueryData<CreditAccount[]>(queryKeys.credit.accounts, accounts =>
+        accounts?.map(existing => (existing.id === account.id ? account : existing))
+      );
+      toast.success('Credit account updated', 'The new terms apply to future orders');
+    },
+  });
+};
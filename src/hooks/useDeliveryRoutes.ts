@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { GeocodingService } from '@/services/geocoding.service';
+import { queryKeys } from '@/config/queryClient';
+import { useAuthStore } from '@/stores/authStore';
+import { useDeliveryDayOrders } from '@/hooks/useDeliverySlots';
+import { ROUTE_STOP_STATUSES } from '@/constants';
+import { Address, Coordinates } from '@/types';
+import { AddressFormatter, buildRouteStops } from '@/utils';
+
+// Addresses do not move, so a geocoded result is kept for good
+const geocodeQuery = (address: Address | undefined) => ({
+  queryKey: queryKeys.geocode(address ? AddressFormatter.formatAddress(address) : ''),
+  queryFn: () => GeocodingService.geocode(address as Address),
+  staleTime: Infinity,
+  retry: 1,
+});
+
+// Delivery Route Queries
+/**
+ * Where the vendor's runs start: their business address, geocoded if needed.
+ */
+export const useRouteStart = (): Coordinates | undefined => {
+  const businessAddress = useAuthStore(state => state.user?.vendor?.businessAddress);
+  const { data } = useQuery({
+    ...geocodeQuery(businessAddress),
+    enabled: !!businessAddress && !businessAddress.coordinates,
+  });
+
+  return businessAddress?.coordinates ?? data ?? undefined;
+};
+
+/**
+ * Stops for a date's delivery run, one per restaurant address. Addresses
+ * without coordinates are geocoded; stops that cannot be located keep
+ * `coordinates` unset.
+ */
+export const useDeliveryRun = (date: string) => {
+  const { data: orders, isLoading, error, refetch } = useDeliveryDayOrders(date);
+
+  const stops = useMemo(
+    () =>
+      buildRouteStops((orders || []).filter(order => ROUTE_STOP_STATUSES.includes(order.status))),
+    [orders]
+  );
+  const unlocated = stops.filter(stop => !stop.coordinates);
+  const geocodeQueries = useQueries({
+    queries: unlocated.map(stop => geocodeQuery(stop.address)),
+  });
+
+  const locatedStops = stops.map(stop => {
+    if (stop.coordinates) return stop;
+    const coordinates = geocodeQueries[unlocated.indexOf(stop)]?.data;
+    return coordinates ? { ...stop, coordinates } : stop;
+  });
+
+  return {
+    stops: locatedStops,
+    isLoading,
+    isLocating: geocodeQueries.some(query => query.isLoading),
+    error,
+    refetch,
+  };
+};
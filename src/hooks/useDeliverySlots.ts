@@ -0,0 +1,163 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { DeliverySlotsService } from '@/services/deliverySlots.service';
+import { OrdersService } from '@/services/orders.service';
+import { queryKeys } from '@/config/queryClient';
+import { toast } from '@/stores/notificationStore';
+import { usePermission } from '@/hooks/usePermission';
+import { DELIVERY_DAY_ORDER_PAGE_SIZE, PERMISSIONS } from '@/constants';
+import {
+  CreateBlackoutDateRequest,
+  DeliverySchedule,
+  ReassignDeliverySlotRequest,
+  SaveDeliverySlotRequest,
+} from '@/types';
+import { DateFormatter, fetchAllPages, getDeliverySlotLabel } from '@/utils';
+
+// Delivery Slot Queries
+export const useDeliverySchedule = () => {
+  const canManageSlots = usePermission(PERMISSIONS.MANAGE_DELIVERY_SLOTS);
+
+  return useQuery({
+    queryKey: queryKeys.deliverySlots.schedule,
+    queryFn: () => DeliverySlotsService.getSchedule(),
+    enabled: canManageSlots,
+    staleTime: 10 * 60 * 1000, // 10 minutes - only the vendor changes it
+  });
+};
+
+/**
+ * A vendor's slots on a date with their remaining room, for checkout.
+ */
+export const useDeliveryAvailability = (vendorId: string, date: string) =>
+  useQuery({
+    queryKey: queryKeys.deliverySlots.availability(vendorId, date),
+    queryFn: () => DeliverySlotsService.getAvailability(vendorId, date),
+    enabled: !!vendorId && !!date,
+    staleTime: 60 * 1000, // 1 minute - other restaurants keep booking slots
+  });
+
+/**
+ * Every vendor order for one delivery date, for the day planner. Shares the
+ * vendor orders cache so status changes and slot moves refresh it.
+ */
+export const useDeliveryDayOrders = (date: string) =>
+  useQuery({
+    queryKey: queryKeys.orders.vendor({ deliveryDate: date, limit: DELIVERY_DAY_ORDER_PAGE_SIZE }),
+    queryFn: () =>
+      fetchAllPages(page =>
+        OrdersService.getVendorOrders({
+          deliveryDate: date,
+          page,
+          limit: DELIVERY_DAY_ORDER_PAGE_SIZE,
+        })
+      ),
+    enabled: !!date,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+// Delivery Slot Mutations
+const useScheduleUpdater = () => {
+  const queryClient = useQueryClient();
+
+  return (update: (schedule: DeliverySchedule) => DeliverySchedule) => {
+    queryClient.setQueryData<DeliverySchedule>(queryKeys.deliverySlots.schedule, schedule =>
+      schedule ? update(schedule) : schedule
+    );
+    queryClient.invalidateQueries({ queryKey: ['deliverySlots', 'availability'] });
+  };
+};
+
+export const useCreateDeliverySlot = () => {
+  const updateSchedule = useScheduleUpdater();
+
+  return useMutation({
+    mutationFn: (data: SaveDeliverySlotRequest) => DeliverySlotsService.createSlot(data),
+    onSuccess: slot => {
+      updateSchedule(schedule => ({ ...schedule, slots: [...schedule.slots, slot] }));
+      toast.success('Slot added', `${getDeliverySlotLabel(slot)} is open for orders`);
+    },
+  });
+};
+
+export const useUpdateDeliverySlot = () => {
+  const updateSchedule = useScheduleUpdater();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SaveDeliverySlotRequest }) =>
+      DeliverySlotsService.updateSlot(id, data),
+    onSuccess: slot => {
+      updateSchedule(schedule => ({
+        ...schedule,
+        slots: schedule.slots.map(existing => (existing.id === slot.id ? slot : existing)),
+      }));
+      toast.success('Slot updated', 'Changes apply to orders placed from now on');
+    },
+  });
+};
+
+export const useDeleteDeliverySlot = () => {
+  const updateSchedule = useScheduleUpdater();
+
+  return useMutation({
+    mutationFn: (id: string) => DeliverySlotsService.deleteSlot(id),
+    onSuccess: (_, id) => {
+      updateSchedule(schedule => ({
+        ...schedule,
+        slots: schedule.slots.filter(slot => slot.id !== id),
+      }));
+      toast.success('Slot removed', 'Orders already booked into it are unchanged');
+    },
+  });
+};
+
+export const useAddBlackoutDate = () => {
+  const updateSchedule = useScheduleUpdater();
+
+  return useMutation({
+    mutationFn: (data: CreateBlackoutDateRequest) => DeliverySlotsService.addBlackoutDate(data),
+    onSuccess: blackout => {
+      updateSchedule(schedule => ({
+        ...schedule,
+        blackoutDates: [...schedule.blackoutDates, blackout].sort((a, b) =>
+          a.date.localeCompare(b.date)
+        ),
+      }));
+      toast.success(
+        'Blackout date added',
+        `Restaurants can no longer book deliveries on ${DateFormatter.formatDate(blackout.date)}`
+      );
+    },
+  });
+};
+
+export const useRemoveBlackoutDate = () => {
+  const updateSchedule = useScheduleUpdater();
+
+  return useMutation({
+    mutationFn: (id: string) => DeliverySlotsService.removeBlackoutDate(id),
+    onSuccess: (_, id) => {
+      updateSchedule(schedule => ({
+        ...schedule,
+        blackoutDates: schedule.blackoutDates.filter(blackout => blackout.id !== id),
+      }));
+    },
+  });
+};
+
+export const useReassignDeliverySlot = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ReassignDeliverySlotRequest }) =>
+      OrdersService.reassignDeliverySlot(id, data),
+    onSuccess: order => {
+      queryClient.setQueryData(queryKeys.orders.detail(order.id), order);
+      queryClient.invalidateQueries({ queryKey: ['orders', 'vendor'] });
+      queryClient.invalidateQueries({ queryKey: ['deliverySlots', 'availability'] });
+      toast.success(
+        'Order moved',
+        `Order #${order.orderNumber} will be delivered ${order.deliveryTimeSlot ?? 'in the new slot'}`
+      );
+    },
+  });
+};
@@ -0,0 +1,40 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { OrdersService } from '@/services/orders.service';
+import { queryKeys } from '@/config/queryClient';
+import { useAuthStore } from '@/stores/authStore';
+import { STATEMENT_ORDER_PAGE_SIZE } from '@/constants';
+import { AccountStatement, Invoice } from '@/types';
+import { downloadInvoicePdf, downloadStatementPdf, fetchAllPages, getMonthRange } from '@/utils';
+
+// Statement Queries
+/**
+ * Every order the signed-in vendor or restaurant received or placed in a
+ * yyyy-MM month, for building account statements.
+ */
+export const useStatementOrders = (month: string) => {
+  const role = useAuthStore(state => state.user?.role);
+
+  return useQuery({
+    queryKey: queryKeys.orders.statement(month),
+    queryFn: () =>
+      fetchAllPages(page => {
+        const filters = { ...getMonthRange(month), page, limit: STATEMENT_ORDER_PAGE_SIZE };
+        return role === 'vendor'
+          ? OrdersService.getVendorOrders(filters)
+          : OrdersService.getRestaurantOrders(filters);
+      }),
+    enabled: !!month && !!role,
+    staleTime: 5 * 60 * 1000, // 5 minutes - past months rarely change
+  });
+};
+
+// PDF Mutations
+export const useDownloadInvoicePdf = () =>
+  useMutation({
+    mutationFn: (invoice: Invoice) => downloadInvoicePdf(invoice),
+  });
+
+export const useDownloadStatementPdf = () =>
+  useMutation({
+    mutationFn: (statement: AccountStatement) => downloadStatementPdf(statement),
+  });
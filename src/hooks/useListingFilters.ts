@@ -0,0 +1,180 @@
+import { useCallback, useMemo } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { RESTAURANT_ROUTES } from '@/constants';
+import { ListingFilters } from '@/types';
+
+type QualityGrade = NonNullable<ListingFilters['qualityGrade']>;
+type SortBy = NonNullable<ListingFilters['sortBy']>;
+type SortOrder = NonNullable<ListingFilters['sortOrder']>;
+
+// Facet changes; an explicit undefined clears that facet
+export type ListingFilterChanges = { [K in keyof ListingFilters]?: ListingFilters[K] | undefined };
+
+const QUALITY_GRADES: readonly QualityGrade[] = ['A', 'B', 'C'];
+const SORT_FIELDS: readonly SortBy[] = ['price', 'created', 'rating', 'distance'];
+const SORT_ORDERS: readonly SortOrder[] = ['asc', 'desc'];
+
+// Short, human readable URL parameter names so filtered views are easy to share
+const PARAMS = {
+  search: 'q',
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  qualityGrade: 'grade',
+  organicCertified: 'organic',
+  available: 'inStock',
+  sortBy: 'sort',
+  sortOrder: 'order',
+  latitude: 'lat',
+  longitude: 'lng',
+  radius: 'radius',
+  page: 'page',
+} as const;
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const parseBoolean = (value: string | null): boolean | undefined => {
+  if (value === '1' || value === 'true') return true;
+  if (value === '0' || value === 'false') return false;
+  return undefined;
+};
+
+const parseOption = <T extends string>(value: string | null, options: readonly T[]) =>
+  options.find(option => option === value);
+
+/**
+ * Read listing filters from URL search params. Unknown or malformed values are dropped
+ * so a hand-edited link never produces an invalid API request.
+ */
+export const parseListingFilters = (params: URLSearchParams): ListingFilters => {
+  const search = params.get(PARAMS.search)?.trim();
+  const minPrice = parseNumber(params.get(PARAMS.minPrice));
+  const maxPrice = parseNumber(params.get(PARAMS.maxPrice));
+  const qualityGrade = parseOption(params.get(PARAMS.qualityGrade), QUALITY_GRADES);
+  const organicCertified = parseBoolean(params.get(PARAMS.organicCertified));
+  const available = parseBoolean(params.get(PARAMS.available));
+  const sortBy = parseOption(params.get(PARAMS.sortBy), SORT_FIELDS);
+  const sortOrder = parseOption(params.get(PARAMS.sortOrder), SORT_ORDERS);
+  const latitude = parseNumber(params.get(PARAMS.latitude));
+  const longitude = parseNumber(params.get(PARAMS.longitude));
+  const radius = parseNumber(params.get(PARAMS.radius));
+  const page = parseNumber(params.get(PARAMS.page));
+
+  return {
+    ...(search && { search }),
+    ...(minPrice !== undefined && minPrice >= 0 && { minPrice }),
+    ...(maxPrice !== undefined && maxPrice >= 0 && { maxPrice }),
+    ...(qualityGrade && { qualityGrade }),
+    ...(organicCertified !== undefined && { organicCertified }),
+    ...(available !== undefined && { available }),
+    ...(sortBy && { sortBy }),
+    ...(sortOrder && { sortOrder }),
+    ...(latitude !== undefined &&
+      longitude !== undefined &&
+      radius !== undefined &&
+      radius > 0 && { location: { latitude, longitude, radius } }),
+    ...(page !== undefined && page > 1 && { page: Math.floor(page) }),
+  };
+};
+
+/**
+ * Write listing filters to URL search params. Category lives in the path
+ * (see RESTAURANT_ROUTES.BROWSE_CATEGORY) and vendor/limit are not user facing.
+ */
+export const serializeListingFilters = (filters: ListingFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  if (filters.search) params.set(PARAMS.search, filters.search);
+  if (filters.minPrice !== undefined) params.set(PARAMS.minPrice, String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set(PARAMS.maxPrice, String(filters.maxPrice));
+  if (filters.qualityGrade) params.set(PARAMS.qualityGrade, filters.qualityGrade);
+  if (filters.organicCertified !== undefined) {
+    params.set(PARAMS.organicCertified, filters.organicCertified ? '1' : '0');
+  }
+  if (filters.available !== undefined) {
+    params.set(PARAMS.available, filters.available ? '1' : '0');
+  }
+  if (filters.sortBy) params.set(PARAMS.sortBy, filters.sortBy);
+  if (filters.sortOrder) params.set(PARAMS.sortOrder, filters.sortOrder);
+  if (filters.location) {
+    params.set(PARAMS.latitude, filters.location.latitude.toFixed(5));
+    params.set(PARAMS.longitude, filters.location.longitude.toFixed(5));
+    params.set(PARAMS.radius, String(filters.location.radius));
+  }
+  if (filters.page && filters.page > 1) params.set(PARAMS.page, String(filters.page));
+
+  return params;
+};
+
+// Number of user-facing facets currently applied (sorting and paging excluded)
+export const countActiveListingFilters = (filters: ListingFilters): number =>
+  [
+    filters.category,
+    filters.minPrice !== undefined || filters.maxPrice !== undefined,
+    filters.qualityGrade,
+    filters.organicCertified !== undefined,
+    filters.available !== undefined,
+    filters.location,
+  ].filter(Boolean).length;
+
+/**
+ * Browse filter state backed by the URL, so a filtered catalogue view can be
+ * bookmarked or shared with other restaurant staff.
+ */
+export const useListingFilters = () => {
+  const navigate = useNavigate();
+  const { categoryId } = useParams<{ categoryId: string }>();
+  const [searchParams] = useSearchParams();
+
+  const filters = useMemo<ListingFilters>(
+    () => ({
+      ...parseListingFilters(searchParams),
+      ...(categoryId && { category: categoryId }),
+    }),
+    [searchParams, categoryId]
+  );
+
+  const setFilters = useCallback(
+    (next: ListingFilters) => {
+      const { category, ...rest } = next;
+      const search = serializeListingFilters(rest).toString();
+
+      navigate({
+        pathname: category ? RESTAURANT_ROUTES.BROWSE_CATEGORY(category) : RESTAURANT_ROUTES.BROWSE,
+        search: search ? `?${search}` : '',
+      });
+    },
+    [navigate]
+  );
+
+  // Merge a partial change; any facet change sends the user back to the first page
+  const updateFilters = useCallback(
+    (changes: ListingFilterChanges) => {
+      const merged: ListingFilterChanges = { ...filters, page: 1, ...changes };
+      const next = Object.fromEntries(
+        Object.entries(merged).filter(([, value]) => value !== undefined)
+      ) as ListingFilters;
+      setFilters(next);
+    },
+    [filters, setFilters]
+  );
+
+  const resetFilters = useCallback(() => {
+    setFilters({
+      ...(filters.search && { search: filters.search }),
+      ...(filters.sortBy && { sortBy: filters.sortBy }),
+      ...(filters.sortOrder && { sortOrder: filters.sortOrder }),
+    });
+  }, [filters.search, filters.sortBy, filters.sortOrder, setFilters]);
+
+  return {
+    filters,
+    setFilters,
+    updateFilters,
+    resetFilters,
+    activeFilterCount: countActiveListingFilters(filters),
+  };
+};
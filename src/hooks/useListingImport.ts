@@ -0,0 +1,283 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ListingsService } from '@/services/listings.service';
+import { queryKeys } from '@/config/queryClient';
+import { LISTING_IMPORT_PAGE_SIZE, LISTING_SPREADSHEET_COLUMNS } from '@/constants';
+import { listingImportSchema } from '@/schemas/listing.schemas';
+import { toast } from '@/stores/notificationStore';
+import {
+  CreateListingRequest,
+  Listing,
+  ListingColumnMapping,
+  ListingImportResult,
+  ListingImportRow,
+  ListingSpreadsheetField,
+  Product,
+  SpreadsheetData,
+} from '@/types';
+import {
+  DateFormatter,
+  downloadListingSpreadsheet,
+  ErrorHandler,
+  fetchAllPages,
+  SpreadsheetFormat,
+} from '@/utils';
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1'];
+const FALSE_VALUES = ['no', 'n', 'false', '0'];
+
+const columnLabel = (field: ListingSpreadsheetField) =>
+  LISTING_SPREADSHEET_COLUMNS.find(column => column.field === field)?.label || field;
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Dry run for a listing import: resolve each row to a product (by ID or exact
+ * name) and an existing listing (by listing ID), convert the cells and check
+ * them against the listing schema. Nothing is saved here.
+ */
+export const planListingImport = (
+  data: SpreadsheetData,
+  mapping: ListingColumnMapping,
+  products: Product[],
+  existingListings: Listing[]
+): ListingImportRow[] => {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const productsByName = new Map<string, Product[]>();
+  products.forEach(product => {
+    const key = normalizeName(product.name);
+    productsByName.set(key, [...(productsByName.get(key) || []), product]);
+  });
+  const listingsById = new Map(existingListings.map(listing => [listing.id, listing]));
+  const listedProductIds = new Set(existingListings.map(listing => listing.product.id));
+  const seenListingIds = new Set<string>();
+
+  return data.rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    // Fields whose cell could not be converted; schema errors for them would only repeat it
+    const unreadable = new Set<ListingSpreadsheetField>();
+
+    const cell = (field: ListingSpreadsheetField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] ?? '').trim();
+    };
+    const fail = (field: ListingSpreadsheetField, message: string) => {
+      unreadable.add(field);
+      errors.push(`${columnLabel(field)}: ${message}`);
+      return undefined;
+    };
+
+    const readNumber = (field: ListingSpreadsheetField) => {
+      const value = cell(field).replace(/[,\s৳]/g, '');
+      if (!value) return undefined;
+      const parsed = Number(value);
+      return Number.isNaN(parsed) ? fail(field, `"${cell(field)}" is not a number`) : parsed;
+    };
+
+    const readDate = (field: 'harvestDate' | 'expiryDate') => {
+      const value = cell(field);
+      if (!value) return undefined;
+      if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+      const parsed = new Date(value);
+      return Number.isNaN(parsed.getTime())
+        ? fail(field, `"${value}" is not a date (use YYYY-MM-DD)`)
+        : DateFormatter.toDateInputValue(parsed);
+    };
+
+    const readBoolean = (field: ListingSpreadsheetField) => {
+      const value = cell(field).toLowerCase();
+      if (!value || FALSE_VALUES.includes(value)) return false;
+      return TRUE_VALUES.includes(value)
+        ? true
+        : fail(field, `"${cell(field)}" should be Yes or No`);
+    };
+
+    // Resolve the listing and product
+    const listingId = cell('id');
+    const productCell = cell('product');
+    const existing = listingId ? listingsById.get(listingId) : undefined;
+    let product: Product | undefined;
+
+    if (listingId && !existing) {
+      fail('id', `${listingId} is not one of your listings`);
+    } else if (existing) {
+      if (seenListingIds.has(existing.id)) fail('id', 'This listing appears more than once');
+      seenListingIds.add(existing.id);
+      product = existing.product;
+      if (
+        productCell &&
+        productCell !== product.id &&
+        normalizeName(productCell) !== normalizeName(product.name)
+      ) {
+        fail('product', 'The product of an existing listing cannot be changed');
+      }
+    } else if (productCell) {
+      const matches = productsById.has(productCell)
+        ? [productsById.get(productCell) as Product]
+        : productsByName.get(normalizeName(productCell)) || [];
+      if (matches.length === 0) {
+        fail('product', `No product named "${productCell}"`);
+      } else if (matches.length > 1) {
+        fail('product', `"${productCell}" matches several products, use the product ID instead`);
+      } else {
+        [product] = matches;
+        if (product && listedProductIds.has(product.id)) {
+          warnings.push('You already list this product; this row adds another listing');
+        }
+      }
+    }
+
+    const images = cell('images')
+      .split(/[|\n]/)
+      .map(url => url.trim())
+      .filter(Boolean);
+    const grade = cell('qualityGrade')
+      .toUpperCase()
+      .replace(/^GRADE\s*/, '')
+      .split(/[\s-]/)[0];
+
+    const candidate = {
+      product: product?.id ?? '',
+      price: readNumber('price'),
+      availableQuantity: readNumber('availableQuantity'),
+      minOrderQuantity: readNumber('minOrderQuantity'),
+      maxOrderQuantity: readNumber('maxOrderQuantity'),
+      description: cell('description') || undefined,
+      images,
+      harvestDate: readDate('harvestDate'),
+      expiryDate: readDate('expiryDate'),
+      qualityGrade: grade || undefined,
+      organicCertified: readBoolean('organicCertified'),
+    };
+
+    const result = listingImportSchema.safeParse(candidate);
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        const field = issue.path[0] as ListingSpreadsheetField;
+        if (!unreadable.has(field)) errors.push(`${columnLabel(field)}: ${issue.message}`);
+      });
+    }
+    if (images.length === 0) {
+      warnings.push('No photos yet, add them in the listing editor');
+    }
+
+    const base = {
+      rowNumber: index + 2, // Row 1 holds the headers
+      productName: product?.name || productCell || 'Unknown product',
+      errors,
+      warnings,
+    };
+    if (!result.success || errors.length > 0) {
+      return { ...base, action: 'invalid' as const };
+    }
+
+    const { data: listing } = result;
+    const request: CreateListingRequest = {
+      product: listing.product,
+      price: listing.price,
+      availableQuantity: listing.availableQuantity,
+      ...(listing.minOrderQuantity && { minOrderQuantity: listing.minOrderQuantity }),
+      ...(listing.maxOrderQuantity && { maxOrderQuantity: listing.maxOrderQuantity }),
+      ...(listing.description && { description: listing.description }),
+      images: listing.images,
+      ...(listing.harvestDate && { harvestDate: listing.harvestDate }),
+      ...(listing.expiryDate && { expiryDate: listing.expiryDate }),
+      ...(listing.qualityGrade && { qualityGrade: listing.qualityGrade }),
+      organicCertified: listing.organicCertified,
+    };
+
+    return existing
+      ? { ...base, action: 'update' as const, listingId: existing.id, request }
+      : { ...base, action: 'create' as const, request };
+  });
+};
+
+// Every page of the vendor's listings
+const fetchAllMyListings = () =>
+  fetchAllPages(page => ListingsService.getMyListings({ page, limit: LISTING_IMPORT_PAGE_SIZE }));
+
+const saveImportRow = async ({
+  rowNumber,
+  productName,
+  listingId,
+  request,
+}: ListingImportRow): Promise<ListingImportResult> => {
+  try {
+    if (!request) throw new Error('This row has errors');
+
+    if (listingId) {
+      await ListingsService.update(listingId, request);
+      return { rowNumber, productName, status: 'updated' };
+    }
+    await ListingsService.create(request);
+    return { rowNumber, productName, status: 'created' };
+  } catch (error) {
+    return {
+      rowNumber,
+      productName,
+      status: 'failed',
+      error: ErrorHandler.handleApiError(error).message,
+    };
+  }
+};
+
+// Import Queries
+export const useAllMyListings = (enabled = true) => {
+  return useQuery({
+    queryKey: queryKeys.listings.myListingsAll,
+    queryFn: fetchAllMyListings,
+    enabled,
+    staleTime: 0, // Always recheck before matching listing IDs
+  });
+};
+
+// Import/Export Mutations
+export const useImportListings = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Rows are saved one at a time and failures are reported per row
+    mutationFn: (rows: ListingImportRow[]) =>
+      rows.reduce<Promise<ListingImportResult[]>>(
+        async (saved, row) => [...(await saved), await saveImportRow(row)],
+        Promise.resolve([])
+      ),
+    // A retried import would create the same listings twice
+    retry: false,
+    onSuccess: results => {
+      queryClient.invalidateQueries({ queryKey: ['listings', 'my'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.listings.myListingsAll });
+
+      const failed = results.filter(result => result.status === 'failed').length;
+      if (failed > 0) {
+        toast.warning('Import finished with errors', `${failed} of ${results.length} rows failed`);
+      } else {
+        toast.success('Import complete', `${results.length} listings saved`);
+      }
+    },
+  });
+};
+
+export const useExportListings = () => {
+  return useMutation({
+    mutationFn: async (format: SpreadsheetFormat) => {
+      const listings = await fetchAllMyListings();
+      await downloadListingSpreadsheet(
+        listings,
+        format,
+        `listings-${DateFormatter.toDateInputValue(new Date())}`
+      );
+      return listings.length;
+    },
+    onSuccess: count => {
+      toast.success('Export ready', `${count} listings downloaded`);
+    },
+  });
+};
+
+export const useDownloadListingTemplate = () => {
+  return useMutation({
+    mutationFn: (format: SpreadsheetFormat) =>
+      downloadListingSpreadsheet([], format, 'listings-template'),
+  });
+};
@@ -0,0 +1,223 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CategoriesService, ListingsService, ProductsService } from '@/services/listings.service';
+import { queryKeys } from '@/config/queryClient';
+import { toast } from '@/stores/notificationStore';
+import { runOrQueue } from '@/stores/offlineStore';
+import { CurrencyFormatter, ErrorHandler } from '@/utils';
+import {
+  CreateListingRequest,
+  Listing,
+  ListingFilters,
+  OfflineQueuedError,
+  OutboxAction,
+  PaginatedResponse,
+  UpdateListingRequest,
+} from '@/types';
+
+// Listing Queries
+export const useBrowseListings = (filters: ListingFilters = {}) => {
+  const { category, search, ...rest } = filters;
+
+  // Pick the most specific endpoint for the current filter combination
+  let queryKey: readonly unknown[] = queryKeys.listings.list(rest);
+  let queryFn = () => ListingsService.getAll(rest);
+
+  if (search) {
+    const searchFilters = { ...rest, ...(category && { category }) };
+    queryKey = queryKeys.listings.search(search, searchFilters);
+    queryFn = () => ListingsService.search(search, searchFilters);
+  } else if (category) {
+    queryKey = queryKeys.listings.byCategory(category, rest);
+    queryFn = () => ListingsService.getByCategory(category, rest);
+  }
+
+  return useQuery({
+    queryKey,
+    queryFn,
+    staleTime: 2 * 60 * 1000, // 2 minutes - prices and stock change during the day
+    placeholderData: previousData => previousData,
+  });
+};
+
+export const useListing = (id: string) => {
+  return useQuery({
+    queryKey: queryKeys.listings.detail(id),
+    queryFn: () => ListingsService.getById(id),
+    enabled: !!id,
+  });
+};
+
+export const useMyListings = (filters: Omit<ListingFilters, 'vendor'> = {}) => {
+  return useQuery({
+    queryKey: queryKeys.listings.myListings(filters),
+    queryFn: () => ListingsService.getMyListings(filters),
+    placeholderData: previousData => previousData,
+  });
+};
+
+// Category Queries
+export const useProductCategories = () => {
+  return useQuery({
+    queryKey: queryKeys.categories.all,
+    queryFn: () => CategoriesService.getAll(),
+    staleTime: 30 * 60 * 1000, // 30 minutes - categories rarely change
+  });
+};
+
+// Product Queries
+export const useProducts = (filters: { category?: string; search?: string } = {}) => {
+  return useQuery({
+    queryKey: queryKeys.products.list(filters),
+    queryFn: () => ProductsService.getAll(filters),
+    staleTime: 30 * 60 * 1000, // 30 minutes - the product catalogue is admin-managed
+  });
+};
+
+// Listing Mutations
+export const useCreateListing = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateListingRequest) => ListingsService.create(data),
+    onSuccess: listing => {
+      queryClient.setQueryData(queryKeys.listings.detail(listing.id), listing);
+      queryClient.invalidateQueries({ queryKey: ['listings', 'my'] });
+      toast.success('Listing published', `${listing.product.name} is now visible to restaurants`);
+    },
+  });
+};
+
+export const useUpdateListing = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateListingRequest }) =>
+      ListingsService.update(id, data),
+    onSuccess: listing => {
+      queryClient.setQueryData(queryKeys.listings.detail(listing.id), listing);
+      queryClient.invalidateQueries({ queryKey: ['listings', 'my'] });
+      toast.success('Listing updated', `Changes to ${listing.product.name} have been saved`);
+    },
+  });
+};
+
+/**
+ * Applies an inline inventory edit to every cached "my listings" page straight
+ * away and restores the previous pages if the server rejects it. Offline, the
+ * edit is queued in the outbox and the optimistic change is kept.
+ */
+const useOptimisticListingMutation = <TVariables extends { id: string }>(
+  mutationFn: (variables: TVariables) => Promise<Listing>,
+  applyChange: (listing: Listing, variables: TVariables) => Listing,
+  toOutboxAction: (variables: TVariables, listing: Listing | undefined) => OutboxAction,
+  describe: (variables: TVariables) => string
+) => {
+  const queryClient = useQueryClient();
+  const myListingsKey = ['listings', 'my'];
+
+  const findCachedListing = (id: string) =>
+    queryClient
+      .getQueriesData<PaginatedResponse<Listing>>({ queryKey: myListingsKey })
+      .flatMap(([, page]) => page?.data || [])
+      .find(listing => listing.id === id);
+
+  return useMutation({
+    mutationFn: (variables: TVariables) => {
+      const listing = findCachedListing(variables.id);
+      return runOrQueue(
+        toOutboxAction(variables, listing),
+        `${listing?.product.name || 'Listing'}: ${describe(variables)}`,
+        () => mutationFn(variables)
+      );
+    },
+    onMutate: async variables => {
+      await queryClient.cancelQueries({ queryKey: myListingsKey });
+      const previousPages = queryClient.getQueriesData<PaginatedResponse<Listing>>({
+        queryKey: myListingsKey,
+      });
+
+      queryClient.setQueriesData<PaginatedResponse<Listing>>({ queryKey: myListingsKey }, page =>
+        page
+          ? {
+              ...page,
+              data: page.data.map(listing =>
+                listing.id === variables.id ? applyChange(listing, variables) : listing
+              ),
+            }
+          : page
+      );
+
+      return { previousPages };
+    },
+    // Replaces the global handler, so the failure toast is shown here
+    onError: (error, _variables, context) => {
+      if (error instanceof OfflineQueuedError) {
+        toast.info('Saved offline', error.message);
+        return;
+      }
+      context?.previousPages.forEach(([queryKey, page]) =>
+        queryClient.setQueryData(queryKey, page)
+      );
+      toast.error('Change not saved', ErrorHandler.handleApiError(error).message);
+    },
+    onSuccess: listing => {
+      queryClient.setQueryData(queryKeys.listings.detail(listing.id), listing);
+    },
+    // A refetch while offline would only fail, and the outbox refreshes listings once it syncs
+    onSettled: (_listing, error) => {
+      if (!(error instanceof OfflineQueuedError)) {
+        queryClient.invalidateQueries({ queryKey: myListingsKey });
+      }
+    },
+  });
+};
+
+export const useToggleListingAvailability = () => {
+  return useOptimisticListingMutation(
+    ({ id, isAvailable }: { id: string; isAvailable: boolean }) =>
+      ListingsService.toggleAvailability(id, isAvailable),
+    (listing, { isAvailable }) => ({ ...listing, isAvailable }),
+    ({ id, isAvailable }, listing) => ({
+      type: 'toggleListingAvailability',
+      listingId: id,
+      isAvailable,
+      baseUpdatedAt: listing?.updatedAt,
+    }),
+    ({ isAvailable }) => (isAvailable ? 'show to buyers' : 'hide from buyers')
+  );
+};
+
+export const useUpdateListingQuantity = () => {
+  return useOptimisticListingMutation(
+    ({ id, quantity }: { id: string; quantity: number }) =>
+      ListingsService.updateQuantity(id, quantity),
+    (listing, { quantity }) => ({ ...listing, availableQuantity: quantity }),
+    ({ id, quantity }, listing) => ({
+      type: 'updateListingQuantity',
+      listingId: id,
+      quantity,
+      baseUpdatedAt: listing?.updatedAt,
+    }),
+    ({ quantity }) => `stock ${quantity}`
+  );
+};
+
+export const useUpdateListingPrice = () => {
+  return useOptimisticListingMutation(
+    ({ id, price }: { id: string; price: number }) => ListingsService.update(id, { price }),
+    (listing, { price }) => ({ ...listing, price }),
+    ({ id, price }, listing) => ({
+      type: 'updateListingPrice',
+      listingId: id,
+      price,
+      baseUpdatedAt: listing?.updatedAt,
+    }),
+    ({ price }) => `price ${CurrencyFormatter.formatBDT(price)}`
+  );
+};
+
+export const useUploadListingImages = () => {
+  return useMutation({
+    mutationFn: (files: File[]) => ListingsService.uploadImages(files),
+  });
+};
@@ -0,0 +1,194 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { NotificationsService } from '@/services/notifications.service';
+import {
+  createNotificationChannel,
+  NotificationChannel,
+} from '@/services/notificationChannel.service';
+import { queryKeys } from '@/config/queryClient';
+import { useAuthStore } from '@/stores/authStore';
+import { toast } from '@/stores/notificationStore';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/constants';
+import {
+  AppNotification,
+  NotificationFilters,
+  NotificationPreferences,
+  PaginatedResponse,
+} from '@/types';
+
+// Shared so the app keeps a single push connection
+const defaultNotificationChannel = createNotificationChannel();
+
+// Refresh the data a notification is about so open pages show the change
+const invalidateNotificationEntity = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  notification: AppNotification
+) => {
+  const { entity } = notification;
+  if (!entity) return;
+
+  if (entity.type === 'order') {
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.detail(entity.id) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.tracking(entity.id) });
+    queryClient.invalidateQueries({ queryKey: ['orders', 'vendor'] });
+    queryClient.invalidateQueries({ queryKey: ['orders', 'restaurant'] });
+    queryClient.invalidateQueries({ queryKey: ['orders', 'approvals'] });
+  } else if (entity.type === 'listing') {
+    queryClient.invalidateQueries({ queryKey: queryKeys.listings.detail(entity.id) });
+    queryClient.invalidateQueries({ queryKey: ['listings', 'my'] });
+  }
+};
+
+// Notification Queries
+export const useNotifications = (filters: NotificationFilters = {}) => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: queryKeys.notifications.list(filters),
+    queryFn: () => NotificationsService.getAll(filters),
+    enabled: isAuthenticated,
+    staleTime: 60 * 1000, // 1 minute - new notifications arrive over the push channel
+    placeholderData: previousData => previousData,
+  });
+};
+
+export const useUnreadNotificationCount = () => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: queryKeys.notifications.unreadCount,
+    queryFn: () => NotificationsService.getUnreadCount(),
+    enabled: isAuthenticated,
+    staleTime: 60 * 1000, // 1 minute - kept current by the push channel
+  });
+};
+
+export const useNotificationPreferences = () => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+
+  return useQuery({
+    queryKey: queryKeys.notifications.preferences,
+    queryFn: () => NotificationsService.getPreferences(),
+    enabled: isAuthenticated,
+    staleTime: 30 * 60 * 1000, // 30 minutes - only changed from the notifications page
+  });
+};
+
+/**
+ * Keep the push channel open while signed in. Each new notification is added
+ * to the inbox and unread count, shown as a toast if the user asked for that
+ * type, and refreshes the order or listing it is about.
+ */
+export const useNotificationChannel = (
+  channel: NotificationChannel = defaultNotificationChannel
+) => {
+  const queryClient = useQueryClient();
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+
+  useEffect(() => {
+    if (!isAuthenticated) return undefined;
+
+    let hasBeenLive = false;
+
+    return channel.connect({
+      onNotification: notification => {
+        const preferences =
+          queryClient.getQueryData<NotificationPreferences>(queryKeys.notifications.preferences) ||
+          DEFAULT_NOTIFICATION_PREFERENCES;
+        const preference = preferences[notification.type];
+        if (!preference?.enabled) return;
+
+        queryClient.setQueryData<number>(
+          queryKeys.notifications.unreadCount,
+          count => (count ?? 0) + 1
+        );
+        queryClient.invalidateQueries({ queryKey: ['notifications', 'list'] });
+        invalidateNotificationEntity(queryClient, notification);
+
+        if (preference.toast) {
+          toast.info(notification.title, notification.message);
+        }
+      },
+      onStateChange: state => {
+        if (state !== 'live') return;
+        // Catch up on anything sent while the connection was down
+        if (hasBeenLive) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+        }
+        hasBeenLive = true;
+      },
+    });
+  }, [channel, isAuthenticated, queryClient]);
+};
+
+// Notification Mutations
+export const useMarkNotificationRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => NotificationsService.markAsRead(id),
+    // The inbox updates straight away; the server copy follows
+    onMutate: async id => {
+      await queryClient.cancelQueries({ queryKey: ['notifications', 'list'] });
+      let wasUnread = false;
+
+      queryClient.setQueriesData<PaginatedResponse<AppNotification>>(
+        { queryKey: ['notifications', 'list'] },
+        page =>
+          page
+            ? {
+                ...page,
+                data: page.data.map(notification => {
+                  if (notification.id !== id) return notification;
+                  wasUnread = wasUnread || !notification.isRead;
+                  return { ...notification, isRead: true };
+                }),
+              }
+            : page
+      );
+      if (wasUnread) {
+        queryClient.setQueryData<number>(queryKeys.notifications.unreadCount, count =>
+          Math.max((count ?? 1) - 1, 0)
+        );
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+  });
+};
+
+export const useMarkAllNotificationsRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => NotificationsService.markAllAsRead(),
+    onSuccess: () => {
+      queryClient.setQueriesData<PaginatedResponse<AppNotification>>(
+        { queryKey: ['notifications', 'list'] },
+        page =>
+          page
+            ? {
+                ...page,
+                data: page.data.map(notification => ({ ...notification, isRead: true })),
+              }
+            : page
+      );
+      queryClient.setQueryData(queryKeys.notifications.unreadCount, 0);
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+    },
+  });
+};
+
+export const useUpdateNotificationPreferences = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (preferences: NotificationPreferences) =>
+      NotificationsService.updatePreferences(preferences),
+    onSuccess: preferences => {
+      queryClient.setQueryData(queryKeys.notifications.preferences, preferences);
+      toast.success('Preferences saved', 'Your notification settings have been updated');
+    },
+  });
+};
@@ -0,0 +1,304 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { OrdersService } from '@/services/orders.service';
+import {
+  createOrderTrackingTransport,
+  OrderTrackingTransport,
+  TrackingConnectionMode,
+} from '@/services/orderTracking.service';
+import { queryKeys } from '@/config/queryClient';
+import { useCartStore } from '@/stores/cartStore';
+import { toast } from '@/stores/notificationStore';
+import { runOrQueue } from '@/stores/offlineStore';
+import { usePermission } from '@/hooks/usePermission';
+import { ORDER_STATUS_LABELS, PERMISSIONS } from '@/constants';
+import {
+  ApproveOrderRequest,
+  CreateOrderRequest,
+  OfflineQueuedError,
+  Order,
+  OrderFilters,
+  OrderStatus,
+  OrderTracking,
+  UpdateOrderStatusRequest,
+} from '@/types';
+import { ErrorHandler } from '@/utils';
+
+// Shared so every tracking page reuses the same transport configuration
+const defaultTrackingTransport = createOrderTrackingTransport();
+
+// One key per order attempt, so a replayed order is only created once
+const generateIdempotencyKey = (): string =>
+  `order_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+
+// One vendor's slice of a multi-vendor checkout
+export interface VendorOrderSubmission {
+  vendorId: string;
+  vendorName: string;
+  cartItemIds: string[];
+  request: CreateOrderRequest;
+}
+
+export type VendorOrderResult =
+  | { vendorId: string; status: 'placed'; order: Order }
+  | { vendorId: string; status: 'queued' } // saved offline, sent once the connection is back
+  | { vendorId: string; status: 'failed'; error: string };
+
+// Order Queries
+export const useVendorOrders = (filters: Omit<OrderFilters, 'vendor'> = {}) => {
+  return useQuery({
+    queryKey: queryKeys.orders.vendor(filters),
+    queryFn: () => OrdersService.getVendorOrders(filters),
+    staleTime: 30 * 1000, // 30 seconds - new orders arrive throughout the day
+    placeholderData: previousData => previousData,
+  });
+};
+
+export const useOrder = (id: string) => {
+  return useQuery({
+    queryKey: queryKeys.orders.detail(id),
+    queryFn: () => OrdersService.getById(id),
+    enabled: !!id,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+};
+
+export const useOrderTracking = (id: string) => {
+  return useQuery({
+    queryKey: queryKeys.orders.tracking(id),
+    queryFn: () => OrdersService.getTracking(id),
+    enabled: !!id,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+};
+
+/**
+ * Tracking for one order, kept current by a live transport (SSE with a
+ * polling fallback by default). Updates are written into the tracking cache
+ * and every status change is announced with a toast.
+ */
+export const useLiveOrderTracking = (
+  id: string,
+  transport: OrderTrackingTransport = defaultTrackingTransport
+) => {
+  const queryClient = useQueryClient();
+  const query = useOrderTracking(id);
+  const [connectionMode, setConnectionMode] = useState<TrackingConnectionMode>('connecting');
+
+  // Delivered and cancelled orders will not change again, so there is nothing to listen for
+  const isFinal = query.data?.status === 'delivered' || query.data?.status === 'cancelled';
+
+  useEffect(() => {
+    if (!id || isFinal) return undefined;
+
+    return transport.subscribe(id, {
+      onUpdate: tracking => {
+        const previous = queryClient.getQueryData<OrderTracking>(queryKeys.orders.tracking(id));
+        queryClient.setQueryData(queryKeys.orders.tracking(id), tracking);
+
+        if (previous && previous.status !== tracking.status) {
+          toast.info(
+            'Order status updated',
+            `Your order is now ${ORDER_STATUS_LABELS[tracking.status].toLowerCase()}`
+          );
+          queryClient.invalidateQueries({ queryKey: queryKeys.orders.detail(id) });
+          queryClient.invalidateQueries({ queryKey: ['orders', 'restaurant'] });
+        }
+      },
+      onModeChange: setConnectionMode,
+    });
+  }, [id, isFinal, transport, queryClient]);
+
+  return { ...query, connectionMode };
+};
+
+// Approval Queries
+export const useOrderApprovals = (filters: Omit<OrderFilters, 'approvalStatus'> = {}) => {
+  const canApprove = usePermission(PERMISSIONS.APPROVE_ORDERS);
+
+  return useQuery({
+    queryKey: queryKeys.orders.approvals(filters),
+    queryFn: () => OrdersService.getPendingApprovals(filters),
+    enabled: canApprove,
+    staleTime: 30 * 1000, // 30 seconds - managers order throughout the day
+    placeholderData: previousData => previousData,
+  });
+};
+
+// Checkout Queries
+export const useOrderEligibility = (data: CreateOrderRequest | null) => {
+  return useQuery({
+    queryKey: queryKeys.orders.eligibility(data),
+    queryFn: () => OrdersService.checkEligibility(data as CreateOrderRequest),
+    enabled: !!data && data.items.length > 0,
+    staleTime: 60 * 1000, // 1 minute
+  });
+};
+
+export const useDeliveryEstimate = (
+  vendorId: string,
+  coordinates?: { latitude: number; longitude: number }
+) => {
+  return useQuery({
+    queryKey: queryKeys.orders.deliveryEstimate(vendorId, coordinates),
+    queryFn: () =>
+      OrdersService.estimateDelivery({
+        vendorId,
+        restaurantAddress: coordinates as { latitude: number; longitude: number },
+      }),
+    enabled: !!vendorId && !!coordinates,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+// Order Mutations
+const syncOrderCache = (queryClient: ReturnType<typeof useQueryClient>, order: Order) => {
+  queryClient.setQueryData(queryKeys.orders.detail(order.id), order);
+  queryClient.invalidateQueries({ queryKey: queryKeys.orders.tracking(order.id) });
+  queryClient.invalidateQueries({ queryKey: ['orders', 'vendor'] });
+  queryClient.invalidateQueries({ queryKey: ['orders', 'restaurant'] });
+  queryClient.invalidateQueries({ queryKey: queryKeys.orders.summary });
+};
+
+export const useUpdateOrderStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // expectedStatus is the status the change was made from, used to detect conflicts offline
+    mutationFn: ({
+      id,
+      data,
+      expectedStatus,
+    }: {
+      id: string;
+      data: UpdateOrderStatusRequest;
+      expectedStatus?: OrderStatus;
+    }) => {
+      const order = queryClient.getQueryData<Order>(queryKeys.orders.detail(id));
+      const status = ORDER_STATUS_LABELS[data.status].toLowerCase();
+      return runOrQueue(
+        {
+          type: 'updateOrderStatus',
+          orderId: id,
+          data,
+          expectedStatus: expectedStatus ?? order?.status,
+        },
+        order ? `Order #${order.orderNumber}: mark as ${status}` : `Mark order as ${status}`,
+        () => OrdersService.updateStatus(id, data)
+      );
+    },
+    onSuccess: updatedOrder => {
+      syncOrderCache(queryClient, updatedOrder);
+
+      toast.success(
+        'Order updated',
+        `Order #${updatedOrder.orderNumber} is now ${ORDER_STATUS_LABELS[updatedOrder.status].toLowerCase()}`
+      );
+    },
+  });
+};
+
+export const useCancelOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      OrdersService.cancel(id, reason),
+    onSuccess: cancelledOrder => {
+      syncOrderCache(queryClient, cancelledOrder);
+
+      toast.success('Order cancelled', `Order #${cancelledOrder.orderNumber} has been cancelled`);
+    },
+  });
+};
+
+// Approval Mutations
+export const useApproveOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data?: ApproveOrderRequest }) =>
+      OrdersService.approve(id, data),
+    onSuccess: approvedOrder => {
+      syncOrderCache(queryClient, approvedOrder);
+      queryClient.invalidateQueries({ queryKey: ['orders', 'approvals'] });
+
+      toast.success(
+        'Order approved',
+        `Order #${approvedOrder.orderNumber} has been sent to the vendor`
+      );
+    },
+  });
+};
+
+export const useRejectOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      OrdersService.reject(id, { reason }),
+    onSuccess: rejectedOrder => {
+      syncOrderCache(queryClient, rejectedOrder);
+      queryClient.invalidateQueries({ queryKey: ['orders', 'approvals'] });
+
+      toast.success(
+        'Order rejected',
+        `${rejectedOrder.approval?.requestedBy.name ?? 'The manager'} will be told why`
+      );
+    },
+  });
+};
+
+/**
+ * Place one order per vendor. Every submission is attempted even if others fail,
+ * and the cart items of placed (or offline-queued) orders are removed so only
+ * the failed vendors remain for a retry.
+ */
+export const usePlaceVendorOrders = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (submissions: VendorOrderSubmission[]): Promise<VendorOrderResult[]> => {
+      const settled = await Promise.allSettled(
+        submissions.map(submission => {
+          const idempotencyKey = generateIdempotencyKey();
+          return runOrQueue(
+            { type: 'createOrder', request: submission.request, idempotencyKey },
+            `Order for ${submission.vendorName}`,
+            () => OrdersService.create(submission.request, idempotencyKey)
+          );
+        })
+      );
+
+      return settled.map((result, index): VendorOrderResult => {
+        const { vendorId } = submissions[index] as VendorOrderSubmission;
+        if (result.status === 'fulfilled') {
+          return { vendorId, status: 'placed', order: result.value };
+        }
+        return result.reason instanceof OfflineQueuedError
+          ? { vendorId, status: 'queued' }
+          : {
+              vendorId,
+              status: 'failed',
+              error: ErrorHandler.handleApiError(result.reason).message,
+            };
+      });
+    },
+    onSuccess: (results, submissions) => {
+      const sentVendorIds = new Set(
+        results.filter(result => result.status !== 'failed').map(result => result.vendorId)
+      );
+      const sentItemIds = submissions
+        .filter(submission => sentVendorIds.has(submission.vendorId))
+        .flatMap(submission => submission.cartItemIds);
+
+      if (sentItemIds.length > 0) {
+        useCartStore.getState().removeItems(sentItemIds);
+        queryClient.invalidateQueries({ queryKey: ['orders', 'restaurant'] });
+        queryClient.invalidateQueries({ queryKey: queryKeys.orders.summary });
+        // Credit orders use up the vendor's credit limit
+        queryClient.invalidateQueries({ queryKey: queryKeys.credit.all });
+      }
+    },
+  });
+};
@@ -0,0 +1,63 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createPaymentGateway, PaymentGateway } from '@/services/paymentGateway.service';
+import { queryKeys } from '@/config/queryClient';
+import { RESTAURANT_ROUTES } from '@/constants';
+import { MobileWalletProvider, Order, PaymentCallback, PaymentSession } from '@/types';
+
+// Shared so every payment goes through the configured gateway
+const defaultPaymentGateway = createPaymentGateway();
+
+// Show the session's outcome on the cached order straight away
+const applyPaymentStatus = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  session: PaymentSession
+) => {
+  queryClient.setQueryData<Order>(queryKeys.orders.detail(session.orderId), order =>
+    order ? { ...order, paymentStatus: session.paymentStatus } : order
+  );
+  queryClient.invalidateQueries({ queryKey: ['orders', 'restaurant'] });
+};
+
+// Payment Mutations
+/**
+ * Open a wallet payment for an order and send the browser to the wallet.
+ * Also used to retry a failed payment, which starts a fresh session.
+ */
+export const useStartMobilePayment = (gateway: PaymentGateway = defaultPaymentGateway) =>
+  useMutation({
+    mutationFn: ({ order, provider }: { order: Order; provider: MobileWalletProvider }) =>
+      gateway.startPayment({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        amount: order.totalAmount,
+        provider,
+        callbackUrl: `${window.location.origin}${RESTAURANT_ROUTES.PAYMENT_CALLBACK}`,
+      }),
+    onSuccess: session => {
+      window.location.assign(session.redirectUrl);
+    },
+  });
+
+// Payment Queries
+/**
+ * Verify the result the wallet sent back on the callback URL. A pending
+ * payment can be checked again with refetch.
+ */
+export const usePaymentVerification = (
+  callback: PaymentCallback | null,
+  gateway: PaymentGateway = defaultPaymentGateway
+) => {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: queryKeys.payments.verification(callback),
+    queryFn: async () => {
+      const session = await gateway.verifyCallback(callback as PaymentCallback);
+      applyPaymentStatus(queryClient, session);
+      return session;
+    },
+    enabled: !!callback,
+    staleTime: Infinity, // a verified result does not change; pending ones are re-checked by hand
+    retry: false,
+  });
+};
@@ -0,0 +1,39 @@
+import { useCallback } from 'react';
+import { useAuthStore } from '@/stores/authStore';
+import { Permission } from '@/constants';
+import { PermissionManager } from '@/utils/auth';
+
+export type PermissionMatch = 'all' | 'any';
+
+/**
+ * Permission checks for the signed-in user. Signed-out users have no
+ * permissions, so every check returns false.
+ */
+export const usePermissions = () => {
+  const user = useAuthStore(state => state.user);
+
+  const can = useCallback(
+    (required: Permission | Permission[], match: PermissionMatch = 'all') => {
+      if (!user) return false;
+      const permissions = Array.isArray(required) ? required : [required];
+      return match === 'all'
+        ? PermissionManager.hasAllPermissions(user, permissions)
+        : PermissionManager.hasAnyPermission(user, permissions);
+    },
+    [user]
+  );
+
+  return { role: user?.role, can };
+};
+
+/**
+ * Whether the signed-in user holds the given permission. With a list, all of
+ * them are required unless `match` is 'any'.
+ */
+export const usePermission = (
+  required: Permission | Permission[],
+  match: PermissionMatch = 'all'
+): boolean => {
+  const { can } = usePermissions();
+  return can(required, match);
+};
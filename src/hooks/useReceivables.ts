@@ -0,0 +1,110 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { OrdersService } from '@/services/orders.service';
+import { PayoutsService } from '@/services/payouts.service';
+import { queryKeys } from '@/config/queryClient';
+import { toast } from '@/stores/notificationStore';
+import { usePermission } from '@/hooks/usePermission';
+import {
+  PAYOUTS_EXPORT_PAGE_SIZE,
+  PERMISSIONS,
+  RECEIVABLES_ORDER_PAGE_SIZE,
+  RECEIVABLES_OUTSTANDING_PAYMENT_STATUSES,
+} from '@/constants';
+import { Order, PayoutFilters, ReceivablesFilters } from '@/types';
+import { DateFormatter, downloadPayoutsCsv, downloadReceivablesCsv, fetchAllPages } from '@/utils';
+
+// Receivables Queries
+/**
+ * Every delivered order in the range, optionally narrowed to one payment
+ * status, for building the vendor's receivables ledger.
+ */
+export const useReceivableOrders = (filters: ReceivablesFilters) => {
+  const canViewPayments = usePermission(PERMISSIONS.VIEW_PAYMENTS);
+
+  return useQuery({
+    queryKey: queryKeys.receivables.ledger(filters),
+    queryFn: () =>
+      fetchAllPages(page =>
+        OrdersService.getVendorOrders({
+          ...DateFormatter.toTimestampRange(filters),
+          status: 'delivered',
+          ...(filters.paymentStatus ? { paymentStatus: filters.paymentStatus } : {}),
+          page,
+          limit: RECEIVABLES_ORDER_PAGE_SIZE,
+        })
+      ),
+    enabled: canViewPayments && !!filters.dateFrom && !!filters.dateTo,
+    staleTime: 2 * 60 * 1000, // 2 minutes - payments are collected throughout the day
+  });
+};
+
+/**
+ * Every delivered order whose payment is still outstanding, whenever it was
+ * delivered, for aging uncollected cash independently of the ledger range.
+ */
+export const useOutstandingReceivableOrders = () => {
+  const canViewPayments = usePermission(PERMISSIONS.VIEW_PAYMENTS);
+
+  return useQuery({
+    queryKey: queryKeys.receivables.outstandingCod,
+    queryFn: async () => {
+      const byStatus = await Promise.all(
+        RECEIVABLES_OUTSTANDING_PAYMENT_STATUSES.map(paymentStatus =>
+          fetchAllPages(page =>
+            OrdersService.getVendorOrders({
+              status: 'delivered',
+              paymentStatus,
+              page,
+              limit: RECEIVABLES_ORDER_PAGE_SIZE,
+            })
+          )
+        )
+      );
+      return byStatus.flat();
+    },
+    enabled: canViewPayments,
+    staleTime: 2 * 60 * 1000, // 2 minutes - payments are collected throughout the day
+  });
+};
+
+export const usePayouts = (range: ReceivablesFilters, filters: PayoutFilters = {}) => {
+  const canViewPayments = usePermission(PERMISSIONS.VIEW_PAYMENTS);
+  const payoutFilters = { ...filters, ...DateFormatter.toTimestampRange(range) };
+
+  return useQuery({
+    queryKey: queryKeys.receivables.payouts(payoutFilters),
+    queryFn: () => PayoutsService.getPayouts(payoutFilters),
+    enabled: canViewPayments && !!range.dateFrom && !!range.dateTo,
+    staleTime: 5 * 60 * 1000, // 5 minutes - payouts run on a schedule
+  });
+};
+
+// Export Mutations
+export const useExportReceivables = () =>
+  useMutation({
+    mutationFn: async ({ orders, filters }: { orders: Order[]; filters: ReceivablesFilters }) => {
+      await downloadReceivablesCsv(orders, filters);
+      return orders.length;
+    },
+    onSuccess: count => {
+      toast.success('Export ready', `${count} orders downloaded`);
+    },
+  });
+
+export const useExportPayouts = () =>
+  useMutation({
+    mutationFn: async (range: ReceivablesFilters) => {
+      const payouts = await fetchAllPages(page =>
+        PayoutsService.getPayouts({
+          ...DateFormatter.toTimestampRange(range),
+          page,
+          limit: PAYOUTS_EXPORT_PAGE_SIZE,
+        })
+      );
+      await downloadPayoutsCsv(payouts, range);
+      return payouts.length;
+    },
+    onSuccess: count => {
+      toast.success('Export ready', `${count} payouts downloaded`);
+    },
+  });
@@ -0,0 +1,246 @@
+import { useMemo } from 'react';
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { StandingOrdersService } from '@/services/standingOrders.service';
+import { ListingsService } from '@/services/listings.service';
+import { OrdersService } from '@/services/orders.service';
+import { queryKeys } from '@/config/queryClient';
+import { toast } from '@/stores/notificationStore';
+import {
+  CreateStandingOrderRequest,
+  Listing,
+  StandingOrder,
+  StandingOrderException,
+  StandingOrderItem,
+  StandingOrderOccurrence,
+  UpdateStandingOrderRequest,
+} from '@/types';
+import { buildStandingOrderRequest, DateFormatter, ErrorHandler, NumberFormatter } from '@/utils';
+
+export type StandingOrderItemIssueType = 'unavailable' | 'expired' | 'insufficient_stock';
+
+export interface StandingOrderItemIssue {
+  type: StandingOrderItemIssueType;
+  item: StandingOrderItem;
+  message: string;
+}
+
+/**
+ * Check a standing order item against the latest listing data. Pass the
+ * quantity for the delivery being placed when it differs from the template.
+ */
+export const findStandingOrderItemIssue = (
+  item: StandingOrderItem,
+  listing: Listing | undefined,
+  isMissing: boolean = false,
+  quantity: number = item.quantity
+): StandingOrderItemIssue | null => {
+  if (isMissing || (listing && (!listing.isAvailable || listing.availableQuantity <= 0))) {
+    return {
+      type: 'unavailable',
+      item,
+      message: isMissing
+        ? 'This listing has been removed by the vendor'
+        : 'This listing is no longer available',
+    };
+  }
+
+  if (!listing) return null;
+
+  if (listing.expiryDate && new Date(listing.expiryDate).getTime() < Date.now()) {
+    return { type: 'expired', item, message: 'This produce has passed its expiry date' };
+  }
+
+  if (quantity > listing.availableQuantity) {
+    return {
+      type: 'insufficient_stock',
+      item,
+      message: `Only ${NumberFormatter.formatQuantity(listing.availableQuantity, listing.product.unit)} left in stock`,
+    };
+  }
+
+  return null;
+};
+
+// Standing Order Queries
+export const useStandingOrders = () => {
+  return useQuery({
+    queryKey: queryKeys.standingOrders.all,
+    queryFn: () => StandingOrdersService.getAll(),
+    staleTime: 60 * 1000, // 1 minute
+  });
+};
+
+/**
+ * Look up the live listing behind every standing order item so templates
+ * referencing withdrawn, expired or sold-out produce can be flagged.
+ */
+export const useStandingOrderAvailability = (standingOrders: StandingOrder[] = []) => {
+  const listingIdsKey = Array.from(
+    new Set(standingOrders.flatMap(order => order.items.map(item => item.listing.id)))
+  )
+    .sort()
+    .join(',');
+  const listingIds = useMemo(
+    () => (listingIdsKey ? listingIdsKey.split(',') : []),
+    [listingIdsKey]
+  );
+
+  const queries = useQueries({
+    queries: listingIds.map(id => ({
+      queryKey: queryKeys.listings.detail(id),
+      queryFn: () => ListingsService.getById(id),
+      staleTime: 60 * 1000, // 1 minute - stock moves throughout the day
+    })),
+  });
+
+  const listings: Record<string, Listing> = {};
+  const missingListingIds = new Set<string>();
+  queries.forEach((query, index) => {
+    const id = listingIds[index] as string;
+    if (query.data) listings[id] = query.data;
+    // Listings removed since the standing order was set up come back as 404
+    if (ErrorHandler.isNotFound(query.error)) missingListingIds.add(id);
+  });
+
+  const getItemIssue = (item: StandingOrderItem, quantity?: number) =>
+    findStandingOrderItemIssue(
+      item,
+      listings[item.listing.id],
+      missingListingIds.has(item.listing.id),
+      quantity
+    );
+
+  return {
+    getItemIssue,
+    isChecking: queries.some(query => query.isFetching),
+    recheck: () => queries.forEach(query => query.refetch()),
+  };
+};
+
+// Standing Order Mutations
+export const useCreateStandingOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateStandingOrderRequest) => StandingOrdersService.create(data),
+    onSuccess: standingOrder => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.standingOrders.all });
+      toast.success('Standing order created', `"${standingOrder.name}" has been scheduled`);
+    },
+  });
+};
+
+export const useUpdateStandingOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateStandingOrderRequest }) =>
+      StandingOrdersService.update(id, data),
+    onSuccess: standingOrder => {
+      queryClient.setQueryData(queryKeys.standingOrders.detail(standingOrder.id), standingOrder);
+      queryClient.invalidateQueries({ queryKey: queryKeys.standingOrders.all });
+    },
+  });
+};
+
+export const useDeleteStandingOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => StandingOrdersService.delete(id),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.standingOrders.detail(id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.standingOrders.all });
+      toast.success('Standing order deleted', 'No further orders will be generated');
+    },
+  });
+};
+
+export const useUpdateOccurrence = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      date,
+      data,
+    }: {
+      id: string;
+      date: string;
+      data: Omit<StandingOrderException, 'date'>;
+    }) => StandingOrdersService.updateOccurrence(id, date, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.standingOrders.all });
+    },
+  });
+};
+
+export const useResetOccurrence = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, date }: { id: string; date: string }) =>
+      StandingOrdersService.resetOccurrence(id, date),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.standingOrders.all });
+    },
+  });
+};
+
+/**
+ * Place the order for one scheduled delivery. Every included listing is
+ * re-fetched first and nothing is submitted if any of them can no longer be
+ * supplied, so the restaurant can adjust the delivery instead.
+ */
+export const usePlaceStandingOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (occurrence: StandingOrderOccurrence) => {
+      const checks = await Promise.all(
+        occurrence.items.map(async item => {
+          try {
+            const listing = await queryClient.fetchQuery({
+              queryKey: queryKeys.listings.detail(item.listing.id),
+              queryFn: () => ListingsService.getById(item.listing.id),
+              staleTime: 0,
+            });
+            return { item: { ...item, listing }, issue: findStandingOrderItemIssue(item, listing) };
+          } catch (error) {
+            if (!ErrorHandler.isNotFound(error)) throw error;
+            return { item, issue: findStandingOrderItemIssue(item, undefined, true) };
+          }
+        })
+      );
+
+      const blocked = checks.filter(check => check.issue);
+      if (blocked.length > 0) {
+        const names = blocked.map(check => check.item.listing.product.name).join(', ');
+        throw new Error(`Adjust or remove unavailable items before placing this order: ${names}`);
+      }
+
+      const order = await OrdersService.create(
+        buildStandingOrderRequest({ ...occurrence, items: checks.map(check => check.item) })
+      );
+
+      // The order is already placed; a failure to link it must not report the placement as failed
+      await StandingOrdersService.updateOccurrence(occurrence.standingOrder.id, occurrence.date, {
+        orderId: order.id,
+      }).catch(() => undefined);
+
+      return order;
+    },
+    // Never retry: a retried create could place the same delivery twice
+    retry: false,
+    onSuccess: (order, occurrence) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.standingOrders.all });
+      queryClient.invalidateQueries({ queryKey: ['orders', 'restaurant'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.summary });
+
+      toast.success(
+        'Order placed',
+        `Order #${order.orderNumber} for ${DateFormatter.formatDate(occurrence.date)} has been sent to the vendor`
+      );
+    },
+  });
+};
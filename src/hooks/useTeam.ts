@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { TeamService } from '@/services/team.service';
+import { AuthService } from '@/services/auth.service';
+import { queryKeys } from '@/config/queryClient';
+import { toast } from '@/stores/notificationStore';
+import { usePermission } from '@/hooks/usePermission';
+import { PERMISSIONS } from '@/constants';
+import { InviteManagerRequest, TeamMember, UpdateManagerScopeRequest } from '@/types';
+
+// Team Queries
+export const useTeamMembers = () => {
+  const canManageTeam = usePermission(PERMISSIONS.MANAGE_TEAM);
+
+  return useQuery({
+    queryKey: queryKeys.team.members,
+    queryFn: () => TeamService.getMembers(),
+    enabled: canManageTeam,
+    staleTime: 5 * 60 * 1000, // 5 minutes - only the owner changes the team
+  });
+};
+
+// Team Mutations
+export const useSendManagerInviteOtp = () =>
+  useMutation({
+    mutationFn: (phone: string) => AuthService.sendOtp({ phone, purpose: 'team_invite' }),
+    onSuccess: (_data, phone) => {
+      toast.info('Code sent', `Ask the manager for the code sent to ${phone}`);
+    },
+  });
+
+export const useInviteManager = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: InviteManagerRequest) => TeamService.inviteManager(data),
+    onSuccess: member => {
+      queryClient.setQueryData<TeamMember[]>(queryKeys.team.members, members => [
+        ...(members || []).filter(existing => existing.id !== member.id),
+        member,
+      ]);
+      toast.success('Manager added', `${member.name} can now sign in with ${member.phone}`);
+    },
+  });
+};
+
+export const useUpdateManagerScope = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateManagerScopeRequest }) =>
+      TeamService.updateScope(id, data),
+    onSuccess: member => {
+      queryClient.setQueryData<TeamMember[]>(queryKeys.team.members, members =>
+        members?.map(existing => (existing.id === member.id ? member : existing))
+      );
+      toast.success('Permissions updated', `${member.name}'s access has been changed`);
+    },
+  });
+};
+
+export const useRevokeManager = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (member: TeamMember) => TeamService.revokeManager(member.id),
+    onSuccess: (_data, member) => {
+      queryClient.setQueryData<TeamMember[]>(queryKeys.team.members, members =>
+        members?.filter(existing => existing.id !== member.id)
+      );
+      toast.success('Access revoked', `${member.name} can no longer order for your restaurant`);
+    },
+  });
+};
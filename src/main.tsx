@@ -3,7 +3,10 @@ import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import { QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import { queryClient } from './config/queryClient';
+import { queryPersistOptions } from './config/queryPersister';
+import { FEATURES } from './constants';
 import { initializeTheme } from './stores/themeStore';
 import { useAuthStore } from './stores/authStore';
 import App from './App';
@@ -15,13 +18,22 @@ initializeTheme();
 // Initialize auth store
 useAuthStore.getState().initialize();
 
+const app = (
+  <BrowserRouter>
+    <App />
+    {import.meta.env.DEV && <ReactQueryDevtools initialIsOpen={false} />}
+  </BrowserRouter>
+);
+
+// Offline mode restores the query cache from IndexedDB and keeps it saved
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <BrowserRouter>
-        <App />
-        {import.meta.env.DEV && <ReactQueryDevtools initialIsOpen={false} />}
-      </BrowserRouter>
-    </QueryClientProvider>
+    {FEATURES.offlineMode ? (
+      <PersistQueryClientProvider client={queryClient} persistOptions={queryPersistOptions}>
+        {app}
+      </PersistQueryClientProvider>
+    ) : (
+      <QueryClientProvider client={queryClient}>{app}</QueryClientProvider>
+    )}
   </React.StrictMode>
 );
\ No newline at end of file
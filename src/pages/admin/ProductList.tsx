@@ -48,6 +48,9 @@ import {
   useDeleteProduct,
   useBulkProductOperation
 } from '@/hooks/admin/useProductQueries';
+import { usePermissions } from '@/hooks/usePermission';
+import { Can } from '@/components/common/Can';
+import { PERMISSIONS } from '@/constants';
 import { Product, ProductFilters } from '@/types/product';
 import { cn } from '@/utils/cn';
 
@@ -84,6 +87,7 @@ const ProductCard: React.FC<{
   onDelete: (product: Product) => void;
 }> = ({ product, isSelected, onSelect, onEdit, onView, onDelete }) => {
   const [showActions, setShowActions] = useState(false);
+  const { can } = usePermissions();
   const toggleFeaturedMutation = useToggleProductFeatured();
   const updateStatusMutation = useUpdateProductStatus();
 
@@ -178,7 +182,8 @@ const ProductCard: React.FC<{
                       onEdit(product);
                       setShowActions(false);
                     }}
-                    className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2"
+                    disabled={!can(PERMISSIONS.EDIT_PRODUCTS)}
+                    className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
                   >
                     <Edit className="w-4 h-4" />
                     Edit Product
@@ -188,7 +193,7 @@ const ProductCard: React.FC<{
 
                   <button
                     onClick={handleToggleFeatured}
-                    disabled={toggleFeaturedMutation.isPending}
+                    disabled={toggleFeaturedMutation.isPending || !can(PERMISSIONS.MANAGE_PRODUCTS)}
                     className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
                   >
                     {product.featured ? (
@@ -206,24 +211,26 @@ const ProductCard: React.FC<{
 
                   <button
                     onClick={handleToggleStatus}
-                    disabled={updateStatusMutation.isPending}
+                    disabled={updateStatusMutation.isPending || !can(PERMISSIONS.MANAGE_PRODUCTS)}
                     className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
                   >
                     {product.status === 'active' ? 'Deactivate' : 'Activate'}
                   </button>
 
-                  <hr className="my-1" />
+                  <Can permission={PERMISSIONS.DELETE_PRODUCTS}>
+                    <hr className="my-1" />
 
-                  <button
-                    onClick={() => {
-                      onDelete(product);
-                      setShowActions(false);
-                    }}
-                    className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 text-tomato-red"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                    Delete Product
-                  </button>
+                    <button
+                      onClick={() => {
+                        onDelete(product);
+                        setShowActions(false);
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 text-tomato-red"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Delete Product
+                    </button>
+                  </Can>
                 </div>
               )}
             </div>
@@ -521,6 +528,7 @@ export const ProductList: React.FC = () => {
   const { data: categoriesData } = useCategoryTree();
   const deleteProductMutation = useDeleteProduct();
   const bulkOperationMutation = useBulkProductOperation();
+  const { can } = usePermissions();
 
   // Helper functions
   const toggleProductSelection = (productId: string) => {
@@ -739,18 +747,22 @@ export const ProductList: React.FC = () => {
           >
             Refresh
           </Button>
-          <Button
-            variant="outline"
-            leftIcon={<Download className="w-4 h-4" />}
-          >
-            Export
-          </Button>
-          <Button
-            variant="primary"
-            leftIcon={<Plus className="w-4 h-4" />}
-          >
-            Add Product
-          </Button>
+          <Can permission={PERMISSIONS.EXPORT_DATA}>
+            <Button
+              variant="outline"
+              leftIcon={<Download className="w-4 h-4" />}
+            >
+              Export
+            </Button>
+          </Can>
+          <Can permission={PERMISSIONS.CREATE_PRODUCTS}>
+            <Button
+              variant="primary"
+              leftIcon={<Plus className="w-4 h-4" />}
+            >
+              Add Product
+            </Button>
+          </Can>
         </div>
       </div>
 
@@ -808,7 +820,7 @@ export const ProductList: React.FC = () => {
       </div>
 
       {/* Bulk Actions */}
-      {selectedProducts.length > 0 && (
+      {selectedProducts.length > 0 && can(PERMISSIONS.MANAGE_PRODUCTS) && (
         <Card className="p-4 bg-bottle-green/5 border-bottle-green/20">
           <div className="flex items-center justify-between">
             <p className="text-bottle-green font-medium">
@@ -1115,6 +1127,7 @@ export const ProductList: React.FC = () => {
               <Button
                 variant="secondary"
                 leftIcon={<Edit className="w-4 h-4" />}
+                disabled={!can(PERMISSIONS.EDIT_PRODUCTS)}
               >
                 Edit Product
               </Button>
@@ -35,6 +35,9 @@ import {
   useDeleteUser,
   useBulkUserOperation 
 } from '@/hooks/admin/useAdminQueries';
+import { usePermission } from '@/hooks/usePermission';
+import { Can } from '@/components/common/Can';
+import { PERMISSIONS } from '@/constants';
 import { AdminUser, UserListParams } from '@/types/admin';
 import { cn } from '@/utils/cn';
 
@@ -116,55 +119,57 @@ const UserActionsDropdown: React.FC<UserActionsDropdownProps> = ({
             View Details
           </button>
           
-          <button
-            onClick={() => {
-              onEditUser(user);
-              setIsOpen(false);
-            }}
-            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2"
-          >
-            <Edit className="w-4 h-4" />
-            Edit User
-          </button>
-
-          <hr className="my-1" />
-
-          {user.status === 'active' ? (
+          <Can permission={PERMISSIONS.MANAGE_USERS}>
             <button
               onClick={() => {
-                onUpdateStatus(user, 'suspended');
+                onEditUser(user);
                 setIsOpen(false);
               }}
-              className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 text-amber-600"
+              className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2"
             >
-              <UserX className="w-4 h-4" />
-              Suspend User
+              <Edit className="w-4 h-4" />
+              Edit User
             </button>
-          ) : (
+
+            <hr className="my-1" />
+
+            {user.status === 'active' ? (
+              <button
+                onClick={() => {
+                  onUpdateStatus(user, 'suspended');
+                  setIsOpen(false);
+                }}
+                className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 text-amber-600"
+              >
+                <UserX className="w-4 h-4" />
+                Suspend User
+              </button>
+            ) : (
+              <button
+                onClick={() => {
+                  onUpdateStatus(user, 'active');
+                  setIsOpen(false);
+                }}
+                className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 text-mint-fresh"
+              >
+                <UserCheck className="w-4 h-4" />
+                Activate User
+              </button>
+            )}
+
+            <hr className="my-1" />
+
             <button
               onClick={() => {
-                onUpdateStatus(user, 'active');
+                onDeleteUser(user);
                 setIsOpen(false);
               }}
-              className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 text-mint-fresh"
+              className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 text-tomato-red"
             >
-              <UserCheck className="w-4 h-4" />
-              Activate User
+              <Trash2 className="w-4 h-4" />
+              Delete User
             </button>
-          )}
-
-          <hr className="my-1" />
-
-          <button
-            onClick={() => {
-              onDeleteUser(user);
-              setIsOpen(false);
-            }}
-            className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 text-tomato-red"
-          >
-            <Trash2 className="w-4 h-4" />
-            Delete User
-          </button>
+          </Can>
         </div>
       )}
     </div>
@@ -201,6 +206,9 @@ export const UserManagement: React.FC = () => {
   const deleteUserMutation = useDeleteUser();
   const bulkOperationMutation = useBulkUserOperation();
 
+  // Viewing is allowed more widely than changing accounts
+  const canManageUsers = usePermission(PERMISSIONS.MANAGE_USERS);
+
   // Table columns
   const columns = [
     {
@@ -313,6 +321,11 @@ export const UserManagement: React.FC = () => {
     }
   ];
 
+  // Selection only feeds the bulk actions, so it goes with them
+  const visibleColumns = canManageUsers
+    ? columns
+    : columns.filter(column => column.key !== 'select');
+
   // Helper functions
   const toggleUserSelection = (userId: string) => {
     setSelectedUsers(prev =>
@@ -372,12 +385,14 @@ export const UserManagement: React.FC = () => {
           >
             Refresh
           </Button>
-          <Button
-            variant="outline"
-            leftIcon={<Download className="w-4 h-4" />}
-          >
-            Export
-          </Button>
+          <Can permission={PERMISSIONS.EXPORT_DATA}>
+            <Button
+              variant="outline"
+              leftIcon={<Download className="w-4 h-4" />}
+            >
+              Export
+            </Button>
+          </Can>
         </div>
       </div>
 
@@ -459,7 +474,7 @@ export const UserManagement: React.FC = () => {
       </Card>
 
       {/* Bulk Actions */}
-      {selectedUsers.length > 0 && (
+      {canManageUsers && selectedUsers.length > 0 && (
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
@@ -538,16 +553,18 @@ export const UserManagement: React.FC = () => {
             <>
               <div className="p-4 border-b border-gray-100">
                 <div className="flex items-center gap-3">
-                  <button
-                    onClick={toggleSelectAll}
-                    className="p-1 hover:bg-gray-100 rounded touch-target"
-                  >
-                    {selectedUsers.length === usersData.users.length ? (
-                      <CheckSquare className="w-4 h-4 text-bottle-green" />
-                    ) : (
-                      <Square className="w-4 h-4 text-gray-400" />
-                    )}
-                  </button>
+                  {canManageUsers && (
+                    <button
+                      onClick={toggleSelectAll}
+                      className="p-1 hover:bg-gray-100 rounded touch-target"
+                    >
+                      {selectedUsers.length === usersData.users.length ? (
+                        <CheckSquare className="w-4 h-4 text-bottle-green" />
+                      ) : (
+                        <Square className="w-4 h-4 text-gray-400" />
+                      )}
+                    </button>
+                  )}
                   <span className="text-sm text-text-muted">
                     {usersData.users.length} user(s) • Page {currentPage} of {usersData.totalPages}
                   </span>
@@ -556,7 +573,7 @@ export const UserManagement: React.FC = () => {
 
               <Table
                 data={usersData.users}
-                columns={columns}
+                columns={visibleColumns}
                 onRowClick={(user) => {
                   setSelectedUser(user);
                   setShowUserModal(true);
@@ -718,6 +735,8 @@ export const UserManagement: React.FC = () => {
               <Button
                 variant="secondary"
                 leftIcon={<Edit className="w-4 h-4" />}
+                disabled={!canManageUsers}
+                title={canManageUsers ? undefined : 'You do not have permission to edit users'}
               >
                 Edit User
               </Button>
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Download, FileText, Printer } from 'lucide-react';
+import { Button, Card, EmptyState, FormField, LoadingSpinner } from '@/components/ui';
+import { StatementDocument } from '@/components/invoices';
+import { useDownloadStatementPdf, useStatementOrders } from '@/hooks/useInvoices';
+import { useAuthStore } from '@/stores/authStore';
+import { buildAccountStatement, getCurrentMonth, groupOrdersByCounterparty } from '@/utils';
+
+const fieldClass =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+/**
+ * Monthly statement between the signed-in business and one trading partner:
+ * vendors pick a restaurant, restaurants pick a vendor.
+ */
+export const AccountStatements: React.FC = () => {
+  const role = useAuthStore(state => state.user?.role);
+  const counterparty = role === 'vendor' ? 'restaurant' : 'vendor';
+
+  const [month, setMonth] = useState(getCurrentMonth);
+  const [selectedId, setSelectedId] = useState('');
+  const { data: orders = [], isLoading, error, refetch } = useStatementOrders(month);
+  const downloadMutation = useDownloadStatementPdf();
+
+  const groups = useMemo(
+    () => groupOrdersByCounterparty(orders, counterparty),
+    [orders, counterparty]
+  );
+  const selected = groups.find(group => group.id === selectedId) ?? groups[0];
+  const statement = useMemo(
+    () => (selected ? buildAccountStatement(selected.orders, month) : null),
+    [selected, month]
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-dark mb-2">Statements</h1>
+          <p className="text-text-muted">
+            Every order with one {counterparty} in a month, to reconcile your accounts
+          </p>
+        </div>
+        {statement && (
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              leftIcon={<Printer className="w-4 h-4" />}
+              onClick={() => window.print()}
+            >
+              Print
+            </Button>
+            <Button
+              leftIcon={<Download className="w-4 h-4" />}
+              onClick={() => downloadMutation.mutate(statement)}
+              loading={downloadMutation.isPending}
+            >
+              Download PDF
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField label="Month">
+            <input
+              type="month"
+              value={month}
+              max={getCurrentMonth()}
+              onChange={e => {
+                setMonth(e.target.value || getCurrentMonth());
+                setSelectedId('');
+              }}
+              className={fieldClass}
+            />
+          </FormField>
+          <FormField label={counterparty === 'vendor' ? 'Vendor' : 'Restaurant'}>
+            <select
+              value={selected?.id ?? ''}
+              onChange={e => setSelectedId(e.target.value)}
+              disabled={groups.length === 0}
+              className={fieldClass}
+            >
+              {groups.map(group => (
+                <option key={group.id} value={group.id}>
+                  {group.name} ({group.orders.length})
+                </option>
+              ))}
+            </select>
+          </FormField>
+        </div>
+      </Card>
+
+      {isLoading ? (
+        <div className="py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <EmptyState
+          icon={<AlertTriangle className="w-12 h-12" />}
+          title="Failed to load orders"
+          action={
+            <Button variant="outline" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        />
+      ) : statement ? (
+        <div className="print-area">
+          <StatementDocument statement={statement} />
+        </div>
+      ) : (
+        <EmptyState
+          icon={<FileText className="w-12 h-12" />}
+          title="No orders this month"
+          description="Pick another month to see its statement"
+        />
+      )}
+    </div>
+  );
+};
+
+export default AccountStatements;
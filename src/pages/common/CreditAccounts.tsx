@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CreditCard, Pencil, Plus } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  EmptyState,
+  LoadingSpinner,
+} from '@/components/ui';
+import { CreditAccountModal, CreditInvoicesTable } from '@/components/credit';
+import { useCreditAccounts, useCreditInvoices } from '@/hooks/useCredit';
+import { usePermission } from '@/hooks/usePermission';
+import { useAuthStore } from '@/stores/authStore';
+import {
+  CREDIT_ACCOUNT_STATUS_LABELS,
+  PAYMENT_TERMS_LABELS,
+  PERMISSIONS,
+  RESTAURANT_ROUTES,
+  VENDOR_ROUTES,
+} from '@/constants';
+import { CreditAccount } from '@/types';
+import { CurrencyFormatter, getAvailableCredit, getInvoiceParty } from '@/utils';
+import { cn } from '@/utils/cn';
+
+/**
+ * Credit accounts between vendors and restaurants. Vendors grant and adjust
+ * credit; both sides see balances and the open invoices on each account.
+ */
+export const CreditAccounts: React.FC = () => {
+  const role = useAuthStore(state => state.user?.role);
+  const isVendor = role === 'vendor';
+  const canManageCredit = usePermission(PERMISSIONS.MANAGE_CREDIT);
+
+  const { data: accounts = [], isLoading, error, refetch } = useCreditAccounts();
+  const [selectedId, setSelectedId] = useState('');
+  const selected = accounts.find(account => account.id === selectedId) ?? accounts[0];
+  const invoices = useCreditInvoices(selected?.id);
+
+  const [editing, setEditing] = useState<CreditAccount | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const getCounterpartyName = (account: CreditAccount) =>
+    getInvoiceParty(isVendor ? account.restaurant : account.vendor).businessName;
+  const getOrderLink = (orderId: string) =>
+    isVendor ? VENDOR_ROUTES.ORDER_DETAIL(orderId) : RESTAURANT_ROUTES.ORDER_TRACKING(orderId);
+
+  const openModal = (account: CreditAccount | null) => {
+    setEditing(account);
+    setIsModalOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-dark mb-2">Credit Accounts</h1>
+          <p className="text-text-muted">
+            {isVendor
+              ? 'Let trusted restaurants order now and pay on agreed terms'
+              : 'Vendors that let you order now and pay later'}
+          </p>
+        </div>
+        {canManageCredit && (
+          <Button leftIcon={<Plus className="w-4 h-4" />} onClick={() => openModal(null)}>
+            Grant Credit
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <EmptyState
+          icon={<AlertTriangle className="w-12 h-12" />}
+          title="Failed to load credit accounts"
+          action={
+            <Button variant="outline" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        />
+      ) : accounts.length === 0 ? (
+        <EmptyState
+          icon={<CreditCard className="w-12 h-12" />}
+          title="No credit accounts"
+          description={
+            isVendor
+              ? 'Grant credit to a restaurant you deliver to so it can pay on terms'
+              : 'Ask a vendor you order from regularly to offer you credit terms'
+          }
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {accounts.map(account => (
+              <button
+                key={account.id}
+                type="button"
+                onClick={() => setSelectedId(account.id)}
+                className={cn(
+                  'text-left bg-white rounded-3xl border p-5 space-y-3 transition-colors',
+                  account.id === selected?.id
+                    ? 'border-bottle-green ring-2 ring-bottle-green/20'
+                    : 'border-gray-100 hover:border-gray-200'
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-text-dark truncate">
+                      {getCounterpartyName(account)}
+                    </p>
+                    <p className="text-sm text-text-muted">
+                      {PAYMENT_TERMS_LABELS[account.paymentTerms]} ·{' '}
+                      {CREDIT_ACCOUNT_STATUS_LABELS[account.status]}
+                    </p>
+                  </div>
+                  {account.overdueBalance > 0 && (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium bg-tomato-red/20 text-tomato-red">
+                      Overdue
+                    </span>
+                  )}
+                </div>
+                <dl className="grid grid-cols-3 gap-2 text-sm">
+                  <div>
+                    <dt className="text-text-muted">Limit</dt>
+                    <dd className="font-medium">
+                      {CurrencyFormatter.formatBDT(account.creditLimit)}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-text-muted">Owed</dt>
+                    <dd className="font-medium">
+                      {CurrencyFormatter.formatBDT(account.outstandingBalance)}
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-text-muted">Available</dt>
+                    <dd className="font-medium text-bottle-green">
+                      {CurrencyFormatter.formatBDT(getAvailableCredit(account))}
+                    </dd>
+                  </div>
+                </dl>
+                {account.overdueBalance > 0 && (
+                  <p className="text-sm text-tomato-red">
+                    {CurrencyFormatter.formatBDT(account.overdueBalance)} overdue
+                    {isVendor ? '' : ' - new credit orders are blocked until it is paid'}
+                  </p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <CardTitle>Open Invoices · {getCounterpartyName(selected)}</CardTitle>
+                  {canManageCredit && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      leftIcon={<Pencil className="w-4 h-4" />}
+                      onClick={() => openModal(selected)}
+                    >
+                      Edit Terms
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {invoices.isLoading ? (
+                  <LoadingSpinner />
+                ) : invoices.error ? (
+                  <p className="text-sm text-tomato-red">Failed to load open invoices.</p>
+                ) : (invoices.data ?? []).length === 0 ? (
+                  <p className="text-sm text-text-muted">Nothing is owed on this account.</p>
+                ) : (
+                  <CreditInvoicesTable invoices={invoices.data ?? []} getOrderLink={getOrderLink} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {canManageCredit && (
+        <CreditAccountModal
+          isOpen={isModalOpen}
+          account={editing}
+          onClose={() => setIsModalOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CreditAccounts;
@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  AlertTriangle,
+  Bell,
+  CheckCheck,
+  ClipboardCheck,
+  Clock,
+  Package,
+  ShoppingCart,
+  Store,
+  Truck,
+} from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  EmptyState,
+  LoadingSpinner,
+  Pagination,
+} from '@/components/ui';
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotificationPreferences,
+  useNotifications,
+  useUnreadNotificationCount,
+  useUpdateNotificationPreferences,
+} from '@/hooks/useNotifications';
+import { useAuthStore } from '@/stores/authStore';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_TYPE_DESCRIPTIONS,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_TYPES_BY_ROLE,
+  NOTIFICATIONS_PAGE_SIZE,
+} from '@/constants';
+import { AppNotification, AppNotificationType, NotificationPreferences } from '@/types';
+import { DateFormatter, getNotificationLink } from '@/utils';
+import { cn } from '@/utils/cn';
+
+const typeIcons: Record<AppNotificationType, React.ElementType> = {
+  new_order: ShoppingCart,
+  order_status: Truck,
+  order_approval: ClipboardCheck,
+  vendor_approval: Store,
+  low_stock: Package,
+  listing_expiring: Clock,
+};
+
+type InboxTab = 'all' | 'unread';
+
+const NotificationPreferencesCard: React.FC = () => {
+  const role = useAuthStore(state => state.user?.role);
+  const { data: saved, isLoading } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+  const [draft, setDraft] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+
+  useEffect(() => {
+    if (saved) setDraft(saved);
+  }, [saved]);
+
+  if (!role) return null;
+
+  const setPreference = (type: AppNotificationType, field: 'enabled' | 'toast', value: boolean) => {
+    setDraft(current => ({ ...current, [type]: { ...current[type], [field]: value } }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notification Preferences</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingSpinner size="md" />
+        ) : (
+          <div className="space-y-4">
+            {NOTIFICATION_TYPES_BY_ROLE[role].map(type => (
+              <div key={type} className="pb-4 border-b border-gray-100 last:border-0 last:pb-0">
+                <p className="font-medium text-text-dark">{NOTIFICATION_TYPE_LABELS[type]}</p>
+                <p className="text-sm text-text-muted mb-2">
+                  {NOTIFICATION_TYPE_DESCRIPTIONS[type]}
+                </p>
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <label
+                    htmlFor={`notify-${type}`}
+                    className="flex items-center gap-2 cursor-pointer"
+                  >
+                    <input
+                      id={`notify-${type}`}
+                      type="checkbox"
+                      checked={draft[type].enabled}
+                      onChange={event => setPreference(type, 'enabled', event.target.checked)}
+                      className="rounded border-gray-300 text-bottle-green focus:ring-bottle-green"
+                    />
+                    Notify me
+                  </label>
+                  <label
+                    htmlFor={`toast-${type}`}
+                    className={cn(
+                      'flex items-center gap-2 cursor-pointer',
+                      !draft[type].enabled && 'opacity-50 cursor-not-allowed'
+                    )}
+                  >
+                    <input
+                      id={`toast-${type}`}
+                      type="checkbox"
+                      checked={draft[type].enabled && draft[type].toast}
+                      disabled={!draft[type].enabled}
+                      onChange={event => setPreference(type, 'toast', event.target.checked)}
+                      className="rounded border-gray-300 text-bottle-green focus:ring-bottle-green"
+                    />
+                    Show a pop-up
+                  </label>
+                </div>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              onClick={() => updatePreferences.mutate(draft)}
+              loading={updatePreferences.isPending}
+            >
+              Save Preferences
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export const NotificationsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const role = useAuthStore(state => state.user?.role);
+  const [tab, setTab] = useState<InboxTab>('all');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error, refetch } = useNotifications({
+    page,
+    limit: NOTIFICATIONS_PAGE_SIZE,
+    unreadOnly: tab === 'unread',
+  });
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const notifications = data?.data || [];
+
+  const changeTab = (nextTab: InboxTab) => {
+    setTab(nextTab);
+    setPage(1);
+  };
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.isRead) markRead.mutate(notification.id);
+    const link = role ? getNotificationLink(notification, role) : null;
+    if (link) navigate(link);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-dark mb-2">Notifications</h1>
+          <p className="text-text-muted">
+            {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up'}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          leftIcon={<CheckCheck className="w-4 h-4" />}
+          onClick={() => markAllRead.mutate()}
+          loading={markAllRead.isPending}
+          disabled={unreadCount === 0}
+        >
+          Mark all as read
+        </Button>
+      </div>
+
+      <div className="flex gap-2" role="tablist">
+        {(['all', 'unread'] as const).map(value => (
+          <button
+            key={value}
+            type="button"
+            role="tab"
+            aria-selected={tab === value}
+            onClick={() => changeTab(value)}
+            className={cn(
+              'px-4 py-2 rounded-2xl text-sm font-medium transition-colors',
+              tab === value
+                ? 'bg-bottle-green text-white'
+                : 'bg-earthy-beige/40 text-text-muted hover:text-text-dark'
+            )}
+          >
+            {value === 'all' ? 'All' : `Unread${unreadCount > 0 ? ` (${unreadCount})` : ''}`}
+          </button>
+        ))}
+      </div>
+
+      <Card padding="none" className="overflow-hidden">
+        {isLoading ? (
+          <div className="py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : error ? (
+          <EmptyState
+            icon={<AlertTriangle className="w-12 h-12" />}
+            title="Failed to load notifications"
+            action={
+              <Button variant="outline" onClick={() => refetch()}>
+                Retry
+              </Button>
+            }
+          />
+        ) : notifications.length === 0 ? (
+          <EmptyState
+            icon={<Bell className="w-12 h-12" />}
+            title={tab === 'unread' ? 'No unread notifications' : 'No notifications yet'}
+            description="Order updates and account alerts will appear here"
+          />
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {notifications.map(notification => {
+              const Icon = typeIcons[notification.type] || Bell;
+              return (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => openNotification(notification)}
+                    className={cn(
+                      'w-full flex items-start gap-4 px-6 py-4 text-left hover:bg-gray-50 transition-colors',
+                      !notification.isRead && 'bg-mint-fresh/5'
+                    )}
+                  >
+                    <div className="w-10 h-10 bg-earthy-beige/50 rounded-xl flex items-center justify-center flex-shrink-0">
+                      <Icon className="w-5 h-5 text-bottle-green" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p
+                        className={cn(
+                          'text-text-dark',
+                          notification.isRead ? 'font-normal' : 'font-semibold'
+                        )}
+                      >
+                        {notification.title}
+                      </p>
+                      <p className="text-sm text-text-muted">{notification.message}</p>
+                      <p className="text-xs text-text-muted mt-1">
+                        {DateFormatter.formatRelativeTime(notification.createdAt)}
+                      </p>
+                    </div>
+                    {!notification.isRead && (
+                      <span
+                        className="w-2.5 h-2.5 mt-2 rounded-full bg-tomato-red flex-shrink-0"
+                        aria-label="Unread"
+                      />
+                    )}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </Card>
+
+      {data && data.pagination.pages > 1 && (
+        <Pagination
+          currentPage={page}
+          totalPages={data.pagination.pages}
+          onPageChange={setPage}
+          totalItems={data.pagination.total}
+          itemsPerPage={NOTIFICATIONS_PAGE_SIZE}
+        />
+      )}
+
+      <NotificationPreferencesCard />
+    </div>
+  );
+};
+
+export default NotificationsPage;
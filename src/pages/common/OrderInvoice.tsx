@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Download, Printer } from 'lucide-react';
+import { Button, EmptyState, LoadingSpinner } from '@/components/ui';
+import { InvoiceDocument } from '@/components/invoices';
+import { useDownloadInvoicePdf } from '@/hooks/useInvoices';
+import { useOrder } from '@/hooks/useOrders';
+import { useAuthStore } from '@/stores/authStore';
+import { RESTAURANT_ROUTES, VENDOR_ROUTES } from '@/constants';
+import { buildInvoice } from '@/utils';
+
+export const OrderInvoice: React.FC = () => {
+  const { orderId = '' } = useParams<{ orderId: string }>();
+  const role = useAuthStore(state => state.user?.role);
+  const { data: order, isLoading, error, refetch } = useOrder(orderId);
+  const downloadMutation = useDownloadInvoicePdf();
+
+  const invoice = useMemo(() => (order ? buildInvoice(order) : null), [order]);
+  const backLink =
+    role === 'vendor'
+      ? VENDOR_ROUTES.ORDER_DETAIL(orderId)
+      : RESTAURANT_ROUTES.ORDER_TRACKING(orderId);
+
+  if (isLoading) {
+    return (
+      <div className="p-8">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !invoice) {
+    return (
+      <EmptyState
+        title="Invoice unavailable"
+        description="We couldn't load this order. It may have been removed or you may not have access to it."
+        action={
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl mx-auto">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <Link
+          to={backLink}
+          className="inline-flex items-center gap-2 text-sm text-text-muted hover:text-bottle-green"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Order
+        </Link>
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            leftIcon={<Printer className="w-4 h-4" />}
+            onClick={() => window.print()}
+          >
+            Print
+          </Button>
+          <Button
+            leftIcon={<Download className="w-4 h-4" />}
+            onClick={() => downloadMutation.mutate(invoice)}
+            loading={downloadMutation.isPending}
+          >
+            Download PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="print-area">
+        <InvoiceDocument invoice={invoice} />
+      </div>
+    </div>
+  );
+};
+
+export default OrderInvoice;
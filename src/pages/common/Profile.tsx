@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { MapPin, Pencil, UserCircle } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { AddressPicker } from '@/components/ui/AddressPicker';
+import { useUpdateProfileAddress } from '@/hooks/useAddresses';
+import { useAuthStore } from '@/stores/authStore';
+import { ROLE_DISPLAY_NAMES } from '@/constants';
+import { AddressDraft } from '@/types';
+import { AddressFormatter, AddressValidationResult, PhoneValidator } from '@/utils';
+
+export const Profile: React.FC = () => {
+  const user = useAuthStore(state => state.user);
+  const updateAddress = useUpdateProfileAddress();
+  const [draft, setDraft] = useState<AddressDraft | null>(null);
+  const [errors, setErrors] = useState<AddressValidationResult['errors']>({});
+
+  if (!user) return null;
+
+  const isVendor = user.role === 'vendor';
+  const address = isVendor ? user.vendor?.businessAddress : user.restaurant?.restaurantAddress;
+  const businessName = isVendor ? user.vendor?.businessName : user.restaurant?.restaurantName;
+  // Managers order for the restaurant but only the owner changes its address
+  const canEditAddress = user.role === 'vendor' || user.role === 'restaurantOwner';
+  const showAddress = isVendor || !!user.restaurant;
+
+  const startEditing = () => {
+    setDraft(address ? { ...address } : {});
+    setErrors({});
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    const validation = AddressFormatter.validateAddress(draft);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    if (address && AddressFormatter.isSameAddress(draft, address)) {
+      setDraft(null);
+      return;
+    }
+
+    // A moved address needs locating again, so the old map location is dropped
+    updateAddress.mutate(AddressFormatter.normalizeAddress({ ...draft, coordinates: undefined }), {
+      onSuccess: () => setDraft(null),
+    });
+  };
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-text-dark mb-2">Profile</h1>
+        <p className="text-text-muted">Your account details and address</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2">
+            <UserCircle className="w-5 h-5 text-bottle-green" />
+            Account
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-text-muted">Name</dt>
+              <dd className="font-medium text-text-dark">{user.name}</dd>
+            </div>
+            <div>
+              <dt className="text-text-muted">Phone</dt>
+              <dd className="font-medium text-text-dark">
+                {PhoneValidator.formatForDisplay(user.phone)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-text-muted">Role</dt>
+              <dd className="font-medium text-text-dark">{ROLE_DISPLAY_NAMES[user.role]}</dd>
+            </div>
+            {businessName && (
+              <div>
+                <dt className="text-text-muted">{isVendor ? 'Business' : 'Restaurant'}</dt>
+                <dd className="font-medium text-text-dark">{businessName}</dd>
+              </div>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+
+      {showAddress && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-xl flex items-center gap-2">
+                <MapPin className="w-5 h-5 text-bottle-green" />
+                {isVendor ? 'Business Address' : 'Restaurant Address'}
+              </CardTitle>
+              {canEditAddress && !draft && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<Pencil className="w-4 h-4" />}
+                  onClick={startEditing}
+                >
+                  {address ? 'Edit' : 'Add Address'}
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {draft ? (
+              <>
+                <AddressPicker
+                  value={draft}
+                  onChange={next => {
+                    setDraft(next);
+                    setErrors({});
+                  }}
+                  errors={errors}
+                  disabled={updateAddress.isPending}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setDraft(null)}
+                    disabled={updateAddress.isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSave} loading={updateAddress.isPending}>
+                    Save Address
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-text-dark">
+                {address ? AddressFormatter.formatAddress(address) : 'No address added yet.'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,6 @@
+// Pages shared by every signed-in role
+export * from './NotificationsPage';
+export * from './OrderInvoice';
+export * from './AccountStatements';
+export * from './CreditAccounts';
+export * from './Profile';
\ No newline at end of file
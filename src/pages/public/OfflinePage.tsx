@@ -0,0 +1,52 @@
+import React, { useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { onlineManager } from '@tanstack/react-query';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { toast } from '@/stores/notificationStore';
+
+/**
+ * Shown instead of a page that cannot work without a connection, such as
+ * signing in. Returns to the requested page as soon as the device is online.
+ */
+export const OfflinePage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from || '/dashboard';
+
+  useEffect(
+    () =>
+      onlineManager.subscribe(isOnline => {
+        if (isOnline) navigate(from, { replace: true });
+      }),
+    [from, navigate]
+  );
+
+  const handleRetry = () => {
+    if (onlineManager.isOnline()) {
+      navigate(from, { replace: true });
+    } else {
+      toast.warning('Still offline', 'Check your mobile data or Wi-Fi and try again');
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-earthy-beige via-white to-mint-fresh/10 px-6">
+      <div className="bg-white/90 backdrop-blur-sm rounded-3xl shadow-lg p-8 border border-white/50 text-center max-w-md mx-auto">
+        <div className="w-16 h-16 bg-gray-100 rounded-2xl flex items-center justify-center mx-auto mb-6">
+          <CloudOff className="w-8 h-8 text-text-muted" />
+        </div>
+        <h1 className="text-2xl font-medium text-text-dark mb-4">You are offline</h1>
+        <p className="text-text-muted mb-6">
+          This page needs a connection. Pages you have opened before still work, and changes you
+          make offline are sent once you are back online.
+        </p>
+        <Button onClick={handleRetry} leftIcon={<RefreshCw className="w-4 h-4" />}>
+          Try Again
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default OfflinePage;
@@ -1,4 +1,5 @@
 // Public pages
 // export * from './HomePage';
 // export * from './AboutPage';
-// export * from './ContactPage';
\ No newline at end of file
+// export * from './ContactPage';
+export * from './OfflinePage';
\ No newline at end of file
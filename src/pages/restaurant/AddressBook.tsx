@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { MapPin, Navigation, Pencil, Plus, Star, Trash2 } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  ConfirmDialog,
+  EmptyState,
+  LoadingSpinner,
+} from '@/components/ui';
+import { AddressFormModal } from '@/components/addresses';
+import {
+  useDeleteSavedAddress,
+  useSavedAddresses,
+  useSetDefaultAddress,
+} from '@/hooks/useAddresses';
+import { useActiveBranch } from '@/hooks/useBranches';
+import { usePermission } from '@/hooks/usePermission';
+import { useAuthStore } from '@/stores/authStore';
+import { PERMISSIONS } from '@/constants';
+import { Address, SavedAddress } from '@/types';
+import { AddressFormatter } from '@/utils';
+
+// Default first, then alphabetical
+const sortAddresses = (addresses: SavedAddress[]): SavedAddress[] =>
+  [...addresses].sort(
+    (a, b) => Number(b.isDefault) - Number(a.isDefault) || a.label.localeCompare(b.label)
+  );
+
+export const AddressBook: React.FC = () => {
+  const activeBranch = useActiveBranch();
+  const profileAddress = useAuthStore(state => state.user?.restaurant?.restaurantAddress);
+  const restaurantAddress = activeBranch?.address || profileAddress;
+  const canManage = usePermission(PERMISSIONS.MANAGE_RESTAURANT);
+  const { data: addresses = [], isLoading, error, refetch } = useSavedAddresses();
+  const setDefaultAddress = useSetDefaultAddress();
+  const deleteAddress = useDeleteSavedAddress();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<SavedAddress | null>(null);
+  const [prefill, setPrefill] = useState<Address | undefined>();
+  const [deleting, setDeleting] = useState<SavedAddress | null>(null);
+
+  const openForm = (savedAddress: SavedAddress | null, initialAddress?: Address) => {
+    setEditing(savedAddress);
+    setPrefill(initialAddress);
+    setIsFormOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <EmptyState
+        title="Failed to load addresses"
+        action={
+          <Button variant="outline" onClick={() => refetch()}>
+            Retry
+          </Button>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-dark mb-2">Delivery Addresses</h1>
+          <p className="text-text-muted">
+            Branches and kitchens your orders can be delivered to, with notes for drivers
+          </p>
+        </div>
+        {canManage && addresses.length > 0 && (
+          <Button leftIcon={<Plus className="w-4 h-4" />} onClick={() => openForm(null)}>
+            Add Address
+          </Button>
+        )}
+      </div>
+
+      {addresses.length === 0 ? (
+        <EmptyState
+          icon={<MapPin className="w-12 h-12" />}
+          title="No saved addresses yet"
+          description={
+            canManage
+              ? 'Save each branch once, with its map pin and delivery notes, and pick it at checkout.'
+              : 'Your restaurant owner has not saved any delivery addresses yet.'
+          }
+          action={
+            canManage && (
+              <div className="flex flex-wrap justify-center gap-2">
+                {restaurantAddress && (
+                  <Button variant="outline" onClick={() => openForm(null, restaurantAddress)}>
+                    Start from Restaurant Address
+                  </Button>
+                )}
+                <Button leftIcon={<Plus className="w-4 h-4" />} onClick={() => openForm(null)}>
+                  Add Address
+                </Button>
+              </div>
+            )
+          }
+        />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+          {sortAddresses(addresses).map(savedAddress => (
+            <Card key={savedAddress.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {savedAddress.label}
+                      {savedAddress.isDefault && (
+                        <span className="px-2 py-0.5 rounded-full bg-mint-fresh/20 text-bottle-green text-xs font-medium">
+                          Default
+                        </span>
+                      )}
+                    </CardTitle>
+                    <p className="text-sm text-text-muted">
+                      {AddressFormatter.formatAddress(savedAddress.address)}
+                    </p>
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-1 flex-shrink-0">
+                      {!savedAddress.isDefault && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setDefaultAddress.mutate(savedAddress)}
+                          disabled={setDefaultAddress.isPending}
+                          aria-label={`Make ${savedAddress.label} the default`}
+                        >
+                          <Star className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => openForm(savedAddress)}
+                        aria-label={`Edit ${savedAddress.label}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-tomato-red hover:bg-tomato-red/5 hover:text-tomato-red"
+                        onClick={() => setDeleting(savedAddress)}
+                        aria-label={`Delete ${savedAddress.label}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p className="flex items-center gap-2 text-text-muted">
+                  <Navigation className="w-4 h-4 flex-shrink-0" />
+                  {savedAddress.address.coordinates
+                    ? 'Pinned on the map'
+                    : 'No map pin. Drivers will rely on the written address.'}
+                </p>
+                {savedAddress.deliveryNotes && (
+                  <p className="p-3 rounded-xl bg-earthy-yellow/10 text-earthy-brown">
+                    {savedAddress.deliveryNotes}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <AddressFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        savedAddress={editing}
+        initialAddress={prefill}
+        addresses={addresses}
+      />
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={() => {
+          if (deleting) deleteAddress.mutate(deleting);
+          setDeleting(null);
+        }}
+        title="Delete address?"
+        message={`"${deleting?.label}" will be removed from your address book. Orders already placed keep their address.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default AddressBook;
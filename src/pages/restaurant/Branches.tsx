@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { MapPin, Pencil, Phone, Plus, Store, Users } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  EmptyState,
+  LoadingSpinner,
+} from '@/components/ui';
+import { BranchFormModal } from '@/components/branches';
+import { useActiveBranch, useBranches } from '@/hooks/useBranches';
+import { useTeamMembers } from '@/hooks/useTeam';
+import { RestaurantBranch, TeamMember } from '@/types';
+import { AddressFormatter } from '@/utils';
+
+// Managers with no branches picked order for all of them
+const getBranchManagers = (members: TeamMember[], branchId: string): TeamMember[] =>
+  members.filter(
+    member => member.scope.branchIds.length === 0 || member.scope.branchIds.includes(branchId)
+  );
+
+export const Branches: React.FC = () => {
+  const { data: branches = [], isLoading, error, refetch } = useBranches();
+  const { data: members = [] } = useTeamMembers();
+  const activeBranch = useActiveBranch();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<RestaurantBranch | null>(null);
+
+  const openForm = (branch: RestaurantBranch | null) => {
+    setEditing(branch);
+    setIsFormOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <EmptyState
+        title="Failed to load branches"
+        action={
+          <Button variant="outline" onClick={() => refetch()}>
+            Retry
+          </Button>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-dark mb-2">Branches</h1>
+          <p className="text-text-muted">
+            Each branch keeps its own cart, orders and managers under your account
+          </p>
+        </div>
+        {branches.length > 0 && (
+          <Button leftIcon={<Plus className="w-4 h-4" />} onClick={() => openForm(null)}>
+            Add Branch
+          </Button>
+        )}
+      </div>
+
+      {branches.length === 0 ? (
+        <EmptyState
+          icon={<Store className="w-12 h-12" />}
+          title="No branches yet"
+          description="Add each of your locations to order, track spend and assign managers per branch."
+          action={
+            <Button leftIcon={<Plus className="w-4 h-4" />} onClick={() => openForm(null)}>
+              Add Branch
+            </Button>
+          }
+        />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+          {branches.map(branch => {
+            const managers = getBranchManagers(members, branch.id);
+
+            return (
+              <Card key={branch.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-3">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {branch.name}
+                      {branch.id === activeBranch?.id && (
+                        <span className="px-2 py-0.5 rounded-full bg-mint-fresh/20 text-bottle-green text-xs font-medium">
+                          Ordering for
+                        </span>
+                      )}
+                    </CardTitle>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openForm(branch)}
+                      aria-label={`Edit ${branch.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  <p className="flex items-start gap-2 text-text-dark">
+                    <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0 text-text-muted" />
+                    {AddressFormatter.formatAddress(branch.address)}
+                  </p>
+                  {branch.phone && (
+                    <p className="flex items-center gap-2 text-text-dark">
+                      <Phone className="w-4 h-4 flex-shrink-0 text-text-muted" />
+                      {branch.phone}
+                    </p>
+                  )}
+                  <p className="flex items-start gap-2 text-text-muted">
+                    <Users className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    {managers.length > 0
+                      ? managers.map(member => member.name).join(', ')
+                      : 'No managers yet. Only you order for this branch.'}
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <BranchFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        branch={editing}
+        branches={branches}
+      />
+    </div>
+  );
+};
+
+export default Branches;
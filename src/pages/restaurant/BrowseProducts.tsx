@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { Link2, Search, SlidersHorizontal } from 'lucide-react';
+import { Button, EmptyState, LoadingSpinner, Pagination, SearchBar } from '@/components/ui';
+import { ListingCard, ListingFilterSidebar } from '@/components/listings';
+import { useBrowseListings, useProductCategories } from '@/hooks/useListings';
+import { useListingFilters } from '@/hooks/useListingFilters';
+import { BROWSE_PAGE_SIZE, LISTING_SORT_OPTIONS } from '@/constants';
+import { toast } from '@/stores/notificationStore';
+import { copyToClipboard } from '@/utils';
+import { cn } from '@/utils/cn';
+
+export const BrowseProducts: React.FC = () => {
+  const [showFilters, setShowFilters] = useState(false);
+  const { filters, setFilters, updateFilters, resetFilters, activeFilterCount } =
+    useListingFilters();
+  const [searchInput, setSearchInput] = useState(filters.search || '');
+
+  // Keep the search box in step with the URL (back/forward navigation, shared links)
+  useEffect(() => {
+    setSearchInput(filters.search || '');
+  }, [filters.search]);
+
+  const { data: categories = [] } = useProductCategories();
+  const { data, isLoading, isFetching, error, refetch } = useBrowseListings({
+    ...filters,
+    limit: BROWSE_PAGE_SIZE,
+  });
+
+  const listings = data?.data || [];
+  const pagination = data?.pagination;
+  const currentCategory = categories.find(category => category.id === filters.category);
+  const sortValue = filters.sortBy ? `${filters.sortBy}:${filters.sortOrder || 'asc'}` : '';
+
+  const handleSortChange = (value: string) => {
+    const option = LISTING_SORT_OPTIONS.find(
+      sortOption => `${sortOption.sortBy}:${sortOption.sortOrder}` === value
+    );
+    updateFilters({ sortBy: option?.sortBy, sortOrder: option?.sortOrder });
+  };
+
+  const applySearch = (value: string) => {
+    const search = value.trim() || undefined;
+    if (search !== filters.search) updateFilters({ search });
+  };
+
+  const handleShare = async () => {
+    const copied = await copyToClipboard(window.location.href);
+    if (copied) {
+      toast.success('Link copied', 'Share it with your team to open this exact view');
+    } else {
+      toast.error('Could not copy link');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-dark mb-2">
+            {currentCategory ? currentCategory.name : 'Browse Products'}
+          </h1>
+          <p className="text-text-muted">
+            {currentCategory?.description || 'Fresh produce from verified vendors across the city'}
+          </p>
+        </div>
+
+        <Button variant="outline" leftIcon={<Link2 className="w-4 h-4" />} onClick={handleShare}>
+          Share View
+        </Button>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="flex-1">
+          <SearchBar
+            value={searchInput}
+            onChange={value => {
+              setSearchInput(value);
+              if (!value) applySearch('');
+            }}
+            onSearch={applySearch}
+            placeholder="Search products, vendors..."
+            loading={isFetching && !isLoading}
+            debounceMs={400}
+          />
+        </div>
+        <div className="flex gap-3">
+          <select
+            value={sortValue}
+            onChange={e => handleSortChange(e.target.value)}
+            aria-label="Sort listings"
+            className="px-4 py-3 border border-gray-200 rounded-2xl bg-white text-sm focus:outline-none focus:ring-2 focus:ring-bottle-green/20"
+          >
+            <option value="">Relevance</option>
+            {LISTING_SORT_OPTIONS.map(option => (
+              <option
+                key={`${option.sortBy}:${option.sortOrder}`}
+                value={`${option.sortBy}:${option.sortOrder}`}
+                disabled={option.requiresLocation && !filters.location}
+              >
+                {option.label}
+                {option.requiresLocation && !filters.location ? ' (set a distance)' : ''}
+              </option>
+            ))}
+          </select>
+          <Button
+            variant="secondary"
+            className="lg:hidden"
+            leftIcon={<SlidersHorizontal className="w-4 h-4" />}
+            onClick={() => setShowFilters(!showFilters)}
+            aria-expanded={showFilters}
+          >
+            Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 items-start">
+        <ListingFilterSidebar
+          filters={filters}
+          categories={categories}
+          onChange={updateFilters}
+          onReset={resetFilters}
+          activeFilterCount={activeFilterCount}
+          className={cn('lg:block lg:sticky lg:top-24', !showFilters && 'hidden')}
+        />
+
+        {/* Results */}
+        <div className="lg:col-span-3 space-y-6">
+          {pagination && (
+            <p className="text-sm text-text-muted">
+              {pagination.total} listing{pagination.total === 1 ? '' : 's'} found
+            </p>
+          )}
+
+          {isLoading ? (
+            <div className="py-16">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : error ? (
+            <EmptyState
+              title="Failed to load products"
+              description="Something went wrong while loading the catalogue."
+              action={<Button onClick={() => refetch()}>Try Again</Button>}
+            />
+          ) : listings.length === 0 ? (
+            <EmptyState
+              icon={<Search className="w-12 h-12" />}
+              title="No products match these filters"
+              description="Try widening the price range, distance or removing some filters."
+              action={
+                activeFilterCount > 0 || filters.search ? (
+                  <Button variant="outline" onClick={() => setFilters({})}>
+                    Clear All Filters
+                  </Button>
+                ) : undefined
+              }
+            />
+          ) : (
+            <div
+              className={cn(
+                'grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6 transition-opacity',
+                isFetching && 'opacity-60'
+              )}
+            >
+              {listings.map(listing => (
+                <ListingCard key={listing.id} listing={listing} />
+              ))}
+            </div>
+          )}
+
+          {pagination && pagination.pages > 1 && (
+            <div className="flex justify-center">
+              <Pagination
+                currentPage={pagination.current}
+                totalPages={pagination.pages}
+                onPageChange={page => updateFilters({ page })}
+                totalItems={pagination.total}
+                itemsPerPage={pagination.limit}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrowseProducts;
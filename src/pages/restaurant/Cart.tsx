@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Minus, Plus, Repeat, ShoppingCart, Store, Trash2 } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  ConfirmDialog,
+  EmptyState,
+} from '@/components/ui';
+import { CartReconciliationPanel } from '@/components/cart';
+import { StandingOrderDraft, StandingOrderFormModal } from '@/components/standingOrders';
+import { useCartReconciliation } from '@/hooks/useCartReconciliation';
+import { RESTAURANT_ROUTES } from '@/constants';
+import { CartItem, groupCartItemsByVendor, useCartStore } from '@/stores/cartStore';
+import { CurrencyFormatter } from '@/utils';
+
+const CartItemRow: React.FC<{ item: CartItem }> = ({ item }) => {
+  const updateQuantity = useCartStore(state => state.updateQuantity);
+  const removeItem = useCartStore(state => state.removeItem);
+  const { listing } = item;
+  const step = listing.minOrderQuantity && listing.minOrderQuantity < 1 ? 0.5 : 1;
+  const priceChanged = item.unitPrice !== listing.price;
+
+  return (
+    <li className="py-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+      <div className="min-w-0">
+        <p className="font-medium text-text-dark">{listing.product.name}</p>
+        <p className="text-sm text-text-muted">
+          {CurrencyFormatter.formatPerUnit(item.unitPrice, listing.product.unit)}
+          {priceChanged && (
+            <span className="ml-2 text-earthy-brown">
+              (now {CurrencyFormatter.formatBDT(listing.price)})
+            </span>
+          )}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <div className="flex items-center border border-gray-200 rounded-xl">
+          <button
+            type="button"
+            onClick={() => updateQuantity(item.id, Math.max(0, item.quantity - step))}
+            className="p-2 text-text-muted hover:text-bottle-green"
+            aria-label={`Decrease ${listing.product.name} quantity`}
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+          <input
+            type="number"
+            min={0}
+            step={step}
+            value={item.quantity}
+            onChange={e => {
+              const quantity = Number(e.target.value);
+              if (Number.isFinite(quantity) && quantity > 0) updateQuantity(item.id, quantity);
+            }}
+            aria-label={`${listing.product.name} quantity`}
+            className="w-16 text-center bg-transparent focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={() => updateQuantity(item.id, item.quantity + step)}
+            className="p-2 text-text-muted hover:text-bottle-green"
+            aria-label={`Increase ${listing.product.name} quantity`}
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        <span className="w-24 text-right font-semibold text-text-dark">
+          {CurrencyFormatter.formatBDT(item.totalPrice)}
+        </span>
+        <button
+          type="button"
+          onClick={() => removeItem(item.id)}
+          className="p-2 text-text-muted hover:text-tomato-red"
+          aria-label={`Remove ${listing.product.name}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </li>
+  );
+};
+
+export const Cart: React.FC = () => {
+  const navigate = useNavigate();
+  const items = useCartStore(state => state.items);
+  const totalAmount = useCartStore(state => state.totalAmount);
+  const clearCart = useCartStore(state => state.clearCart);
+  const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [standingOrderDraft, setStandingOrderDraft] = useState<StandingOrderDraft | null>(null);
+
+  const { issues, hasIssues, isReconciling, unverifiedCount, recheck } = useCartReconciliation();
+  const groups = useMemo(() => groupCartItemsByVendor(items), [items]);
+
+  if (items.length === 0) {
+    return (
+      <EmptyState
+        icon={<ShoppingCart className="w-12 h-12" />}
+        title="Your cart is empty"
+        description="Browse the catalogue to add fresh produce from local vendors."
+        action={
+          <Link to={RESTAURANT_ROUTES.BROWSE}>
+            <Button>Browse Products</Button>
+          </Link>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-dark mb-2">Cart</h1>
+          <p className="text-text-muted">
+            {items.length} item{items.length === 1 ? '' : 's'} from {groups.length} vendor
+            {groups.length === 1 ? '' : 's'}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          className="text-tomato-red hover:bg-tomato-red/5 hover:text-tomato-red"
+          leftIcon={<Trash2 className="w-4 h-4" />}
+          onClick={() => setShowClearConfirm(true)}
+        >
+          Clear Cart
+        </Button>
+      </div>
+
+      <CartReconciliationPanel
+        issues={issues}
+        isReconciling={isReconciling}
+        unverifiedCount={unverifiedCount}
+        onRecheck={recheck}
+      />
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+        <div className="lg:col-span-2 space-y-6">
+          {groups.map(group => (
+            <Card key={group.vendor.id}>
+              <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+                <CardTitle className="text-xl flex items-center gap-2">
+                  <Store className="w-5 h-5 text-bottle-green" />
+                  {group.vendor.vendor?.businessName || group.vendor.name}
+                </CardTitle>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  leftIcon={<Repeat className="w-4 h-4" />}
+                  onClick={() =>
+                    setStandingOrderDraft({
+                      vendor: group.vendor,
+                      items: group.items.map(item => ({
+                        listing: item.listing,
+                        quantity: item.quantity,
+                        ...(item.notes && { notes: item.notes }),
+                      })),
+                    })
+                  }
+                >
+                  Repeat Weekly
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y divide-gray-100">
+                  {group.items.map(item => (
+                    <CartItemRow key={item.id} item={item} />
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="lg:sticky lg:top-24">
+          <CardHeader>
+            <CardTitle className="text-xl">Summary</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex justify-between text-base font-semibold">
+              <span>Total</span>
+              <span className="text-bottle-green">{CurrencyFormatter.formatBDT(totalAmount)}</span>
+            </div>
+            {hasIssues && (
+              <p className="text-sm text-earthy-brown">
+                Review the highlighted changes before checking out.
+              </p>
+            )}
+            <Button
+              fullWidth
+              onClick={() => navigate(RESTAURANT_ROUTES.CHECKOUT)}
+              disabled={hasIssues || isReconciling}
+            >
+              Proceed to Checkout
+            </Button>
+            <Link
+              to={RESTAURANT_ROUTES.BROWSE}
+              className="block text-center text-sm text-bottle-green hover:underline"
+            >
+              Continue Shopping
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+
+      <StandingOrderFormModal
+        isOpen={!!standingOrderDraft}
+        onClose={() => setStandingOrderDraft(null)}
+        draft={standingOrderDraft}
+      />
+
+      <ConfirmDialog
+        isOpen={showClearConfirm}
+        onClose={() => setShowClearConfirm(false)}
+        onConfirm={() => {
+          clearCart();
+          setShowClearConfirm(false);
+        }}
+        title="Clear cart?"
+        message="All items will be removed from your cart."
+        confirmText="Clear Cart"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default Cart;
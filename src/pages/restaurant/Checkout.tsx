@@ -0,0 +1,389 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MapPin, ShoppingCart, Store } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  EmptyState,
+  LoadingSpinner,
+} from '@/components/ui';
+import { CartReconciliationPanel } from '@/components/cart';
+import {
+  CheckoutResultSummary,
+  DeliveryAddressCard,
+  DeliveryDestination,
+  VendorCheckoutDetails,
+  VendorEligibilityState,
+  VendorOrderSection,
+} from '@/components/checkout';
+import { useSavedAddresses } from '@/hooks/useAddresses';
+import { useActiveBranch } from '@/hooks/useBranches';
+import { useCartReconciliation } from '@/hooks/useCartReconciliation';
+import { useCreditAccounts } from '@/hooks/useCredit';
+import { usePlaceVendorOrders, VendorOrderResult } from '@/hooks/useOrders';
+import { RESTAURANT_ROUTES } from '@/constants';
+import { useAuthStore } from '@/stores/authStore';
+import { groupCartItemsByVendor, useCartStore, VendorCartGroup } from '@/stores/cartStore';
+import { toast } from '@/stores/notificationStore';
+import { CreateOrderRequest } from '@/types';
+import {
+  AddressFormatter,
+  CurrencyFormatter,
+  DateFormatter,
+  getDefaultSavedAddress,
+  PermissionManager,
+} from '@/utils';
+
+const getDefaultDetails = (): VendorCheckoutDetails => {
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  return {
+    deliveryDate: DateFormatter.toDateInputValue(tomorrow),
+    deliveryTimeSlot: '',
+    deliverySlot: '',
+    paymentMethod: 'cash_on_delivery',
+    notes: '',
+  };
+};
+
+const buildOrderRequest = (
+  group: VendorCartGroup,
+  details: VendorCheckoutDetails,
+  { address, savedAddress }: DeliveryDestination,
+  branchId: string | undefined,
+  includeNotes: boolean
+): CreateOrderRequest => ({
+  items: group.items.map(item => ({
+    listing: item.listing.id,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    ...(item.notes && { notes: item.notes }),
+  })),
+  deliveryAddress: address,
+  ...(branchId && { branch: branchId }),
+  ...(savedAddress && { savedAddress: savedAddress.id }),
+  ...(savedAddress?.deliveryNotes && { deliveryNotes: savedAddress.deliveryNotes }),
+  ...(details.deliveryDate && { deliveryDate: details.deliveryDate }),
+  ...(details.deliveryTimeSlot && { deliveryTimeSlot: details.deliveryTimeSlot }),
+  ...(details.deliverySlot && { deliverySlot: details.deliverySlot }),
+  ...(details.paymentMethod && { paymentMethod: details.paymentMethod }),
+  ...(includeNotes && details.notes.trim() && { notes: details.notes.trim() }),
+});
+
+const isComplete = (details: VendorCheckoutDetails): boolean =>
+  !!details.deliveryDate && !!details.deliveryTimeSlot && !!details.paymentMethod;
+
+export const Checkout: React.FC = () => {
+  const user = useAuthStore(state => state.user);
+  const activeBranch = useActiveBranch();
+  const items = useCartStore(state => state.items);
+  const totalAmount = useCartStore(state => state.totalAmount);
+  const placeOrdersMutation = usePlaceVendorOrders();
+  // Re-verify prices and stock on arrival so nothing is ordered at a stale price
+  const reconciliation = useCartReconciliation();
+  const { data: creditAccounts = [] } = useCreditAccounts();
+  const { data: savedAddresses = [], isLoading: isLoadingAddresses } = useSavedAddresses();
+
+  const [detailsByVendor, setDetailsByVendor] = useState<Record<string, VendorCheckoutDetails>>({});
+  const [eligibilityByVendor, setEligibilityByVendor] = useState<
+    Record<string, VendorEligibilityState>
+  >({});
+  const [results, setResults] = useState<VendorOrderResult[] | null>(null);
+  const [vendorNames, setVendorNames] = useState<Record<string, string>>({});
+  // Address chosen for this checkout; null starts from the default
+  const [destination, setDestination] = useState<DeliveryDestination | null>(null);
+
+  const groups = useMemo(() => groupCartItemsByVendor(items), [items]);
+  // Deliveries default to the branch being ordered for
+  const restaurantAddress = activeBranch?.address || user?.restaurant?.restaurantAddress;
+  const defaultSavedAddress = getDefaultSavedAddress(savedAddresses);
+  const deliveryDestination: DeliveryDestination | undefined =
+    destination ||
+    (defaultSavedAddress
+      ? { address: defaultSavedAddress.address, savedAddress: defaultSavedAddress }
+      : restaurantAddress && { address: restaurantAddress });
+  const deliveryAddress = deliveryDestination?.address;
+  const minDeliveryDate = DateFormatter.toDateInputValue(new Date());
+
+  const getDetails = (vendorId: string) => detailsByVendor[vendorId] || getDefaultDetails();
+
+  const updateDetails = (vendorId: string, changes: Partial<VendorCheckoutDetails>) => {
+    setDetailsByVendor(prev => ({
+      ...prev,
+      [vendorId]: { ...(prev[vendorId] || getDefaultDetails()), ...changes },
+    }));
+  };
+
+  const handleEligibilityChange = useCallback((vendorId: string, state: VendorEligibilityState) => {
+    setEligibilityByVendor(prev => ({ ...prev, [vendorId]: state }));
+  }, []);
+
+  // Manager orders above the owner's spend limit wait for the owner's approval
+  const approvalCount = groups.filter(
+    group => user && PermissionManager.requiresOrderApproval(user, group.subtotal)
+  ).length;
+
+  const isCheckingEligibility = groups.some(
+    group => eligibilityByVendor[group.vendor.id]?.isChecking !== false
+  );
+  const ineligibleCount = groups.filter(
+    group => eligibilityByVendor[group.vendor.id]?.isEligible === false
+  ).length;
+
+  const handlePlaceOrders = () => {
+    if (!deliveryDestination) return;
+
+    const incomplete = groups.filter(group => !isComplete(getDetails(group.vendor.id)));
+    if (incomplete.length > 0) {
+      toast.warning(
+        'Missing delivery details',
+        'Choose a delivery date, time slot and payment method for every vendor'
+      );
+      return;
+    }
+
+    const names: Record<string, string> = Object.fromEntries(
+      groups.map(group => [group.vendor.id, group.vendor.vendor?.businessName || group.vendor.name])
+    );
+    const submissions = groups.map(group => ({
+      vendorId: group.vendor.id,
+      vendorName: names[group.vendor.id] as string,
+      cartItemIds: group.items.map(item => item.id),
+      request: buildOrderRequest(
+        group,
+        getDetails(group.vendor.id),
+        deliveryDestination,
+        activeBranch?.id,
+        true
+      ),
+    }));
+
+    // Remember vendor names; placed groups disappear from the cart once the orders succeed
+    setVendorNames(names);
+
+    placeOrdersMutation.mutate(submissions, {
+      onSuccess: orderResults => {
+        setResults(orderResults);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+
+        const placedCount = orderResults.filter(result => result.status === 'placed').length;
+        const queuedCount = orderResults.filter(result => result.status === 'queued').length;
+        if (queuedCount > 0 && placedCount + queuedCount === orderResults.length) {
+          toast.info(
+            'Orders saved offline',
+            `${queuedCount} order${queuedCount === 1 ? '' : 's'} will be sent when you are back online`
+          );
+        } else if (placedCount === orderResults.length) {
+          toast.success(
+            'Orders placed',
+            `${placedCount} order${placedCount === 1 ? '' : 's'} sent to vendors`
+          );
+        } else if (placedCount + queuedCount > 0) {
+          toast.warning(
+            'Some orders failed',
+            `${placedCount + queuedCount} of ${orderResults.length} placed`
+          );
+        } else {
+          toast.error('Orders failed', 'None of your orders could be placed');
+        }
+      },
+    });
+  };
+
+  if (results) {
+    return (
+      <div className="space-y-6 max-w-3xl mx-auto">
+        <CheckoutResultSummary
+          results={results}
+          vendorNames={vendorNames}
+          onRetry={() => setResults(null)}
+        />
+      </div>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <EmptyState
+        icon={<ShoppingCart className="w-12 h-12" />}
+        title="Your cart is empty"
+        description="Add products from the catalogue before checking out."
+        action={
+          <Link to={RESTAURANT_ROUTES.BROWSE}>
+            <Button>Browse Products</Button>
+          </Link>
+        }
+      />
+    );
+  }
+
+  if (!deliveryDestination || !deliveryAddress) {
+    // Wait for the address book before asking for an address
+    if (isLoadingAddresses) {
+      return (
+        <div className="flex justify-center py-16">
+          <LoadingSpinner size="lg" />
+        </div>
+      );
+    }
+
+    return (
+      <EmptyState
+        icon={<MapPin className="w-12 h-12" />}
+        title="Delivery address required"
+        description="Save a delivery address for your restaurant before placing orders."
+        action={
+          <Link to={RESTAURANT_ROUTES.ADDRESSES}>
+            <Button>Add an Address</Button>
+          </Link>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-text-dark mb-2">Checkout</h1>
+        <p className="text-text-muted">
+          Your cart will be sent as {groups.length} separate order
+          {groups.length === 1 ? '' : 's'}, one per vendor
+        </p>
+      </div>
+
+      <CartReconciliationPanel
+        issues={reconciliation.issues}
+        isReconciling={reconciliation.isReconciling}
+        unverifiedCount={reconciliation.unverifiedCount}
+        onRecheck={reconciliation.recheck}
+      />
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+        <div className="lg:col-span-2 space-y-6">
+          <DeliveryAddressCard
+            restaurantAddress={restaurantAddress}
+            savedAddresses={savedAddresses}
+            value={deliveryDestination}
+            onChange={setDestination}
+            disabled={placeOrdersMutation.isPending}
+          />
+
+          {groups.map(group => {
+            const details = getDetails(group.vendor.id);
+            return (
+              <VendorOrderSection
+                key={group.vendor.id}
+                group={group}
+                details={details}
+                eligibilityRequest={buildOrderRequest(
+                  group,
+                  details,
+                  deliveryDestination,
+                  activeBranch?.id,
+                  false
+                )}
+                coordinates={deliveryAddress.coordinates}
+                minDeliveryDate={minDeliveryDate}
+                creditAccount={creditAccounts.find(
+                  account => account.vendor.id === group.vendor.id
+                )}
+                onChange={changes => updateDetails(group.vendor.id, changes)}
+                onEligibilityChange={handleEligibilityChange}
+                disabled={placeOrdersMutation.isPending}
+              />
+            );
+          })}
+        </div>
+
+        {/* Summary */}
+        <Card className="lg:sticky lg:top-24">
+          <CardHeader>
+            <CardTitle className="text-xl">Order Summary</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {activeBranch && (
+              <div className="flex items-center gap-2 text-sm font-medium text-text-dark">
+                <Store className="w-4 h-4 flex-shrink-0 text-bottle-green" />
+                Ordering for {activeBranch.name}
+              </div>
+            )}
+            <div className="flex items-start gap-2 text-sm text-text-muted">
+              <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {AddressFormatter.formatAddress(deliveryAddress)}
+            </div>
+
+            <dl className="space-y-2 text-sm">
+              {groups.map(group => (
+                <div key={group.vendor.id} className="flex justify-between gap-4">
+                  <dt className="text-text-muted truncate">
+                    {group.vendor.vendor?.businessName || group.vendor.name}
+                  </dt>
+                  <dd className="text-right">
+                    {CurrencyFormatter.formatBDT(group.subtotal)}
+                    {user && PermissionManager.requiresOrderApproval(user, group.subtotal) && (
+                      <span className="block text-xs text-earthy-brown">Needs approval</span>
+                    )}
+                  </dd>
+                </div>
+              ))}
+              <div className="flex justify-between pt-3 border-t border-gray-100 text-base font-semibold">
+                <dt>Total</dt>
+                <dd className="text-bottle-green">{CurrencyFormatter.formatBDT(totalAmount)}</dd>
+              </div>
+            </dl>
+            <p className="text-xs text-text-muted">
+              Delivery fees and taxes are confirmed by each vendor.
+            </p>
+
+            {approvalCount > 0 && (
+              <p className="text-sm text-earthy-brown">
+                {approvalCount === 1 ? 'One order is' : `${approvalCount} orders are`} above your{' '}
+                {CurrencyFormatter.formatBDT(user?.managerScope?.spendLimit ?? 0)} limit and will be
+                sent to the owner for approval before reaching the vendor.
+              </p>
+            )}
+            {reconciliation.hasIssues && (
+              <p className="text-sm text-earthy-brown">
+                Review the cart changes above before placing orders.
+              </p>
+            )}
+            {ineligibleCount > 0 && (
+              <p className="text-sm text-tomato-red">
+                {ineligibleCount} vendor order{ineligibleCount === 1 ? ' needs' : 's need'}{' '}
+                attention before you can check out.
+              </p>
+            )}
+
+            <Button
+              fullWidth
+              onClick={handlePlaceOrders}
+              loading={placeOrdersMutation.isPending}
+              disabled={
+                placeOrdersMutation.isPending ||
+                isCheckingEligibility ||
+                ineligibleCount > 0 ||
+                reconciliation.isReconciling ||
+                reconciliation.hasIssues
+              }
+            >
+              Place {groups.length} Order{groups.length === 1 ? '' : 's'}
+            </Button>
+            <Link
+              to={RESTAURANT_ROUTES.CART}
+              className="block text-center text-sm text-bottle-green hover:underline"
+            >
+              Back to Cart
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Checkout;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { AlertCircle, FlaskConical } from 'lucide-react';
+import { Button, Card, EmptyState } from '@/components/ui';
+import { getMockPaymentSession } from '@/services/paymentGateway.service';
+import { API_CONFIG, MOBILE_WALLET_LABELS, RESTAURANT_ROUTES } from '@/constants';
+import { PaymentCallbackStatus } from '@/types';
+import { buildPaymentCallbackUrl, CurrencyFormatter } from '@/utils';
+
+const outcomes: Array<{
+  status: PaymentCallbackStatus;
+  label: string;
+  variant: 'primary' | 'outline';
+}> = [
+  { status: 'success', label: 'Pay', variant: 'primary' },
+  { status: 'pending', label: 'Leave Pending', variant: 'outline' },
+  { status: 'failure', label: 'Fail Payment', variant: 'outline' },
+  { status: 'cancel', label: 'Cancel', variant: 'outline' },
+];
+
+// Only return to this app, so the page cannot be used to redirect elsewhere
+const getSafeCallbackUrl = (callbackUrl: string | null): string => {
+  if (callbackUrl) {
+    const url = new URL(callbackUrl, window.location.origin);
+    if (url.origin === window.location.origin) return url.toString();
+  }
+  return `${window.location.origin}${RESTAURANT_ROUTES.PAYMENT_CALLBACK}`;
+};
+
+/**
+ * Stand-in for a wallet's checkout page, used by the mock payment gateway.
+ * Each button returns to the callback URL with that outcome.
+ */
+export const MockWallet: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const sessionId = searchParams.get('sessionId') ?? '';
+  const session = API_CONFIG.paymentGateway === 'mock' ? getMockPaymentSession(sessionId) : null;
+  const callbackUrl = getSafeCallbackUrl(searchParams.get('callbackUrl'));
+
+  if (!session) {
+    return (
+      <EmptyState
+        icon={<AlertCircle className="w-12 h-12" />}
+        title="Payment session not found"
+        description="Start the payment again from your order."
+      />
+    );
+  }
+
+  const complete = (status: PaymentCallbackStatus) => {
+    window.location.assign(
+      buildPaymentCallbackUrl(callbackUrl, {
+        sessionId: session.id,
+        status,
+        ...(status === 'failure' && { reason: 'Insufficient wallet balance (test)' }),
+      })
+    );
+  };
+
+  return (
+    <div className="max-w-md mx-auto py-8">
+      <Card className="space-y-6 text-center">
+        <div className="flex flex-col items-center gap-2">
+          <FlaskConical className="w-10 h-10 text-earthy-brown" />
+          <p className="text-xs font-semibold uppercase tracking-wide text-earthy-brown">
+            Test wallet - no real money moves
+          </p>
+          <h1 className="text-2xl font-bold text-text-dark">
+            {MOBILE_WALLET_LABELS[session.provider]} Checkout
+          </h1>
+        </div>
+
+        <div>
+          <p className="text-text-muted">Order #{session.orderNumber}</p>
+          <p className="text-3xl font-bold text-bottle-green">
+            {CurrencyFormatter.formatBDT(session.amount)}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {outcomes.map(outcome => (
+            <Button
+              key={outcome.status}
+              variant={outcome.variant}
+              fullWidth
+              onClick={() => complete(outcome.status)}
+            >
+              {outcome.label}
+            </Button>
+          ))}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default MockWallet;
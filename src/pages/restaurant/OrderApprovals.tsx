@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ClipboardCheck, Package, User } from 'lucide-react';
+import { Button, Card, CardContent, EmptyState, LoadingSpinner, Pagination } from '@/components/ui';
+import { OrderApprovalModal, RejectOrderModal } from '@/components/orders';
+import { useOrderApprovals } from '@/hooks/useOrders';
+import { ORDER_APPROVALS_PAGE_SIZE } from '@/constants';
+import { Order } from '@/types';
+import { CurrencyFormatter, DateFormatter } from '@/utils';
+
+export const OrderApprovals: React.FC = () => {
+  const [page, setPage] = useState(1);
+  const { data, isLoading, error, refetch } = useOrderApprovals({
+    page,
+    limit: ORDER_APPROVALS_PAGE_SIZE,
+  });
+  const orders = data?.data ?? [];
+
+  const [reviewing, setReviewing] = useState<Order | null>(null);
+  const [rejecting, setRejecting] = useState<Order | null>(null);
+
+  const openReject = (order: Order) => {
+    setReviewing(null);
+    setRejecting(order);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-text-dark mb-2">Order Approvals</h1>
+        <p className="text-text-muted">
+          Orders your managers placed above their spend limit wait here for your decision
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <EmptyState
+          icon={<AlertTriangle className="w-12 h-12" />}
+          title="Failed to load approvals"
+          action={
+            <Button variant="outline" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        />
+      ) : orders.length === 0 ? (
+        <EmptyState
+          icon={<ClipboardCheck className="w-12 h-12" />}
+          title="Nothing to approve"
+          description="Orders above a manager's spend limit will appear here"
+        />
+      ) : (
+        <div className="space-y-4">
+          {orders.map(order => (
+            <Card key={order.id}>
+              <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="space-y-1 min-w-0">
+                  <p className="font-medium text-text-dark">
+                    Order #{order.orderNumber} ·{' '}
+                    {order.vendor.vendor?.businessName || order.vendor.name}
+                  </p>
+                  <p className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-text-muted">
+                    <span className="inline-flex items-center gap-1">
+                      <User className="w-3 h-3" />
+                      {order.approval?.requestedBy.name ?? order.restaurant.name}
+                    </span>
+                    <span className="inline-flex items-center gap-1">
+                      <Package className="w-3 h-3" />
+                      {order.items.length} {order.items.length === 1 ? 'item' : 'items'}
+                    </span>
+                    <span>
+                      {DateFormatter.formatRelativeTime(
+                        order.approval?.requestedAt ?? order.createdAt
+                      )}
+                    </span>
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between sm:justify-end gap-4">
+                  <div className="text-right">
+                    <p className="text-lg font-semibold text-bottle-green">
+                      {CurrencyFormatter.formatBDT(order.totalAmount)}
+                    </p>
+                    {order.approval && (
+                      <p className="text-xs text-earthy-brown">
+                        {CurrencyFormatter.formatBDT(order.totalAmount - order.approval.spendLimit)}{' '}
+                        over limit
+                      </p>
+                    )}
+                  </div>
+                  <Button size="sm" onClick={() => setReviewing(order)}>
+                    Review
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {data && data.pagination.pages > 1 && (
+        <Pagination
+          currentPage={page}
+          totalPages={data.pagination.pages}
+          onPageChange={setPage}
+          totalItems={data.pagination.total}
+          itemsPerPage={ORDER_APPROVALS_PAGE_SIZE}
+        />
+      )}
+
+      <OrderApprovalModal
+        order={reviewing}
+        isOpen={Boolean(reviewing)}
+        onClose={() => setReviewing(null)}
+        onReject={openReject}
+      />
+      <RejectOrderModal
+        order={rejecting}
+        isOpen={Boolean(rejecting)}
+        onClose={() => setRejecting(null)}
+      />
+    </div>
+  );
+};
+
+export default OrderApprovals;
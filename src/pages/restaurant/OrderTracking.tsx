@@ -0,0 +1,292 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  ClipboardCheck,
+  Clock,
+  FileText,
+  Phone,
+  Radio,
+  Truck,
+  User,
+  WifiOff,
+} from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  EmptyState,
+  LoadingSpinner,
+} from '@/components/ui';
+import { OrderApprovalBadge, OrderStatusBadge, OrderTimeline } from '@/components/orders';
+import { MobileBankingPaymentCard } from '@/components/payments';
+import { useLiveOrderTracking, useOrder } from '@/hooks/useOrders';
+import { TrackingConnectionMode } from '@/services/orderTracking.service';
+import { ORDER_TRACKING_POLL_INTERVAL, RESTAURANT_ROUTES } from '@/constants';
+import { OrderTracking as OrderTrackingData } from '@/types';
+import { canPayOrderByMobileBanking, CurrencyFormatter, DateFormatter } from '@/utils';
+import { cn } from '@/utils/cn';
+
+const connectionLabels: Record<TrackingConnectionMode, string> = {
+  connecting: 'Connecting...',
+  live: 'Live',
+  polling: `Refreshing every ${ORDER_TRACKING_POLL_INTERVAL / 1000}s`,
+  offline: 'Reconnecting',
+};
+
+const connectionStyles: Record<TrackingConnectionMode, string> = {
+  connecting: 'bg-gray-100 text-text-muted',
+  live: 'bg-mint-fresh/20 text-bottle-green',
+  polling: 'bg-earthy-yellow/20 text-earthy-brown',
+  offline: 'bg-tomato-red/10 text-tomato-red',
+};
+
+/**
+ * Compare the actual delivery time with the estimate, e.g. "15 minutes late".
+ */
+const describeDeliveryTiming = (tracking: OrderTrackingData): string | null => {
+  if (!tracking.estimatedDelivery || !tracking.actualDelivery) return null;
+
+  const difference = Math.round(
+    (new Date(tracking.actualDelivery).getTime() - new Date(tracking.estimatedDelivery).getTime()) /
+      60000
+  );
+  if (Math.abs(difference) < 5) return 'On time';
+
+  const minutes = Math.abs(difference);
+  const duration =
+    minutes >= 120
+      ? `${Math.round(minutes / 60)} hours`
+      : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  return difference > 0 ? `${duration} late` : `${duration} early`;
+};
+
+export const OrderTracking: React.FC = () => {
+  const { orderId = '' } = useParams<{ orderId: string }>();
+  const { data: order } = useOrder(orderId);
+  const {
+    data: tracking,
+    isLoading,
+    error,
+    refetch,
+    connectionMode,
+  } = useLiveOrderTracking(orderId);
+
+  if (isLoading) {
+    return (
+      <div className="p-8">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error || !tracking) {
+    return (
+      <EmptyState
+        title="Tracking unavailable"
+        description="We couldn't load tracking for this order. It may have been removed or you may not have access to it."
+        action={
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        }
+      />
+    );
+  }
+
+  const timing = describeDeliveryTiming(tracking);
+  const isDelivered = tracking.status === 'delivered';
+  const isCancelled = tracking.status === 'cancelled';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <Link
+            to={RESTAURANT_ROUTES.ORDERS}
+            className="inline-flex items-center gap-2 text-sm text-text-muted hover:text-bottle-green mb-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Orders
+          </Link>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold text-text-dark">
+              {order ? `Order #${order.orderNumber}` : 'Track Order'}
+            </h1>
+            <OrderStatusBadge status={tracking.status} />
+            {order?.approval && <OrderApprovalBadge status={order.approval.status} />}
+          </div>
+          {order && (
+            <p className="text-text-muted mt-1">
+              From {order.vendor.vendor?.businessName || order.vendor.name} · placed{' '}
+              {DateFormatter.formatDateTime(order.createdAt)}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          {!isDelivered && !isCancelled && (
+            <span
+              className={cn(
+                'inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium',
+                connectionStyles[connectionMode]
+              )}
+              aria-live="polite"
+            >
+              {connectionMode === 'offline' ? (
+                <WifiOff className="w-4 h-4" />
+              ) : (
+                <Radio className={cn('w-4 h-4', connectionMode === 'live' && 'animate-pulse')} />
+              )}
+              {connectionLabels[connectionMode]}
+            </span>
+          )}
+          <Link to={RESTAURANT_ROUTES.ORDER_INVOICE(orderId)}>
+            <Button variant="outline" size="sm" leftIcon={<FileText className="w-4 h-4" />}>
+              Invoice
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {order?.approval && order.approval.status !== 'approved' && (
+        <div
+          className={cn(
+            'flex items-start gap-3 p-4 rounded-2xl text-sm',
+            order.approval.status === 'rejected'
+              ? 'bg-tomato-red/10 text-tomato-red'
+              : 'bg-earthy-yellow/10 text-earthy-brown'
+          )}
+        >
+          <ClipboardCheck className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          {order.approval.status === 'rejected' ? (
+            <p>
+              {order.approval.reviewedBy?.name ?? 'The owner'} rejected this order
+              {order.approval.rejectionReason && <>: {order.approval.rejectionReason}</>}
+            </p>
+          ) : (
+            <p>
+              This order is above the {CurrencyFormatter.formatBDT(order.approval.spendLimit)} spend
+              limit and will be sent to the vendor once the owner approves it.
+            </p>
+          )}
+        </div>
+      )}
+      {order?.approval?.originalTotalAmount !== undefined && (
+        <p className="text-sm text-text-muted">
+          The owner changed quantities when approving, from{' '}
+          {CurrencyFormatter.formatBDT(order.approval.originalTotalAmount)} to{' '}
+          {CurrencyFormatter.formatBDT(order.totalAmount)}.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+        {/* Timeline */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-xl">Status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <OrderTimeline tracking={tracking} />
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          {order && canPayOrderByMobileBanking(order) && <MobileBankingPaymentCard order={order} />}
+
+          {/* Delivery time */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl flex items-center gap-2">
+                <Clock className="w-5 h-5 text-bottle-green" />
+                Delivery
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="space-y-3 text-sm">
+                {order?.deliveryDate && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-text-muted">Requested</dt>
+                    <dd className="text-right text-text-dark">
+                      {DateFormatter.formatDate(order.deliveryDate)}
+                      {order.deliveryTimeSlot && <> · {order.deliveryTimeSlot}</>}
+                    </dd>
+                  </div>
+                )}
+                <div className="flex justify-between gap-4">
+                  <dt className="text-text-muted">Estimated</dt>
+                  <dd className="text-right text-text-dark">
+                    {tracking.estimatedDelivery
+                      ? DateFormatter.formatDateTime(tracking.estimatedDelivery)
+                      : 'Not yet estimated'}
+                  </dd>
+                </div>
+                {tracking.actualDelivery && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-text-muted">Delivered</dt>
+                    <dd className="text-right text-text-dark">
+                      {DateFormatter.formatDateTime(tracking.actualDelivery)}
+                    </dd>
+                  </div>
+                )}
+              </dl>
+              {timing && (
+                <p
+                  className={cn(
+                    'mt-4 px-3 py-2 rounded-xl text-sm font-medium',
+                    timing.endsWith('late')
+                      ? 'bg-earthy-yellow/20 text-earthy-brown'
+                      : 'bg-mint-fresh/20 text-bottle-green'
+                  )}
+                >
+                  {timing}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Delivery person */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl flex items-center gap-2">
+                <Truck className="w-5 h-5 text-bottle-green" />
+                Delivery Person
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {tracking.deliveryPerson ? (
+                <div className="space-y-3 text-sm">
+                  <p className="flex items-center gap-2 font-medium text-text-dark">
+                    <User className="w-4 h-4 text-text-muted" />
+                    {tracking.deliveryPerson.name}
+                  </p>
+                  {tracking.deliveryPerson.vehicle && (
+                    <p className="text-text-muted">{tracking.deliveryPerson.vehicle}</p>
+                  )}
+                  <a
+                    href={`tel:${tracking.deliveryPerson.phone}`}
+                    className="inline-flex items-center gap-2 text-bottle-green hover:underline"
+                  >
+                    <Phone className="w-4 h-4" />
+                    {tracking.deliveryPerson.phone}
+                  </a>
+                </div>
+              ) : (
+                <p className="text-sm text-text-muted">
+                  {isCancelled
+                    ? 'This order was cancelled before delivery.'
+                    : 'A delivery person will be assigned once the vendor dispatches your order.'}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderTracking;
@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AlertCircle, CheckCircle2, Clock, XCircle } from 'lucide-react';
+import { Button, Card, EmptyState, LoadingSpinner } from '@/components/ui';
+import { useOrder } from '@/hooks/useOrders';
+import { usePaymentVerification, useStartMobilePayment } from '@/hooks/usePayments';
+import { MOBILE_WALLET_LABELS, RESTAURANT_ROUTES } from '@/constants';
+import { PaymentSession } from '@/types';
+import { CurrencyFormatter, parsePaymentCallback } from '@/utils';
+
+const resultContent = (
+  session: PaymentSession
+): { icon: React.ReactNode; title: string; description: string } => {
+  const wallet = MOBILE_WALLET_LABELS[session.provider];
+  switch (session.status) {
+    case 'completed':
+      return {
+        icon: <CheckCircle2 className="w-12 h-12 text-bottle-green" />,
+        title: 'Payment received',
+        description: `${CurrencyFormatter.formatBDT(session.amount)} was paid with ${wallet}.`,
+      };
+    case 'failed':
+      return {
+        icon: <XCircle className="w-12 h-12 text-tomato-red" />,
+        title: 'Payment failed',
+        description: session.failureReason || `${wallet} could not complete the payment.`,
+      };
+    case 'cancelled':
+      return {
+        icon: <AlertCircle className="w-12 h-12 text-earthy-brown" />,
+        title: 'Payment cancelled',
+        description: 'You left the wallet before paying. Nothing was charged.',
+      };
+    default:
+      return {
+        icon: <Clock className="w-12 h-12 text-earthy-brown" />,
+        title: 'Payment processing',
+        description: `${wallet} is still confirming the payment. Check again in a moment.`,
+      };
+  }
+};
+
+/**
+ * Where the wallet sends the customer back after paying. Verifies the result,
+ * and offers a retry when the payment failed or was cancelled.
+ */
+export const PaymentCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const callback = useMemo(() => parsePaymentCallback(searchParams), [searchParams]);
+  const { data: session, isLoading, error, refetch, isFetching } = usePaymentVerification(callback);
+  const { data: order } = useOrder(session?.orderId ?? '');
+  const retryMutation = useStartMobilePayment();
+
+  if (!callback) {
+    return (
+      <EmptyState
+        icon={<AlertCircle className="w-12 h-12" />}
+        title="Invalid payment link"
+        description="This page is opened by your mobile wallet after a payment."
+        action={
+          <Link to={RESTAURANT_ROUTES.ORDERS}>
+            <Button variant="outline">View My Orders</Button>
+          </Link>
+        }
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="py-12 space-y-4 text-center">
+        <LoadingSpinner size="lg" />
+        <p className="text-text-muted">Confirming your payment...</p>
+      </div>
+    );
+  }
+
+  if (error || !session) {
+    return (
+      <EmptyState
+        icon={<AlertCircle className="w-12 h-12" />}
+        title="We couldn't confirm your payment"
+        description="If money left your wallet, it will be matched to your order automatically."
+        action={
+          <Button variant="outline" onClick={() => refetch()}>
+            Try Again
+          </Button>
+        }
+      />
+    );
+  }
+
+  const { icon, title, description } = resultContent(session);
+  const canRetry = session.status === 'failed' || session.status === 'cancelled';
+
+  return (
+    <div className="max-w-lg mx-auto">
+      <Card className="text-center space-y-4">
+        <div className="flex justify-center">{icon}</div>
+        <div>
+          <h1 className="text-2xl font-bold text-text-dark">{title}</h1>
+          <p className="text-text-muted">{description}</p>
+        </div>
+        <dl className="text-sm space-y-1">
+          <div className="flex justify-between gap-4">
+            <dt className="text-text-muted">Order</dt>
+            <dd>#{session.orderNumber}</dd>
+          </div>
+          {session.transactionId && (
+            <div className="flex justify-between gap-4">
+              <dt className="text-text-muted">Transaction ID</dt>
+              <dd className="font-mono">{session.transactionId}</dd>
+            </div>
+          )}
+        </dl>
+
+        <div className="flex flex-col sm:flex-row justify-center gap-3 pt-2">
+          <Link to={RESTAURANT_ROUTES.ORDER_TRACKING(session.orderId)}>
+            <Button variant="outline" fullWidth>
+              View Order
+            </Button>
+          </Link>
+          {session.status === 'pending' && (
+            <Button onClick={() => refetch()} loading={isFetching}>
+              Check Again
+            </Button>
+          )}
+          {canRetry && order && (
+            <Button
+              onClick={() => retryMutation.mutate({ order, provider: session.provider })}
+              loading={retryMutation.isPending}
+            >
+              Retry with {MOBILE_WALLET_LABELS[session.provider]}
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default PaymentCallback;
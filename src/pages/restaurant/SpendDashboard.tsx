@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, BarChart3 } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  EmptyState,
+  FormField,
+  LoadingSpinner,
+} from '@/components/ui';
+import { useBranches, useSpendReportOrders } from '@/hooks/useBranches';
+import { BranchSpend, SpendComparisonRow, SpendReport, SpendReportFilters } from '@/types';
+import { buildSpendReport, CurrencyFormatter, DateFormatter, getDefaultSpendRange } from '@/utils';
+
+const fieldClass =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-bottle-green/20';
+
+const SummaryTile: React.FC<{ label: string; value: string; detail?: string }> = ({
+  label,
+  value,
+  detail,
+}) => (
+  <Card>
+    <p className="text-sm text-text-muted">{label}</p>
+    <p className="text-2xl font-bold text-text-dark">{value}</p>
+    {detail && <p className="text-xs text-text-muted">{detail}</p>}
+  </Card>
+);
+
+// Each branch's spend as a bar scaled to the busiest branch
+const BranchComparisonCard: React.FC<{ report: SpendReport }> = ({ report }) => {
+  const highest = report.branches[0]?.total || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>By Branch</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.branches.map(branch => (
+          <div key={branch.id} className="space-y-1">
+            <div className="flex items-baseline justify-between gap-4 text-sm">
+              <span className="font-medium text-text-dark">{branch.name}</span>
+              <span className="text-text-dark">
+                {CurrencyFormatter.formatBDT(branch.total)}
+                <span className="ml-2 text-xs text-text-muted">
+                  {branch.orderCount} {branch.orderCount === 1 ? 'order' : 'orders'}
+                </span>
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-bottle-green"
+                style={{ width: `${highest > 0 ? (branch.total / highest) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+const ComparisonTable: React.FC<{
+  title: string;
+  label: string;
+  rows: SpendComparisonRow[];
+  branches: BranchSpend[];
+}> = ({ title, label, rows, branches }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>{title}</CardTitle>
+    </CardHeader>
+    <CardContent className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-text-muted">
+            <th className="py-2 font-medium">{label}</th>
+            {branches.map(branch => (
+              <th key={branch.id} className="py-2 font-medium text-right">
+                {branch.name}
+              </th>
+            ))}
+            <th className="py-2 font-medium text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map(row => (
+            <tr key={row.id}>
+              <td className="py-2 font-medium text-text-dark">{row.name}</td>
+              {branches.map(branch => (
+                <td key={branch.id} className="py-2 text-right">
+                  {row.byBranch[branch.id] ? (
+                    CurrencyFormatter.formatBDT(row.byBranch[branch.id] || 0)
+                  ) : (
+                    <span className="text-text-muted">—</span>
+                  )}
+                </td>
+              ))}
+              <td className="py-2 text-right font-medium text-text-dark">
+                {CurrencyFormatter.formatBDT(row.total)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </CardContent>
+  </Card>
+);
+
+/**
+ * Owner's consolidated spend across every branch, compared by branch,
+ * product category and vendor.
+ */
+export const SpendDashboard: React.FC = () => {
+  const [filters, setFilters] = useState<SpendReportFilters>(getDefaultSpendRange);
+  const { data: branches = [] } = useBranches();
+  const { data: orders = [], isLoading, error, refetch } = useSpendReportOrders(filters);
+
+  const report = useMemo(() => buildSpendReport(orders, branches), [orders, branches]);
+  const topVendor = report.vendors[0];
+
+  const renderReport = () => {
+    if (isLoading) {
+      return (
+        <div className="flex justify-center py-16">
+          <LoadingSpinner size="lg" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <EmptyState
+          icon={<AlertTriangle className="w-12 h-12" />}
+          title="Failed to load spend"
+          action={
+            <Button variant="outline" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        />
+      );
+    }
+
+    if (report.orderCount === 0) {
+      return (
+        <EmptyState
+          icon={<BarChart3 className="w-12 h-12" />}
+          title="No spend in this range"
+          description="Widen the date range to compare your branches"
+        />
+      );
+    }
+
+    return (
+      <>
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <SummaryTile label="Total Spend" value={CurrencyFormatter.formatBDT(report.total)} />
+          <SummaryTile label="Orders" value={String(report.orderCount)} />
+          <SummaryTile
+            label="Average Order"
+            value={CurrencyFormatter.formatBDT(report.total / report.orderCount)}
+          />
+          {topVendor && (
+            <SummaryTile
+              label="Top Vendor"
+              value={topVendor.name}
+              detail={CurrencyFormatter.formatBDT(topVendor.total)}
+            />
+          )}
+        </div>
+        <BranchComparisonCard report={report} />
+        <ComparisonTable
+          title="By Category"
+          label="Category"
+          rows={report.categories}
+          branches={report.branches}
+        />
+        <ComparisonTable
+          title="By Vendor"
+          label="Vendor"
+          rows={report.vendors}
+          branches={report.branches}
+        />
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-text-dark mb-2">Spend Report</h1>
+        <p className="text-text-muted">
+          Compare what each branch spends, on which categories and with which vendors
+        </p>
+      </div>
+
+      <Card>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField label="Ordered from">
+            <input
+              type="date"
+              value={filters.dateFrom}
+              max={filters.dateTo}
+              onChange={e => e.target.value && setFilters({ ...filters, dateFrom: e.target.value })}
+              className={fieldClass}
+            />
+          </FormField>
+          <FormField label="Ordered to">
+            <input
+              type="date"
+              value={filters.dateTo}
+              min={filters.dateFrom}
+              max={DateFormatter.toDateInputValue(new Date())}
+              onChange={e => e.target.value && setFilters({ ...filters, dateTo: e.target.value })}
+              className={fieldClass}
+            />
+          </FormField>
+        </div>
+      </Card>
+
+      {renderReport()}
+    </div>
+  );
+};
+
+export default SpendDashboard;
@@ -0,0 +1,383 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  AlertTriangle,
+  CalendarClock,
+  CheckCircle2,
+  Pause,
+  Pencil,
+  Play,
+  Repeat,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  ConfirmDialog,
+  EmptyState,
+  LoadingSpinner,
+} from '@/components/ui';
+import { OccurrenceOverrideModal, StandingOrderFormModal } from '@/components/standingOrders';
+import {
+  useDeleteStandingOrder,
+  usePlaceStandingOrder,
+  useResetOccurrence,
+  useStandingOrderAvailability,
+  useStandingOrders,
+  useUpdateOccurrence,
+  useUpdateStandingOrder,
+} from '@/hooks/useStandingOrders';
+import {
+  RESTAURANT_ROUTES,
+  STANDING_ORDER_LOOKAHEAD_DAYS,
+  WEEKDAY_LABELS,
+  WEEKDAY_ORDER,
+} from '@/constants';
+import { StandingOrder, StandingOrderOccurrence } from '@/types';
+import { DateFormatter, getUpcomingOccurrences, NumberFormatter } from '@/utils';
+import { cn } from '@/utils/cn';
+
+const getVendorName = (standingOrder: StandingOrder): string =>
+  standingOrder.vendor.vendor?.businessName || standingOrder.vendor.name;
+
+const formatSchedule = (standingOrder: StandingOrder): string =>
+  WEEKDAY_ORDER.filter(weekday => standingOrder.schedule.includes(weekday))
+    .map(weekday => WEEKDAY_LABELS[weekday].slice(0, 3))
+    .join(', ');
+
+export const StandingOrders: React.FC = () => {
+  const { data: standingOrders = [], isLoading, error, refetch } = useStandingOrders();
+  const availability = useStandingOrderAvailability(standingOrders);
+
+  const updateStandingOrder = useUpdateStandingOrder();
+  const deleteStandingOrder = useDeleteStandingOrder();
+  const updateOccurrence = useUpdateOccurrence();
+  const resetOccurrence = useResetOccurrence();
+  const placeStandingOrder = usePlaceStandingOrder();
+
+  const [editing, setEditing] = useState<StandingOrder | null>(null);
+  const [deleting, setDeleting] = useState<StandingOrder | null>(null);
+  const [adjusting, setAdjusting] = useState<StandingOrderOccurrence | null>(null);
+
+  const occurrences = useMemo(
+    () => getUpcomingOccurrences(standingOrders, STANDING_ORDER_LOOKAHEAD_DAYS),
+    [standingOrders]
+  );
+
+  const toggleSkip = (occurrence: StandingOrderOccurrence) => {
+    const exception = occurrence.standingOrder.exceptions.find(
+      entry => entry.date === occurrence.date
+    );
+    updateOccurrence.mutate({
+      id: occurrence.standingOrder.id,
+      date: occurrence.date,
+      data: {
+        skipped: !occurrence.skipped,
+        ...(exception?.quantityOverrides && { quantityOverrides: exception.quantityOverrides }),
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-16">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <EmptyState
+        title="Failed to load standing orders"
+        action={
+          <Button variant="outline" onClick={() => refetch()}>
+            Retry
+          </Button>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-text-dark mb-2">Standing Orders</h1>
+        <p className="text-text-muted">
+          Recurring deliveries and the orders scheduled for the next {STANDING_ORDER_LOOKAHEAD_DAYS}{' '}
+          days
+        </p>
+      </div>
+
+      {standingOrders.length === 0 ? (
+        <EmptyState
+          icon={<Repeat className="w-12 h-12" />}
+          title="No standing orders yet"
+          description="Add produce to your cart, then save a vendor's items as a standing order to have them delivered every week."
+          action={
+            <Link to={RESTAURANT_ROUTES.CART}>
+              <Button>Go to Cart</Button>
+            </Link>
+          }
+        />
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+          {/* Templates */}
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold text-text-dark">Templates</h2>
+            {standingOrders.map(standingOrder => (
+              <Card key={standingOrder.id} className={cn(!standingOrder.isActive && 'opacity-75')}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <CardTitle className="text-lg">{standingOrder.name}</CardTitle>
+                      <p className="text-sm text-text-muted">
+                        {getVendorName(standingOrder)} · {formatSchedule(standingOrder)} ·{' '}
+                        {standingOrder.deliveryTimeSlot}
+                      </p>
+                      {!standingOrder.isActive && (
+                        <p className="text-xs font-medium text-earthy-brown mt-1">Paused</p>
+                      )}
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditing(standingOrder)}
+                        aria-label={`Edit ${standingOrder.name}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() =>
+                          updateStandingOrder.mutate({
+                            id: standingOrder.id,
+                            data: { isActive: !standingOrder.isActive },
+                          })
+                        }
+                        aria-label={`${standingOrder.isActive ? 'Pause' : 'Resume'} ${standingOrder.name}`}
+                      >
+                        {standingOrder.isActive ? (
+                          <Pause className="w-4 h-4" />
+                        ) : (
+                          <Play className="w-4 h-4" />
+                        )}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-tomato-red hover:bg-tomato-red/5 hover:text-tomato-red"
+                        onClick={() => setDeleting(standingOrder)}
+                        aria-label={`Delete ${standingOrder.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2 text-sm">
+                    {standingOrder.items.map(item => {
+                      const issue = availability.getItemIssue(item);
+                      return (
+                        <li key={item.listing.id} className="flex justify-between gap-3">
+                          <span className={cn('text-text-dark', issue && 'text-earthy-brown')}>
+                            {issue && <AlertTriangle className="inline w-4 h-4 mr-1 -mt-0.5" />}
+                            {item.listing.product.name}
+                            {issue && (
+                              <span className="block text-xs text-text-muted">{issue.message}</span>
+                            )}
+                          </span>
+                          <span className="text-text-muted flex-shrink-0">
+                            {NumberFormatter.formatQuantity(
+                              item.quantity,
+                              item.listing.product.unit
+                            )}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </CardContent>
+              </Card>
+            ))}
+          </section>
+
+          {/* Upcoming deliveries */}
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold text-text-dark">Upcoming Deliveries</h2>
+            {occurrences.length === 0 ? (
+              <EmptyState
+                size="sm"
+                icon={<CalendarClock className="w-10 h-10" />}
+                title="Nothing scheduled"
+                description="Active standing orders will show their upcoming deliveries here."
+              />
+            ) : (
+              <ul className="space-y-3">
+                {occurrences.map(occurrence => {
+                  const { standingOrder } = occurrence;
+                  const issues = occurrence.items
+                    .map(item => availability.getItemIssue(item, item.quantity))
+                    .filter(issue => issue !== null);
+                  const isPlaced = !!occurrence.orderId;
+                  const isPlacing =
+                    placeStandingOrder.isPending &&
+                    placeStandingOrder.variables?.standingOrder.id === standingOrder.id &&
+                    placeStandingOrder.variables?.date === occurrence.date;
+
+                  return (
+                    <li
+                      key={`${standingOrder.id}-${occurrence.date}`}
+                      className={cn(
+                        'p-4 bg-white rounded-2xl border border-gray-100 shadow-sm space-y-3',
+                        occurrence.skipped && 'opacity-60'
+                      )}
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <p className="font-semibold text-text-dark">
+                            {DateFormatter.formatDate(occurrence.date)}
+                          </p>
+                          <p className="text-sm text-text-muted">
+                            {standingOrder.name} · {getVendorName(standingOrder)} ·{' '}
+                            {standingOrder.deliveryTimeSlot}
+                          </p>
+                        </div>
+                        <div className="flex flex-wrap justify-end gap-1 text-xs font-medium">
+                          {occurrence.skipped && (
+                            <span className="px-2 py-1 rounded-full bg-gray-100 text-text-muted">
+                              Skipped
+                            </span>
+                          )}
+                          {occurrence.hasOverrides && (
+                            <span className="px-2 py-1 rounded-full bg-earthy-yellow/20 text-earthy-brown">
+                              Adjusted
+                            </span>
+                          )}
+                          {occurrence.orderId && (
+                            <Link
+                              to={RESTAURANT_ROUTES.ORDER_TRACKING(occurrence.orderId)}
+                              className="px-2 py-1 rounded-full bg-mint-fresh/20 text-bottle-green flex items-center gap-1 hover:bg-mint-fresh/30"
+                            >
+                              <CheckCircle2 className="w-3 h-3" />
+                              Order placed
+                            </Link>
+                          )}
+                        </div>
+                      </div>
+
+                      <p className="text-sm text-text-muted">
+                        {occurrence.items
+                          .map(
+                            item =>
+                              `${item.listing.product.name} ${NumberFormatter.formatQuantity(item.quantity, item.listing.product.unit)}`
+                          )
+                          .join(', ')}
+                      </p>
+
+                      {!occurrence.skipped && !isPlaced && issues.length > 0 && (
+                        <div className="p-3 rounded-xl bg-earthy-yellow/10 text-sm text-earthy-brown space-y-1">
+                          {issues.map(issue => (
+                            <p key={issue.item.listing.id} className="flex items-start gap-2">
+                              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                              {issue.item.listing.product.name}: {issue.message}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+
+                      {!isPlaced && (
+                        <div className="flex flex-wrap justify-end gap-2">
+                          {(occurrence.skipped || occurrence.hasOverrides) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              leftIcon={<RotateCcw className="w-3 h-3" />}
+                              onClick={() =>
+                                resetOccurrence.mutate({
+                                  id: standingOrder.id,
+                                  date: occurrence.date,
+                                })
+                              }
+                            >
+                              Reset
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => toggleSkip(occurrence)}
+                          >
+                            {occurrence.skipped ? 'Unskip' : 'Skip'}
+                          </Button>
+                          {!occurrence.skipped && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setAdjusting(occurrence)}
+                              >
+                                Adjust
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => placeStandingOrder.mutate(occurrence)}
+                                disabled={
+                                  issues.length > 0 ||
+                                  availability.isChecking ||
+                                  placeStandingOrder.isPending
+                                }
+                                loading={isPlacing}
+                              >
+                                Place Now
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      )}
+
+      <StandingOrderFormModal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        standingOrder={editing}
+      />
+
+      <OccurrenceOverrideModal
+        isOpen={!!adjusting}
+        onClose={() => setAdjusting(null)}
+        occurrence={adjusting}
+      />
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        onClose={() => setDeleting(null)}
+        onConfirm={() => {
+          if (deleting) deleteStandingOrder.mutate(deleting.id);
+          setDeleting(null);
+        }}
+        title="Delete standing order?"
+        message={`"${deleting?.name}" will stop generating orders. Orders already placed are not affected.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default StandingOrders;
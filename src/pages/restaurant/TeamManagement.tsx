@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Phone, ShieldCheck, UserMinus, UserPlus, Users } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  ConfirmDialog,
+  EmptyState,
+  LoadingSpinner,
+} from '@/components/ui';
+import { InviteManagerModal, ManagerScopeModal } from '@/components/team';
+import { useBranches } from '@/hooks/useBranches';
+import { useRevokeManager, useTeamMembers } from '@/hooks/useTeam';
+import { RestaurantBranch, TeamMember } from '@/types';
+import { CurrencyFormatter, DateFormatter } from '@/utils';
+import { cn } from '@/utils/cn';
+
+// Branch names are only worth listing once the restaurant has more than one
+const describeBranches = (member: TeamMember, branches: RestaurantBranch[]): string[] => {
+  if (branches.length < 2) return [];
+  const names = branches
+    .filter(branch => member.scope.branchIds.includes(branch.id))
+    .map(branch => branch.name);
+  return [names.length > 0 ? `Orders for ${names.join(', ')}` : 'Orders for every branch'];
+};
+
+const describeScope = (member: TeamMember, branches: RestaurantBranch[]): string[] => [
+  member.scope.spendLimit === null
+    ? 'No spend limit'
+    : `Up to ${CurrencyFormatter.formatBDT(member.scope.spendLimit)} per order`,
+  member.scope.canCancelOrders ? 'Can cancel orders' : 'Cannot cancel orders',
+  member.scope.canManageStandingOrders ? 'Manages standing orders' : 'No standing orders',
+  ...describeBranches(member, branches),
+];
+
+export const TeamManagement: React.FC = () => {
+  const { data: members = [], isLoading, error, refetch } = useTeamMembers();
+  const { data: branches = [] } = useBranches();
+  const revokeMutation = useRevokeManager();
+
+  const [isInviting, setIsInviting] = useState(false);
+  const [editing, setEditing] = useState<TeamMember | null>(null);
+  const [revoking, setRevoking] = useState<TeamMember | null>(null);
+
+  const handleRevoke = () => {
+    if (!revoking) return;
+    revokeMutation.mutate(revoking, { onSuccess: () => setRevoking(null) });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-dark mb-2">Team</h1>
+          <p className="text-text-muted">
+            Managers order for your restaurant within the limits you set
+          </p>
+        </div>
+        <Button leftIcon={<UserPlus className="w-4 h-4" />} onClick={() => setIsInviting(true)}>
+          Add Manager
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <EmptyState
+          icon={<AlertTriangle className="w-12 h-12" />}
+          title="Failed to load your team"
+          action={
+            <Button variant="outline" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        />
+      ) : members.length === 0 ? (
+        <EmptyState
+          icon={<Users className="w-12 h-12" />}
+          title="No managers yet"
+          description="Add a manager so someone else can place day-to-day orders"
+          action={
+            <Button leftIcon={<UserPlus className="w-4 h-4" />} onClick={() => setIsInviting(true)}>
+              Add Manager
+            </Button>
+          }
+        />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {members.map(member => (
+            <Card key={member.id}>
+              <CardContent className="space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-10 h-10 bg-gradient-secondary rounded-full flex items-center justify-center flex-shrink-0">
+                      <span className="text-white font-medium text-sm">
+                        {member.name.charAt(0).toUpperCase()}
+                      </span>
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-text-dark truncate">{member.name}</p>
+                      <p className="flex items-center gap-1 text-sm text-text-muted">
+                        <Phone className="w-3 h-3" />
+                        {member.phone}
+                      </p>
+                    </div>
+                  </div>
+                  <span
+                    className={cn(
+                      'px-2 py-1 rounded-full text-xs font-medium flex-shrink-0',
+                      member.status === 'active'
+                        ? 'bg-mint-fresh/20 text-bottle-green'
+                        : 'bg-earthy-yellow/20 text-earthy-brown'
+                    )}
+                  >
+                    {member.status === 'active' ? 'Active' : 'Invited'}
+                  </span>
+                </div>
+
+                <ul className="space-y-1 text-sm text-text-dark">
+                  {describeScope(member, branches).map(line => (
+                    <li key={line} className="flex items-center gap-2">
+                      <ShieldCheck className="w-4 h-4 text-bottle-green flex-shrink-0" />
+                      {line}
+                    </li>
+                  ))}
+                </ul>
+
+                <p className="text-xs text-text-muted">
+                  {member.lastActiveAt
+                    ? `Last active ${DateFormatter.formatRelativeTime(member.lastActiveAt)}`
+                    : `Added ${DateFormatter.formatDate(member.invitedAt)}`}
+                </p>
+
+                <div className="flex gap-2 pt-2 border-t border-gray-100">
+                  <Button size="sm" variant="outline" onClick={() => setEditing(member)}>
+                    Edit Permissions
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    leftIcon={<UserMinus className="w-4 h-4" />}
+                    onClick={() => setRevoking(member)}
+                    className="text-tomato-red"
+                  >
+                    Revoke Access
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <InviteManagerModal isOpen={isInviting} onClose={() => setIsInviting(false)} />
+      <ManagerScopeModal member={editing} onClose={() => setEditing(null)} />
+
+      <ConfirmDialog
+        isOpen={Boolean(revoking)}
+        onClose={() => setRevoking(null)}
+        onConfirm={handleRevoke}
+        title="Revoke Access"
+        message={`${revoking?.name} will be signed out and can no longer order for your restaurant. Orders they already placed are kept.`}
+        confirmText="Revoke Access"
+        variant="danger"
+        loading={revokeMutation.isPending}
+      />
+    </div>
+  );
+};
+
+export default TeamManagement;
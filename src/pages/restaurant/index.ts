@@ -1,4 +1,15 @@
 // Restaurant dashboard and features
 // export * from './RestaurantDashboard';
-// export * from './BrowseProducts';
-// export * from './OrderHistory';
\ No newline at end of file
+export * from './BrowseProducts';
+export * from './Cart';
+export * from './Checkout';
+export * from './StandingOrders';
+export * from './AddressBook';
+export * from './Branches';
+export * from './SpendDashboard';
+export * from './OrderTracking';
+export * from './TeamManagement';
+export * from './OrderApprovals';
+// export * from './OrderHistory';
+export * from './PaymentCallback';
+export * from './MockWallet';
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { PhoneValidator } from '@/utils';
+import { AddressFormatter, PhoneValidator } from '@/utils';
 import { USER_ROLES } from '@/constants';
 
 // Phone validation schema
@@ -40,19 +40,29 @@ const businessNameSchema = z
   .max(100, 'Business name must not exceed 100 characters')
   .regex(/^[a-zA-Z0-9\s\.\-\_\&]+$/, 'Business name contains invalid characters');
 
-// Address schema
-const addressSchema = z.object({
-  street: z.string().min(1, 'Street address is required'),
-  city: z.string().min(1, 'City is required'),
-  area: z.string().min(1, 'Area is required'),
-  postalCode: z.string().min(1, 'Postal code is required'),
-  coordinates: z
-    .object({
-      latitude: z.number().min(-90).max(90),
-      longitude: z.number().min(-180).max(180),
-    })
-    .optional(),
-});
+// Address schema - checked against the Bangladesh location dataset
+const addressSchema = z
+  .object({
+    street: z.string(),
+    city: z.string(),
+    area: z.string(),
+    postalCode: z.string(),
+    division: z.string().optional(),
+    district: z.string().optional(),
+    upazila: z.string().optional(),
+    coordinates: z
+      .object({
+        latitude: z.number().min(-90).max(90),
+        longitude: z.number().min(-180).max(180),
+      })
+      .optional(),
+  })
+  .superRefine((address, ctx) => {
+    const { errors } = AddressFormatter.validateAddress(address);
+    Object.entries(errors).forEach(([field, message]) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+    });
+  });
 
 // Login schema
 export const loginSchema = z.object({
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { DateFormatter } from '@/utils';
+
+const listingFields = z.object({
+  product: z
+    .string({ error: 'Select the product you are selling' })
+    .min(1, 'Select the product you are selling'),
+  price: z
+    .number({ error: 'Price is required' })
+    .positive('Price must be greater than 0')
+    .max(1000000, 'Price looks too high'),
+  availableQuantity: z
+    .number({ error: 'Available quantity is required' })
+    .min(0, 'Quantity cannot be negative'),
+  minOrderQuantity: z.number().positive('Minimum order must be greater than 0').optional(),
+  maxOrderQuantity: z.number().positive('Maximum order must be greater than 0').optional(),
+  description: z.string().max(1000, 'Description must not exceed 1000 characters').optional(),
+  images: z.array(z.string()).min(1, 'Add at least one photo').max(8, 'Up to 8 photos'),
+  harvestDate: z.string().optional(),
+  expiryDate: z.string().optional(),
+  qualityGrade: z.enum(['A', 'B', 'C']).optional(),
+  organicCertified: z.boolean(),
+});
+
+// Cross-field rules shared by the editor and bulk import
+const checkListingRules = (
+  data: Pick<
+    z.infer<typeof listingFields>,
+    'minOrderQuantity' | 'maxOrderQuantity' | 'harvestDate' | 'expiryDate'
+  >,
+  ctx: z.RefinementCtx
+) => {
+  if (
+    data.minOrderQuantity &&
+    data.maxOrderQuantity &&
+    data.maxOrderQuantity < data.minOrderQuantity
+  ) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Maximum order must be at least the minimum order',
+      path: ['maxOrderQuantity'],
+    });
+  }
+  if (data.harvestDate && data.harvestDate > DateFormatter.toDateInputValue(new Date())) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Harvest date cannot be in the future',
+      path: ['harvestDate'],
+    });
+  }
+  if (data.harvestDate && data.expiryDate && data.harvestDate > data.expiryDate) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Expiry date must be on or after the harvest date',
+      path: ['expiryDate'],
+    });
+  }
+};
+
+// Listing create/edit form schema
+export const listingFormSchema = listingFields.superRefine(checkListingRules);
+
+// Spreadsheet import rows; photos can be added later in the editor
+export const listingImportSchema = listingFields
+  .extend({
+    images: z.array(z.string().url('Photo links must be full URLs')).max(8, 'Up to 8 photos'),
+  })
+  .superRefine(checkListingRules);
+
+export type ListingFormData = z.infer<typeof listingFormSchema>;
+export type ListingImportData = z.infer<typeof listingImportSchema>;
@@ -0,0 +1,54 @@
+import { api } from './api';
+import { ApiResponse, SaveAddressRequest, SavedAddress } from '@/types';
+
+export class AddressBookService {
+  /**
+   * Get the restaurant's saved delivery addresses
+   */
+  static async getAddresses(): Promise<SavedAddress[]> {
+    const response = await api.get<{ success: boolean; data: SavedAddress[] }>(
+      '/restaurant/addresses'
+    );
+    return response.data;
+  }
+
+  /**
+   * Add an address to the address book (owner only)
+   */
+  static async createAddress(data: SaveAddressRequest): Promise<SavedAddress> {
+    const response = await api.post<{ success: boolean; data: SavedAddress }>(
+      '/restaurant/addresses',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Change a saved address, its label or delivery notes (owner only)
+   */
+  static async updateAddress(id: string, data: SaveAddressRequest): Promise<SavedAddress> {
+    const response = await api.put<{ success: boolean; data: SavedAddress }>(
+      `/restaurant/addresses/${id}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Remove a saved address; orders already placed keep their copy of it
+   */
+  static async deleteAddress(id: string): Promise<ApiResponse> {
+    const response = await api.delete<ApiResponse>(`/restaurant/addresses/${id}`);
+    return response;
+  }
+
+  /**
+   * Make an address the one checkout starts with (owner only)
+   */
+  static async setDefaultAddress(id: string): Promise<SavedAddress> {
+    const response = await api.patch<{ success: boolean; data: SavedAddress }>(
+      `/restaurant/addresses/${id}/default`
+    );
+    return response.data;
+  }
+}
@@ -1,9 +1,37 @@
-import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { onlineManager } from '@tanstack/react-query';
+import { AUTH_CONFIG } from '@/constants';
+import { TokenManager } from '@/utils/auth';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000/api/v1';
 
+// Web Lock shared by all tabs so only one of them refreshes the session at a time
+const TOKEN_REFRESH_LOCK = 'aaroth-token-refresh';
+
+// Requests that must never wait for or trigger a token refresh
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+// Restaurant branch the request acts for; the API scopes carts, orders and teams by it
+const BRANCH_HEADER = 'X-Branch-Id';
+
+// Bounds for the proactive refresh timer; setTimeout overflows above ~24.8 days
+const MIN_TIMER_DELAY = 10 * 1000;
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { hasRetried?: boolean };
+
+/**
+ * Exchanges the stored refresh token for a new access token and stores it.
+ * Resolves to false when the session could not be renewed.
+ */
+export type TokenRefreshHandler = () => Promise<boolean>;
+
 class ApiClient {
   private client: AxiosInstance;
+  private refreshHandler: TokenRefreshHandler | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private branchId: string | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -15,16 +43,34 @@ class ApiClient {
     });
 
     this.setupInterceptors();
+
+    // Catch up on refreshes skipped while offline
+    onlineManager.subscribe((isOnline) => {
+      if (isOnline) this.scheduleRefresh();
+    });
   }
 
   private setupInterceptors(): void {
     // Request interceptor - Add auth token to all requests
     this.client.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        // Hold requests while the session is renewed instead of sending a token about to expire
+        const currentToken = this.getStoredToken();
+        // Offline there is no point renewing first; the request is sent (or queued) as it is
+        if (
+          this.canRefresh(config) &&
+          (this.refreshPromise || (onlineManager.isOnline() && this.isExpiringSoon(currentToken)))
+        ) {
+          await this.refreshSession(currentToken);
+        }
+
         const token = this.getStoredToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
+        if (this.branchId) {
+          config.headers[BRANCH_HEADER] = this.branchId;
+        }
         return config;
       },
       (error) => Promise.reject(error)
@@ -36,14 +82,95 @@ class ApiClient {
         // Return successful responses as-is
         return response;
       },
-      (error: AxiosError) => {
-        this.handleResponseError(error);
+      async (error: AxiosError) => {
+        const config = error.config as RetriableRequestConfig | undefined;
+
+        // Renew the session once and replay the request; concurrent 401s share the same refresh
+        const shouldRefresh =
+          error.response?.status === 401 && config && !config.hasRetried && this.canRefresh(config);
+
+        if (config && shouldRefresh) {
+          config.hasRetried = true;
+          const failedToken = String(config.headers.Authorization || '').replace(/^Bearer /, '');
+
+          if (await this.refreshSession(failedToken || null)) {
+            config.headers.Authorization = `Bearer ${this.getStoredToken()}`;
+            return this.client(config);
+          }
+        }
+
+        this.handleResponseError(error, !!shouldRefresh);
         return Promise.reject(error);
       }
     );
   }
 
-  private handleResponseError(error: AxiosError): void {
+  private canRefresh(config: InternalAxiosRequestConfig): boolean {
+    return (
+      !!this.refreshHandler &&
+      !!TokenManager.getRefreshToken() &&
+      !AUTH_ENDPOINTS.some((endpoint) => config.url?.startsWith(endpoint))
+    );
+  }
+
+  // Only JWTs with a readable expiry are renewed ahead of time
+  private isExpiringSoon(token: string | null): boolean {
+    const expiry = TokenManager.getTokenExpiry(token);
+    return expiry !== null && TokenManager.willTokenExpireSoon(token);
+  }
+
+  /**
+   * Run a single refresh for this tab. Other tabs are held off with a Web Lock,
+   * and a tab that waited for the lock reuses the token the winner stored.
+   */
+  private refreshSession(staleToken: string | null): Promise<boolean> {
+    if (this.refreshPromise) return this.refreshPromise;
+
+    const refresh = async (): Promise<boolean> => {
+      const currentToken = this.getStoredToken();
+      if (currentToken && currentToken !== staleToken && !this.isExpiringSoon(currentToken)) {
+        return true;
+      }
+      return this.refreshHandler ? this.refreshHandler() : false;
+    };
+    const runExclusive = async (): Promise<boolean> => {
+      const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+      if (!locks) return refresh();
+
+      const refreshed = await locks.request(TOKEN_REFRESH_LOCK, refresh);
+      return refreshed;
+    };
+
+    const refreshPromise = runExclusive()
+      .catch(() => false)
+      .finally(() => {
+        this.refreshPromise = null;
+        this.scheduleRefresh();
+      });
+    this.refreshPromise = refreshPromise;
+    return refreshPromise;
+  }
+
+  // Renew the session shortly before the access token expires, even while the app is idle
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+
+    const token = this.getStoredToken();
+    const expiry = TokenManager.getTokenExpiry(token);
+    if (!this.refreshHandler || !expiry || !TokenManager.getRefreshToken()) return;
+
+    const delay = expiry - AUTH_CONFIG.tokenRefreshThreshold - Date.now();
+    this.refreshTimer = setTimeout(
+      () => {
+        // A refresh that cannot reach the server waits for the connection instead
+        if (onlineManager.isOnline()) this.refreshSession(token);
+      },
+      Math.min(Math.max(delay, MIN_TIMER_DELAY), MAX_TIMER_DELAY)
+    );
+  }
+
+  private handleResponseError(error: AxiosError, refreshAttempted: boolean): void {
     const { response } = error;
     
     if (!response) {
@@ -57,7 +184,9 @@ class ApiClient {
 
     switch (status) {
       case 401:
-        // Unauthorized - clear token and redirect to login
+        // Unauthorized - if this request tried a refresh, the auth store has already logged out
+        // when the session could not be renewed; otherwise clear token and redirect to login
+        if (refreshAttempted) break;
         this.clearToken();
         if (typeof window !== 'undefined') {
           window.location.href = '/login';
@@ -85,20 +214,36 @@ class ApiClient {
   }
 
   private getStoredToken(): string | null {
-    if (typeof window === 'undefined') return null;
-    return localStorage.getItem('auth_token');
+    return TokenManager.getToken();
   }
 
   private clearToken(): void {
-    if (typeof window === 'undefined') return;
-    localStorage.removeItem('auth_token');
+    TokenManager.removeToken();
+    this.scheduleRefresh();
   }
 
   // Public API methods
   public setToken(token: string): void {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('auth_token', token);
-    }
+    TokenManager.setToken(token);
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Enable silent session renewal. The handler is called at most once at a time;
+   * requests made meanwhile wait for it and are then sent with the new token.
+   */
+  public setRefreshHandler(handler: TokenRefreshHandler | null): void {
+    this.refreshHandler = handler;
+    this.scheduleRefresh();
+  }
+
+  // Send later requests on behalf of this branch; null leaves the choice to the API
+  public setBranch(branchId: string | null): void {
+    this.branchId = branchId;
+  }
+
+  public getToken(): string | null {
+    return this.getStoredToken();
   }
 
   public removeToken(): void {
@@ -13,7 +13,9 @@ import {
   VerifyOtpRequest,
   TokenRefreshRequest,
   TokenRefreshResponse,
+  StreamTicketResponse,
   ApiResponse,
+  Address,
 } from '@/types';
 
 export class AuthService {
@@ -25,6 +27,7 @@ export class AuthService {
     const response = await api.post<{
       success: boolean;
       token: string;
+      refreshToken?: string;
       user: User;
     }>('/auth/login', {
       phone: credentials.phone,
@@ -34,6 +37,7 @@ export class AuthService {
     return {
       success: true,
       token: response.token,
+      ...(response.refreshToken && { refreshToken: response.refreshToken }),
       user: response.user,
     };
   }
@@ -46,6 +50,7 @@ export class AuthService {
     const response = await api.post<{
       success: boolean;
       token: string;
+      refreshToken?: string;
       user: User;
     }>('/auth/register', {
       phone: data.phone,
@@ -67,6 +72,7 @@ export class AuthService {
     return {
       success: true,
       token: response.token,
+      ...(response.refreshToken && { refreshToken: response.refreshToken }),
       user: response.user,
     };
   }
@@ -95,6 +101,16 @@ export class AuthService {
     return response.user;
   }
 
+  /**
+   * Update the business or restaurant address on the user's profile
+   */
+  static async updateAddress(address: Address): Promise<User> {
+    const response = await api.put<{ success: boolean; user: User }>('/auth/profile/address', {
+      address,
+    });
+    return response.user;
+  }
+
   /**
    * Change password
    */
@@ -143,6 +159,17 @@ export class AuthService {
     return response;
   }
 
+  /**
+   * Stream URL carrying a short-lived, single-use ticket instead of the access token.
+   * Request a new one for every connection attempt.
+   */
+  static async getStreamUrl(streamUrl: string): Promise<string> {
+    const response = await api.post<StreamTicketResponse>('/auth/stream-ticket');
+    const url = new URL(streamUrl);
+    url.searchParams.set('ticket', response.ticket);
+    return url.toString();
+  }
+
   /**
    * Verify phone number
    */
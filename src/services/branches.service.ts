@@ -0,0 +1,37 @@
+import { api } from './api';
+import { RestaurantBranch, SaveBranchRequest } from '@/types';
+
+export class BranchesService {
+  /**
+   * Get the branches the user can order for: all of them for the owner, the
+   * assigned ones for a manager
+   */
+  static async getBranches(): Promise<RestaurantBranch[]> {
+    const response = await api.get<{ success: boolean; data: RestaurantBranch[] }>(
+      '/restaurant/branches'
+    );
+    return response.data;
+  }
+
+  /**
+   * Open a new branch (owner only)
+   */
+  static async createBranch(data: SaveBranchRequest): Promise<RestaurantBranch> {
+    const response = await api.post<{ success: boolean; data: RestaurantBranch }>(
+      '/restaurant/branches',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Rename a branch or change its address (owner only)
+   */
+  static async updateBranch(id: string, data: SaveBranchRequest): Promise<RestaurantBranch> {
+    const response = await api.put<{ success: boolean; data: RestaurantBranch }>(
+      `/restaurant/branches/${id}`,
+      data
+    );
+    return response.data;
+  }
+}
@@ -0,0 +1,49 @@
+import { api } from './api';
+import {
+  CreditAccount,
+  CreditInvoice,
+  GrantCreditRequest,
+  UpdateCreditAccountRequest,
+} from '@/types';
+
+export class CreditService {
+  /**
+   * Get the signed-in vendor's or restaurant's credit accounts
+   */
+  static async getAccounts(): Promise<CreditAccount[]> {
+    const response = await api.get<{ success: boolean; data: CreditAccount[] }>('/credit/accounts');
+    return response.data;
+  }
+
+  /**
+   * Open a credit account for a restaurant (vendor only)
+   */
+  static async grantCredit(data: GrantCreditRequest): Promise<CreditAccount> {
+    const response = await api.post<{ success: boolean; data: CreditAccount }>(
+      '/credit/accounts',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Change a credit account's limit, terms or status (vendor only)
+   */
+  static async updateAccount(id: string, data: UpdateCreditAccountRequest): Promise<CreditAccount> {
+    const response = await api.patch<{ success: boolean; data: CreditAccount }>(
+      `/credit/accounts/${id}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Get the unpaid credit orders on an account, oldest due date first
+   */
+  static async getOpenInvoices(id: string): Promise<CreditInvoice[]> {
+    const response = await api.get<{ success: boolean; data: CreditInvoice[] }>(
+      `/credit/accounts/${id}/invoices`
+    );
+    return response.data;
+  }
+}
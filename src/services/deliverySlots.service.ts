@@ -0,0 +1,79 @@
+import { api } from './api';
+import {
+  ApiResponse,
+  CreateBlackoutDateRequest,
+  DeliveryBlackoutDate,
+  DeliveryDayAvailability,
+  DeliverySchedule,
+  DeliverySlot,
+  SaveDeliverySlotRequest,
+} from '@/types';
+
+export class DeliverySlotsService {
+  /**
+   * Get the signed-in vendor's weekly slots and blackout dates
+   */
+  static async getSchedule(): Promise<DeliverySchedule> {
+    const response = await api.get<{ success: boolean; data: DeliverySchedule }>(
+      '/vendor/delivery-slots'
+    );
+    return response.data;
+  }
+
+  /**
+   * Add a weekly delivery slot (vendor only)
+   */
+  static async createSlot(data: SaveDeliverySlotRequest): Promise<DeliverySlot> {
+    const response = await api.post<{ success: boolean; data: DeliverySlot }>(
+      '/vendor/delivery-slots',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Change a slot's times or capacity (vendor only)
+   */
+  static async updateSlot(id: string, data: SaveDeliverySlotRequest): Promise<DeliverySlot> {
+    const response = await api.put<{ success: boolean; data: DeliverySlot }>(
+      `/vendor/delivery-slots/${id}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Remove a slot; orders already booked into it keep their time window
+   */
+  static async deleteSlot(id: string): Promise<ApiResponse> {
+    const response = await api.delete<ApiResponse>(`/vendor/delivery-slots/${id}`);
+    return response;
+  }
+
+  /**
+   * Stop deliveries on a date (vendor only)
+   */
+  static async addBlackoutDate(data: CreateBlackoutDateRequest): Promise<DeliveryBlackoutDate> {
+    const response = await api.post<{ success: boolean; data: DeliveryBlackoutDate }>(
+      '/vendor/delivery-slots/blackout-dates',
+      data
+    );
+    return response.data;
+  }
+
+  static async removeBlackoutDate(id: string): Promise<ApiResponse> {
+    const response = await api.delete<ApiResponse>(`/vendor/delivery-slots/blackout-dates/${id}`);
+    return response;
+  }
+
+  /**
+   * Get a vendor's slots for a date with how much room each has left
+   */
+  static async getAvailability(vendorId: string, date: string): Promise<DeliveryDayAvailability> {
+    const response = await api.get<{ success: boolean; data: DeliveryDayAvailability }>(
+      `/vendors/${vendorId}/delivery-slots/availability`,
+      { date }
+    );
+    return response.data;
+  }
+}
@@ -0,0 +1,18 @@
+import { api } from './api';
+import { Address, Coordinates } from '@/types';
+
+export class GeocodingService {
+  /**
+   * Look up an address's coordinates. The API proxies the geocoding provider,
+   * so no map keys reach the browser. Returns null when nothing matched.
+   */
+  static async geocode(address: Address): Promise<Coordinates | null> {
+    const response = await api.post<{ success: boolean; data: Coordinates | null }>('/geocode', {
+      street: address.street,
+      area: address.area,
+      city: address.city,
+      postalCode: address.postalCode,
+    });
+    return response.data;
+  }
+}
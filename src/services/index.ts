@@ -2,4 +2,16 @@
 export * from './api';
 export * from './auth.service';
 export * from './listings.service';
-export * from './orders.service';
\ No newline at end of file
+export * from './orders.service';
+export * from './standingOrders.service';
+export * from './offlineOutbox.service';
+export * from './notifications.service';
+export * from './notificationChannel.service';
+export * from './team.service';
+export * from './payouts.service';
+export * from './credit.service';
+export * from './paymentGateway.service';
+export * from './deliverySlots.service';
+export * from './geocoding.service';
+export * from './addressBook.service';
+export * from './branches.service';
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { AuthService } from './auth.service';
+import {
+  API_CONFIG,
+  NOTIFICATION_RECONNECT_BASE_DELAY,
+  NOTIFICATION_RECONNECT_MAX_DELAY,
+} from '@/constants';
+import { AppNotification, NotificationChannelState } from '@/types';
+import { getReconnectDelay } from '@/utils';
+
+export interface NotificationChannelHandlers {
+  onNotification: (notification: AppNotification) => void;
+  onStateChange?: (state: NotificationChannelState) => void;
+}
+
+/**
+ * A push source of new notifications. `connect` returns a disconnect function
+ * that must release the connection, timers and listeners.
+ */
+export interface NotificationChannel {
+  connect: (handlers: NotificationChannelHandlers) => () => void;
+}
+
+// One raw connection attempt to an authenticated URL; onDrop fires once when it fails or closes
+type Connector = (
+  url: string,
+  callbacks: {
+    onOpen: () => void;
+    onMessage: (data: string) => void;
+    onDrop: () => void;
+  }
+) => () => void;
+
+/**
+ * Wrap a connector with reconnects: backoff after a drop, an immediate retry
+ * when the browser comes back online, and no attempts while it is offline.
+ * Every attempt opens `streamUrl` with a new single-use stream ticket.
+ */
+const createReconnectingChannel = (
+  streamUrl: string,
+  connector: Connector
+): NotificationChannel => ({
+  connect: ({ onNotification, onStateChange }) => {
+    let attempt = 0;
+    let retryTimer: number | undefined;
+    let closeConnection: (() => void) | null = null;
+    // Bumped on every disconnect, so a ticket that arrives afterwards is discarded
+    let generation = 0;
+
+    const disconnect = () => {
+      generation += 1;
+      window.clearTimeout(retryTimer);
+      closeConnection?.();
+      closeConnection = null;
+    };
+
+    const open = () => {
+      disconnect();
+      if (!navigator.onLine) {
+        onStateChange?.('offline');
+        return;
+      }
+
+      const scheduleRetry = () => {
+        closeConnection?.();
+        closeConnection = null;
+        onStateChange?.('reconnecting');
+        retryTimer = window.setTimeout(
+          open,
+          getReconnectDelay(
+            attempt,
+            NOTIFICATION_RECONNECT_BASE_DELAY,
+            NOTIFICATION_RECONNECT_MAX_DELAY
+          )
+        );
+        attempt += 1;
+      };
+
+      onStateChange?.(attempt === 0 ? 'connecting' : 'reconnecting');
+      const current = generation;
+      AuthService.getStreamUrl(streamUrl).then(
+        url => {
+          if (current !== generation) return;
+          closeConnection = connector(url, {
+            onOpen: () => {
+              attempt = 0;
+              onStateChange?.('live');
+            },
+            onMessage: data => {
+              try {
+                onNotification(JSON.parse(data) as AppNotification);
+              } catch {
+                // Ignore malformed or keep-alive messages
+              }
+            },
+            onDrop: scheduleRetry,
+          });
+        },
+        () => {
+          if (current === generation) scheduleRetry();
+        }
+      );
+    };
+
+    const handleOnline = () => {
+      attempt = 0;
+      open();
+    };
+    const handleOffline = () => {
+      disconnect();
+      onStateChange?.('offline');
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    open();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      disconnect();
+    };
+  },
+});
+
+/**
+ * Server-Sent Events from /notifications/stream. The browser's own retry is
+ * replaced by the channel's backoff, so the source is closed on any error.
+ */
+export const createSseNotificationChannel = (): NotificationChannel =>
+  createReconnectingChannel(
+    `${API_CONFIG.baseUrl}/notifications/stream`,
+    (url, { onOpen, onMessage, onDrop }) => {
+      const source = new EventSource(url);
+      source.onopen = onOpen;
+      source.onmessage = event => onMessage(event.data);
+      source.onerror = () => {
+        source.close();
+        onDrop();
+      };
+      return () => source.close();
+    }
+  );
+
+/**
+ * WebSocket channel; each text frame carries one notification as JSON.
+ */
+export const createWebSocketNotificationChannel = (socketUrl: string): NotificationChannel =>
+  createReconnectingChannel(socketUrl, (url, { onOpen, onMessage, onDrop }) => {
+    const socket = new WebSocket(url);
+    socket.onopen = onOpen;
+    socket.onmessage = event => {
+      if (typeof event.data === 'string') onMessage(event.data);
+    };
+    socket.onclose = onDrop;
+    return () => {
+      socket.onclose = null;
+      socket.close();
+    };
+  });
+
+/**
+ * Default channel: a WebSocket when VITE_NOTIFICATIONS_WS_URL is configured,
+ * otherwise Server-Sent Events from the API.
+ */
+export const createNotificationChannel = (): NotificationChannel =>
+  API_CONFIG.notificationsSocketUrl
+    ? createWebSocketNotificationChannel(API_CONFIG.notificationsSocketUrl)
+    : createSseNotificationChannel();
@@ -0,0 +1,72 @@
+import { api } from './api';
+import {
+  AppNotification,
+  NotificationFilters,
+  NotificationPreferences,
+  PaginatedResponse,
+} from '@/types';
+
+export class NotificationsService {
+  /**
+   * Get the current user's notifications, newest first
+   */
+  static async getAll(
+    filters: NotificationFilters = {}
+  ): Promise<PaginatedResponse<AppNotification>> {
+    const response = await api.get<{
+      success: boolean;
+      data: PaginatedResponse<AppNotification>;
+    }>('/notifications', filters);
+    return response.data;
+  }
+
+  /**
+   * Get the number of unread notifications
+   */
+  static async getUnreadCount(): Promise<number> {
+    const response = await api.get<{ success: boolean; data: { count: number } }>(
+      '/notifications/unread-count'
+    );
+    return response.data.count;
+  }
+
+  /**
+   * Mark one notification as read
+   */
+  static async markAsRead(id: string): Promise<AppNotification> {
+    const response = await api.patch<{ success: boolean; data: AppNotification }>(
+      `/notifications/${id}/read`
+    );
+    return response.data;
+  }
+
+  /**
+   * Mark every notification as read
+   */
+  static async markAllAsRead(): Promise<void> {
+    await api.patch('/notifications/read-all');
+  }
+
+  /**
+   * Get per-type notification preferences
+   */
+  static async getPreferences(): Promise<NotificationPreferences> {
+    const response = await api.get<{ success: boolean; data: NotificationPreferences }>(
+      '/notifications/preferences'
+    );
+    return response.data;
+  }
+
+  /**
+   * Save per-type notification preferences
+   */
+  static async updatePreferences(
+    preferences: NotificationPreferences
+  ): Promise<NotificationPreferences> {
+    const response = await api.put<{ success: boolean; data: NotificationPreferences }>(
+      '/notifications/preferences',
+      preferences
+    );
+    return response.data;
+  }
+}
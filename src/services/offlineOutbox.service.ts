@@ -0,0 +1,65 @@
+import { OrdersService } from './orders.service';
+import { ListingsService } from './listings.service';
+import { ORDER_STATUS_LABELS } from '@/constants';
+import { ApiError, Listing, OutboxAction } from '@/types';
+
+// Listing edits are only replayed onto the version they were made against
+const checkListingVersion = async (
+  listingId: string,
+  baseUpdatedAt: string | undefined
+): Promise<void> => {
+  const listing = await ListingsService.getById(listingId);
+  if (baseUpdatedAt && listing.updatedAt !== baseUpdatedAt) {
+    throw new ApiError(
+      `${listing.product.name} was changed elsewhere after you edited it offline`,
+      409
+    );
+  }
+};
+
+export class OfflineOutboxService {
+  /**
+   * Send a queued action to the API. Unless forced, edits are checked against
+   * the current server data first and a 409 ApiError is thrown when
+   * someone else changed it in the meantime. Listing edits resolve with the
+   * updated listing, so later edits queued on the same version can follow it.
+   */
+  static async replay(action: OutboxAction, force: boolean = false): Promise<Listing | undefined> {
+    switch (action.type) {
+      case 'createOrder':
+        await OrdersService.create(action.request, action.idempotencyKey);
+        return undefined;
+
+      case 'updateOrderStatus': {
+        if (!force) {
+          const order = await OrdersService.getById(action.orderId);
+          // Someone already made the same change
+          if (order.status === action.data.status) return undefined;
+          if (action.expectedStatus && order.status !== action.expectedStatus) {
+            throw new ApiError(
+              `Order #${order.orderNumber} is now ${ORDER_STATUS_LABELS[order.status].toLowerCase()}`,
+              409
+            );
+          }
+        }
+        await OrdersService.updateStatus(action.orderId, action.data);
+        return undefined;
+      }
+
+      case 'updateListingPrice':
+        if (!force) await checkListingVersion(action.listingId, action.baseUpdatedAt);
+        return ListingsService.update(action.listingId, { price: action.price });
+
+      case 'updateListingQuantity':
+        if (!force) await checkListingVersion(action.listingId, action.baseUpdatedAt);
+        return ListingsService.updateQuantity(action.listingId, action.quantity);
+
+      case 'toggleListingAvailability':
+        if (!force) await checkListingVersion(action.listingId, action.baseUpdatedAt);
+        return ListingsService.toggleAvailability(action.listingId, action.isAvailable);
+
+      default:
+        return undefined;
+    }
+  }
+}
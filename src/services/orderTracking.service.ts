@@ -0,0 +1,159 @@
+import { AuthService } from './auth.service';
+import { OrdersService } from './orders.service';
+import {
+  API_CONFIG,
+  ORDER_TRACKING_POLL_INTERVAL,
+  ORDER_TRACKING_RECONNECT_BASE_DELAY,
+  ORDER_TRACKING_RECONNECT_MAX_DELAY,
+} from '@/constants';
+import { OrderTracking } from '@/types';
+import { getReconnectDelay } from '@/utils';
+
+// How a tracking subscription is currently receiving updates
+export type TrackingConnectionMode = 'connecting' | 'live' | 'polling' | 'offline';
+
+export interface TrackingSubscriptionHandlers {
+  onUpdate: (tracking: OrderTracking) => void;
+  onModeChange?: (mode: TrackingConnectionMode) => void;
+}
+
+/**
+ * A source of live tracking updates for one order. `subscribe` returns an
+ * unsubscribe function that must release every connection or timer.
+ */
+export interface OrderTrackingTransport {
+  subscribe: (orderId: string, handlers: TrackingSubscriptionHandlers) => () => void;
+}
+
+/**
+ * Re-fetch tracking on a fixed interval.
+ */
+export const createPollingTrackingTransport = (
+  interval: number = ORDER_TRACKING_POLL_INTERVAL
+): OrderTrackingTransport => ({
+  subscribe: (orderId, { onUpdate, onModeChange }) => {
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        const tracking = await OrdersService.getTracking(orderId);
+        if (stopped) return;
+        onUpdate(tracking);
+        onModeChange?.('polling');
+      } catch {
+        if (!stopped) onModeChange?.('offline');
+      }
+    };
+
+    onModeChange?.('polling');
+    const timer = window.setInterval(poll, interval);
+
+    return () => {
+      stopped = true;
+      window.clearInterval(timer);
+    };
+  },
+});
+
+/**
+ * Stream tracking over Server-Sent Events from /orders/:id/tracking/stream.
+ * EventSource cannot send headers, so each connection is opened with a
+ * single-use stream ticket. Each message carries the full OrderTracking payload.
+ */
+export const createSseTrackingTransport = (onUnavailable?: () => void): OrderTrackingTransport => ({
+  subscribe: (orderId, { onUpdate, onModeChange }) => {
+    let source: EventSource | null = null;
+    let stopped = false;
+    let attempt = 0;
+    let retryTimer: number | undefined;
+
+    const connect = () => {
+      onModeChange?.('connecting');
+
+      AuthService.getStreamUrl(`${API_CONFIG.baseUrl}/orders/${orderId}/tracking/stream`).then(
+        url => {
+          if (stopped) return;
+
+          const current = new EventSource(url);
+          let hasOpened = false;
+          source = current;
+
+          current.onopen = () => {
+            hasOpened = true;
+            attempt = 0;
+            onModeChange?.('live');
+          };
+
+          current.onmessage = event => {
+            try {
+              onUpdate(JSON.parse(event.data) as OrderTracking);
+            } catch {
+              // Ignore malformed or keep-alive messages
+            }
+          };
+
+          current.onerror = () => {
+            // The browser's own retry would reuse the spent ticket, so back off and
+            // reconnect with a new one; a stream that never opened was refused
+            current.close();
+            if (stopped) return;
+            if (hasOpened) {
+              onModeChange?.('connecting');
+              retryTimer = window.setTimeout(
+                connect,
+                getReconnectDelay(
+                  attempt,
+                  ORDER_TRACKING_RECONNECT_BASE_DELAY,
+                  ORDER_TRACKING_RECONNECT_MAX_DELAY
+                )
+              );
+              attempt += 1;
+            } else {
+              onUnavailable?.();
+            }
+          };
+        },
+        () => {
+          if (!stopped) onUnavailable?.();
+        }
+      );
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(retryTimer);
+      source?.close();
+    };
+  },
+});
+
+/**
+ * Default transport: Server-Sent Events where supported, falling back to
+ * polling when the stream cannot be opened or is closed by the server.
+ */
+export const createOrderTrackingTransport = (): OrderTrackingTransport => ({
+  subscribe: (orderId, handlers) => {
+    const polling = createPollingTrackingTransport();
+
+    if (typeof EventSource === 'undefined') {
+      return polling.subscribe(orderId, handlers);
+    }
+
+    let unsubscribe = () => {};
+    let stopped = false;
+
+    const fallBackToPolling = () => {
+      if (stopped) return;
+      unsubscribe = polling.subscribe(orderId, handlers);
+    };
+
+    unsubscribe = createSseTrackingTransport(fallBackToPolling).subscribe(orderId, handlers);
+
+    return () => {
+      stopped = true;
+      unsubscribe();
+    };
+  },
+});
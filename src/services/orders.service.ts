@@ -6,6 +6,9 @@ import {
   OrderFilters,
   OrderAnalytics,
   OrderTracking,
+  ApproveOrderRequest,
+  RejectOrderRequest,
+  ReassignDeliverySlotRequest,
   PaginatedResponse,
 } from '@/types';
 
@@ -30,10 +33,15 @@ export class OrdersService {
   }
 
   /**
-   * Create new order (restaurant only)
+   * Create new order (restaurant only). Retries sent with the same
+   * idempotency key return the order created by the first attempt.
    */
-  static async create(data: CreateOrderRequest): Promise<Order> {
-    const response = await api.post<{ success: boolean; data: Order }>('/orders', data);
+  static async create(data: CreateOrderRequest, idempotencyKey?: string): Promise<Order> {
+    const response = await api.post<{ success: boolean; data: Order }>(
+      '/orders',
+      data,
+      idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+    );
     return response.data;
   }
 
@@ -59,6 +67,50 @@ export class OrdersService {
     return response.data;
   }
 
+  /**
+   * Get orders waiting for the restaurant owner's approval
+   */
+  static async getPendingApprovals(filters: Omit<OrderFilters, 'approvalStatus'> = {}): Promise<PaginatedResponse<Order>> {
+    const response = await api.get<{ success: boolean; data: PaginatedResponse<Order> }>(
+      '/orders/approvals',
+      filters
+    );
+    return response.data;
+  }
+
+  /**
+   * Approve an order, applying any quantity changes (restaurant owner only)
+   */
+  static async approve(id: string, data: ApproveOrderRequest = {}): Promise<Order> {
+    const response = await api.post<{ success: boolean; data: Order }>(
+      `/orders/${id}/approve`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Reject an order awaiting approval (restaurant owner only)
+   */
+  static async reject(id: string, data: RejectOrderRequest): Promise<Order> {
+    const response = await api.post<{ success: boolean; data: Order }>(
+      `/orders/${id}/reject`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Move an order to another delivery slot (vendor only)
+   */
+  static async reassignDeliverySlot(id: string, data: ReassignDeliverySlotRequest): Promise<Order> {
+    const response = await api.patch<{ success: boolean; data: Order }>(
+      `/orders/${id}/delivery-slot`,
+      data
+    );
+    return response.data;
+  }
+
   /**
    * Get restaurant's orders
    */
@@ -0,0 +1,105 @@
+import { api } from './api';
+import { API_CONFIG, MOCK_PAYMENT_STORAGE_KEY, RESTAURANT_ROUTES } from '@/constants';
+import { PaymentCallback, PaymentSession, StartPaymentRequest } from '@/types';
+import { generateId, getPaymentOutcome } from '@/utils';
+
+/**
+ * A mobile wallet payment provider using a redirect/callback flow: the
+ * customer is sent to the session's redirectUrl, and the wallet returns them
+ * to the callback URL with the result, which is then verified.
+ */
+export interface PaymentGateway {
+  startPayment: (request: StartPaymentRequest) => Promise<PaymentSession>;
+  verifyCallback: (callback: PaymentCallback) => Promise<PaymentSession>;
+}
+
+/**
+ * The real gateway, brokered by the API. The server talks to the wallet and
+ * updates the order's payment status when a callback is verified.
+ */
+export const createApiPaymentGateway = (): PaymentGateway => ({
+  startPayment: async ({ orderId, provider, callbackUrl }) => {
+    const response = await api.post<{ success: boolean; data: PaymentSession }>(
+      '/payments/mobile-banking',
+      { orderId, provider, callbackUrl }
+    );
+    return response.data;
+  },
+  verifyCallback: async ({ sessionId, ...callback }) => {
+    const response = await api.post<{ success: boolean; data: PaymentSession }>(
+      `/payments/mobile-banking/${sessionId}/verify`,
+      callback
+    );
+    return response.data;
+  },
+});
+
+const readMockSessions = (): Record<string, PaymentSession> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(MOCK_PAYMENT_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveMockSession = (session: PaymentSession) => {
+  sessionStorage.setItem(
+    MOCK_PAYMENT_STORAGE_KEY,
+    JSON.stringify({ ...readMockSessions(), [session.id]: session })
+  );
+};
+
+export const getMockPaymentSession = (sessionId: string): PaymentSession | null =>
+  readMockSessions()[sessionId] ?? null;
+
+/**
+ * In-browser gateway for development. The "wallet" is the app's mock wallet
+ * page, and nothing reaches the API, so order payment statuses only change in
+ * the local cache.
+ */
+export const createMockPaymentGateway = (): PaymentGateway => ({
+  startPayment: async ({ orderId, orderNumber, amount, provider, callbackUrl }) => {
+    const id = generateId();
+    const now = new Date().toISOString();
+    const session: PaymentSession = {
+      id,
+      orderId,
+      orderNumber,
+      provider,
+      amount,
+      status: 'initiated',
+      paymentStatus: 'pending',
+      redirectUrl: `${RESTAURANT_ROUTES.MOCK_WALLET}?${new URLSearchParams({
+        sessionId: id,
+        callbackUrl,
+      })}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    saveMockSession(session);
+    return session;
+  },
+  verifyCallback: async ({ sessionId, status, transactionId, reason }) => {
+    const session = getMockPaymentSession(sessionId);
+    if (!session) throw new Error('Payment session not found');
+    // A finished session keeps its result if the callback is replayed, e.g. on refresh
+    if (session.status === 'completed' || session.status === 'failed') return session;
+
+    const updated: PaymentSession = {
+      ...session,
+      ...getPaymentOutcome(status),
+      updatedAt: new Date().toISOString(),
+    };
+    if (status === 'success') updated.transactionId = transactionId || `MOCK${Date.now()}`;
+    if (status === 'failure') updated.failureReason = reason || 'The wallet declined the payment';
+    saveMockSession(updated);
+    return updated;
+  },
+});
+
+/**
+ * Default gateway: the mock wallet when VITE_PAYMENT_GATEWAY is 'mock',
+ * otherwise the API.
+ */
+export const createPaymentGateway = (): PaymentGateway =>
+  API_CONFIG.paymentGateway === 'mock' ? createMockPaymentGateway() : createApiPaymentGateway();
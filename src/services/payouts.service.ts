@@ -0,0 +1,15 @@
+import { api } from './api';
+import { PaginatedResponse, Payout, PayoutFilters } from '@/types';
+
+export class PayoutsService {
+  /**
+   * Get the signed-in vendor's payout history, newest first
+   */
+  static async getPayouts(filters: PayoutFilters = {}): Promise<PaginatedResponse<Payout>> {
+    const response = await api.get<{ success: boolean; data: PaginatedResponse<Payout> }>(
+      '/vendor/payouts',
+      filters
+    );
+    return response.data;
+  }
+}
@@ -0,0 +1,85 @@
+import { api } from './api';
+import {
+  StandingOrder,
+  StandingOrderException,
+  CreateStandingOrderRequest,
+  UpdateStandingOrderRequest,
+  ApiResponse,
+} from '@/types';
+
+export class StandingOrdersService {
+  /**
+   * Get restaurant's standing orders
+   */
+  static async getAll(): Promise<StandingOrder[]> {
+    const response = await api.get<{ success: boolean; data: StandingOrder[] }>('/standing-orders');
+    return response.data;
+  }
+
+  /**
+   * Get single standing order by ID
+   */
+  static async getById(id: string): Promise<StandingOrder> {
+    const response = await api.get<{ success: boolean; data: StandingOrder }>(
+      `/standing-orders/${id}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Create new standing order template
+   */
+  static async create(data: CreateStandingOrderRequest): Promise<StandingOrder> {
+    const response = await api.post<{ success: boolean; data: StandingOrder }>(
+      '/standing-orders',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Update standing order template, schedule or active state
+   */
+  static async update(id: string, data: UpdateStandingOrderRequest): Promise<StandingOrder> {
+    const response = await api.put<{ success: boolean; data: StandingOrder }>(
+      `/standing-orders/${id}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete standing order
+   */
+  static async delete(id: string): Promise<ApiResponse> {
+    const response = await api.delete<ApiResponse>(`/standing-orders/${id}`);
+    return response;
+  }
+
+  /**
+   * Set a one-off skip, quantity override or placed order for a single delivery date
+   */
+  static async updateOccurrence(
+    id: string,
+    date: string,
+    data: Omit<StandingOrderException, 'date'>
+  ): Promise<StandingOrder> {
+    const response = await api.put<{ success: boolean; data: StandingOrder }>(
+      `/standing-orders/${id}/occurrences/${date}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Remove any one-off changes for a single delivery date
+   */
+  static async resetOccurrence(id: string, date: string): Promise<StandingOrder> {
+    const response = await api.delete<{ success: boolean; data: StandingOrder }>(
+      `/standing-orders/${id}/occurrences/${date}`
+    );
+    return response.data;
+  }
+}
+
+export default StandingOrdersService;
@@ -0,0 +1,42 @@
+import { api } from './api';
+import { ApiResponse, InviteManagerRequest, TeamMember, UpdateManagerScopeRequest } from '@/types';
+
+export class TeamService {
+  /**
+   * Get the managers on the owner's restaurant team
+   */
+  static async getMembers(): Promise<TeamMember[]> {
+    const response = await api.get<{ success: boolean; data: TeamMember[] }>('/restaurant/team');
+    return response.data;
+  }
+
+  /**
+   * Add a manager once the OTP sent to their phone has been confirmed
+   */
+  static async inviteManager(data: InviteManagerRequest): Promise<TeamMember> {
+    const response = await api.post<{ success: boolean; data: TeamMember }>(
+      '/restaurant/team',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Change a manager's spend limit or permissions
+   */
+  static async updateScope(id: string, data: UpdateManagerScopeRequest): Promise<TeamMember> {
+    const response = await api.patch<{ success: boolean; data: TeamMember }>(
+      `/restaurant/team/${id}/scope`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Revoke a manager's access to the restaurant
+   */
+  static async revokeManager(id: string): Promise<ApiResponse> {
+    const response = await api.delete<ApiResponse>(`/restaurant/team/${id}`);
+    return response;
+  }
+}
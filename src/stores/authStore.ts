@@ -7,13 +7,14 @@ import {
   AuthError,
   AuthErrorType
 } from '@/types';
-import { TokenManager } from '@/utils';
+import { ErrorHandler, TokenManager } from '@/utils';
+import { AUTH_CONFIG } from '@/constants';
 import { AuthService } from '@/services/auth.service';
 import { api } from '@/services/api';
 
 interface AuthActions {
   // Authentication actions
-  login: (user: User, token: string) => void;
+  login: (user: User, token: string, refreshToken?: string) => void;
   register: (data: RegistrationData) => Promise<void>;
   logout: () => Promise<void>;
   refreshToken: () => Promise<boolean>;
@@ -25,6 +26,7 @@ interface AuthActions {
   // State management
   setUser: (user: User | null) => void;
   setToken: (token: string | null) => void;
+  setActiveBranch: (branchId: string | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   clearError: () => void;
@@ -48,13 +50,19 @@ export const useAuthStore = create<AuthStore>()(
         isAuthenticated: false,
         user: null,
         token: null,
+        activeBranchId: null,
         isLoading: false,
         error: null,
 
         // Authentication actions - simplified to just store the auth data
-        login: (user: User, token: string) => {
+        login: (user: User, token: string, refreshToken?: string) => {
           // Store token and user data
-          TokenManager.setToken(token);
+          if (refreshToken) {
+            TokenManager.setRefreshToken(refreshToken);
+          } else {
+            TokenManager.removeRefreshToken();
+          }
+          api.setToken(token);
           TokenManager.setUser(user);
 
           set({
@@ -128,12 +136,14 @@ export const useAuthStore = create<AuthStore>()(
 
           // Clear all stored data
           TokenManager.clearAll();
+          api.setBranch(null);
 
           // Reset store state
           set({
             isAuthenticated: false,
             user: null,
             token: null,
+            activeBranchId: null,
             isLoading: false,
             error: null,
           });
@@ -156,10 +166,10 @@ export const useAuthStore = create<AuthStore>()(
             const response = await AuthService.refreshToken({ refreshToken });
 
             if (response.success && response.token) {
-              TokenManager.setToken(response.token);
               if (response.refreshToken) {
                 TokenManager.setRefreshToken(response.refreshToken);
               }
+              api.setToken(response.token);
 
               set({
                 token: response.token,
@@ -172,6 +182,11 @@ export const useAuthStore = create<AuthStore>()(
               return false;
             }
           } catch (error) {
+            // Offline: keep the session, and with it the outbox and cache, and retry once back online
+            if (ErrorHandler.isNetworkError(error)) {
+              return false;
+            }
+
             await get().logout();
             return false;
           }
@@ -255,6 +270,11 @@ export const useAuthStore = create<AuthStore>()(
           set({ token });
         },
 
+        setActiveBranch: (branchId: string | null) => {
+          api.setBranch(branchId);
+          set({ activeBranchId: branchId });
+        },
+
         setLoading: (isLoading: boolean) => set({ isLoading }),
         
         setError: (error: string | null) => set({ error }),
@@ -281,6 +301,18 @@ export const useAuthStore = create<AuthStore>()(
                 error: null,
               });
             } catch (error) {
+              // Offline (e.g. an installed app opened without signal): keep the stored session
+              if (ErrorHandler.isNetworkError(error)) {
+                set({
+                  isAuthenticated: true,
+                  user,
+                  token,
+                  isLoading: false,
+                  error: null,
+                });
+                return;
+              }
+
               // Token invalid, try to refresh
               const refreshSuccess = await get().refreshToken();
               
@@ -317,6 +349,7 @@ export const useAuthStore = create<AuthStore>()(
           // Only persist essential data, not loading states
           user: state.user,
           token: state.token,
+          activeBranchId: state.activeBranchId,
           isAuthenticated: state.isAuthenticated,
         }),
       }
@@ -327,6 +360,25 @@ export const useAuthStore = create<AuthStore>()(
   )
 );
 
+// Let the API client renew expired sessions silently; it only logs out when the refresh fails
+api.setRefreshHandler(() => useAuthStore.getState().refreshToken());
+
+// Keep acting for the branch chosen before the page was reloaded
+api.setBranch(useAuthStore.getState().activeBranchId);
+
+// Keep tabs in step: pick up tokens refreshed elsewhere and follow logouts from other tabs
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== AUTH_CONFIG.tokenStorageKey) return;
+
+    if (event.newValue) {
+      useAuthStore.setState({ token: event.newValue });
+    } else if (useAuthStore.getState().isAuthenticated) {
+      useAuthStore.setState({ isAuthenticated: false, user: null, token: null });
+    }
+  });
+}
+
 // Helper hooks for specific auth data
 export const useAuth = () => {
   const {
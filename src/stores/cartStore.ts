@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
-import { Listing } from '@/types';
+import { Listing, User } from '@/types';
 
 export interface CartItem {
   id: string;
@@ -12,10 +12,20 @@ export interface CartItem {
   addedAt: string;
 }
 
-interface CartState {
+// Cart items that will be fulfilled by one vendor as a single order
+export interface VendorCartGroup {
+  vendor: User;
   items: CartItem[];
+  subtotal: number;
+}
+
+interface CartState {
+  items: CartItem[]; // the active branch's cart
   totalItems: number;
   totalAmount: number;
+  branchId: string | null; // branch the items belong to
+  branchCarts: Record<string, CartItem[]>; // other branches' carts, kept until switched back
+
   isLoading: boolean;
   error: string | null;
 }
@@ -26,7 +36,14 @@ interface CartActions {
   removeItem: (itemId: string) => void;
   updateQuantity: (itemId: string, quantity: number) => void;
   updateNotes: (itemId: string, notes: string) => void;
+
+  // Server reconciliation
+  syncListing: (listing: Listing) => void;
+  acceptCurrentPrice: (itemId: string) => void;
   clearCart: () => void;
+
+  // Branches
+  switchBranch: (branchId: string | null) => void;
   
   // Bulk operations
   removeItems: (itemIds: string[]) => void;
@@ -66,6 +83,8 @@ export const useCartStore = create<CartStore>()(
         items: [],
         totalItems: 0,
         totalAmount: 0,
+        branchId: null,
+        branchCarts: {},
         isLoading: false,
         error: null,
 
@@ -153,6 +172,34 @@ export const useCartStore = create<CartStore>()(
           set({ items: newItems });
         },
 
+        // Server reconciliation
+        syncListing: (listing: Listing) => {
+          // Refresh the snapshot but keep the agreed unit price until the user accepts a change
+          const state = get();
+          const newItems = state.items.map(item =>
+            item.listing.id === listing.id ? { ...item, listing } : item
+          );
+
+          set({ items: newItems });
+        },
+
+        acceptCurrentPrice: (itemId: string) => {
+          const state = get();
+          const newItems = state.items.map(item => {
+            if (item.id === itemId) {
+              return {
+                ...item,
+                unitPrice: item.listing.price,
+                totalPrice: calculateItemTotal(item.quantity, item.listing.price),
+              };
+            }
+            return item;
+          });
+
+          set({ items: newItems });
+          get().recalculateTotals();
+        },
+
         clearCart: () => {
           set({
             items: [],
@@ -162,6 +209,27 @@ export const useCartStore = create<CartStore>()(
           });
         },
 
+        // Branches
+        switchBranch: (branchId: string | null) => {
+          const state = get();
+          if (state.branchId === branchId) return;
+
+          const { [branchId ?? '']: nextItems, ...branchCarts } = state.branchCarts;
+          if (state.branchId && state.items.length > 0) {
+            branchCarts[state.branchId] = state.items;
+          }
+
+          set({
+            branchId,
+            branchCarts,
+            // A cart started before any branch was chosen goes to the first one
+            items: nextItems || (state.branchId ? [] : state.items),
+            error: null,
+          });
+
+          get().recalculateTotals();
+        },
+
         // Bulk operations
         removeItems: (itemIds: string[]) => {
           const state = get();
@@ -267,6 +335,8 @@ export const useCartStore = create<CartStore>()(
           items: state.items,
           totalItems: state.totalItems,
           totalAmount: state.totalAmount,
+          branchId: state.branchId,
+          branchCarts: state.branchCarts,
         }),
       }
     ),
@@ -276,6 +346,21 @@ export const useCartStore = create<CartStore>()(
   )
 );
 
+// Split the cart into one group per vendor, preserving the order items were added
+export const groupCartItemsByVendor = (items: CartItem[]): VendorCartGroup[] => {
+  const groups = new Map<string, VendorCartGroup>();
+
+  items.forEach(item => {
+    const { vendor } = item.listing;
+    const group = groups.get(vendor.id) || { vendor, items: [], subtotal: 0 };
+    group.items.push(item);
+    group.subtotal = Math.round((group.subtotal + item.totalPrice) * 100) / 100;
+    groups.set(vendor.id, group);
+  });
+
+  return Array.from(groups.values());
+};
+
 // Helper hooks
 export const useCart = () => {
   const {
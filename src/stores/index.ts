@@ -2,4 +2,5 @@
 export * from './authStore';
 export * from './cartStore';
 export * from './notificationStore';
-export * from './themeStore';
\ No newline at end of file
+export * from './themeStore';
+export * from './offlineStore';
\ No newline at end of file
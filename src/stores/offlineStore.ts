@@ -0,0 +1,263 @@
+import { create } from 'zustand';
+import { createJSONStorage, devtools, persist } from 'zustand/middleware';
+import axios from 'axios';
+import { onlineManager } from '@tanstack/react-query';
+import { queryClient, queryKeys } from '@/config/queryClient';
+import { queryPersister } from '@/config/queryPersister';
+import { OfflineOutboxService } from '@/services/offlineOutbox.service';
+import { FEATURES } from '@/constants';
+import { ApiError, OfflineQueuedError, OutboxAction, OutboxEntry } from '@/types';
+import { ErrorHandler, idbStorage } from '@/utils';
+import { toast } from './notificationStore';
+
+interface OfflineState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  entries: OutboxEntry[];
+}
+
+interface OfflineActions {
+  setOnline: (isOnline: boolean) => void;
+  enqueue: (action: OutboxAction, label: string) => OutboxEntry;
+  syncOutbox: () => Promise<void>;
+  retryEntry: (id: string, force?: boolean) => Promise<void>;
+  discardEntry: (id: string) => void;
+  clearOutbox: () => void;
+}
+
+type OfflineStore = OfflineState & OfflineActions;
+
+// What happened to one entry during a replay
+type ReplayOutcome = 'sent' | 'conflict' | 'stopped';
+
+const generateEntryId = (): string =>
+  `outbox_${Date.now()}_${Math.random().toString(36).substring(2)}`;
+
+// Rejections and detected conflicts will fail the same way on every retry
+const isClientError = (error: unknown): boolean => {
+  const status =
+    error instanceof ApiError ? error.status : axios.isAxiosError(error) && error.response?.status;
+  return typeof status === 'number' && status >= 400 && status < 500;
+};
+
+// Edits queued on the listing version a replayed edit was checked against now apply on top of it
+const rebaseListingEdit = (
+  entry: OutboxEntry,
+  replayed: OutboxAction,
+  updatedAt: string
+): OutboxEntry =>
+  'listingId' in entry.action &&
+  'listingId' in replayed &&
+  replayed.baseUpdatedAt &&
+  entry.action.listingId === replayed.listingId &&
+  entry.action.baseUpdatedAt === replayed.baseUpdatedAt
+    ? { ...entry, action: { ...entry.action, baseUpdatedAt: updatedAt } }
+    : entry;
+
+// Timeouts can fire after the server has acted, so only failures to connect are queued
+const couldNotConnect = (error: unknown): boolean =>
+  ErrorHandler.isNetworkError(error) &&
+  ((axios.isAxiosError(error) && error.code === 'ERR_NETWORK') || !onlineManager.isOnline());
+
+// Refresh whatever the replayed action changed on the server
+const invalidateForAction = (action: OutboxAction) => {
+  if (action.type === 'createOrder') {
+    queryClient.invalidateQueries({ queryKey: ['orders', 'restaurant'] });
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.summary });
+  } else if (action.type === 'updateOrderStatus') {
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+  } else {
+    queryClient.invalidateQueries({ queryKey: queryKeys.listings.all });
+  }
+};
+
+export const useOfflineStore = create<OfflineStore>()(
+  devtools(
+    persist(
+      (set, get) => {
+        const updateEntry = (id: string, updates: Partial<OutboxEntry>) => {
+          set(state => ({
+            entries: state.entries.map(entry =>
+              entry.id === id ? { ...entry, ...updates } : entry
+            ),
+          }));
+        };
+
+        /**
+         * Send one entry. Network and server errors leave it queued and stop the
+         * run so later actions are not applied out of order; rejected or
+         * conflicting actions are set aside for the user to review.
+         */
+        const replayEntry = async (entry: OutboxEntry, force: boolean): Promise<ReplayOutcome> => {
+          try {
+            const listing = await OfflineOutboxService.replay(entry.action, force);
+            set(state => ({
+              entries: state.entries
+                .filter(item => item.id !== entry.id)
+                // A forced edit skipped the version check, so the rest of the queue is not rebased
+                .map(item =>
+                  listing && !force
+                    ? rebaseListingEdit(item, entry.action, listing.updatedAt)
+                    : item
+                ),
+            }));
+            invalidateForAction(entry.action);
+            return 'sent';
+          } catch (error) {
+            const { message } = ErrorHandler.handleApiError(error);
+
+            if (isClientError(error)) {
+              updateEntry(entry.id, {
+                status: 'conflict',
+                attempts: entry.attempts + 1,
+                error: message,
+              });
+              return 'conflict';
+            }
+
+            updateEntry(entry.id, {
+              status: 'pending',
+              attempts: entry.attempts + 1,
+              ...(!ErrorHandler.isNetworkError(error) && { error: message }),
+            });
+            return 'stopped';
+          }
+        };
+
+        return {
+          // Initial state
+          isOnline: onlineManager.isOnline(),
+          isSyncing: false,
+          entries: [],
+
+          setOnline: (isOnline: boolean) => {
+            set({ isOnline });
+          },
+
+          enqueue: (action: OutboxAction, label: string) => {
+            const entry: OutboxEntry = {
+              id: generateEntryId(),
+              action,
+              label,
+              status: 'pending',
+              attempts: 0,
+              createdAt: new Date().toISOString(),
+            };
+            set(state => ({ entries: [...state.entries, entry] }));
+            return entry;
+          },
+
+          syncOutbox: async () => {
+            const { isSyncing, isOnline, entries } = get();
+            const pending = entries.filter(entry => entry.status === 'pending');
+            if (isSyncing || !isOnline || pending.length === 0) return;
+
+            set({ isSyncing: true });
+            const outcomes = await pending.reduce<Promise<ReplayOutcome[]>>(
+              async (previous, entry) => {
+                const done = await previous;
+                // Re-read the entry, which an earlier replay may have rebased
+                const current = get().entries.find(item => item.id === entry.id);
+                if (!current || done.includes('stopped')) return done;
+                return [...done, await replayEntry(current, false)];
+              },
+              Promise.resolve([])
+            );
+            set({ isSyncing: false });
+
+            const sent = outcomes.filter(outcome => outcome === 'sent').length;
+            const conflicts = outcomes.filter(outcome => outcome === 'conflict').length;
+            if (sent > 0) {
+              toast.success(
+                'Offline changes sent',
+                `${sent} queued ${sent === 1 ? 'change was' : 'changes were'} saved`
+              );
+            }
+            if (conflicts > 0) {
+              toast.warning(
+                'Some changes need attention',
+                `${conflicts} queued ${conflicts === 1 ? 'change' : 'changes'} could not be applied`
+              );
+            }
+          },
+
+          retryEntry: async (id: string, force = false) => {
+            const entry = get().entries.find(item => item.id === id);
+            if (!entry || get().isSyncing) return;
+
+            set({ isSyncing: true });
+            const outcome = await replayEntry(entry, force);
+            set({ isSyncing: false });
+
+            if (outcome === 'sent') {
+              toast.success('Change saved', entry.label);
+            } else if (outcome === 'stopped') {
+              toast.error('Still offline', 'The change stays queued until the connection is back');
+            }
+          },
+
+          discardEntry: (id: string) => {
+            set(state => ({ entries: state.entries.filter(entry => entry.id !== id) }));
+          },
+
+          clearOutbox: () => {
+            set({ entries: [] });
+          },
+        };
+      },
+      {
+        name: 'offline-outbox',
+        storage: createJSONStorage(() => idbStorage),
+        partialize: state => ({ entries: state.entries }),
+        // Anything left over from the last session is sent as soon as it is loaded
+        onRehydrateStorage: () => state => {
+          state?.syncOutbox();
+        },
+      }
+    ),
+    {
+      name: 'offline-store',
+    }
+  )
+);
+
+/**
+ * Run a request, or queue it in the outbox when the device is offline or the
+ * request could not connect to the server. Timed-out requests are not queued
+ * since they may already have been applied. Queued calls reject with an
+ * OfflineQueuedError so callers can tell them apart from real failures.
+ */
+export const runOrQueue = async <T>(
+  action: OutboxAction,
+  label: string,
+  request: () => Promise<T>
+): Promise<T> => {
+  if (!FEATURES.offlineMode) return request();
+
+  const queue = () => {
+    throw new OfflineQueuedError(useOfflineStore.getState().enqueue(action, label));
+  };
+  if (!onlineManager.isOnline()) return queue();
+
+  try {
+    return await request();
+  } catch (error) {
+    if (couldNotConnect(error)) return queue();
+    throw error;
+  }
+};
+
+// Follow the connection and replay the outbox when it comes back
+if (typeof window !== 'undefined' && FEATURES.offlineMode) {
+  onlineManager.subscribe(isOnline => {
+    useOfflineStore.getState().setOnline(isOnline);
+    if (isOnline) useOfflineStore.getState().syncOutbox();
+  });
+
+  // Queued actions and cached data belong to the user who made them
+  window.addEventListener('auth:logout', () => {
+    useOfflineStore.getState().clearOutbox();
+    queryClient.clear();
+    queryPersister.removeClient();
+  });
+}
@@ -0,0 +1,19 @@
+import { Address } from './api.types';
+
+// Labelled entry in a restaurant's delivery address book
+export interface SavedAddress {
+  id: string;
+  label: string; // e.g. "Gulshan branch"
+  address: Address; // coordinates come from the pin dropped on the map
+  deliveryNotes?: string; // gate, contact or unloading instructions for drivers
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveAddressRequest {
+  label: string;
+  address: Address;
+  deliveryNotes?: string;
+  isDefault?: boolean;
+}
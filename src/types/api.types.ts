@@ -23,15 +23,21 @@ export interface PaginatedResponse<T> {
 // Common address structure
 export interface Address {
   street: string;
-  city: string;
+  city: string; // the district for addresses picked from the location dataset
   area: string;
   postalCode: string;
+  division?: string;
+  district?: string;
+  upazila?: string; // upazila, or thana in metropolitan areas
   coordinates?: {
     latitude: number;
     longitude: number;
   };
 }
 
+// An address being entered: any part may still be missing
+export type AddressDraft = { [K in keyof Address]?: Address[K] | undefined };
+
 // Error response structure
 export interface ApiErrorResponse {
   success: false;
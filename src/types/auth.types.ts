@@ -5,6 +5,7 @@ export interface AuthState {
   isAuthenticated: boolean;
   user: User | null;
   token: string | null;
+  activeBranchId: string | null; // restaurant users only
   isLoading: boolean;
   error: string | null;
 }
@@ -45,15 +46,17 @@ export interface ResetPasswordRequest {
 }
 
 // Phone verification interfaces
+export type OtpPurpose = 'registration' | 'password_reset' | 'phone_verification' | 'team_invite';
+
 export interface SendOtpRequest {
   phone: string;
-  purpose: 'registration' | 'password_reset' | 'phone_verification';
+  purpose: OtpPurpose;
 }
 
 export interface VerifyOtpRequest {
   phone: string;
   otp: string;
-  purpose: 'registration' | 'password_reset' | 'phone_verification';
+  purpose: OtpPurpose;
 }
 
 // Token refresh interface
@@ -67,6 +70,13 @@ export interface TokenRefreshResponse {
   refreshToken: string;
 }
 
+// Single-use ticket for opening an event stream, which cannot send headers
+export interface StreamTicketResponse {
+  success: true;
+  ticket: string;
+  expiresAt: string;
+}
+
 // Profile update interface
 export interface UpdateProfileRequest {
   name?: string;
@@ -0,0 +1,46 @@
+import { Address } from './api.types';
+
+// One location of a restaurant group; carts, orders and managers belong to a branch
+export interface RestaurantBranch {
+  id: string;
+  name: string; // e.g. "Gulshan"
+  address: Address;
+  phone?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveBranchRequest {
+  name: string;
+  address: Address;
+  phone?: string;
+}
+
+// Date range for the owner's consolidated spend report (yyyy-MM-dd, inclusive)
+export interface SpendReportFilters {
+  dateFrom: string;
+  dateTo: string;
+}
+
+// Spend on one category or vendor, split across the branches
+export interface SpendComparisonRow {
+  id: string;
+  name: string;
+  total: number;
+  byBranch: Record<string, number>; // branch ID to amount
+}
+
+export interface BranchSpend {
+  id: string;
+  name: string;
+  total: number;
+  orderCount: number;
+}
+
+export interface SpendReport {
+  total: number;
+  orderCount: number;
+  branches: BranchSpend[];
+  categories: SpendComparisonRow[]; // item totals, so delivery fees and tax are left out
+  vendors: SpendComparisonRow[];
+}
@@ -0,0 +1,43 @@
+// Credit accounts a vendor opens for restaurants that pay later
+import { User } from './user.types';
+
+// Days after delivery that a credit order must be paid
+export type PaymentTerms = 'net_7' | 'net_15' | 'net_30';
+
+export type CreditAccountStatus = 'active' | 'suspended';
+
+export interface CreditAccount {
+  id: string;
+  vendor: User;
+  restaurant: User;
+  creditLimit: number;
+  paymentTerms: PaymentTerms;
+  status: CreditAccountStatus;
+  outstandingBalance: number; // unpaid credit orders
+  overdueBalance: number; // part of the outstanding balance past its due date
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Unpaid credit order on an account
+export interface CreditInvoice {
+  orderId: string;
+  orderNumber: string;
+  issuedAt: string;
+  dueDate: string;
+  amount: number;
+  paidAmount: number;
+  balance: number;
+}
+
+export interface GrantCreditRequest {
+  restaurantId: string;
+  creditLimit: number;
+  paymentTerms: PaymentTerms;
+}
+
+export interface UpdateCreditAccountRequest {
+  creditLimit?: number;
+  paymentTerms?: PaymentTerms;
+  status?: CreditAccountStatus;
+}
@@ -0,0 +1,15 @@
+import { Address } from './api.types';
+import { Order } from './order.types';
+
+export type Coordinates = NonNullable<Address['coordinates']>;
+
+// One drop on a delivery run: a restaurant address with every order going there
+export interface RouteStop {
+  id: string;
+  restaurantName: string;
+  phone?: string;
+  address: Address;
+  coordinates?: Coordinates; // from the address, or geocoded; unset when it cannot be located
+  deliveryNotes?: string; // drivers' instructions from the restaurant's address book
+  orders: Order[];
+}
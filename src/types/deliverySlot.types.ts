@@ -0,0 +1,57 @@
+import { Weekday } from './standingOrder.types';
+
+// Recurring delivery window a vendor offers on one weekday
+export interface DeliverySlot {
+  id: string;
+  weekday: Weekday;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  maxOrders?: number; // no order cap when unset
+  maxWeightKg?: number; // no weight cap when unset
+  isActive: boolean;
+}
+
+// Date the vendor does not deliver, e.g. a public holiday
+export interface DeliveryBlackoutDate {
+  id: string;
+  date: string; // yyyy-MM-dd
+  reason?: string;
+}
+
+// Vendor's weekly delivery slots and blackout dates
+export interface DeliverySchedule {
+  slots: DeliverySlot[];
+  blackoutDates: DeliveryBlackoutDate[];
+}
+
+// How much of a slot is already booked on a given date
+export interface DeliverySlotUsage {
+  orderCount: number;
+  weightKg: number;
+  fill: number | null; // 0-1 share of the tighter limit, null when the slot is uncapped
+  isFull: boolean;
+}
+
+// Slot offered to a restaurant at checkout for a specific date
+export interface DeliverySlotAvailability extends DeliverySlotUsage {
+  slot: DeliverySlot;
+}
+
+// What a vendor can deliver on a date
+export interface DeliveryDayAvailability {
+  date: string; // yyyy-MM-dd
+  isScheduled: boolean; // false when the vendor has not set up delivery slots
+  blackout?: DeliveryBlackoutDate;
+  slots: DeliverySlotAvailability[];
+}
+
+// Create or update a delivery slot
+export type SaveDeliverySlotRequest = Omit<DeliverySlot, 'id'>;
+
+export type CreateBlackoutDateRequest = Omit<DeliveryBlackoutDate, 'id'>;
+
+// Move an order to another slot, optionally on another date
+export interface ReassignDeliverySlotRequest {
+  deliverySlot: string; // slot ID
+  deliveryDate: string; // yyyy-MM-dd
+}
@@ -1,7 +1,10 @@
 /// <reference types="vite/client" />
+/// <reference types="vite-plugin-pwa/react" />
 
 interface ImportMetaEnv {
   readonly VITE_API_BASE_URL: string;
+  readonly VITE_NOTIFICATIONS_WS_URL?: string;
+  readonly VITE_PAYMENT_GATEWAY?: string;
   readonly VITE_APP_NAME: string;
   readonly VITE_APP_VERSION: string;
   readonly VITE_DEV_MODE: string;
@@ -32,6 +35,8 @@ interface ImportMetaEnv {
   readonly VITE_FACEBOOK_APP_ID?: string;
   readonly VITE_GOOGLE_ANALYTICS_ID?: string;
   readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
 }
 
 interface ImportMeta {
@@ -3,4 +3,16 @@ export * from './auth.types';
 export * from './user.types';
 export * from './listing.types';
 export * from './order.types';
-export * from './api.types';
\ No newline at end of file
+export * from './standingOrder.types';
+export * from './api.types';
+export * from './offline.types';
+export * from './notification.types';
+export * from './team.types';
+export * from './invoice.types';
+export * from './receivables.types';
+export * from './credit.types';
+export * from './payment.types';
+export * from './deliverySlot.types';
+export * from './deliveryRoute.types';
+export * from './addressBook.types';
+export * from './branch.types';
\ No newline at end of file
@@ -0,0 +1,70 @@
+// Invoice and account statement types, built on the client from orders
+import { Address } from './api.types';
+import { OrderStatus, PaymentMethod, PaymentStatus } from './order.types';
+
+// Business named on an invoice, from the vendor or restaurant profile
+export interface InvoiceParty {
+  businessName: string;
+  contactName: string;
+  phone: string;
+  address?: Address;
+  businessLicense?: string; // vendors only
+}
+
+export interface InvoiceLine {
+  id: string; // order item ID
+  description: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  notes?: string;
+}
+
+export interface Invoice {
+  invoiceNumber: string;
+  orderId: string;
+  orderNumber: string;
+  issuedAt: string;
+  deliveryDate?: string;
+  deliveryTimeSlot?: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  deliveryAddress: Address;
+  lines: InvoiceLine[];
+  subtotal: number;
+  deliveryFee: number;
+  taxAmount: number;
+  discountAmount: number;
+  total: number;
+  paymentMethod?: PaymentMethod;
+  dueDate?: string; // credit orders only
+  paymentStatus: PaymentStatus;
+  status: OrderStatus;
+  notes?: string;
+}
+
+// One order on a monthly statement
+export interface StatementEntry {
+  orderId: string;
+  orderNumber: string;
+  date: string;
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  amount: number; // 0 for cancelled orders
+  paid: number;
+  balance: number; // running amount still owed after this order
+}
+
+// All orders between one restaurant and one vendor in a calendar month
+export interface AccountStatement {
+  month: string; // yyyy-MM
+  periodStart: string;
+  periodEnd: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  entries: StatementEntry[];
+  totalOrdered: number;
+  totalPaid: number;
+  totalOutstanding: number;
+}
@@ -95,4 +95,48 @@ export interface ListingAnalytics {
   viewsThisWeek: number;
   ordersThisWeek: number;
   revenueThisWeek: number;
-}
\ No newline at end of file
+}
+
+// Columns in the listing import/export spreadsheet
+export type ListingSpreadsheetField =
+  | 'id'
+  | 'product'
+  | 'price'
+  | 'availableQuantity'
+  | 'minOrderQuantity'
+  | 'maxOrderQuantity'
+  | 'description'
+  | 'images'
+  | 'harvestDate'
+  | 'expiryDate'
+  | 'qualityGrade'
+  | 'organicCertified';
+
+// Spreadsheet column index chosen for each listing field
+export type ListingColumnMapping = Partial<Record<ListingSpreadsheetField, number>>;
+
+// Raw spreadsheet contents, every cell read as text
+export interface SpreadsheetData {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// One spreadsheet row checked during the import dry run
+export interface ListingImportRow {
+  rowNumber: number;
+  productName: string;
+  action: 'create' | 'update' | 'invalid';
+  listingId?: string;
+  request?: CreateListingRequest;
+  errors: string[];
+  warnings: string[];
+}
+
+// Outcome of saving one row
+export interface ListingImportResult {
+  rowNumber: number;
+  productName: string;
+  status: 'created' | 'updated' | 'failed';
+  error?: string;
+}
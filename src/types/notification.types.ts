@@ -0,0 +1,42 @@
+// Events that land in the notification inbox
+export type AppNotificationType =
+  | 'new_order'
+  | 'order_status'
+  | 'order_approval'
+  | 'vendor_approval'
+  | 'low_stock'
+  | 'listing_expiring';
+
+// Record a notification is about; used to link to its page
+export interface NotificationEntity {
+  type: 'order' | 'listing' | 'vendor';
+  id: string;
+}
+
+// Persistent inbox item (toasts live in the notification store instead)
+export interface AppNotification {
+  id: string;
+  type: AppNotificationType;
+  title: string;
+  message: string;
+  entity?: NotificationEntity;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export interface NotificationFilters {
+  page?: number;
+  limit?: number;
+  unreadOnly?: boolean;
+}
+
+// enabled: keep it in the inbox; toast: also pop up when it arrives
+export interface NotificationTypePreference {
+  enabled: boolean;
+  toast: boolean;
+}
+
+export type NotificationPreferences = Record<AppNotificationType, NotificationTypePreference>;
+
+// State of the push connection that delivers new notifications
+export type NotificationChannelState = 'connecting' | 'live' | 'reconnecting' | 'offline';
@@ -0,0 +1,57 @@
+import { CreateOrderRequest, OrderStatus, UpdateOrderStatusRequest } from './order.types';
+
+// A change made while offline, stored until it can be sent to the API
+export type OutboxAction =
+  | {
+      type: 'createOrder';
+      request: CreateOrderRequest;
+      idempotencyKey: string; // shared with the first attempt, which may have reached the server
+    }
+  | {
+      type: 'updateOrderStatus';
+      orderId: string;
+      data: UpdateOrderStatusRequest;
+      expectedStatus?: OrderStatus | undefined; // status the change was made from
+    }
+  | {
+      type: 'updateListingPrice';
+      listingId: string;
+      price: number;
+      baseUpdatedAt?: string | undefined; // listing version the change was made on
+    }
+  | {
+      type: 'updateListingQuantity';
+      listingId: string;
+      quantity: number;
+      baseUpdatedAt?: string | undefined;
+    }
+  | {
+      type: 'toggleListingAvailability';
+      listingId: string;
+      isAvailable: boolean;
+      baseUpdatedAt?: string | undefined;
+    };
+
+// Pending entries replay automatically; conflicts wait for the user to retry or discard
+export type OutboxEntryStatus = 'pending' | 'conflict';
+
+export interface OutboxEntry {
+  id: string;
+  action: OutboxAction;
+  label: string; // shown in the outbox panel, e.g. "Tomatoes: price ৳80"
+  status: OutboxEntryStatus;
+  attempts: number;
+  error?: string;
+  createdAt: string;
+}
+
+// Thrown by a mutation whose request was queued instead of sent
+export class OfflineQueuedError extends Error {
+  public entry: OutboxEntry;
+
+  constructor(entry: OutboxEntry) {
+    super('You are offline. The change will be sent when the connection is back.');
+    this.name = 'OfflineQueuedError';
+    this.entry = entry;
+  }
+}
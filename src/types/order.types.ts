@@ -1,6 +1,7 @@
 import { User } from './user.types';
 import { Listing } from './listing.types';
 import { Address } from './api.types';
+import { RestaurantBranch } from './branch.types';
 
 // Order status types
 export type OrderStatus = 'pending' | 'confirmed' | 'prepared' | 'delivered' | 'cancelled';
@@ -9,7 +10,15 @@ export type OrderStatus = 'pending' | 'confirmed' | 'prepared' | 'delivered' | '
 export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
 
 // Payment method types
-export type PaymentMethod = 'cash_on_delivery' | 'mobile_banking' | 'bank_transfer' | 'card';
+export type PaymentMethod =
+  | 'cash_on_delivery'
+  | 'mobile_banking'
+  | 'bank_transfer'
+  | 'card'
+  | 'credit'; // pay later on the vendor's credit terms
+
+// Owner sign-off for an order a manager placed above their spend limit
+export type OrderApprovalStatus = 'awaiting_approval' | 'approved' | 'rejected';
 
 // Order item interface
 export interface OrderItem {
@@ -26,26 +35,43 @@ export interface Order {
   id: string;
   orderNumber: string;
   restaurant: User;
+  branch?: Pick<RestaurantBranch, 'id' | 'name'>; // unset on orders from before branches
   vendor: User;
   items: OrderItem[];
   status: OrderStatus;
   paymentStatus: PaymentStatus;
   paymentMethod?: PaymentMethod;
+  paymentDueDate?: string; // credit orders only, from the vendor's payment terms
   totalAmount: number;
   deliveryFee?: number;
   taxAmount?: number;
   discountAmount?: number;
   deliveryAddress: Address;
+  deliveryNotes?: string; // drivers' instructions saved with the restaurant's address
   deliveryDate?: string;
   deliveryTimeSlot?: string;
+  deliverySlot?: string; // vendor delivery slot ID, when booked against one
   notes?: string;
   cancelReason?: string;
   rating?: number;
   review?: string;
+  approval?: OrderApproval; // only set on orders that needed the owner's approval
   createdAt: string;
   updatedAt: string;
 }
 
+// Approval record; the vendor only receives the order once it is approved
+export interface OrderApproval {
+  status: OrderApprovalStatus;
+  requestedBy: User;
+  spendLimit: number; // requester's limit when the order was placed
+  requestedAt: string;
+  reviewedBy?: User;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  originalTotalAmount?: number; // set when the owner changed quantities before approving
+}
+
 // Create order request
 export interface CreateOrderRequest {
   items: Array<{
@@ -54,13 +80,30 @@ export interface CreateOrderRequest {
     unitPrice: number;
     notes?: string;
   }>;
+  branch?: string; // branch ID; sent with the order so queued orders keep their branch
   deliveryAddress: Address;
+  savedAddress?: string; // address book entry ID, when delivering to a saved address
+  deliveryNotes?: string;
   deliveryDate?: string;
   deliveryTimeSlot?: string;
+  deliverySlot?: string; // slot ID, so the vendor's slot capacity is checked
   paymentMethod?: PaymentMethod;
   notes?: string;
 }
 
+// Approve an order, optionally changing line quantities first (0 removes the line)
+export interface ApproveOrderRequest {
+  items?: Array<{
+    item: string; // order item ID
+    quantity: number;
+  }>;
+  notes?: string;
+}
+
+export interface RejectOrderRequest {
+  reason: string;
+}
+
 // Update order status request
 export interface UpdateOrderStatusRequest {
   status: OrderStatus;
@@ -74,10 +117,13 @@ export interface OrderFilters {
   limit?: number;
   status?: OrderStatus;
   paymentStatus?: PaymentStatus;
+  approvalStatus?: OrderApprovalStatus;
   vendor?: string;
   restaurant?: string;
+  allBranches?: boolean; // owners only: every branch instead of the active one
   dateFrom?: string;
   dateTo?: string;
+  deliveryDate?: string; // yyyy-MM-dd
   minAmount?: number;
   maxAmount?: number;
   sortBy?: 'created' | 'amount' | 'delivery';
@@ -121,4 +167,4 @@ export interface OrderTracking {
     phone: string;
     vehicle?: string;
   };
-}
\ No newline at end of file
+}
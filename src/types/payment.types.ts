@@ -0,0 +1,41 @@
+// Mobile banking (bKash/Nagad style) payments for orders
+import { PaymentStatus } from './order.types';
+
+export type MobileWalletProvider = 'bkash' | 'nagad' | 'rocket';
+
+// Lifecycle of one attempt to pay an order through a wallet
+export type PaymentSessionStatus = 'initiated' | 'pending' | 'completed' | 'failed' | 'cancelled';
+
+// Outcome the wallet reports when it sends the customer back to the callback URL
+export type PaymentCallbackStatus = 'success' | 'pending' | 'failure' | 'cancel';
+
+export interface PaymentSession {
+  id: string;
+  orderId: string;
+  orderNumber: string;
+  provider: MobileWalletProvider;
+  amount: number;
+  status: PaymentSessionStatus;
+  paymentStatus: PaymentStatus; // the order's payment status after this session
+  redirectUrl: string; // wallet checkout page the customer is sent to
+  transactionId?: string;
+  failureReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StartPaymentRequest {
+  orderId: string;
+  orderNumber: string;
+  amount: number;
+  provider: MobileWalletProvider;
+  callbackUrl: string;
+}
+
+// Query parameters on the callback URL
+export interface PaymentCallback {
+  sessionId: string;
+  status: PaymentCallbackStatus;
+  transactionId?: string;
+  reason?: string;
+}
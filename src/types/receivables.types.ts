@@ -0,0 +1,68 @@
+// Vendor receivables ledger and payout types
+import { Order, PaymentMethod, PaymentStatus } from './order.types';
+
+// Age buckets for cash-on-delivery money not yet collected
+export type ReceivablesAgingBucketId = 'current' | 'week' | 'month' | 'overdue';
+
+export interface ReceivablesAgingBucket {
+  id: ReceivablesAgingBucketId;
+  label: string;
+  maxDays: number | null; // null for the open-ended last bucket
+}
+
+export interface ReceivablesTotal {
+  count: number;
+  amount: number;
+}
+
+// Delivered order still waiting for its cash, with days since delivery
+export interface OutstandingReceivable {
+  order: Order;
+  ageDays: number;
+  bucket: ReceivablesAgingBucketId;
+}
+
+// Delivered orders in a date range, grouped for reconciliation
+export interface ReceivablesLedger {
+  byPaymentStatus: Record<PaymentStatus, ReceivablesTotal>;
+  byPaymentMethod: Record<PaymentMethod, Record<PaymentStatus, ReceivablesTotal>>;
+  delivered: ReceivablesTotal;
+}
+
+// Every uncollected cash-on-delivery order, whenever it was delivered
+export interface CodAging {
+  byBucket: Record<ReceivablesAgingBucketId, ReceivablesTotal>;
+  outstanding: OutstandingReceivable[]; // oldest first
+}
+
+export interface ReceivablesFilters {
+  dateFrom: string; // yyyy-MM-dd
+  dateTo: string; // yyyy-MM-dd
+  paymentStatus?: PaymentStatus;
+}
+
+// Transfer of collected order money from the platform to a vendor
+export type PayoutStatus = 'scheduled' | 'processing' | 'paid' | 'failed';
+
+export interface Payout {
+  id: string;
+  reference: string;
+  amount: number;
+  fee?: number;
+  method: PaymentMethod;
+  status: PayoutStatus;
+  periodStart: string;
+  periodEnd: string;
+  orderCount: number;
+  paidAt?: string;
+  failureReason?: string;
+  createdAt: string;
+}
+
+export interface PayoutFilters {
+  page?: number;
+  limit?: number;
+  status?: PayoutStatus;
+  dateFrom?: string;
+  dateTo?: string;
+}
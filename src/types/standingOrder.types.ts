@@ -0,0 +1,81 @@
+import { User } from './user.types';
+import { Listing } from './listing.types';
+import { Address } from './api.types';
+import { PaymentMethod } from './order.types';
+
+// Day of week as returned by Date.getDay() (0 = Sunday)
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Item saved on a standing order template
+export interface StandingOrderItem {
+  listing: Listing;
+  quantity: number;
+  notes?: string;
+}
+
+// One-off change to a single scheduled delivery
+export interface StandingOrderException {
+  date: string; // yyyy-MM-dd
+  skipped?: boolean;
+  quantityOverrides?: Record<string, number>; // listing ID -> quantity (0 leaves the item out)
+  orderId?: string; // set once the order for this date has been placed
+}
+
+// Standing order template with its weekly schedule
+export interface StandingOrder {
+  id: string;
+  name: string;
+  vendor: User;
+  items: StandingOrderItem[];
+  schedule: Weekday[];
+  deliveryTimeSlot: string;
+  branch?: string; // branch ID the deliveries are for
+  deliveryAddress: Address;
+  savedAddress?: string; // address book entry the deliveries go to
+  deliveryNotes?: string;
+  paymentMethod?: PaymentMethod;
+  notes?: string;
+  isActive: boolean;
+  startDate: string;
+  endDate?: string;
+  exceptions: StandingOrderException[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Create standing order request
+export interface CreateStandingOrderRequest {
+  name: string;
+  vendor: string; // vendor user ID
+  items: Array<{
+    listing: string; // listing ID
+    quantity: number;
+    notes?: string;
+  }>;
+  schedule: Weekday[];
+  deliveryTimeSlot: string;
+  branch?: string;
+  deliveryAddress: Address;
+  savedAddress?: string;
+  deliveryNotes?: string;
+  paymentMethod?: PaymentMethod;
+  notes?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Update standing order request
+export interface UpdateStandingOrderRequest
+  extends Partial<Omit<CreateStandingOrderRequest, 'vendor'>> {
+  isActive?: boolean;
+}
+
+// Upcoming delivery generated from a template's schedule
+export interface StandingOrderOccurrence {
+  standingOrder: StandingOrder;
+  date: string; // yyyy-MM-dd
+  items: StandingOrderItem[]; // with any quantity overrides applied
+  skipped: boolean;
+  hasOverrides: boolean;
+  orderId?: string;
+}
@@ -0,0 +1,32 @@
+// Restaurant team types
+
+// What an owner allows a manager to do, on top of the restaurantManager role
+export interface ManagerScope {
+  spendLimit: number | null; // largest order total in BDT a manager can place alone; null = no limit
+  canCancelOrders: boolean;
+  canManageStandingOrders: boolean;
+  branchIds: string[]; // branches the manager orders for; empty covers every branch
+}
+
+// Invited managers appear on the team as soon as the owner confirms their phone
+export type TeamMemberStatus = 'invited' | 'active';
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  phone: string;
+  status: TeamMemberStatus;
+  scope: ManagerScope;
+  invitedAt: string;
+  joinedAt?: string;
+  lastActiveAt?: string;
+}
+
+export interface InviteManagerRequest {
+  name: string;
+  phone: string;
+  otp: string; // code sent to the manager's phone, read out to the owner
+  scope: ManagerScope;
+}
+
+export type UpdateManagerScopeRequest = Partial<ManagerScope>;
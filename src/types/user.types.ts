@@ -1,4 +1,5 @@
 import { Address } from './api.types';
+import { ManagerScope } from './team.types';
 
 // User roles as defined in backend
 export type UserRole = 'admin' | 'vendor' | 'restaurantOwner' | 'restaurantManager';
@@ -17,6 +18,7 @@ export interface User {
   // Role-specific data
   vendor?: VendorProfile;
   restaurant?: RestaurantProfile;
+  managerScope?: ManagerScope; // restaurant managers only, set by the owner
 }
 
 // Vendor-specific profile
@@ -49,6 +51,7 @@ export interface LoginRequest {
 export interface LoginResponse {
   success: true;
   token: string;
+  refreshToken?: string;
   user: User;
 }
 
@@ -74,6 +77,7 @@ export interface RegisterRequest {
 export interface RegisterResponse {
   success: true;
   token: string;
+  refreshToken?: string;
   user: User;
 }
 
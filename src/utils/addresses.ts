@@ -0,0 +1,46 @@
+// Lookups over the bundled Bangladesh location dataset and the address book
+
+import {
+  BANGLADESH_AREAS,
+  BANGLADESH_DIVISIONS,
+  BANGLADESH_LOCATIONS,
+  BANGLADESH_NAME_ALIASES,
+} from '@/constants';
+import { SavedAddress } from '@/types';
+
+export function getDistricts(division: string): string[] {
+  return Object.keys(BANGLADESH_LOCATIONS[division] || {});
+}
+
+export function getAllDistricts(): string[] {
+  return BANGLADESH_DIVISIONS.flatMap(getDistricts);
+}
+
+export function getDivisionOfDistrict(district: string): string | undefined {
+  return BANGLADESH_DIVISIONS.find(division => !!BANGLADESH_LOCATIONS[division]?.[district]);
+}
+
+export function getUpazilas(district: string): readonly string[] {
+  const division = getDivisionOfDistrict(district);
+  return (division && BANGLADESH_LOCATIONS[division]?.[district]) || [];
+}
+
+export function getAreaSuggestions(district: string, upazila: string): readonly string[] {
+  return BANGLADESH_AREAS[`${district}/${upazila}`] || [];
+}
+
+/**
+ * The dataset's spelling of a place name, ignoring case and accepting older
+ * spellings such as "Chittagong".
+ */
+export function matchLocationName(name: string, options: readonly string[]): string | undefined {
+  const key = name.trim().toLowerCase();
+  if (!key) return undefined;
+  const alias = BANGLADESH_NAME_ALIASES[key];
+  return options.find(option => option.toLowerCase() === key || option === alias);
+}
+
+// The entry checkout and new standing orders start from
+export function getDefaultSavedAddress(addresses: SavedAddress[]): SavedAddress | undefined {
+  return addresses.find(entry => entry.isDefault) || addresses[0];
+}
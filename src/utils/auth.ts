@@ -1,10 +1,11 @@
 import { User, UserRole } from '@/types';
+import { AUTH_CONFIG, Permission, PERMISSIONS, ROLE_PERMISSIONS } from '@/constants';
 
 // Token management utilities
 export class TokenManager {
-  private static readonly TOKEN_KEY = 'auth_token';
-  private static readonly REFRESH_TOKEN_KEY = 'refresh_token';
-  private static readonly USER_KEY = 'auth_user';
+  private static readonly TOKEN_KEY = AUTH_CONFIG.tokenStorageKey;
+  private static readonly REFRESH_TOKEN_KEY = AUTH_CONFIG.refreshTokenStorageKey;
+  private static readonly USER_KEY = AUTH_CONFIG.userStorageKey;
 
   // Token storage
   static setToken(token: string): void {
@@ -103,46 +104,73 @@ export class TokenManager {
     }
   }
 
-  // Check if token will expire soon (within 5 minutes)
-  static willTokenExpireSoon(): boolean {
-    const token = this.getToken();
-    if (!token) return true;
+  // Expiry time of a JWT in milliseconds, or null if it cannot be read
+  static getTokenExpiry(token: string | null = this.getToken()): number | null {
+    if (!token) return null;
 
     try {
       const parts = token.split('.');
-      if (parts.length !== 3) return true;
+      if (parts.length !== 3) return null;
 
-      const payload = JSON.parse(atob(parts[1]!));
-      const now = Math.floor(Date.now() / 1000);
-      
-      // Check if token expires within 5 minutes
-      return payload.exp && payload.exp <= (now + 300);
+      const payload = JSON.parse(atob(parts[1]!.replace(/-/g, '+').replace(/_/g, '/')));
+      return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
     } catch {
-      return true;
+      return null;
     }
   }
+
+  // Check if token will expire within the refresh threshold
+  static willTokenExpireSoon(token: string | null = this.getToken()): boolean {
+    const expiry = this.getTokenExpiry(token);
+    if (expiry === null) return true;
+
+    return expiry - Date.now() <= AUTH_CONFIG.tokenRefreshThreshold;
+  }
 }
 
 // Permission checking utilities
 export class PermissionManager {
-  private static readonly ROLE_PERMISSIONS: Record<UserRole, string[]> = {
-    admin: ['admin', 'listings', 'orders', 'public', 'users', 'analytics'],
-    vendor: ['listings', 'orders', 'public', 'vendor-dashboard'],
-    restaurantOwner: ['orders', 'public', 'restaurant-dashboard'],
-    restaurantManager: ['orders', 'public', 'restaurant-dashboard'],
-  };
-
-  static hasPermission(userRole: UserRole, permission: string): boolean {
-    const rolePermissions = this.ROLE_PERMISSIONS[userRole];
+  static hasPermission(userRole: UserRole, permission: Permission): boolean {
+    const rolePermissions = ROLE_PERMISSIONS[userRole];
     return rolePermissions?.includes(permission) || false;
   }
 
-  static canAccessRoute(userRole: UserRole, routePermission: string): boolean {
+  // Role permissions, narrowed or widened by the owner's scope for restaurant managers
+  static getUserPermissions(user: User): Permission[] {
+    const permissions = this.getAvailablePermissions(user.role);
+    const scope = user.role === 'restaurantManager' ? user.managerScope : undefined;
+    if (!scope) return permissions;
+
+    const scoped: Permission[] = [PERMISSIONS.CANCEL_ORDERS, PERMISSIONS.MANAGE_STANDING_ORDERS];
+    return [
+      ...permissions.filter(permission => !scoped.includes(permission)),
+      ...(scope.canCancelOrders ? [PERMISSIONS.CANCEL_ORDERS] : []),
+      ...(scope.canManageStandingOrders ? [PERMISSIONS.MANAGE_STANDING_ORDERS] : []),
+    ];
+  }
+
+  static hasAnyPermission(user: User, permissions: Permission[]): boolean {
+    const userPermissions = this.getUserPermissions(user);
+    return permissions.some(permission => userPermissions.includes(permission));
+  }
+
+  static hasAllPermissions(user: User, permissions: Permission[]): boolean {
+    const userPermissions = this.getUserPermissions(user);
+    return permissions.every(permission => userPermissions.includes(permission));
+  }
+
+  // Orders above a manager's spend limit go to the owner for approval
+  static requiresOrderApproval(user: User, orderTotal: number): boolean {
+    const spendLimit = user.role === 'restaurantManager' ? user.managerScope?.spendLimit : null;
+    return spendLimit !== null && spendLimit !== undefined && orderTotal > spendLimit;
+  }
+
+  static canAccessRoute(userRole: UserRole, routePermission: Permission): boolean {
     return this.hasPermission(userRole, routePermission);
   }
 
-  static getAvailablePermissions(userRole: UserRole): string[] {
-    return this.ROLE_PERMISSIONS[userRole] || [];
+  static getAvailablePermissions(userRole: UserRole): Permission[] {
+    return ROLE_PERMISSIONS[userRole] || [];
   }
 
   static isAdmin(userRole: UserRole): boolean {
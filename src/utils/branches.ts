@@ -0,0 +1,89 @@
+// Consolidated spend across a restaurant group's branches, built from orders
+
+import { SPEND_REPORT_DEFAULT_RANGE_DAYS, UNASSIGNED_BRANCH } from '@/constants';
+import {
+  BranchSpend,
+  Order,
+  RestaurantBranch,
+  SpendComparisonRow,
+  SpendReport,
+  SpendReportFilters,
+} from '@/types';
+import { DateFormatter } from './formatters';
+import { isBillableOrder } from './invoices';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const byTotal = (a: { total: number }, b: { total: number }): number => b.total - a.total;
+
+const addToRow = (
+  rows: Map<string, SpendComparisonRow>,
+  { id, name }: { id: string; name: string },
+  branchId: string,
+  amount: number
+) => {
+  const row = rows.get(id) || { id, name, total: 0, byBranch: {} };
+  rows.set(id, {
+    ...row,
+    total: round(row.total + amount),
+    byBranch: { ...row.byBranch, [branchId]: round((row.byBranch[branchId] || 0) + amount) },
+  });
+};
+
+/**
+ * Default report range: the last SPEND_REPORT_DEFAULT_RANGE_DAYS days up to today.
+ */
+export function getDefaultSpendRange(today: Date = new Date()): SpendReportFilters {
+  const from = new Date(today.getTime() - SPEND_REPORT_DEFAULT_RANGE_DAYS * DAY_MS);
+  return {
+    dateFrom: DateFormatter.toDateInputValue(from),
+    dateTo: DateFormatter.toDateInputValue(today),
+  };
+}
+
+/**
+ * Spend per branch, and per category and vendor split across the branches.
+ * Every branch is listed even without orders so quiet ones stand out; all
+ * rows are sorted by spend, highest first.
+ */
+export function buildSpendReport(orders: Order[], branches: RestaurantBranch[]): SpendReport {
+  const branchTotals = new Map<string, BranchSpend>(
+    branches.map(branch => [
+      branch.id,
+      { id: branch.id, name: branch.name, total: 0, orderCount: 0 },
+    ])
+  );
+  const categories = new Map<string, SpendComparisonRow>();
+  const vendors = new Map<string, SpendComparisonRow>();
+
+  const spendOrders = orders.filter(isBillableOrder);
+  spendOrders.forEach(order => {
+    const branch = order.branch || UNASSIGNED_BRANCH;
+    const branchTotal = branchTotals.get(branch.id) || { ...branch, total: 0, orderCount: 0 };
+    branchTotals.set(branch.id, {
+      ...branchTotal,
+      total: round(branchTotal.total + order.totalAmount),
+      orderCount: branchTotal.orderCount + 1,
+    });
+
+    addToRow(
+      vendors,
+      { id: order.vendor.id, name: order.vendor.vendor?.businessName || order.vendor.name },
+      branch.id,
+      order.totalAmount
+    );
+    order.items.forEach(item =>
+      addToRow(categories, item.listing.product.category, branch.id, item.totalPrice)
+    );
+  });
+
+  return {
+    total: round(spendOrders.reduce((sum, order) => sum + order.totalAmount, 0)),
+    orderCount: spendOrders.length,
+    branches: Array.from(branchTotals.values()).sort(byTotal),
+    categories: Array.from(categories.values()).sort(byTotal),
+    vendors: Array.from(vendors.values()).sort(byTotal),
+  };
+}
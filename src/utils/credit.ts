@@ -0,0 +1,54 @@
+// Credit account limits, checkout checks and invoice due dates
+
+import { CREDIT_DUE_SOON_DAYS } from '@/constants';
+import { CreditAccount, CreditInvoice } from '@/types';
+import { CurrencyFormatter } from './formatters';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CreditInvoiceState = 'overdue' | 'due_soon' | 'open';
+
+export function getAvailableCredit(account: CreditAccount): number {
+  return Math.max(0, account.creditLimit - account.outstandingBalance);
+}
+
+/**
+ * Why an order of this amount cannot be placed on credit, or null when it can.
+ * Overdue balances block new credit orders until they are settled.
+ */
+export function getCreditBlockReason(
+  account: CreditAccount | undefined,
+  amount: number
+): string | null {
+  if (!account) return 'This vendor has not offered you credit';
+  if (account.status === 'suspended') return 'Your credit account with this vendor is suspended';
+  if (account.overdueBalance > 0) {
+    return `Settle your overdue balance of ${CurrencyFormatter.formatBDT(account.overdueBalance)} to order on credit again`;
+  }
+
+  const available = getAvailableCredit(account);
+  if (amount > available) {
+    return `This order exceeds your available credit of ${CurrencyFormatter.formatBDT(available)}`;
+  }
+  return null;
+}
+
+/**
+ * Whole days until an invoice is due; negative once it is overdue.
+ */
+export function getDaysUntilDue(invoice: CreditInvoice, now: Date = new Date()): number {
+  const due = new Date(invoice.dueDate);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const dueDay = new Date(due.getFullYear(), due.getMonth(), due.getDate());
+  return Math.round((dueDay.getTime() - today.getTime()) / DAY_MS);
+}
+
+export function getCreditInvoiceState(
+  invoice: CreditInvoice,
+  now: Date = new Date()
+): CreditInvoiceState {
+  const days = getDaysUntilDue(invoice, now);
+  if (days < 0) return 'overdue';
+  if (days <= CREDIT_DUE_SOON_DAYS) return 'due_soon';
+  return 'open';
+}
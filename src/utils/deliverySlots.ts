@@ -0,0 +1,109 @@
+// Delivery slot schedules, capacity and order assignment
+
+import { WEIGHT_UNIT_TO_KG } from '@/constants';
+import {
+  DeliveryBlackoutDate,
+  DeliverySchedule,
+  DeliverySlot,
+  DeliverySlotUsage,
+  Order,
+  SaveDeliverySlotRequest,
+  Weekday,
+} from '@/types';
+
+// Label stored on orders as deliveryTimeSlot, matching DELIVERY_TIME_SLOTS
+export function getDeliverySlotLabel(slot: Pick<DeliverySlot, 'startTime' | 'endTime'>): string {
+  return `${slot.startTime} - ${slot.endTime}`;
+}
+
+export function getDeliveryWeekday(date: string): Weekday {
+  return new Date(`${date.slice(0, 10)}T00:00:00`).getDay() as Weekday;
+}
+
+export function getBlackoutDate(
+  schedule: DeliverySchedule,
+  date: string
+): DeliveryBlackoutDate | undefined {
+  return schedule.blackoutDates.find(blackout => blackout.date === date.slice(0, 10));
+}
+
+/**
+ * Active slots the vendor delivers in on a date, earliest first. Blackout
+ * dates have none.
+ */
+export function getSlotsForDate(schedule: DeliverySchedule, date: string): DeliverySlot[] {
+  if (getBlackoutDate(schedule, date)) return [];
+
+  const weekday = getDeliveryWeekday(date);
+  return schedule.slots
+    .filter(slot => slot.isActive && slot.weekday === weekday)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * Weight of an order's items sold by weight. Items sold per piece, bunch and
+ * so on do not count towards a slot's weight limit.
+ */
+export function getOrderWeightKg(order: Order): number {
+  return order.items.reduce((total, item) => {
+    const perUnit = WEIGHT_UNIT_TO_KG[item.listing.product.unit.toLowerCase()] ?? 0;
+    return total + item.quantity * perUnit;
+  }, 0);
+}
+
+// Orders placed before slots existed only carry the time window label
+export function isOrderInSlot(order: Order, slot: DeliverySlot): boolean {
+  if (order.deliverySlot) return order.deliverySlot === slot.id;
+  return order.deliveryTimeSlot === getDeliverySlotLabel(slot);
+}
+
+/**
+ * How full a slot is with the given orders (cancelled ones excluded). Fill is
+ * measured against whichever of the order and weight limits is tighter.
+ */
+export function getDeliverySlotUsage(slot: DeliverySlot, orders: Order[]): DeliverySlotUsage {
+  const booked = orders.filter(order => order.status !== 'cancelled' && isOrderInSlot(order, slot));
+  const weightKg = booked.reduce((total, order) => total + getOrderWeightKg(order), 0);
+
+  const ratios: number[] = [];
+  if (slot.maxOrders) ratios.push(booked.length / slot.maxOrders);
+  if (slot.maxWeightKg) ratios.push(weightKg / slot.maxWeightKg);
+  const fill = ratios.length > 0 ? Math.max(...ratios) : null;
+
+  return {
+    orderCount: booked.length,
+    weightKg,
+    fill,
+    isFull: fill !== null && fill >= 1,
+  };
+}
+
+/**
+ * Why a slot cannot be saved, or null when it can. Slots on the same weekday
+ * must not overlap.
+ */
+export function getDeliverySlotError(
+  data: SaveDeliverySlotRequest,
+  slots: DeliverySlot[],
+  slotId?: string
+): string | null {
+  if (!data.startTime || !data.endTime) return 'Enter a start and end time';
+  if (data.endTime <= data.startTime) return 'The slot must end after it starts';
+  if (data.maxOrders !== undefined && !(data.maxOrders > 0)) {
+    return 'Maximum orders must be above zero';
+  }
+  if (data.maxWeightKg !== undefined && !(data.maxWeightKg > 0)) {
+    return 'Maximum weight must be above zero';
+  }
+
+  const overlapping = slots.find(
+    slot =>
+      slot.id !== slotId &&
+      slot.weekday === data.weekday &&
+      slot.startTime < data.endTime &&
+      data.startTime < slot.endTime
+  );
+  if (overlapping) return `Overlaps the ${getDeliverySlotLabel(overlapping)} slot`;
+
+  return null;
+}
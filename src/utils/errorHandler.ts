@@ -1,5 +1,6 @@
 // Global error handling utilities
 
+import axios from 'axios';
 import { toast } from '@/stores/notificationStore';
 import { DEV_CONFIG, ERROR_MESSAGES } from '@/constants';
 
@@ -206,6 +207,24 @@ export class ErrorHandler {
     return status >= 500 || error?.code === 'NETWORK_ERROR';
   }
 
+  /**
+   * Check if the request never reached the server (offline, DNS, timeout)
+   */
+  static isNetworkError(error: any): boolean {
+    if (!error?.isAxiosError || error?.response) {
+      return false;
+    }
+
+    return ['ERR_NETWORK', 'ECONNABORTED', 'ETIMEDOUT', 'NETWORK_ERROR'].includes(error?.code);
+  }
+
+  /**
+   * Check if the server answered 404, e.g. for a record removed since it was cached
+   */
+  static isNotFound(error: unknown): boolean {
+    return axios.isAxiosError(error) && error.response?.status === 404;
+  }
+
   /**
    * Handle React error boundary errors
    */
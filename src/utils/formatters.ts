@@ -1,5 +1,15 @@
 // Formatting utilities for display
 
+import { BANGLADESH_DIVISIONS, BANGLADESH_POSTAL_CODE } from '@/constants';
+import type { Address, AddressDraft } from '@/types';
+import {
+  getAllDistricts,
+  getDistricts,
+  getDivisionOfDistrict,
+  getUpazilas,
+  matchLocationName,
+} from './addresses';
+
 export class CurrencyFormatter {
   private static readonly CURRENCY_SYMBOLS: Record<string, string> = {
     BDT: '৳',
@@ -91,6 +101,29 @@ export class DateFormatter {
     return this.formatDate(dateObj);
   }
 
+  /**
+   * Format a date as yyyy-MM-dd in local time (value format of date inputs)
+   */
+  static toDateInputValue(date: string | Date): string {
+    const dateObj = typeof date === 'string' ? new Date(date) : date;
+    const offset = dateObj.getTimezoneOffset() * 60 * 1000;
+
+    return new Date(dateObj.getTime() - offset).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Turn whole days picked in date inputs into the timestamp range the API filters on
+   */
+  static toTimestampRange({ dateFrom, dateTo }: { dateFrom: string; dateTo: string }): {
+    dateFrom: string;
+    dateTo: string;
+  } {
+    return {
+      dateFrom: new Date(`${dateFrom}T00:00:00`).toISOString(),
+      dateTo: new Date(`${dateTo}T23:59:59.999`).toISOString(),
+    };
+  }
+
   /**
    * Format time only
    */
@@ -203,6 +236,34 @@ export class TextFormatter {
   }
 }
 
+export type AddressField = 'division' | 'district' | 'upazila' | 'area' | 'street' | 'postalCode';
+
+export interface AddressValidationResult {
+  isValid: boolean;
+  errors: Partial<Record<AddressField, string>>;
+}
+
+const cleanText = (value?: string) => (value || '').replace(/\s+/g, ' ').trim();
+
+// Comparison form of an address part: case, punctuation and common
+// abbreviations do not make two addresses different
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  house: 'h',
+  road: 'rd',
+  block: 'blk',
+  sector: 'sec',
+  avenue: 'ave',
+};
+const toComparable = (value?: string) =>
+  cleanText(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0980-\u09ff]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(word => word !== 'no')
+    .map(word => STREET_ABBREVIATIONS[word] || word)
+    .join(' ');
+
 export class AddressFormatter {
   /**
    * Format address for display
@@ -210,17 +271,20 @@ export class AddressFormatter {
   static formatAddress(address: {
     street?: string;
     area?: string;
+    upazila?: string;
     city?: string;
     postalCode?: string;
   }): string {
     const parts = [
       address.street,
       address.area,
+      address.upazila,
       address.city,
       address.postalCode,
     ].filter(Boolean);
     
-    return parts.join(', ');
+    // Skip repeats, e.g. an area named after its thana
+    return parts.filter((part, index) => parts.indexOf(part) === index).join(', ');
   }
 
   /**
@@ -233,4 +297,96 @@ export class AddressFormatter {
     const parts = [address.area, address.city].filter(Boolean);
     return parts.join(', ');
   }
+
+  /**
+   * Tidy an address: trim whitespace, use the dataset's spelling of place
+   * names and fill in the division and district from older city-only
+   * addresses where possible. The city is kept in step with the district.
+   */
+  static normalizeAddress(address: AddressDraft): Address {
+    const district =
+      matchLocationName(cleanText(address.district || address.city), getAllDistricts()) ||
+      cleanText(address.district);
+    const division =
+      matchLocationName(cleanText(address.division), BANGLADESH_DIVISIONS) ||
+      (district && getDivisionOfDistrict(district)) ||
+      cleanText(address.division);
+    const upazila =
+      matchLocationName(cleanText(address.upazila), getUpazilas(district)) ||
+      cleanText(address.upazila);
+
+    return {
+      street: cleanText(address.street),
+      area: cleanText(address.area),
+      city: district || cleanText(address.city),
+      postalCode: cleanText(address.postalCode).replace(/\s/g, ''),
+      ...(division && { division }),
+      ...(district && { district }),
+      ...(upazila && { upazila }),
+      ...(address.coordinates && { coordinates: address.coordinates }),
+    };
+  }
+
+  /**
+   * Validate an address against the Bangladesh location dataset
+   */
+  static validateAddress(address: AddressDraft): AddressValidationResult {
+    const normalized = this.normalizeAddress(address);
+    const errors: AddressValidationResult['errors'] = {};
+
+    if (!normalized.division || !BANGLADESH_DIVISIONS.includes(normalized.division)) {
+      errors.division = 'Choose a division';
+    } else if (
+      !normalized.district ||
+      !getDistricts(normalized.division).includes(normalized.district)
+    ) {
+      errors.district = `Choose a district in ${normalized.division}`;
+    } else if (
+      !normalized.upazila ||
+      !getUpazilas(normalized.district).includes(normalized.upazila)
+    ) {
+      errors.upazila = `Choose an upazila or thana in ${normalized.district}`;
+    }
+
+    if (!normalized.area) {
+      errors.area = 'Area is required';
+    }
+    if (!normalized.street) {
+      errors.street = 'Street address is required';
+    }
+    if (!BANGLADESH_POSTAL_CODE.test(normalized.postalCode)) {
+      errors.postalCode = 'Postal code must be 4 digits';
+    }
+
+    return { isValid: Object.keys(errors).length === 0, errors };
+  }
+
+  /**
+   * Whether two addresses are the same place, ignoring case, punctuation and
+   * common abbreviations ("Road 5" and "rd. 5")
+   */
+  static isSameAddress(a: AddressDraft, b: AddressDraft): boolean {
+    const first = this.normalizeAddress(a);
+    const second = this.normalizeAddress(b);
+    const differs = (x?: string, y?: string) => !!x && !!y && toComparable(x) !== toComparable(y);
+
+    return (
+      toComparable(first.street) === toComparable(second.street) &&
+      toComparable(first.area) === toComparable(second.area) &&
+      toComparable(first.city) === toComparable(second.city) &&
+      !differs(first.upazila, second.upazila) &&
+      !differs(first.postalCode, second.postalCode)
+    );
+  }
+
+  /**
+   * A saved address matching the given one, so re-entered addresses reuse
+   * the saved entry instead of adding a duplicate
+   */
+  static findMatchingAddress<T extends AddressDraft>(
+    address: AddressDraft,
+    saved: T[]
+  ): T | undefined {
+    return saved.find(candidate => this.isSameAddress(address, candidate));
+  }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 // General helper utilities
 
+import type { PaginatedResponse } from '@/types';
+
 /**
  * Debounce function to limit API calls
  */
@@ -100,6 +102,14 @@ export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Exponential backoff with jitter, so clients dropped together do not all reconnect at once
+ */
+export function getReconnectDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const delay = Math.min(baseDelay * 2 ** attempt, maxDelay);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
 /**
  * Retry async function with exponential backoff
  */
@@ -130,6 +140,23 @@ export async function retry<T>(
   throw new Error('Max retries exceeded');
 }
 
+/**
+ * Fetch every page of a paginated endpoint. The first response gives the page
+ * count and the remaining pages are requested together.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<PaginatedResponse<T>>
+): Promise<T[]> {
+  const first = await fetchPage(1);
+  const rest = await Promise.all(
+    Array.from({ length: Math.max(first.pagination.pages - 1, 0) }, (_, index) =>
+      fetchPage(index + 2)
+    )
+  );
+
+  return [first, ...rest].flatMap(response => response.data);
+}
+
 /**
  * Convert file to base64
  */
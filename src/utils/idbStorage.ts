@@ -0,0 +1,9 @@
+// IndexedDB-backed string storage for data too large or too long-lived for localStorage
+
+import { del, get, set } from 'idb-keyval';
+
+export const idbStorage = {
+  getItem: async (key: string): Promise<string | null> => (await get<string>(key)) ?? null,
+  setItem: (key: string, value: string): Promise<void> => set(key, value),
+  removeItem: (key: string): Promise<void> => del(key),
+};
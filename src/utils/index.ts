@@ -3,4 +3,19 @@ export * from './auth';
 export * from './validation';
 export * from './formatters';
 export * from './helpers';
-export * from './errorHandler';
\ No newline at end of file
+export * from './errorHandler';
+export * from './standingOrders';
+export * from './inventory';
+export * from './listingSpreadsheet';
+export * from './idbStorage';
+export * from './notifications';
+export * from './invoices';
+export * from './invoicePdf';
+export * from './receivables';
+export * from './credit';
+export * from './payments';
+export * from './deliverySlots';
+export * from './routePlanning';
+export * from './addresses';
+export * from './mapTiles';
+export * from './branches';
\ No newline at end of file
@@ -0,0 +1,32 @@
+// Stock health checks for the vendor inventory grid
+
+import { EXPIRY_WARNING_DAYS, LOW_STOCK_THRESHOLD } from '@/constants';
+import { Listing } from '@/types';
+
+export type InventoryAlert = 'low_stock' | 'expiring' | 'expired';
+
+/**
+ * Stock is low once it drops to the threshold, or below the listing's own
+ * minimum order since no restaurant could then place an order for it.
+ */
+export function isLowStock(listing: Listing): boolean {
+  return listing.availableQuantity <= Math.max(LOW_STOCK_THRESHOLD, listing.minOrderQuantity || 0);
+}
+
+export function getExpiryAlert(listing: Listing, now: Date = new Date()): InventoryAlert | null {
+  if (!listing.expiryDate) return null;
+
+  const msLeft = new Date(listing.expiryDate).getTime() - now.getTime();
+  if (msLeft < 0) return 'expired';
+  return msLeft <= EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000 ? 'expiring' : null;
+}
+
+export function getInventoryAlerts(listing: Listing, now: Date = new Date()): InventoryAlert[] {
+  const alerts: InventoryAlert[] = [];
+  if (isLowStock(listing)) alerts.push('low_stock');
+
+  const expiryAlert = getExpiryAlert(listing, now);
+  if (expiryAlert) alerts.push(expiryAlert);
+
+  return alerts;
+}
@@ -0,0 +1,304 @@
+// PDF versions of invoices and account statements
+
+import type { jsPDF } from 'jspdf';
+import { ORDER_STATUS_LABELS, PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from '@/constants';
+import { AccountStatement, Invoice, InvoiceParty } from '@/types';
+import { AddressFormatter, DateFormatter } from './formatters';
+import { formatStatementMonth } from './invoices';
+
+// jsPDF is only needed when a PDF is downloaded, so it is loaded on demand
+const loadJsPdf = () => import('jspdf');
+
+const PAGE_MARGIN = 15; // mm
+const LINE_HEIGHT = 5; // mm
+
+interface PdfColumn {
+  header: string;
+  width: number; // mm
+  align?: 'left' | 'right';
+}
+
+// The built-in PDF fonts have no ৳ glyph, so amounts are written with the currency code
+const formatAmount = (amount: number) =>
+  `BDT ${amount.toLocaleString('en-BD', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const partyLines = (party: InvoiceParty): string[] =>
+  [
+    party.businessName,
+    party.contactName !== party.businessName ? party.contactName : '',
+    party.phone,
+    party.address ? AddressFormatter.formatAddress(party.address) : '',
+    party.businessLicense ? `Trade licence: ${party.businessLicense}` : '',
+  ].filter(Boolean);
+
+/**
+ * Writes blocks top to bottom on A4 pages, starting a new page whenever the
+ * next block would not fit.
+ */
+class PdfWriter {
+  private y = PAGE_MARGIN;
+
+  private constructor(private readonly doc: jsPDF) {}
+
+  static async create(): Promise<PdfWriter> {
+    const { jsPDF: JsPdf } = await loadJsPdf();
+    return new PdfWriter(new JsPdf({ unit: 'mm', format: 'a4' }));
+  }
+
+  private get width(): number {
+    return this.doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+  }
+
+  private get bottom(): number {
+    return this.doc.internal.pageSize.getHeight() - PAGE_MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height <= this.bottom) return;
+    this.doc.addPage();
+    this.y = PAGE_MARGIN;
+  }
+
+  heading(title: string, reference: string) {
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(20);
+    this.doc.text(title, PAGE_MARGIN, this.y + 6);
+    this.doc.setFontSize(11);
+    this.doc.text(reference, PAGE_MARGIN + this.width, this.y + 6, { align: 'right' });
+    this.y += 14;
+  }
+
+  details(rows: Array<[string, string]>) {
+    this.doc.setFontSize(9);
+    rows.forEach(([label, value]) => {
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.text(label, PAGE_MARGIN, this.y);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.text(value, PAGE_MARGIN + 30, this.y);
+      this.y += LINE_HEIGHT;
+    });
+    this.y += LINE_HEIGHT;
+  }
+
+  // Two address blocks side by side, e.g. "From" and "Bill to"
+  parties(
+    left: { label: string; party: InvoiceParty },
+    right: { label: string; party: InvoiceParty }
+  ) {
+    const columnWidth = this.width / 2 - 5;
+    const blocks = [left, right].map(({ label, party }) => ({
+      label,
+      lines: partyLines(party).flatMap(
+        line => this.doc.splitTextToSize(line, columnWidth) as string[]
+      ),
+    }));
+    const height = (Math.max(...blocks.map(block => block.lines.length)) + 1) * LINE_HEIGHT;
+    this.ensureSpace(height);
+
+    this.doc.setFontSize(9);
+    blocks.forEach((block, index) => {
+      const x = PAGE_MARGIN + index * (columnWidth + 10);
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.text(block.label.toUpperCase(), x, this.y);
+      this.doc.setFont('helvetica', 'normal');
+      block.lines.forEach((line, lineIndex) => {
+        this.doc.text(line, x, this.y + (lineIndex + 1) * LINE_HEIGHT);
+      });
+    });
+    this.y += height + LINE_HEIGHT;
+  }
+
+  // Table whose header row is repeated at the top of every page it spills onto
+  table(columns: PdfColumn[], rows: string[][]) {
+    const writeHeader = () => {
+      this.tableRow(
+        columns,
+        columns.map(column => column.header),
+        true
+      );
+      this.rule();
+    };
+
+    this.doc.setFontSize(9);
+    this.ensureSpace(LINE_HEIGHT * 3);
+    writeHeader();
+    rows.forEach(row => {
+      if (this.y + LINE_HEIGHT > this.bottom) {
+        this.doc.addPage();
+        this.y = PAGE_MARGIN;
+        writeHeader();
+      }
+      this.tableRow(columns, row);
+    });
+    this.rule();
+    this.y += 2;
+  }
+
+  // Right-aligned label/amount pairs under a table; the last row is the grand total
+  totals(rows: Array<[string, string]>) {
+    const right = PAGE_MARGIN + this.width;
+    this.ensureSpace(rows.length * LINE_HEIGHT + 4);
+
+    this.doc.setFontSize(10);
+    rows.forEach(([label, value], index) => {
+      this.doc.setFont('helvetica', index === rows.length - 1 ? 'bold' : 'normal');
+      this.doc.text(label, right - 45, this.y, { align: 'right' });
+      this.doc.text(value, right, this.y, { align: 'right' });
+      this.y += LINE_HEIGHT + 0.5;
+    });
+    this.y += LINE_HEIGHT;
+  }
+
+  note(label: string, text: string) {
+    const lines = this.doc.splitTextToSize(text, this.width) as string[];
+    this.ensureSpace((lines.length + 1) * LINE_HEIGHT);
+
+    this.doc.setFontSize(9);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.text(label, PAGE_MARGIN, this.y);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.text(lines, PAGE_MARGIN, this.y + LINE_HEIGHT);
+    this.y += (lines.length + 1) * LINE_HEIGHT + 2;
+  }
+
+  save(filename: string) {
+    this.doc.save(filename);
+  }
+
+  private tableRow(columns: PdfColumn[], cells: string[], bold: boolean = false) {
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+
+    let x = PAGE_MARGIN;
+    columns.forEach((column, index) => {
+      const text = this.doc.splitTextToSize(cells[index] ?? '', column.width - 2)[0] ?? '';
+      if (column.align === 'right') {
+        this.doc.text(text, x + column.width, this.y, { align: 'right' });
+      } else {
+        this.doc.text(text, x, this.y);
+      }
+      x += column.width;
+    });
+    this.y += LINE_HEIGHT + 1;
+  }
+
+  // Horizontal line under the row just written
+  private rule() {
+    this.doc.line(PAGE_MARGIN, this.y - 4, PAGE_MARGIN + this.width, this.y - 4);
+  }
+}
+
+const slug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Render an invoice to PDF and download it as invoice-<order number>.pdf.
+ */
+export async function downloadInvoicePdf(invoice: Invoice): Promise<void> {
+  const writer = await PdfWriter.create();
+
+  const details: Array<[string, string]> = [
+    ['Order', `#${invoice.orderNumber}`],
+    ['Issued', DateFormatter.formatDate(invoice.issuedAt)],
+  ];
+  if (invoice.deliveryDate) {
+    const slot = invoice.deliveryTimeSlot ? `, ${invoice.deliveryTimeSlot}` : '';
+    details.push(['Delivery', `${DateFormatter.formatDate(invoice.deliveryDate)}${slot}`]);
+  }
+  if (invoice.dueDate) details.push(['Payment due', DateFormatter.formatDate(invoice.dueDate)]);
+  details.push(['Status', ORDER_STATUS_LABELS[invoice.status]]);
+
+  writer.heading('INVOICE', invoice.invoiceNumber);
+  writer.details(details);
+  writer.parties(
+    { label: 'From', party: invoice.seller },
+    { label: 'Bill to', party: invoice.buyer }
+  );
+  writer.note('Deliver to', AddressFormatter.formatAddress(invoice.deliveryAddress));
+
+  writer.table(
+    [
+      { header: 'Item', width: 85 },
+      { header: 'Quantity', width: 30, align: 'right' },
+      { header: 'Unit price', width: 32, align: 'right' },
+      { header: 'Amount', width: 33, align: 'right' },
+    ],
+    invoice.lines.map(line => [
+      line.notes ? `${line.description} (${line.notes})` : line.description,
+      `${line.quantity} ${line.unit}`,
+      formatAmount(line.unitPrice),
+      formatAmount(line.total),
+    ])
+  );
+
+  const totals: Array<[string, string]> = [['Subtotal', formatAmount(invoice.subtotal)]];
+  if (invoice.deliveryFee) totals.push(['Delivery fee', formatAmount(invoice.deliveryFee)]);
+  if (invoice.taxAmount) totals.push(['Tax', formatAmount(invoice.taxAmount)]);
+  if (invoice.discountAmount) totals.push(['Discount', `-${formatAmount(invoice.discountAmount)}`]);
+  totals.push(['Total', formatAmount(invoice.total)]);
+  writer.totals(totals);
+
+  writer.note(
+    'Payment',
+    [
+      invoice.paymentMethod ? PAYMENT_METHOD_LABELS[invoice.paymentMethod] : 'Not specified',
+      PAYMENT_STATUS_LABELS[invoice.paymentStatus],
+    ].join(' - ')
+  );
+  if (invoice.notes) writer.note('Notes', invoice.notes);
+
+  writer.save(`invoice-${invoice.orderNumber}.pdf`);
+}
+
+/**
+ * Render a monthly account statement to PDF and download it.
+ */
+export async function downloadStatementPdf(statement: AccountStatement): Promise<void> {
+  const writer = await PdfWriter.create();
+
+  writer.heading('ACCOUNT STATEMENT', formatStatementMonth(statement.month));
+  writer.details([
+    [
+      'Period',
+      `${DateFormatter.formatDate(statement.periodStart)} - ${DateFormatter.formatDate(statement.periodEnd)}`,
+    ],
+    ['Orders', String(statement.entries.length)],
+  ]);
+  writer.parties(
+    { label: 'Vendor', party: statement.seller },
+    { label: 'Restaurant', party: statement.buyer }
+  );
+
+  writer.table(
+    [
+      { header: 'Date', width: 24 },
+      { header: 'Order', width: 28 },
+      { header: 'Status', width: 22 },
+      { header: 'Payment', width: 28 },
+      { header: 'Amount', width: 26, align: 'right' },
+      { header: 'Paid', width: 26, align: 'right' },
+      { header: 'Balance', width: 26, align: 'right' },
+    ],
+    statement.entries.map(entry => [
+      new Date(entry.date).toLocaleDateString('en-BD'),
+      `#${entry.orderNumber}`,
+      ORDER_STATUS_LABELS[entry.status],
+      PAYMENT_STATUS_LABELS[entry.paymentStatus],
+      formatAmount(entry.amount),
+      formatAmount(entry.paid),
+      formatAmount(entry.balance),
+    ])
+  );
+
+  writer.totals([
+    ['Total ordered', formatAmount(statement.totalOrdered)],
+    ['Paid', formatAmount(statement.totalPaid)],
+    ['Outstanding', formatAmount(statement.totalOutstanding)],
+  ]);
+
+  writer.save(
+    `statement-${statement.month}-${slug(statement.seller.businessName)}-${slug(statement.buyer.businessName)}.pdf`
+  );
+}
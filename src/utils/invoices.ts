@@ -0,0 +1,174 @@
+// Building invoices and monthly account statements from orders
+
+import { INVOICE_NUMBER_PREFIX } from '@/constants';
+import { AccountStatement, Invoice, InvoiceParty, Order, StatementEntry, User } from '@/types';
+import { DateFormatter } from './formatters';
+
+/**
+ * Whether the restaurant owes for an order. Cancelled, refunded and rejected
+ * orders are never paid; ones still awaiting owner approval may not be.
+ */
+export function isBillableOrder(order: Order): boolean {
+  return (
+    order.status !== 'cancelled' &&
+    order.paymentStatus !== 'refunded' &&
+    (!order.approval || order.approval.status === 'approved')
+  );
+}
+
+/**
+ * Business details for one side of an order, falling back to the account
+ * name when the profile has not been filled in.
+ */
+export function getInvoiceParty(user: User): InvoiceParty {
+  const party: InvoiceParty = {
+    businessName: user.vendor?.businessName || user.restaurant?.restaurantName || user.name,
+    contactName: user.name,
+    phone: user.phone,
+  };
+  const address = user.vendor?.businessAddress ?? user.restaurant?.restaurantAddress;
+  if (address) party.address = address;
+  if (user.vendor?.businessLicense) party.businessLicense = user.vendor.businessLicense;
+  return party;
+}
+
+export function getInvoiceNumber(order: Pick<Order, 'orderNumber'>): string {
+  return `${INVOICE_NUMBER_PREFIX}-${order.orderNumber}`;
+}
+
+/**
+ * Invoice for a single order: the vendor bills the restaurant for every line,
+ * plus delivery and tax, less any discount.
+ */
+export function buildInvoice(order: Order): Invoice {
+  const lines = order.items.map(item => ({
+    id: item.id,
+    description: item.listing.product.name,
+    unit: item.listing.product.unit,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    total: item.totalPrice,
+    ...(item.notes ? { notes: item.notes } : {}),
+  }));
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+
+  const invoice: Invoice = {
+    invoiceNumber: getInvoiceNumber(order),
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    issuedAt: order.createdAt,
+    seller: getInvoiceParty(order.vendor),
+    buyer: getInvoiceParty(order.restaurant),
+    deliveryAddress: order.deliveryAddress,
+    lines,
+    subtotal,
+    deliveryFee: order.deliveryFee ?? 0,
+    taxAmount: order.taxAmount ?? 0,
+    discountAmount: order.discountAmount ?? 0,
+    total: order.totalAmount,
+    paymentStatus: order.paymentStatus,
+    status: order.status,
+  };
+  if (order.deliveryDate) invoice.deliveryDate = order.deliveryDate;
+  if (order.deliveryTimeSlot) invoice.deliveryTimeSlot = order.deliveryTimeSlot;
+  if (order.paymentMethod) invoice.paymentMethod = order.paymentMethod;
+  if (order.paymentDueDate) invoice.dueDate = order.paymentDueDate;
+  if (order.notes) invoice.notes = order.notes;
+  return invoice;
+}
+
+/**
+ * First and last moment of a yyyy-MM month in local time, as ISO strings for
+ * the order date filters.
+ */
+export function getMonthRange(month: string): { dateFrom: string; dateTo: string } {
+  const [year = 0, monthIndex = 1] = month.split('-').map(Number);
+  const start = new Date(year, monthIndex - 1, 1);
+  const end = new Date(year, monthIndex, 0, 23, 59, 59, 999);
+  return { dateFrom: start.toISOString(), dateTo: end.toISOString() };
+}
+
+export function getCurrentMonth(date: Date = new Date()): string {
+  return DateFormatter.toDateInputValue(date).slice(0, 7);
+}
+
+// e.g. "October 2026"
+export function formatStatementMonth(month: string): string {
+  const [year = 0, monthIndex = 1] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-BD', {
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Split orders by the business on the other side: vendors for a restaurant,
+ * restaurants for a vendor. Sorted by business name.
+ */
+export function groupOrdersByCounterparty(
+  orders: Order[],
+  counterparty: 'vendor' | 'restaurant'
+): Array<{ id: string; name: string; orders: Order[] }> {
+  const groups = new Map<string, { id: string; name: string; orders: Order[] }>();
+
+  orders.forEach(order => {
+    const user = order[counterparty];
+    const group = groups.get(user.id) ?? {
+      id: user.id,
+      name: getInvoiceParty(user).businessName,
+      orders: [],
+    };
+    group.orders.push(order);
+    groups.set(user.id, group);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Consolidate one month of orders between a single restaurant and vendor.
+ * Cancelled orders are listed but not charged, and only paid orders count
+ * as settled. Returns null when there are no orders.
+ */
+export function buildAccountStatement(orders: Order[], month: string): AccountStatement | null {
+  const [first] = orders;
+  if (!first) return null;
+
+  const sorted = [...orders].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  let balance = 0;
+  const entries = sorted.map((order): StatementEntry => {
+    const amount = isBillableOrder(order) ? order.totalAmount : 0;
+    const paid = order.paymentStatus === 'paid' ? amount : 0;
+    balance += amount - paid;
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      date: order.createdAt,
+      status: order.status,
+      paymentStatus: order.paymentStatus,
+      amount,
+      paid,
+      balance,
+    };
+  });
+
+  const totalOrdered = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const totalPaid = entries.reduce((sum, entry) => sum + entry.paid, 0);
+  const { dateFrom, dateTo } = getMonthRange(month);
+
+  return {
+    month,
+    periodStart: dateFrom,
+    periodEnd: dateTo,
+    seller: getInvoiceParty(first.vendor),
+    buyer: getInvoiceParty(first.restaurant),
+    entries,
+    totalOrdered,
+    totalPaid,
+    totalOutstanding: totalOrdered - totalPaid,
+  };
+}
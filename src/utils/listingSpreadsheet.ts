@@ -0,0 +1,133 @@
+// Reading and writing listing spreadsheets (CSV/XLSX) for bulk import and export
+
+import { LISTING_SPREADSHEET_COLUMNS } from '@/constants';
+import { Listing, ListingColumnMapping, SpreadsheetData } from '@/types';
+import { DateFormatter } from './formatters';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// Several photo links share one cell
+export const IMAGE_URL_SEPARATOR = ' | ';
+
+// SheetJS is only needed on the import/export screens, so it is loaded on demand
+const loadSheetJs = () => import('xlsx');
+
+// Text starting with one of these runs as a formula when the file is opened in a spreadsheet app
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quoted on export so names like "=HYPERLINK(...)" are shown as text, not evaluated
+const escapeFormula = (cell: string | number): string | number =>
+  typeof cell === 'string' && FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const cellToText = (cell: unknown): string => {
+  if (cell instanceof Date) return DateFormatter.toDateInputValue(cell);
+  if (cell === null || cell === undefined) return '';
+  const text = String(cell).trim();
+  // Undo the export escaping so re-imported files keep their original text
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+};
+
+/**
+ * Read the first sheet of a CSV or Excel file. The first row is treated as
+ * headers and fully blank rows are dropped.
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+  const XLSX = await loadSheetJs();
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  const sheetName = workbook.SheetNames[0];
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+  if (!sheet) throw new Error('The file does not contain any sheets');
+
+  const [headerRow = [], ...bodyRows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    defval: '',
+    blankrows: false,
+  });
+  const headers = headerRow.map(cellToText);
+  if (headers.every(header => !header)) throw new Error('The first row must contain column names');
+
+  const rows = bodyRows
+    .map(row => headers.map((_, index) => cellToText(row[index])))
+    .filter(row => row.some(cell => cell !== ''));
+
+  return { fileName: file.name, headers, rows };
+}
+
+/**
+ * Match spreadsheet headers to listing fields by column label or field name,
+ * ignoring case, spaces and punctuation.
+ */
+export function guessListingColumnMapping(headers: string[]): ListingColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ListingColumnMapping = {};
+
+  LISTING_SPREADSHEET_COLUMNS.forEach(({ field, label }) => {
+    const candidates = [normalizeHeader(label), normalizeHeader(field)];
+    const index = normalized.findIndex(header => candidates.includes(header));
+    if (index !== -1) mapping[field] = index;
+  });
+
+  return mapping;
+}
+
+// One export row in LISTING_SPREADSHEET_COLUMNS order
+export function listingToSpreadsheetRow(listing: Listing): (string | number)[] {
+  return LISTING_SPREADSHEET_COLUMNS.map(({ field }) => {
+    switch (field) {
+      case 'id':
+        return listing.id;
+      case 'product':
+        return listing.product.name;
+      case 'images':
+        return listing.images.join(IMAGE_URL_SEPARATOR);
+      case 'harvestDate':
+      case 'expiryDate': {
+        const date = listing[field];
+        return date ? DateFormatter.toDateInputValue(date) : '';
+      }
+      case 'organicCertified':
+        return listing.organicCertified ? 'Yes' : 'No';
+      default:
+        return listing[field] ?? '';
+    }
+  });
+}
+
+/**
+ * Download rows as a single-sheet CSV or Excel file. The first row is the
+ * header row; text that would run as a formula is quoted.
+ */
+export async function downloadSpreadsheet(
+  rows: (string | number)[][],
+  sheetName: string,
+  format: SpreadsheetFormat,
+  fileName: string
+): Promise<void> {
+  const XLSX = await loadSheetJs();
+  const sheet = XLSX.utils.aoa_to_sheet(rows.map(row => row.map(escapeFormula)));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
+  XLSX.writeFile(workbook, `${fileName}.${format}`, { bookType: format });
+}
+
+/**
+ * Download listings in the import layout. With no listings this produces an
+ * empty template containing only the header row.
+ */
+export async function downloadListingSpreadsheet(
+  listings: Listing[],
+  format: SpreadsheetFormat,
+  fileName: string
+): Promise<void> {
+  await downloadSpreadsheet(
+    [
+      LISTING_SPREADSHEET_COLUMNS.map(column => column.label),
+      ...listings.map(listingToSpreadsheetRow),
+    ],
+    'Listings',
+    format,
+    fileName
+  );
+}
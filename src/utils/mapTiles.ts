@@ -0,0 +1,60 @@
+// Web Mercator tile maths for the SVG maps
+
+import { EXTERNAL_SERVICES, MAP_TILE_SIZE } from '@/constants';
+import { Coordinates } from '@/types';
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+// World pixel position at a zoom level
+export function projectCoordinates({ latitude, longitude }: Coordinates, zoom: number): MapPoint {
+  const scale = MAP_TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((latitude * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+export function unprojectPoint({ x, y }: MapPoint, zoom: number): Coordinates {
+  const scale = MAP_TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    latitude: (Math.atan(Math.sinh(n)) * 180) / Math.PI,
+    longitude: (x / scale) * 360 - 180,
+  };
+}
+
+/**
+ * Tiles covering a view whose top-left corner is at `origin` (world pixels),
+ * with the tile server URL for each. Columns wrap around the antimeridian.
+ */
+export function getVisibleTiles(
+  origin: MapPoint,
+  width: number,
+  height: number,
+  zoom: number
+): Array<MapPoint & { url: string }> {
+  const tileCount = 2 ** zoom;
+  const tiles: Array<MapPoint & { url: string }> = [];
+
+  for (let x = Math.floor(origin.x / MAP_TILE_SIZE); x * MAP_TILE_SIZE < origin.x + width; x += 1) {
+    for (
+      let y = Math.floor(origin.y / MAP_TILE_SIZE);
+      y * MAP_TILE_SIZE < origin.y + height;
+      y += 1
+    ) {
+      if (y >= 0 && y < tileCount) {
+        const url = EXTERNAL_SERVICES.maps.tileUrl
+          .replace('{z}', String(zoom))
+          .replace('{x}', String(((x % tileCount) + tileCount) % tileCount))
+          .replace('{y}', String(y));
+        tiles.push({ x, y, url });
+      }
+    }
+  }
+
+  return tiles;
+}
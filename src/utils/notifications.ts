@@ -0,0 +1,32 @@
+// Helpers for inbox notifications
+
+import { ADMIN_ROUTES, RESTAURANT_ROUTES, VENDOR_ROUTES } from '@/constants';
+import { AppNotification, UserRole } from '@/types';
+
+/**
+ * Page for the record a notification is about, as seen by the given role, or
+ * null when there is nothing to open.
+ */
+export function getNotificationLink(notification: AppNotification, role: UserRole): string | null {
+  const { entity } = notification;
+  if (!entity) return null;
+
+  switch (entity.type) {
+    case 'order':
+      // Approval requests open the owner's review queue rather than tracking
+      if (notification.type === 'order_approval' && role === 'restaurantOwner') {
+        return RESTAURANT_ROUTES.APPROVALS;
+      }
+      if (role === 'vendor') return VENDOR_ROUTES.ORDER_DETAIL(entity.id);
+      if (role === 'restaurantOwner' || role === 'restaurantManager') {
+        return RESTAURANT_ROUTES.ORDER_TRACKING(entity.id);
+      }
+      return ADMIN_ROUTES.ORDERS;
+    case 'listing':
+      return role === 'vendor' ? VENDOR_ROUTES.LISTINGS_EDIT(entity.id) : null;
+    case 'vendor':
+      return role === 'admin' ? ADMIN_ROUTES.VENDORS : VENDOR_ROUTES.DASHBOARD;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,66 @@
+// Mobile banking payment helpers shared by the gateways and payment pages
+
+import { PAYMENT_CALLBACK_STATUSES } from '@/constants';
+import {
+  Order,
+  PaymentCallback,
+  PaymentCallbackStatus,
+  PaymentSessionStatus,
+  PaymentStatus,
+} from '@/types';
+
+const SESSION_OUTCOMES: Record<
+  PaymentCallbackStatus,
+  { status: PaymentSessionStatus; paymentStatus: PaymentStatus }
+> = {
+  success: { status: 'completed', paymentStatus: 'paid' },
+  pending: { status: 'pending', paymentStatus: 'pending' },
+  failure: { status: 'failed', paymentStatus: 'failed' },
+  // Nothing was charged, so the order can simply be paid again
+  cancel: { status: 'cancelled', paymentStatus: 'pending' },
+};
+
+export function getPaymentOutcome(status: PaymentCallbackStatus): {
+  status: PaymentSessionStatus;
+  paymentStatus: PaymentStatus;
+} {
+  return SESSION_OUTCOMES[status];
+}
+
+/**
+ * Read the wallet's result from the callback URL. Returns null when the
+ * session ID or status is missing or unknown.
+ */
+export function parsePaymentCallback(params: URLSearchParams): PaymentCallback | null {
+  const sessionId = params.get('sessionId');
+  const status = params.get('status') as PaymentCallbackStatus | null;
+  if (!sessionId || !status || !PAYMENT_CALLBACK_STATUSES.includes(status)) return null;
+
+  const callback: PaymentCallback = { sessionId, status };
+  const transactionId = params.get('transactionId');
+  const reason = params.get('reason');
+  if (transactionId) callback.transactionId = transactionId;
+  if (reason) callback.reason = reason;
+  return callback;
+}
+
+export function buildPaymentCallbackUrl(callbackUrl: string, callback: PaymentCallback): string {
+  const url = new URL(callbackUrl, window.location.origin);
+  Object.entries(callback).forEach(([key, value]) => {
+    if (value) url.searchParams.set(key, value);
+  });
+  return url.toString();
+}
+
+/**
+ * Whether a mobile banking order still needs paying: not yet paid, not
+ * cancelled and not held for or refused owner approval.
+ */
+export function canPayOrderByMobileBanking(order: Order): boolean {
+  return (
+    order.paymentMethod === 'mobile_banking' &&
+    (order.paymentStatus === 'pending' || order.paymentStatus === 'failed') &&
+    order.status !== 'cancelled' &&
+    (!order.approval || order.approval.status === 'approved')
+  );
+}
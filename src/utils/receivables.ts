@@ -0,0 +1,231 @@
+// Grouping delivered orders into a receivables ledger and exporting it for reconciliation
+
+import {
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_STATUS_LABELS,
+  PAYOUT_STATUS_LABELS,
+  RECEIVABLES_AGING_BUCKETS,
+  RECEIVABLES_DEFAULT_RANGE_DAYS,
+  RECEIVABLES_OUTSTANDING_PAYMENT_STATUSES,
+} from '@/constants';
+import {
+  CodAging,
+  Order,
+  PaymentMethod,
+  PaymentStatus,
+  Payout,
+  ReceivablesAgingBucketId,
+  ReceivablesFilters,
+  ReceivablesLedger,
+  ReceivablesTotal,
+} from '@/types';
+import { DateFormatter } from './formatters';
+import { downloadSpreadsheet } from './listingSpreadsheet';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyTotal = (): ReceivablesTotal => ({ count: 0, amount: 0 });
+
+const emptyStatusTotals = (): Record<PaymentStatus, ReceivablesTotal> => ({
+  pending: emptyTotal(),
+  paid: emptyTotal(),
+  failed: emptyTotal(),
+  refunded: emptyTotal(),
+});
+
+const add = (total: ReceivablesTotal, order: Order): ReceivablesTotal => ({
+  count: total.count + 1,
+  amount: total.amount + order.totalAmount,
+});
+
+// Orders placed before payment methods were recorded were all cash on delivery
+const getPaymentMethod = (order: Order): PaymentMethod => order.paymentMethod ?? 'cash_on_delivery';
+
+// The order is last updated when it is marked delivered, so that stands in
+// for the delivery time when no delivery date was requested
+const getDeliveredAt = (order: Order): string => order.deliveryDate ?? order.updatedAt;
+
+/**
+ * Default ledger range: the last RECEIVABLES_DEFAULT_RANGE_DAYS days up to today.
+ */
+export function getDefaultReceivablesRange(today: Date = new Date()): ReceivablesFilters {
+  const from = new Date(today.getTime() - RECEIVABLES_DEFAULT_RANGE_DAYS * DAY_MS);
+  return {
+    dateFrom: DateFormatter.toDateInputValue(from),
+    dateTo: DateFormatter.toDateInputValue(today),
+  };
+}
+
+/**
+ * Whole days between delivery and now, and the aging bucket that falls in.
+ */
+export function getReceivableAge(
+  order: Order,
+  now: Date = new Date()
+): { ageDays: number; bucket: ReceivablesAgingBucketId } {
+  const ageDays = Math.max(
+    0,
+    Math.floor((now.getTime() - new Date(getDeliveredAt(order)).getTime()) / DAY_MS)
+  );
+  const bucket =
+    RECEIVABLES_AGING_BUCKETS.find(({ maxDays }) => maxDays === null || ageDays <= maxDays)?.id ??
+    'overdue';
+  return { ageDays, bucket };
+}
+
+/**
+ * Group delivered orders by payment status and payment method.
+ */
+export function buildReceivablesLedger(orders: Order[]): ReceivablesLedger {
+  const ledger: ReceivablesLedger = {
+    byPaymentStatus: emptyStatusTotals(),
+    byPaymentMethod: {
+      cash_on_delivery: emptyStatusTotals(),
+      mobile_banking: emptyStatusTotals(),
+      bank_transfer: emptyStatusTotals(),
+      card: emptyStatusTotals(),
+      credit: emptyStatusTotals(),
+    },
+    delivered: emptyTotal(),
+  };
+
+  orders
+    .filter(order => order.status === 'delivered')
+    .forEach(order => {
+      const method = getPaymentMethod(order);
+      const { paymentStatus } = order;
+      ledger.delivered = add(ledger.delivered, order);
+      ledger.byPaymentStatus[paymentStatus] = add(ledger.byPaymentStatus[paymentStatus], order);
+      ledger.byPaymentMethod[method][paymentStatus] = add(
+        ledger.byPaymentMethod[method][paymentStatus],
+        order
+      );
+    });
+
+  return ledger;
+}
+
+/**
+ * Age the cash-on-delivery amounts that have not been collected yet.
+ */
+export function buildCodAging(orders: Order[], now: Date = new Date()): CodAging {
+  const aging: CodAging = {
+    byBucket: {
+      current: emptyTotal(),
+      week: emptyTotal(),
+      month: emptyTotal(),
+      overdue: emptyTotal(),
+    },
+    outstanding: [],
+  };
+
+  orders
+    .filter(
+      order =>
+        order.status === 'delivered' &&
+        getPaymentMethod(order) === 'cash_on_delivery' &&
+        RECEIVABLES_OUTSTANDING_PAYMENT_STATUSES.includes(order.paymentStatus)
+    )
+    .forEach(order => {
+      const age = getReceivableAge(order, now);
+      aging.byBucket[age.bucket] = add(aging.byBucket[age.bucket], order);
+      aging.outstanding.push({ order, ...age });
+    });
+
+  aging.outstanding.sort((a, b) => b.ageDays - a.ageDays);
+  return aging;
+}
+
+/**
+ * Total still to be collected across pending and failed payments.
+ */
+export function getOutstandingTotal(ledger: ReceivablesLedger): ReceivablesTotal {
+  return RECEIVABLES_OUTSTANDING_PAYMENT_STATUSES.reduce(
+    (total, status) => ({
+      count: total.count + ledger.byPaymentStatus[status].count,
+      amount: total.amount + ledger.byPaymentStatus[status].amount,
+    }),
+    emptyTotal()
+  );
+}
+
+/**
+ * Download one row per delivered order for matching against bank and
+ * mobile banking statements.
+ */
+export async function downloadReceivablesCsv(
+  orders: Order[],
+  filters: ReceivablesFilters,
+  now: Date = new Date()
+): Promise<void> {
+  const rows = orders
+    .filter(order => order.status === 'delivered')
+    .map(order => {
+      const outstanding = RECEIVABLES_OUTSTANDING_PAYMENT_STATUSES.includes(order.paymentStatus);
+      return [
+        order.orderNumber,
+        order.restaurant.restaurant?.restaurantName || order.restaurant.name,
+        DateFormatter.toDateInputValue(getDeliveredAt(order)),
+        PAYMENT_METHOD_LABELS[getPaymentMethod(order)],
+        PAYMENT_STATUS_LABELS[order.paymentStatus],
+        order.totalAmount,
+        outstanding ? getReceivableAge(order, now).ageDays : '',
+      ];
+    });
+
+  await downloadSpreadsheet(
+    [
+      [
+        'Order number',
+        'Restaurant',
+        'Delivered',
+        'Payment method',
+        'Payment status',
+        'Amount (BDT)',
+        'Days outstanding',
+      ],
+      ...rows,
+    ],
+    'Receivables',
+    'csv',
+    `receivables-${filters.dateFrom}-to-${filters.dateTo}`
+  );
+}
+
+/**
+ * Download the payout history for matching against bank deposits.
+ */
+export async function downloadPayoutsCsv(
+  payouts: Payout[],
+  filters: ReceivablesFilters
+): Promise<void> {
+  await downloadSpreadsheet(
+    [
+      [
+        'Reference',
+        'Period start',
+        'Period end',
+        'Orders',
+        'Amount (BDT)',
+        'Fee (BDT)',
+        'Method',
+        'Status',
+        'Paid on',
+      ],
+      ...payouts.map(payout => [
+        payout.reference,
+        DateFormatter.toDateInputValue(payout.periodStart),
+        DateFormatter.toDateInputValue(payout.periodEnd),
+        payout.orderCount,
+        payout.amount,
+        payout.fee ?? 0,
+        PAYMENT_METHOD_LABELS[payout.method],
+        PAYOUT_STATUS_LABELS[payout.status],
+        payout.paidAt ? DateFormatter.toDateInputValue(payout.paidAt) : '',
+      ]),
+    ],
+    'Payouts',
+    'csv',
+    `payouts-${filters.dateFrom}-to-${filters.dateTo}`
+  );
+}
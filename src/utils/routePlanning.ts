@@ -0,0 +1,120 @@
+// Delivery run stops, distances and route ordering
+
+import { ROUTE_AVERAGE_SPEED_KMH, ROUTE_STOP_MINUTES } from '@/constants';
+import { Coordinates, Order, RouteStop } from '@/types';
+import { AddressFormatter } from './formatters';
+
+const EARTH_RADIUS_KM = 6371;
+const MAX_IMPROVEMENT_PASSES = 50;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Straight-line (haversine) distance
+export function getDistanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Group orders into one stop per restaurant address, keeping the first
+ * order's position. Coordinates come from the address when it has them.
+ */
+export function buildRouteStops(orders: Order[]): RouteStop[] {
+  const stops = new Map<string, RouteStop>();
+
+  orders.forEach(order => {
+    const id = `${order.restaurant.id}:${AddressFormatter.formatAddress(order.deliveryAddress)}`;
+    const existing = stops.get(id);
+    if (existing) {
+      stops.set(id, { ...existing, orders: [...existing.orders, order] });
+      return;
+    }
+
+    stops.set(id, {
+      id,
+      restaurantName: order.restaurant.restaurant?.restaurantName || order.restaurant.name,
+      ...(order.restaurant.phone && { phone: order.restaurant.phone }),
+      address: order.deliveryAddress,
+      ...(order.deliveryAddress.coordinates && {
+        coordinates: order.deliveryAddress.coordinates,
+      }),
+      ...(order.deliveryNotes && { deliveryNotes: order.deliveryNotes }),
+      orders: [order],
+    });
+  });
+
+  return Array.from(stops.values());
+}
+
+/**
+ * Total distance driving from the start through the stops in order. Without
+ * a start the run begins at the first stop.
+ */
+export function getRouteDistanceKm(points: Coordinates[], start?: Coordinates): number {
+  const path = start ? [start, ...points] : points;
+  return path.reduce(
+    (total, point, index) => (index === 0 ? 0 : total + getDistanceKm(path[index - 1]!, point)),
+    0
+  );
+}
+
+export function estimateRouteMinutes(distanceKm: number, stopCount: number): number {
+  return Math.round((distanceKm / ROUTE_AVERAGE_SPEED_KMH) * 60 + stopCount * ROUTE_STOP_MINUTES);
+}
+
+const getNearestIndex = (from: Coordinates, stops: Array<{ coordinates: Coordinates }>) =>
+  stops.reduce(
+    (nearest, stop, index) =>
+      getDistanceKm(from, stop.coordinates) < getDistanceKm(from, stops[nearest]!.coordinates)
+        ? index
+        : nearest,
+    0
+  );
+
+/**
+ * Order stops for a single run that does not return to the start: nearest
+ * neighbour from the start, then 2-opt swaps until no reversal shortens the
+ * route. Straight-line distances are used, so it is a good, not optimal, order.
+ */
+export function planRoute<T extends { coordinates: Coordinates }>(
+  stops: T[],
+  start?: Coordinates
+): T[] {
+  if (stops.length < 3 && !start) return [...stops];
+
+  // Nearest neighbour
+  const remaining = [...stops];
+  const route: T[] = [];
+  let current = start ?? remaining[0]!.coordinates;
+  while (remaining.length > 0) {
+    const [nearest] = remaining.splice(getNearestIndex(current, remaining), 1);
+    route.push(nearest!);
+    current = nearest!.coordinates;
+  }
+
+  // 2-opt: reverse route[i..k] when that shortens the legs around it
+  const pointAt = (index: number): Coordinates | undefined =>
+    index < 0 ? start : route[index]?.coordinates;
+  const legKm = (from: Coordinates | undefined, to: Coordinates | undefined) =>
+    from && to ? getDistanceKm(from, to) : 0;
+
+  for (let pass = 0, improved = true; improved && pass < MAX_IMPROVEMENT_PASSES; pass += 1) {
+    improved = false;
+    for (let i = start ? 0 : 1; i < route.length - 1; i += 1) {
+      for (let k = i + 1; k < route.length; k += 1) {
+        const before = legKm(pointAt(i - 1), pointAt(i)) + legKm(pointAt(k), pointAt(k + 1));
+        const after = legKm(pointAt(i - 1), pointAt(k)) + legKm(pointAt(i), pointAt(k + 1));
+        if (after < before - 1e-9) {
+          route.splice(i, k - i + 1, ...route.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return route;
+}
@@ -0,0 +1,97 @@
+// Standing order scheduling helpers
+
+import {
+  CreateOrderRequest,
+  StandingOrder,
+  StandingOrderItem,
+  StandingOrderOccurrence,
+  Weekday,
+} from '@/types';
+import { DateFormatter } from './formatters';
+
+// Parse a yyyy-MM-dd string as local midnight (new Date('yyyy-MM-dd') is UTC)
+function parseLocalDate(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00`);
+}
+
+/**
+ * Apply the one-off quantity overrides saved for a date. Items overridden to
+ * zero are left out of that day's order.
+ */
+export function applyQuantityOverrides(
+  items: StandingOrderItem[],
+  overrides: Record<string, number> = {}
+): StandingOrderItem[] {
+  return items
+    .map(item => {
+      const override = overrides[item.listing.id];
+      return override === undefined ? item : { ...item, quantity: override };
+    })
+    .filter(item => item.quantity > 0);
+}
+
+/**
+ * Expand active standing orders into the deliveries scheduled over the next
+ * `days` days (starting today), sorted by date.
+ */
+export function getUpcomingOccurrences(
+  standingOrders: StandingOrder[],
+  days: number,
+  from: Date = new Date()
+): StandingOrderOccurrence[] {
+  const occurrences: StandingOrderOccurrence[] = [];
+
+  for (let offset = 0; offset < days; offset += 1) {
+    const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    const date = DateFormatter.toDateInputValue(day);
+    const weekday = day.getDay() as Weekday;
+
+    standingOrders.forEach(standingOrder => {
+      if (!standingOrder.isActive || !standingOrder.schedule.includes(weekday)) return;
+      if (parseLocalDate(standingOrder.startDate) > day) return;
+      if (standingOrder.endDate && parseLocalDate(standingOrder.endDate) < day) {
+        return;
+      }
+
+      const exception = standingOrder.exceptions.find(entry => entry.date === date);
+      const overrides = exception?.quantityOverrides || {};
+
+      occurrences.push({
+        standingOrder,
+        date,
+        items: applyQuantityOverrides(standingOrder.items, overrides),
+        skipped: !!exception?.skipped,
+        hasOverrides: Object.keys(overrides).length > 0,
+        ...(exception?.orderId && { orderId: exception.orderId }),
+      });
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Build the order request for one scheduled delivery.
+ */
+export function buildStandingOrderRequest(occurrence: StandingOrderOccurrence): CreateOrderRequest {
+  const { standingOrder } = occurrence;
+
+  return {
+    items: occurrence.items.map(item => ({
+      listing: item.listing.id,
+      quantity: item.quantity,
+      unitPrice: item.listing.price,
+      ...(item.notes && { notes: item.notes }),
+    })),
+    ...(standingOrder.branch && { branch: standingOrder.branch }),
+    deliveryAddress: standingOrder.deliveryAddress,
+    ...(standingOrder.savedAddress && { savedAddress: standingOrder.savedAddress }),
+    ...(standingOrder.deliveryNotes && { deliveryNotes: standingOrder.deliveryNotes }),
+    deliveryDate: occurrence.date,
+    deliveryTimeSlot: standingOrder.deliveryTimeSlot,
+    ...(standingOrder.paymentMethod && { paymentMethod: standingOrder.paymentMethod }),
+    notes: [`Standing order: ${standingOrder.name}`, standingOrder.notes]
+      .filter(Boolean)
+      .join(' - '),
+  };
+}
@@ -1,50 +1,127 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 import { resolve } from 'path';
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  resolve: {
-    alias: {
-      '@': resolve(__dirname, './src'),
-      '@/components': resolve(__dirname, './src/components'),
-      '@/pages': resolve(__dirname, './src/pages'),
-      '@/hooks': resolve(__dirname, './src/hooks'),
-      '@/stores': resolve(__dirname, './src/stores'),
-      '@/services': resolve(__dirname, './src/services'),
-      '@/types': resolve(__dirname, './src/types'),
-      '@/utils': resolve(__dirname, './src/utils'),
-      '@/constants': resolve(__dirname, './src/constants'),
-      '@/styles': resolve(__dirname, './src/styles'),
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '');
+  // Tiles are only kept offline from a self-hosted server; the OpenStreetMap tile policy forbids bulk caching
+  const tileOrigin = env.VITE_MAP_TILE_URL ? new URL(env.VITE_MAP_TILE_URL).origin : undefined;
+
+  return {
+    plugins: [
+      react(),
+      // Installable app shell; the service worker is only built when VITE_ENABLE_PWA is set
+      VitePWA({
+        disable: env.VITE_ENABLE_PWA !== 'true',
+        // The app asks before activating a new version (see PwaUpdatePrompt)
+        registerType: 'prompt',
+        injectRegister: false,
+        includeAssets: ['icons/*.svg'],
+        manifest: {
+          name: 'Aaroth Fresh',
+          short_name: 'Aaroth',
+          description: 'B2B marketplace connecting local vegetable vendors with restaurants',
+          theme_color: '#006A4E',
+          background_color: '#FFFFFF',
+          display: 'standalone',
+          orientation: 'portrait',
+          scope: '/',
+          start_url: '/dashboard',
+          icons: [
+            { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+            {
+              src: '/icons/icon-maskable.svg',
+              sizes: 'any',
+              type: 'image/svg+xml',
+              purpose: 'maskable',
+            },
+          ],
+        },
+        workbox: {
+          // Precache the app shell; every client route is served from index.html
+          globPatterns: ['**/*.{js,css,html,svg,woff2}'],
+          navigateFallback: 'index.html',
+          navigateFallbackDenylist: [/^\/api\//],
+          cleanupOutdatedCaches: true,
+          runtimeCaching: [
+            ...(tileOrigin
+              ? [
+                  {
+                    // Map tiles rarely change; keep them so route maps work offline
+                    urlPattern: ({ url }: { url: URL }) => url.origin === tileOrigin,
+                    handler: 'CacheFirst' as const,
+                    options: {
+                      cacheName: 'map-tiles',
+                      expiration: {
+                        maxEntries: 2000,
+                        maxAgeSeconds: 30 * 24 * 60 * 60, // 30 days
+                      },
+                      cacheableResponse: { statuses: [0, 200] },
+                    },
+                  },
+                ]
+              : []),
+            {
+              // Listing photos: show the cached copy at once and refresh it in the background
+              urlPattern: ({ request }) => request.destination === 'image',
+              handler: 'StaleWhileRevalidate',
+              options: {
+                cacheName: 'listing-images',
+                expiration: {
+                  maxEntries: 300,
+                  maxAgeSeconds: 7 * 24 * 60 * 60, // 7 days
+                },
+                // Opaque cross-origin responses may be error pages and count heavily against quota
+                cacheableResponse: { statuses: [200] },
+              },
+            },
+          ],
+        },
+      }),
+    ],
+    resolve: {
+      alias: {
+        '@': resolve(__dirname, './src'),
+        '@/components': resolve(__dirname, './src/components'),
+        '@/pages': resolve(__dirname, './src/pages'),
+        '@/hooks': resolve(__dirname, './src/hooks'),
+        '@/stores': resolve(__dirname, './src/stores'),
+        '@/services': resolve(__dirname, './src/services'),
+        '@/types': resolve(__dirname, './src/types'),
+        '@/utils': resolve(__dirname, './src/utils'),
+        '@/constants': resolve(__dirname, './src/constants'),
+        '@/styles': resolve(__dirname, './src/styles'),
+      },
     },
-  },
-  server: {
-    port: 3000,
-    host: true,
-    open: true,
-  },
-  preview: {
-    port: 3001,
-    host: true,
-  },
-  build: {
-    outDir: 'dist',
-    sourcemap: true,
-    rollupOptions: {
-      output: {
-        manualChunks: {
-          vendor: ['react', 'react-dom'],
-          router: ['react-router-dom'],
-          state: ['zustand', '@tanstack/react-query'],
-          forms: ['react-hook-form', '@hookform/resolvers', 'zod'],
-          http: ['axios'],
-          animation: ['framer-motion'],
+    server: {
+      port: 3000,
+      host: true,
+      open: true,
+    },
+    preview: {
+      port: 3001,
+      host: true,
+    },
+    build: {
+      outDir: 'dist',
+      sourcemap: true,
+      rollupOptions: {
+        output: {
+          manualChunks: {
+            vendor: ['react', 'react-dom'],
+            router: ['react-router-dom'],
+            state: ['zustand', '@tanstack/react-query'],
+            forms: ['react-hook-form', '@hookform/resolvers', 'zod'],
+            http: ['axios'],
+            animation: ['framer-motion'],
+          },
         },
       },
     },
-  },
-  define: {
-    __APP_VERSION__: JSON.stringify(process.env.npm_package_version),
-  },
-});
\ No newline at end of file
+    define: {
+      __APP_VERSION__: JSON.stringify(process.env.npm_package_version),
+    },
+  };
+});